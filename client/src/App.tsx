@@ -15,9 +15,15 @@ import { Loader2, Shield } from "lucide-react";
 
 import { AuthProvider, useAuth } from "@/hooks/useAuth";
 import { NotificationProvider } from "@/hooks/useNotifications";
+import { RealtimeProvider, useRealtimeEvent } from "@/hooks/useRealtime";
+import { useGameCatalog } from "@/hooks/useGameCatalog";
+import { useDownloadManager } from "@/hooks/useDownloadManager";
+import { useLibrary } from "@/hooks/useLibrary";
+import { useGameSession, type SessionEndReason } from "@/hooks/useGameSession";
 import NexarSidebar, { type NavPage } from "@/components/nexar/NexarSidebar";
 import GameDetailsModal from "@/components/nexar/GameDetailsModal";
 import UpdateChecker from "@/components/nexar/UpdateChecker";
+import NowPlayingBar from "@/components/nexar/NowPlayingBar";
 import type { Game } from "@/components/nexar/GameCard";
 import type { DownloadInfo } from "@/components/nexar/DownloadItem";
 
@@ -31,6 +37,7 @@ import RegisterPage from "@/pages/RegisterPage";
 import ProfilePage from "@/pages/ProfilePage";
 import FriendsPage from "@/pages/FriendsPage";
 import MessagesPage from "@/pages/MessagesPage";
+import PublicProfilePage from "@/pages/PublicProfilePage";
 import AchievementsPage from "@/pages/AchievementsPage";
 import CloudSavesPage from "@/pages/CloudSavesPage";
 import WalletPage from "@/pages/WalletPage";
@@ -42,32 +49,6 @@ import DeveloperApplyPage from "@/pages/DeveloperApplyPage";
 import DeveloperPortalPage from "@/pages/DeveloperPortalPage";
 import GameEditorPage from "@/pages/GameEditorPage";
 
-const mockLibraryGames: Game[] = [
-  { id: "lib-1", title: "Cyber Assault 2087", isInstalled: true, playTime: 245, size: "45.2 GB", genre: "Action RPG", rating: 4.5, contentRating: "M" },
-  { id: "lib-2", title: "Stellar Odyssey", isInstalled: true, playTime: 180, size: "32.1 GB", genre: "Adventure", rating: 4.2, contentRating: "E" },
-  { id: "lib-3", title: "Shadow Protocol", isInstalled: true, playTime: 92, size: "28.7 GB", genre: "Stealth", rating: 4.7, contentRating: "T" },
-  { id: "lib-4", title: "Neon Drift", isInstalled: true, playTime: 45, size: "18.5 GB", genre: "Racing", rating: 4.0, contentRating: "E" },
-  { id: "lib-5", title: "Arctic Siege", isInstalled: true, playTime: 210, size: "52.3 GB", genre: "FPS", rating: 4.3, contentRating: "M" },
-  { id: "lib-6", title: "Phantom Blade", isInstalled: true, playTime: 156, size: "41.0 GB", genre: "Action", rating: 4.6, contentRating: "18+" },
-];
-
-const mockStoreGames: Game[] = [
-  { id: "store-1", title: "Galactic Frontier", isInstalled: false, size: "58.2 GB", genre: "Adventure", rating: 4.8, contentRating: "T" },
-  { id: "store-2", title: "Dragon's Legacy", isInstalled: false, size: "72.5 GB", genre: "RPG", rating: 4.9, contentRating: "M" },
-  { id: "store-3", title: "Urban Legends", isInstalled: false, size: "35.8 GB", genre: "Action", rating: 4.1, contentRating: "M" },
-  { id: "store-4", title: "Quantum Break", isInstalled: false, size: "44.6 GB", genre: "Adventure", rating: 4.4, contentRating: "T" },
-  { id: "store-5", title: "Warzone Elite", isInstalled: false, size: "89.2 GB", genre: "FPS", rating: 4.2, contentRating: "18+" },
-  { id: "store-6", title: "Speed Kings", isInstalled: false, size: "25.3 GB", genre: "Racing", rating: 3.9, contentRating: "E" },
-  { id: "store-7", title: "Empire Builder", isInstalled: false, size: "15.8 GB", genre: "Strategy", rating: 4.5, contentRating: "E" },
-  { id: "store-8", title: "Championship 2025", isInstalled: false, size: "48.1 GB", genre: "Sports", rating: 4.0, contentRating: "E" },
-];
-
-const mockFeaturedGames: Game[] = [
-  { id: "feat-1", title: "Neon Uprising", genre: "Cyberpunk Action RPG", isInstalled: false, rating: 4.9, contentRating: "M" },
-  { id: "feat-2", title: "Galactic Frontier", genre: "Space Exploration", isInstalled: false, rating: 4.8, contentRating: "T" },
-  { id: "feat-3", title: "Phantom Strike", genre: "Tactical Shooter", isInstalled: true, rating: 4.7, contentRating: "M" },
-];
-
 function AuthWrapper({ children }: { children: React.ReactNode }) {
   const { isLoading, isAuthenticated } = useAuth();
   const [location] = useLocation();
@@ -100,43 +81,19 @@ function AuthWrapper({ children }: { children: React.ReactNode }) {
 
 function NexarOS() {
   const { toast } = useToast();
-  const { user, logout, token } = useAuth();
+  const { user, logout, token, updateUser } = useAuth();
   const [currentPage, setCurrentPage] = useState<NavPage>("home");
-  const [libraryGames, setLibraryGames] = useState<Game[]>(mockLibraryGames);
+  const { games: libraryGames, markInstalled, uninstall } = useLibrary(!!token);
+  const { featuredGames } = useGameCatalog();
   const [pendingFriendRequests, setPendingFriendRequests] = useState<number>(0);
+  const [unreadMessages, setUnreadMessages] = useState<number>(0);
   const [walletBalance, setWalletBalance] = useState<number | undefined>(undefined);
-  const [downloads, setDownloads] = useState<DownloadInfo[]>([
-    { 
-      id: "dl-1", 
-      title: "Cyber Assault 2087 Update", 
-      isInstalled: false, 
-      downloadProgress: 67, 
-      downloadSpeed: "45.2 MB/s", 
-      timeRemaining: "12 min", 
-      status: "downloading",
-      size: "4.5 GB"
-    },
-    {
-      id: "dl-2",
-      title: "Stellar Odyssey DLC",
-      isInstalled: false,
-      downloadProgress: 34,
-      status: "paused",
-      size: "8.2 GB"
-    },
-    {
-      id: "dl-3",
-      title: "Neon Drift",
-      isInstalled: true,
-      downloadProgress: 100,
-      status: "completed",
-      size: "18.5 GB"
-    }
-  ]);
   const [selectedGame, setSelectedGame] = useState<Game | null>(null);
   const [showUpdateChecker, setShowUpdateChecker] = useState(false);
   const [developerView, setDeveloperView] = useState<"portal" | "editor" | null>(null);
   const [editingGameId, setEditingGameId] = useState<string | undefined>(undefined);
+  // Another user's profile, opened on top of the page that linked to it
+  const [viewingProfileId, setViewingProfileId] = useState<string | null>(null);
   const [parentalBlockModal, setParentalBlockModal] = useState(false);
   const [parentalBlockReason, setParentalBlockReason] = useState("");
   const [pendingPlayGame, setPendingPlayGame] = useState<Game | null>(null);
@@ -148,6 +105,7 @@ function NexarOS() {
       setDeveloperView(null);
       setEditingGameId(undefined);
     }
+    setViewingProfileId(null);
     setCurrentPage(page);
   }, []);
 
@@ -158,71 +116,159 @@ function NexarOS() {
     return () => clearTimeout(timer);
   }, []);
 
-  useEffect(() => {
+  const fetchPendingRequests = useCallback(async () => {
     if (!token) return;
-    
-    const fetchPendingRequests = async () => {
-      try {
-        const response = await fetch("/api/friends/requests", {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        if (response.ok) {
-          const requests = await response.json();
-          setPendingFriendRequests(requests.length);
-        }
-      } catch (error) {
-        console.error("Failed to fetch friend requests:", error);
+    try {
+      const response = await fetch("/api/friends/requests", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (response.ok) {
+        const requests = await response.json();
+        setPendingFriendRequests(requests.length);
       }
-    };
+    } catch (error) {
+      console.error("Failed to fetch friend requests:", error);
+    }
+  }, [token]);
 
-    fetchPendingRequests();
-    const interval = setInterval(fetchPendingRequests, 30000);
-    return () => clearInterval(interval);
+  const fetchUnreadMessages = useCallback(async () => {
+    if (!token) return;
+    try {
+      const response = await fetch("/api/messages/unread-count", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setUnreadMessages(data.total);
+      }
+    } catch (error) {
+      console.error("Failed to fetch unread messages:", error);
+    }
   }, [token]);
 
-  useEffect(() => {
+  const fetchWalletBalance = useCallback(async () => {
     if (!token) return;
-    
-    const fetchWalletBalance = async () => {
-      try {
-        const response = await fetch("/api/wallet", {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        if (response.ok) {
-          const data = await response.json();
-          setWalletBalance(data.balance);
-        }
-      } catch (error) {
-        console.error("Failed to fetch wallet balance:", error);
+    try {
+      const response = await fetch("/api/wallet", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setWalletBalance(data.balance);
       }
-    };
+    } catch (error) {
+      console.error("Failed to fetch wallet balance:", error);
+    }
+  }, [token]);
 
+  // "ready" fires on every (re)connect, covering anything missed while offline
+  useRealtimeEvent("ready", () => {
+    fetchPendingRequests();
+    fetchUnreadMessages();
     fetchWalletBalance();
-    const interval = setInterval(fetchWalletBalance, 60000);
-    return () => clearInterval(interval);
-  }, [token]);
+  });
+  useRealtimeEvent("friend:request", fetchPendingRequests);
+  useRealtimeEvent("friend:accepted", fetchPendingRequests);
+  useRealtimeEvent("message:new", ({ message }) => {
+    if (message.toId === user?.id) fetchUnreadMessages();
+  });
+  useRealtimeEvent("message:read", ({ readerId }) => {
+    if (readerId === user?.id) fetchUnreadMessages();
+  });
+  useRealtimeEvent("group:message", ({ message }) => {
+    if (message.kind === "text" && message.fromId !== user?.id) fetchUnreadMessages();
+  });
+  useRealtimeEvent("group:read", fetchUnreadMessages);
+  useRealtimeEvent("group:removed", fetchUnreadMessages);
+  useRealtimeEvent("wallet:balance", ({ balance }) => setWalletBalance(balance));
+  useRealtimeEvent("progression:updated", ({ leveledUp, ...progression }) => {
+    if (user) updateUser({ ...user, progression });
+    if (leveledUp) {
+      toast({ title: `Level ${progression.level} reached`, description: "Keep playing to earn more XP." });
+    }
+  });
+  useRealtimeEvent("moderation:action", ({ action, reason, expiresAt }) => {
+    const titles = {
+      warn: "You have received a warning",
+      suspend: "Your account has been suspended",
+      clear_avatar: "Your profile picture was removed",
+      clear_bio: "Your bio was removed",
+    };
+    const details = [
+      reason,
+      action === "suspend" && expiresAt ? `Until ${new Date(expiresAt).toLocaleString()}` : "",
+    ].filter(Boolean).join(" · ");
+    toast({
+      title: titles[action],
+      description: details || "A moderator reviewed a report about your account.",
+      variant: "destructive",
+    });
+  });
 
   useEffect(() => {
-    const interval = setInterval(() => {
-      setDownloads(prev => prev.map(d => {
-        if (d.status === "downloading" && d.downloadProgress < 100) {
-          const newProgress = Math.min(d.downloadProgress + Math.random() * 5, 100);
-          if (newProgress >= 100) {
-            return { ...d, downloadProgress: 100, status: "completed" as const, isInstalled: true };
-          }
-          return { ...d, downloadProgress: newProgress };
-        }
-        return d;
-      }));
-    }, 1000);
-    return () => clearInterval(interval);
-  }, []);
+    fetchPendingRequests();
+    fetchUnreadMessages();
+    fetchWalletBalance();
+  }, [fetchPendingRequests, fetchUnreadMessages, fetchWalletBalance]);
+
+  const {
+    downloads,
+    blockedReason: downloadsBlockedReason,
+    enqueue: enqueueDownload,
+    pause: pauseDownload,
+    resume: resumeDownload,
+    remove: removeDownload,
+    pauseAll: handlePauseAll,
+    resumeAll: handleResumeAll,
+    reorder: handleReorderDownload,
+  } = useDownloadManager({
+    onCompleted: (job) => {
+      markInstalled(job.gameId).catch(error => {
+        console.error("Failed to record install:", error);
+      });
+      toast({
+        title: "Download Complete",
+        description: `${job.title} is ready to play`,
+      });
+    },
+    onError: (job, message) => {
+      toast({
+        title: "Download Paused",
+        description: `${job.title}: ${message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSessionEnded = useCallback((game: Game, reason: SessionEndReason) => {
+    if (reason === "trial_expired") {
+      toast({ title: "Trial Ended", description: `Your ${game.title} trial has expired. Purchase the game to keep playing.` });
+    } else if (reason === "limit_reached") {
+      toast({ title: "Playtime Limit Reached", description: "Today's parental playtime limit has been reached.", variant: "destructive" });
+    } else if (reason === "lost") {
+      toast({ title: "Session Ended", description: `Your ${game.title} session timed out.` });
+    }
+  }, [toast]);
 
-  const handlePlayGame = useCallback(async (game: Game) => {
-    if (!token) {
-      toast({ title: "Launching Game", description: `Starting ${game.title}...` });
-      return;
+  const { activeSession, startSession, endSession } = useGameSession(handleSessionEnded);
+
+  const launchGame = useCallback(async (game: Game) => {
+    try {
+      const session = await startSession(game);
+      if (session) {
+        toast({ title: "Launching Game", description: `Starting ${game.title}...` });
+      }
+    } catch (error) {
+      toast({
+        title: "Unable to Launch",
+        description: error instanceof Error ? error.message : `${game.title} could not be started`,
+        variant: "destructive",
+      });
     }
+  }, [startSession, toast]);
+
+  const handlePlayGame = useCallback(async (game: Game) => {
+    if (!token) return;
     
     try {
       const response = await fetch("/api/parental/checkAccess", {
@@ -241,37 +287,38 @@ function NexarOS() {
         setParentalBlockModal(true);
         return;
       }
-      
-      toast({ title: "Launching Game", description: `Starting ${game.title}...` });
-      console.log("Playing:", game.title);
     } catch (error) {
-      toast({ title: "Launching Game", description: `Starting ${game.title}...` });
+      console.error("Failed to check parental access:", error);
     }
-  }, [toast, token]);
+
+    await launchGame(game);
+  }, [token, launchGame]);
 
   const handleInstallGame = useCallback((game: Game) => {
-    const newDownload: DownloadInfo = {
-      ...game,
-      downloadProgress: 0,
-      downloadSpeed: "Starting...",
-      timeRemaining: "Calculating...",
-      status: "downloading",
-    };
-    setDownloads(prev => [...prev, newDownload]);
+    enqueueDownload(game);
     toast({
       title: "Download Started",
       description: `${game.title} has been added to downloads`,
     });
     setCurrentPage("downloads");
-  }, [toast]);
+  }, [toast, enqueueDownload]);
 
-  const handleDeleteGame = useCallback((game: Game) => {
-    setLibraryGames(prev => prev.filter(g => g.id !== game.id));
-    toast({
-      title: "Game Removed",
-      description: `${game.title} has been uninstalled`,
-    });
-  }, [toast]);
+  const handleDeleteGame = useCallback(async (game: Game) => {
+    try {
+      await uninstall(game.id);
+      removeDownload(game.id);
+      toast({
+        title: "Game Removed",
+        description: `${game.title} has been uninstalled`,
+      });
+    } catch (error) {
+      toast({
+        title: "Uninstall Failed",
+        description: `${game.title} could not be uninstalled`,
+        variant: "destructive",
+      });
+    }
+  }, [toast, uninstall, removeDownload]);
 
   const handleViewGameDetails = useCallback((game: Game) => {
     setSelectedGame(game);
@@ -297,8 +344,7 @@ function NexarOS() {
         setOverridePin("");
         setParentalBlockReason("");
         setPendingPlayGame(null);
-        toast({ title: "Launching Game", description: `Starting ${gameToLaunch.title}...` });
-        console.log("Playing (override):", gameToLaunch.title);
+        await launchGame(gameToLaunch);
       } else {
         const data = await response.json();
         toast({ title: "Access Denied", description: data.message || "Invalid PIN", variant: "destructive" });
@@ -308,55 +354,43 @@ function NexarOS() {
     } finally {
       setOverrideLoading(false);
     }
-  }, [token, pendingPlayGame, overridePin, toast]);
+  }, [token, pendingPlayGame, overridePin, toast, launchGame]);
 
   const handlePauseDownload = useCallback((download: DownloadInfo) => {
-    setDownloads(prev => prev.map(d => 
-      d.id === download.id ? { ...d, status: "paused" as const } : d
-    ));
-  }, []);
+    pauseDownload(download.id);
+  }, [pauseDownload]);
 
   const handleResumeDownload = useCallback((download: DownloadInfo) => {
-    setDownloads(prev => prev.map(d => 
-      d.id === download.id ? { ...d, status: "downloading" as const } : d
-    ));
-  }, []);
+    resumeDownload(download.id);
+  }, [resumeDownload]);
 
   const handleCancelDownload = useCallback((download: DownloadInfo) => {
-    setDownloads(prev => prev.filter(d => d.id !== download.id));
+    removeDownload(download.id);
     toast({
       title: "Download Cancelled",
       description: `${download.title} download has been cancelled`,
     });
-  }, [toast]);
-
-  const handlePauseAll = useCallback(() => {
-    setDownloads(prev => prev.map(d => 
-      d.status === "downloading" ? { ...d, status: "paused" as const } : d
-    ));
-  }, []);
-
-  const handleResumeAll = useCallback(() => {
-    setDownloads(prev => prev.map(d => 
-      d.status === "paused" ? { ...d, status: "downloading" as const } : d
-    ));
-  }, []);
+  }, [toast, removeDownload]);
 
   const activeDownloadCount = downloads.filter(d => 
     d.status === "downloading" || d.status === "paused" || d.status === "queued"
   ).length;
 
   const recentGames = libraryGames
-    .filter(g => g.isInstalled && g.playTime && g.playTime > 0)
-    .sort((a, b) => (b.playTime || 0) - (a.playTime || 0))
+    .filter(g => g.lastPlayedAt)
+    .sort((a, b) => new Date(b.lastPlayedAt!).getTime() - new Date(a.lastPlayedAt!).getTime())
     .slice(0, 6);
 
   const renderPage = () => {
+    if (viewingProfileId) {
+      return <PublicProfilePage userId={viewingProfileId} onBack={() => setViewingProfileId(null)} />;
+    }
+
     switch (currentPage) {
       case "home":
         return (
           <HomePage
-            featuredGames={mockFeaturedGames}
+            featuredGames={featuredGames}
             recentGames={recentGames}
             onNavigate={setCurrentPage}
             onPlayGame={handlePlayGame}
@@ -368,6 +402,7 @@ function NexarOS() {
           <LibraryPage
             games={libraryGames}
             onPlayGame={handlePlayGame}
+            onInstallGame={handleInstallGame}
             onDeleteGame={handleDeleteGame}
             onViewGameDetails={handleViewGameDetails}
           />
@@ -375,8 +410,7 @@ function NexarOS() {
       case "store":
         return (
           <StorePage
-            storeGames={mockStoreGames}
-            featuredGames={mockFeaturedGames}
+            featuredGames={featuredGames}
             onInstallGame={handleInstallGame}
             onViewGameDetails={handleViewGameDetails}
           />
@@ -385,6 +419,8 @@ function NexarOS() {
         return (
           <DownloadsPage
             downloads={downloads}
+            blockedReason={downloadsBlockedReason}
+            onReorder={handleReorderDownload}
             onPause={handlePauseDownload}
             onResume={handleResumeDownload}
             onCancel={handleCancelDownload}
@@ -398,9 +434,9 @@ function NexarOS() {
       case "profile":
         return <ProfilePage />;
       case "friends":
-        return <FriendsPage />;
+        return <FriendsPage onViewProfile={setViewingProfileId} />;
       case "messages":
-        return <MessagesPage />;
+        return <MessagesPage onViewProfile={setViewingProfileId} />;
       case "achievements":
         return <AchievementsPage />;
       case "cloud":
@@ -444,8 +480,9 @@ function NexarOS() {
         onNavigate={handleNavigate}
         downloadCount={activeDownloadCount}
         pendingFriendRequests={pendingFriendRequests}
+        unreadMessages={unreadMessages}
         walletBalance={walletBalance}
-        user={user ? { username: user.username, avatarUrl: user.avatarUrl } : null}
+        user={user ? { username: user.username, avatarUrl: user.avatarUrl, progression: user.progression } : null}
         onLogout={logout}
       />
 
@@ -453,7 +490,7 @@ function NexarOS() {
         <ScrollArea className="h-full">
           <AnimatePresence mode="wait">
             <motion.div
-              key={currentPage}
+              key={viewingProfileId ? `profile-${viewingProfileId}` : currentPage}
               initial={{ opacity: 0, x: 20 }}
               animate={{ opacity: 1, x: 0 }}
               exit={{ opacity: 0, x: -20 }}
@@ -474,6 +511,12 @@ function NexarOS() {
         onDelete={handleDeleteGame}
       />
 
+      <AnimatePresence>
+        {activeSession && (
+          <NowPlayingBar session={activeSession} onQuit={endSession} />
+        )}
+      </AnimatePresence>
+
       {showUpdateChecker && (
         <UpdateChecker
           currentVersion="1.0.0"
@@ -544,9 +587,11 @@ function NexarOS() {
 function NotificationWrapper({ children }: { children: React.ReactNode }) {
   const { user, token } = useAuth();
   return (
-    <NotificationProvider userId={user?.id} token={token}>
-      {children}
-    </NotificationProvider>
+    <RealtimeProvider token={token}>
+      <NotificationProvider userId={user?.id}>
+        {children}
+      </NotificationProvider>
+    </RealtimeProvider>
   );
 }
 
@@ -0,0 +1,139 @@
+import { Loader2, Monitor, Cloud, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatBytes } from "@/lib/format";
+
+export interface CloudSaveVersion {
+  filename: string;
+  sizeBytes?: number;
+  deviceName: string | null;
+  modifiedAt: string;
+  revision?: number;
+}
+
+export interface CloudSaveConflict {
+  saveId: string;
+  gameId: string;
+  // Null when the conflicting write only renamed the save
+  local: CloudSaveVersion & { file: File | null };
+  cloud: CloudSaveVersion & { revision: number };
+}
+
+export type ConflictResolution = "local" | "cloud" | "both";
+
+interface CloudSaveConflictDialogProps {
+  conflict: CloudSaveConflict | null;
+  resolving: ConflictResolution | null;
+  onResolve: (resolution: ConflictResolution) => void;
+  onClose: () => void;
+}
+
+function VersionCard({ label, icon: Icon, version, isNewer }: {
+  label: string;
+  icon: typeof Cloud;
+  version: CloudSaveVersion;
+  isNewer: boolean;
+}) {
+  return (
+    <div className="flex-1 p-4 rounded-xl bg-[#111111] border border-[#2A2A2A] space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-[#EAEAEA] font-medium">
+          <Icon className="w-4 h-4 text-[#d00024]" />
+          {label}
+        </div>
+        {isNewer && <span className="text-xs text-[#d00024]">Newer</span>}
+      </div>
+      <dl className="space-y-1 text-sm">
+        <div className="flex justify-between gap-2">
+          <dt className="text-[#A3A3A3]">Modified</dt>
+          <dd className="text-[#EAEAEA]">{new Date(version.modifiedAt).toLocaleString()}</dd>
+        </div>
+        <div className="flex justify-between gap-2">
+          <dt className="text-[#A3A3A3]">Size</dt>
+          <dd className="text-[#EAEAEA]">{version.sizeBytes !== undefined ? formatBytes(version.sizeBytes) : "Unknown"}</dd>
+        </div>
+        <div className="flex justify-between gap-2">
+          <dt className="text-[#A3A3A3]">Device</dt>
+          <dd className="text-[#EAEAEA] truncate">{version.deviceName || "Unknown device"}</dd>
+        </div>
+        {version.revision !== undefined && (
+          <div className="flex justify-between gap-2">
+            <dt className="text-[#A3A3A3]">Revision</dt>
+            <dd className="text-[#EAEAEA]">{version.revision}</dd>
+          </div>
+        )}
+      </dl>
+    </div>
+  );
+}
+
+export default function CloudSaveConflictDialog({
+  conflict,
+  resolving,
+  onResolve,
+  onClose,
+}: CloudSaveConflictDialogProps) {
+  const localIsNewer = conflict
+    ? new Date(conflict.local.modifiedAt).getTime() >= new Date(conflict.cloud.modifiedAt).getTime()
+    : false;
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={(open) => !open && !resolving && onClose()}>
+      <DialogContent className="bg-[#1A1A1A] border-[#2A2A2A] text-[#EAEAEA] max-w-2xl" data-testid="dialog-save-conflict">
+        <DialogHeader>
+          <DialogTitle className="text-[#EAEAEA]">Save Conflict</DialogTitle>
+          <DialogDescription className="text-[#A3A3A3]">
+            {conflict?.cloud.filename} was changed on another device after you started editing it.
+            Choose which version to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflict && (
+          <div className="flex flex-col sm:flex-row gap-4">
+            <VersionCard label="This Device" icon={Monitor} version={conflict.local} isNewer={localIsNewer} />
+            <VersionCard label="Cloud" icon={Cloud} version={conflict.cloud} isNewer={!localIsNewer} />
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-2">
+          <Button
+            variant="ghost"
+            onClick={() => onResolve("both")}
+            disabled={!!resolving || !conflict?.local.file}
+            data-testid="button-keep-both"
+            className="text-[#A3A3A3] hover:text-[#EAEAEA] hover:bg-[#2A2A2A]"
+          >
+            {resolving === "both" ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+            Keep Both
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => onResolve("cloud")}
+            disabled={!!resolving}
+            data-testid="button-keep-cloud"
+            className="border-[#333333] bg-transparent text-[#EAEAEA] hover:bg-[#2A2A2A]"
+          >
+            <Cloud className="w-4 h-4 mr-2" />
+            Keep Cloud
+          </Button>
+          <Button
+            onClick={() => onResolve("local")}
+            disabled={!!resolving}
+            data-testid="button-keep-local"
+            className="bg-[#d00024] hover:bg-[#b0001e] text-white"
+          >
+            {resolving === "local" ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Monitor className="w-4 h-4 mr-2" />}
+            Keep Local
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState, useEffect } from "react";
+import { Loader2, Users } from "lucide-react";
+import { useApi } from "@/hooks/useApi";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface Friend {
+  id: string;
+  username: string;
+  avatarUrl: string;
+}
+
+interface FriendPickerProps {
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+  // Friends already in the group are hidden
+  excludeIds?: string[];
+}
+
+export function FriendPicker({ selectedIds, onChange, excludeIds = [] }: FriendPickerProps) {
+  const { get } = useApi();
+  const [friends, setFriends] = useState<Friend[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    get<Friend[]>("/api/friends")
+      .then(setFriends)
+      .catch(() => setFriends([]))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const available = friends.filter((friend) => !excludeIds.includes(friend.id));
+
+  const toggle = (id: string) => {
+    onChange(selectedIds.includes(id) ? selectedIds.filter((s) => s !== id) : [...selectedIds, id]);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-5 h-5 animate-spin text-[#d00024]" />
+      </div>
+    );
+  }
+
+  if (available.length === 0) {
+    return <p className="text-center py-6 text-sm text-[#A3A3A3]">No friends to add</p>;
+  }
+
+  return (
+    <div className="max-h-64 overflow-y-auto space-y-1">
+      {available.map((friend) => (
+        <label
+          key={friend.id}
+          className="flex items-center gap-3 p-2 rounded-lg hover:bg-[#2A2A2A] cursor-pointer"
+          data-testid={`friend-option-${friend.id}`}
+        >
+          <Checkbox
+            checked={selectedIds.includes(friend.id)}
+            onCheckedChange={() => toggle(friend.id)}
+            className="border-[#333333] data-[state=checked]:bg-[#d00024] data-[state=checked]:border-[#d00024]"
+          />
+          <Avatar className="w-8 h-8 border border-[#333333]">
+            <AvatarImage src={friend.avatarUrl} />
+            <AvatarFallback className="bg-[#2A2A2A] text-[#EAEAEA] text-xs">
+              {friend.username.slice(0, 2).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <span className="text-[#EAEAEA] text-sm">{friend.username}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+interface CreateGroupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (groupId: string) => void;
+}
+
+export default function CreateGroupDialog({ open, onOpenChange, onCreated }: CreateGroupDialogProps) {
+  const { post } = useApi();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setName("");
+      setMemberIds([]);
+    }
+  }, [open]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const group = await post<{ id: string }>("/api/groups", { name: name.trim(), memberIds });
+      onOpenChange(false);
+      onCreated(group.id);
+    } catch (error) {
+      toast({
+        title: "Failed to create group",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isCreating && onOpenChange(next)}>
+      <DialogContent className="bg-[#1A1A1A] border-[#2A2A2A] text-[#EAEAEA]" data-testid="dialog-create-group">
+        <DialogHeader>
+          <DialogTitle className="text-[#EAEAEA]">New Group</DialogTitle>
+          <DialogDescription className="text-[#A3A3A3]">
+            Start a party chat with your friends.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Group name"
+            maxLength={64}
+            data-testid="input-group-name"
+            className="bg-[#111111] border-[#333333] text-[#EAEAEA] focus:border-[#d00024]"
+          />
+          <FriendPicker selectedIds={memberIds} onChange={setMemberIds} />
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleCreate}
+            disabled={isCreating || !name.trim() || memberIds.length === 0}
+            data-testid="button-create-group"
+            className="bg-[#d00024] hover:bg-[#b0001e] text-white"
+          >
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Users className="w-4 h-4 mr-2" />}
+            Create Group
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
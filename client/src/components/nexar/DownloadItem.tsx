@@ -9,6 +9,7 @@ export interface DownloadInfo extends Game {
   downloadSpeed?: string;
   timeRemaining?: string;
   status: "downloading" | "paused" | "completed" | "queued";
+  error?: string;
 }
 
 interface DownloadItemProps {
@@ -51,7 +52,12 @@ export default function DownloadItem({
 
       <div className="flex-1 min-w-0 space-y-2">
         <div className="flex items-center justify-between gap-2">
-          <h4 className="font-medium text-foreground truncate">{download.title}</h4>
+          <h4 className="font-medium text-foreground truncate">
+            {download.title}
+            {download.version && (
+              <span className="ml-2 text-xs font-normal text-muted-foreground">v{download.version}</span>
+            )}
+          </h4>
           {isCompleted && (
             <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0" />
           )}
@@ -63,7 +69,7 @@ export default function DownloadItem({
             <div className="flex items-center justify-between text-xs text-muted-foreground">
               <span>
                 {isQueued && "Queued"}
-                {isPaused && "Paused"}
+                {isPaused && (download.error ? `Paused: ${download.error}` : "Paused")}
                 {isDownloading && `${download.downloadProgress}% complete`}
               </span>
               <span className="flex items-center gap-3">
@@ -93,7 +99,7 @@ export default function DownloadItem({
           </Button>
         ) : (
           <>
-            {(isDownloading || isPaused) && (
+            {(isDownloading || isPaused || isQueued) && (
               <Button
                 size="icon"
                 variant="ghost"
@@ -0,0 +1,269 @@
+import { useState, useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Trophy, Plus, Pencil, Trash2, Loader2, EyeOff, Upload, Save, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useApi } from "@/hooks/useApi";
+import { useToast } from "@/hooks/use-toast";
+
+export interface GameAchievement {
+  id: string;
+  gameId: string;
+  name: string;
+  description: string;
+  iconUrl: string;
+  hidden: boolean;
+  points: number;
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface AchievementDraft {
+  name: string;
+  description: string;
+  points: string;
+  hidden: boolean;
+  icon: File | null;
+}
+
+const EMPTY_DRAFT: AchievementDraft = { name: "", description: "", points: "10", hidden: false, icon: null };
+
+// Achievement list and inline form for a developer's own game. Icons go up as
+// multipart, so saves use fetchWithAuth rather than apiRequest.
+export default function GameAchievementsEditor({ gameId }: { gameId: string }) {
+  const { fetchWithAuth, del } = useApi();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const iconInputRef = useRef<HTMLInputElement>(null);
+  // null: form closed, "new": adding, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<AchievementDraft>(EMPTY_DRAFT);
+
+  const queryKey = ["/api/developer/game", gameId, "achievements"];
+  const { data: achievements = [], isLoading } = useQuery<GameAchievement[]>({ queryKey });
+
+  const openForm = (achievement?: GameAchievement) => {
+    setEditingId(achievement ? achievement.id : "new");
+    setDraft(achievement
+      ? {
+          name: achievement.name,
+          description: achievement.description,
+          points: String(achievement.points),
+          hidden: achievement.hidden,
+          icon: null,
+        }
+      : EMPTY_DRAFT);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const form = new FormData();
+      form.append("name", draft.name.trim());
+      form.append("description", draft.description.trim());
+      form.append("points", draft.points);
+      form.append("hidden", String(draft.hidden));
+      if (draft.icon) form.append("icon", draft.icon);
+
+      const isNew = editingId === "new";
+      const url = isNew
+        ? `/api/developer/game/${gameId}/achievements`
+        : `/api/developer/game/${gameId}/achievements/${editingId}`;
+      const res = await fetchWithAuth(url, { method: isNew ? "POST" : "PATCH", body: form });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.message || "Failed to save achievement");
+      return data as GameAchievement;
+    },
+    onSuccess: () => {
+      toast({ title: editingId === "new" ? "Achievement added" : "Achievement updated" });
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save achievement", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (achievementId: string) => del(`/api/developer/game/${gameId}/achievements/${achievementId}`),
+    onSuccess: () => {
+      toast({ title: "Achievement deleted" });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete achievement", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const totalPoints = achievements.reduce((sum, achievement) => sum + achievement.points, 0);
+
+  return (
+    <Card className="mt-6" data-testid="card-game-achievements">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Trophy className="w-5 h-5 text-primary" />
+            Achievements
+          </CardTitle>
+          <CardDescription>
+            {achievements.length} achievement{achievements.length === 1 ? "" : "s"} · {totalPoints} points.
+            Your game unlocks these during a play session.
+          </CardDescription>
+        </div>
+        {editingId === null && (
+          <Button size="sm" onClick={() => openForm()} data-testid="button-add-achievement">
+            <Plus className="w-4 h-4 mr-2" />
+            Add
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {editingId !== null && (
+          <div className="rounded-lg border border-border p-4 space-y-4" data-testid="form-achievement">
+            <div className="grid gap-4 md:grid-cols-[1fr_120px]">
+              <div className="space-y-2">
+                <Label htmlFor="achievement-name">Name</Label>
+                <Input
+                  id="achievement-name"
+                  value={draft.name}
+                  maxLength={100}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  data-testid="input-achievement-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="achievement-points">Points</Label>
+                <Input
+                  id="achievement-points"
+                  type="number"
+                  min="0"
+                  max="1000"
+                  value={draft.points}
+                  onChange={(e) => setDraft({ ...draft, points: e.target.value })}
+                  data-testid="input-achievement-points"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="achievement-description">Description</Label>
+              <Textarea
+                id="achievement-description"
+                value={draft.description}
+                maxLength={500}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                data-testid="input-achievement-description"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4 flex-wrap">
+              <div className="flex items-center gap-3">
+                <Switch
+                  id="achievement-hidden"
+                  checked={draft.hidden}
+                  onCheckedChange={(hidden) => setDraft({ ...draft, hidden })}
+                  data-testid="switch-achievement-hidden"
+                />
+                <Label htmlFor="achievement-hidden">Hidden until unlocked</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  ref={iconInputRef}
+                  type="file"
+                  accept="image/jpeg,image/png,image/gif,image/webp"
+                  className="hidden"
+                  onChange={(e) => setDraft({ ...draft, icon: e.target.files?.[0] || null })}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => iconInputRef.current?.click()}
+                  data-testid="button-achievement-icon"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  {draft.icon ? draft.icon.name : "Upload icon"}
+                </Button>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} disabled={saveMutation.isPending}>
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || !draft.name.trim()}
+                data-testid="button-save-achievement"
+              >
+                {saveMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : achievements.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No achievements yet</p>
+        ) : (
+          <div className="divide-y divide-border">
+            {achievements.map((achievement) => (
+              <div
+                key={achievement.id}
+                className="flex items-center gap-4 py-3"
+                data-testid={`row-achievement-${achievement.id}`}
+              >
+                {achievement.iconUrl ? (
+                  <img src={achievement.iconUrl} alt={achievement.name} className="w-12 h-12 rounded-md object-cover" />
+                ) : (
+                  <div className="w-12 h-12 rounded-md bg-muted flex items-center justify-center">
+                    <Trophy className="w-5 h-5 text-muted-foreground" />
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium truncate">{achievement.name}</p>
+                    {achievement.hidden && (
+                      <Badge variant="secondary" className="gap-1">
+                        <EyeOff className="w-3 h-3" />
+                        Hidden
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">{achievement.description}</p>
+                </div>
+                <span className="text-sm text-muted-foreground whitespace-nowrap">{achievement.points} pts</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => openForm(achievement)}
+                  disabled={editingId !== null}
+                  data-testid={`button-edit-achievement-${achievement.id}`}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(achievement.id)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-achievement-${achievement.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,254 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { KeyRound, Plus, RotateCw, Ban, Loader2, Copy, Save, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useApi } from "@/hooks/useApi";
+import { useToast } from "@/hooks/use-toast";
+
+type ApiKeyScope = "achievements" | "leaderboards" | "cloud_saves" | "entitlements";
+
+interface GameApiKey {
+  id: string;
+  gameId: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  usageCount: number;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  rotatedFrom: string | null;
+  createdAt: string;
+}
+
+// Only the create and rotate responses carry the full key
+type IssuedApiKey = GameApiKey & { key: string };
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  achievements: "Achievements",
+  leaderboards: "Leaderboards",
+  cloud_saves: "Cloud saves",
+  entitlements: "Entitlements",
+};
+
+export default function GameApiKeysManager({ gameId }: { gameId: string }) {
+  const { post, del } = useApi();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([]);
+  const [issuedKey, setIssuedKey] = useState<IssuedApiKey | null>(null);
+
+  const queryKey = ["/api/developer/game", gameId, "keys"];
+  const { data, isLoading } = useQuery<{ scopes: ApiKeyScope[]; keys: GameApiKey[] }>({ queryKey });
+  const keys = data?.keys || [];
+
+  const onIssued = (key: IssuedApiKey) => {
+    setIssuedKey(key);
+    queryClient.invalidateQueries({ queryKey });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => post<IssuedApiKey>(`/api/developer/game/${gameId}/keys`, { name: name.trim(), scopes }),
+    onSuccess: (key) => {
+      setCreating(false);
+      onIssued(key);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create API key", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: (keyId: string) => post<IssuedApiKey>(`/api/developer/game/${gameId}/keys/${keyId}/rotate`),
+    onSuccess: onIssued,
+    onError: (error: Error) => {
+      toast({ title: "Failed to rotate API key", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (keyId: string) => del(`/api/developer/game/${gameId}/keys/${keyId}`),
+    onSuccess: () => {
+      toast({ title: "API key revoked" });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to revoke API key", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openForm = () => {
+    setName("");
+    setScopes([]);
+    setIssuedKey(null);
+    setCreating(true);
+  };
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes(checked ? [...scopes, scope] : scopes.filter((s) => s !== scope));
+  };
+
+  const copyKey = async () => {
+    if (!issuedKey) return;
+    try {
+      await navigator.clipboard.writeText(issuedKey.key);
+      toast({ title: "API key copied" });
+    } catch {
+      toast({ title: "Couldn't copy the key", description: "Select it and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card data-testid={`card-api-keys-${gameId}`}>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="w-5 h-5 text-primary" />
+            API Keys
+          </CardTitle>
+          <CardDescription>
+            Your game sends a key in the X-Nexar-Api-Key header to call platform services for an open play session.
+          </CardDescription>
+        </div>
+        {!creating && (
+          <Button size="sm" onClick={openForm} data-testid="button-create-api-key">
+            <Plus className="w-4 h-4 mr-2" />
+            New key
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {issuedKey && (
+          <div className="rounded-lg border border-primary/50 bg-primary/10 p-4 space-y-2" data-testid="issued-api-key">
+            <p className="text-sm font-medium">
+              Copy your new key for "{issuedKey.name}" now. You won't be able to see it again.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={issuedKey.key} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={copyKey} data-testid="button-copy-api-key">
+                <Copy className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setIssuedKey(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {creating && (
+          <div className="rounded-lg border border-border p-4 space-y-4" data-testid="form-api-key">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input
+                id="api-key-name"
+                value={name}
+                maxLength={100}
+                placeholder="e.g. Production build"
+                onChange={(e) => setName(e.target.value)}
+                data-testid="input-api-key-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {(data?.scopes || []).map((scope) => (
+                  <div key={scope} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`api-key-scope-${scope}`}
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      data-testid={`checkbox-scope-${scope}`}
+                    />
+                    <Label htmlFor={`api-key-scope-${scope}`} className="font-normal">
+                      {SCOPE_LABELS[scope] || scope}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setCreating(false)} disabled={createMutation.isPending}>
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => createMutation.mutate()}
+                disabled={createMutation.isPending || !name.trim() || scopes.length === 0}
+                data-testid="button-save-api-key"
+              >
+                {createMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                Create key
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : keys.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No API keys yet</p>
+        ) : (
+          <div className="divide-y divide-border">
+            {keys.map((key) => (
+              <div
+                key={key.id}
+                className={`flex items-center gap-4 py-3 ${key.revokedAt ? "opacity-60" : ""}`}
+                data-testid={`row-api-key-${key.id}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium truncate">{key.name}</p>
+                    {key.revokedAt && <Badge variant="destructive">Revoked</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground font-mono truncate">{key.prefix}_••••••••</p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {key.scopes.map((scope) => (
+                      <Badge key={scope} variant="secondary">{SCOPE_LABELS[scope] || scope}</Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="hidden md:block text-right text-xs text-muted-foreground whitespace-nowrap">
+                  <p>{key.usageCount.toLocaleString()} request{key.usageCount === 1 ? "" : "s"}</p>
+                  <p>{key.lastUsedAt ? `Last used ${new Date(key.lastUsedAt).toLocaleString()}` : "Never used"}</p>
+                </div>
+                {!key.revokedAt && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Rotate"
+                      onClick={() => rotateMutation.mutate(key.id)}
+                      disabled={rotateMutation.isPending}
+                      data-testid={`button-rotate-api-key-${key.id}`}
+                    >
+                      <RotateCw className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Revoke"
+                      onClick={() => revokeMutation.mutate(key.id)}
+                      disabled={revokeMutation.isPending}
+                      data-testid={`button-revoke-api-key-${key.id}`}
+                    >
+                      <Ban className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
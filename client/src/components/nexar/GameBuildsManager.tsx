@@ -0,0 +1,248 @@
+import { useState, useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Package, Upload, Loader2, Rocket, History, X, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useApi } from "@/hooks/useApi";
+import { useToast } from "@/hooks/use-toast";
+import { formatBytes } from "@/lib/format";
+
+interface GameBuild {
+  id: string;
+  gameId: string;
+  version: string;
+  sizeBytes: number;
+  sha256: string;
+  chunkCount: number;
+  releaseNotes: string;
+  isLive: boolean;
+  promotedAt: string | null;
+  createdAt: string;
+}
+
+interface BuildRelease {
+  id: string;
+  buildId: string;
+  version: string;
+  previousVersion: string | null;
+  releasedBy: string | null;
+  releasedAt: string;
+}
+
+// Loose client-side check; the server validates the full semver grammar
+const SEMVER_PATTERN = /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/;
+
+// Build uploads and release history for a developer's own game. Archives go up
+// as multipart, so uploads use fetchWithAuth rather than apiRequest.
+export default function GameBuildsManager({ gameId }: { gameId: string }) {
+  const { fetchWithAuth, post } = useApi();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [version, setVersion] = useState("");
+  const [releaseNotes, setReleaseNotes] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+
+  const queryKey = ["/api/developer/game", gameId, "builds"];
+  const { data, isLoading } = useQuery<{ builds: GameBuild[]; releases: BuildRelease[] }>({ queryKey });
+  const builds = data?.builds || [];
+  const releases = data?.releases || [];
+
+  // The game's own query key is a prefix of ours, so this refreshes the build
+  // list as well as the game's current version
+  const onBuildsChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/developer/game", gameId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/developer/games"] });
+  };
+
+  const openForm = () => {
+    setVersion("");
+    setReleaseNotes("");
+    setFile(null);
+    setUploading(true);
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const form = new FormData();
+      form.append("version", version.trim());
+      form.append("releaseNotes", releaseNotes.trim());
+      if (file) form.append("build", file);
+
+      const res = await fetchWithAuth(`/api/developer/game/${gameId}/builds`, { method: "POST", body: form });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.message || "Failed to upload build");
+      return body as GameBuild;
+    },
+    onSuccess: (build) => {
+      toast({ title: `Build ${build.version} uploaded`, description: build.isLive ? "It's now the live build." : undefined });
+      setUploading(false);
+      onBuildsChanged();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to upload build", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: (buildId: string) => post<GameBuild>(`/api/developer/game/${gameId}/builds/${buildId}/promote`),
+    onSuccess: (build) => {
+      toast({ title: `Build ${build.version} is now live` });
+      onBuildsChanged();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to promote build", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const versionValid = SEMVER_PATTERN.test(version.trim());
+
+  return (
+    <Card className="mt-6" data-testid="card-game-builds">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Package className="w-5 h-5 text-primary" />
+            Builds
+          </CardTitle>
+          <CardDescription>
+            Players download the live build. Upload new versions here and promote one when it's ready.
+          </CardDescription>
+        </div>
+        {!uploading && (
+          <Button size="sm" onClick={openForm} data-testid="button-upload-build">
+            <Upload className="w-4 h-4 mr-2" />
+            Upload
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {uploading && (
+          <div className="rounded-lg border border-border p-4 space-y-4" data-testid="form-build">
+            <div className="grid gap-4 md:grid-cols-[160px_1fr]">
+              <div className="space-y-2">
+                <Label htmlFor="build-version">Version</Label>
+                <Input
+                  id="build-version"
+                  value={version}
+                  placeholder="1.0.0"
+                  onChange={(e) => setVersion(e.target.value)}
+                  data-testid="input-build-version"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Archive</Label>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  className="hidden"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full justify-start"
+                  onClick={() => fileInputRef.current?.click()}
+                  data-testid="button-build-file"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  <span className="truncate">{file ? `${file.name} (${formatBytes(file.size)})` : "Choose build archive"}</span>
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="build-release-notes">Release notes</Label>
+              <Textarea
+                id="build-release-notes"
+                value={releaseNotes}
+                maxLength={5000}
+                onChange={(e) => setReleaseNotes(e.target.value)}
+                data-testid="input-build-release-notes"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setUploading(false)} disabled={uploadMutation.isPending}>
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => uploadMutation.mutate()}
+                disabled={uploadMutation.isPending || !file || !versionValid}
+                data-testid="button-save-build"
+              >
+                {uploadMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                {uploadMutation.isPending ? "Uploading..." : "Upload build"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : builds.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No builds yet</p>
+        ) : (
+          <div className="divide-y divide-border">
+            {builds.map((build) => (
+              <div key={build.id} className="flex items-start gap-4 py-3" data-testid={`row-build-${build.id}`}>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">v{build.version}</p>
+                    {build.isLive && <Badge className="bg-green-500/20 text-green-500 border-green-500/50">Live</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {formatBytes(build.sizeBytes)} · uploaded {new Date(build.createdAt).toLocaleString()}
+                  </p>
+                  <p className="text-xs text-muted-foreground font-mono truncate" title={build.sha256}>
+                    SHA-256 {build.sha256}
+                  </p>
+                  {build.releaseNotes && (
+                    <p className="text-sm text-muted-foreground whitespace-pre-line mt-1">{build.releaseNotes}</p>
+                  )}
+                </div>
+                {!build.isLive && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => promoteMutation.mutate(build.id)}
+                    disabled={promoteMutation.isPending}
+                    data-testid={`button-promote-build-${build.id}`}
+                  >
+                    <Rocket className="w-4 h-4 mr-2" />
+                    Make live
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {releases.length > 0 && (
+          <div className="space-y-2" data-testid="build-release-history">
+            <h4 className="text-sm font-semibold flex items-center gap-2">
+              <History className="w-4 h-4 text-muted-foreground" />
+              Release history
+            </h4>
+            <ul className="space-y-1 text-sm text-muted-foreground">
+              {releases.map((release) => (
+                <li key={release.id}>
+                  {new Date(release.releasedAt).toLocaleString()}: v{release.version} went live
+                  {release.previousVersion && `, replacing v${release.previousVersion}`}
+                  {release.releasedBy && ` (${release.releasedBy})`}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,13 +9,22 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
+export interface GameTrailer {
+  thumbnailUrl: string;
+  videoUrl: string | null;
+}
+
 export interface Game {
   id: string;
   title: string;
   coverUrl?: string;
+  screenshots?: string[];
+  trailers?: GameTrailer[];
   isInstalled: boolean;
   playTime?: number;
   size?: string;
+  sizeBytes?: number | null;
+  version?: string | null;
   rating?: number;
   genre?: string;
   downloadProgress?: number;
@@ -27,6 +36,7 @@ export interface Game {
   hasTrial?: boolean;
   trialMinutes?: number;
   isNexarPlusGame?: boolean;
+  nexarPlusDiscount?: number;
 }
 
 interface GameCardProps {
@@ -113,7 +123,13 @@ export default function GameCard({
           whileHover={{ opacity: 1 }}
           transition={{ duration: 0.2 }}
         >
-          <Button size="icon" variant="default" className="rounded-full shadow-lg" data-testid={`button-play-compact-${game.id}`}>
+          <Button 
+            size="icon" 
+            variant="default" 
+            className="rounded-full shadow-lg" 
+            onClick={() => onPlay?.(game)}
+            data-testid={`button-play-compact-${game.id}`}
+          >
             <Play className="w-5 h-5" />
           </Button>
         </motion.div>
@@ -1,8 +1,11 @@
 import { motion, AnimatePresence } from "framer-motion";
-import { X, Play, Download, Trash2, Star, Clock, HardDrive, Tag, Gamepad2, Crown, Percent } from "lucide-react";
+import { X, Play, Download, Trash2, Star, Clock, HardDrive, Tag, Gamepad2, Crown, Percent, Package, PlayCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
+import GameLeaderboards from "./GameLeaderboards";
 import type { Game } from "./GameCard";
 
 interface GameDetailsModalProps {
@@ -25,6 +28,8 @@ export default function GameDetailsModal({
   if (!game) return null;
 
   const isDownloading = game.downloadProgress !== undefined && game.downloadProgress < 100;
+  const trailers = game.trailers || [];
+  const screenshots = game.screenshots || [];
 
   return (
     <AnimatePresence>
@@ -111,56 +116,118 @@ export default function GameDetailsModal({
                   )}
                 </div>
 
-                {isDownloading && (
-                  <div className="space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">Downloading...</span>
-                      <span className="text-primary font-medium">{game.downloadProgress}%</span>
-                    </div>
-                    <Progress value={game.downloadProgress} className="h-2" />
-                  </div>
-                )}
-
-                <div className="grid grid-cols-2 gap-4">
-                  {game.rating && (
-                    <div className="flex items-center gap-2">
-                      <Star className="w-5 h-5 text-yellow-500 fill-yellow-500" />
-                      <div>
-                        <p className="text-sm font-medium text-foreground">{game.rating}/5</p>
-                        <p className="text-xs text-muted-foreground">Rating</p>
-                      </div>
-                    </div>
-                  )}
-                  {game.playTime !== undefined && (
-                    <div className="flex items-center gap-2">
-                      <Clock className="w-5 h-5 text-muted-foreground" />
-                      <div>
-                        <p className="text-sm font-medium text-foreground">
-                          {Math.floor(game.playTime / 60)}h {game.playTime % 60}m
-                        </p>
-                        <p className="text-xs text-muted-foreground">Play Time</p>
-                      </div>
-                    </div>
-                  )}
-                  {game.size && (
-                    <div className="flex items-center gap-2">
-                      <HardDrive className="w-5 h-5 text-muted-foreground" />
-                      <div>
-                        <p className="text-sm font-medium text-foreground">{game.size}</p>
-                        <p className="text-xs text-muted-foreground">Size</p>
-                      </div>
-                    </div>
-                  )}
-                  {game.genre && (
-                    <div className="flex items-center gap-2">
-                      <Tag className="w-5 h-5 text-muted-foreground" />
-                      <div>
-                        <p className="text-sm font-medium text-foreground">{game.genre}</p>
-                        <p className="text-xs text-muted-foreground">Genre</p>
+                <Tabs defaultValue="details">
+                  <TabsList>
+                    <TabsTrigger value="details" data-testid="tab-game-details">Details</TabsTrigger>
+                    <TabsTrigger value="leaderboards" data-testid="tab-game-leaderboards">Leaderboards</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="details" className="space-y-6 mt-4">
+                    {isDownloading && (
+                      <div className="space-y-2">
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">Downloading...</span>
+                          <span className="text-primary font-medium">{game.downloadProgress}%</span>
+                        </div>
+                        <Progress value={game.downloadProgress} className="h-2" />
                       </div>
+                    )}
+
+                    {(trailers.length > 0 || screenshots.length > 0) && (
+                      <Carousel className="mx-10" data-testid="carousel-game-media">
+                        <CarouselContent>
+                          {trailers.map((trailer, index) => (
+                            <CarouselItem key={`trailer-${index}`}>
+                              <a
+                                href={trailer.videoUrl || undefined}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="relative block aspect-video rounded-lg overflow-hidden bg-muted"
+                              >
+                                <img src={trailer.thumbnailUrl} alt={`${game.title} trailer`} className="w-full h-full object-cover" />
+                                {trailer.videoUrl && (
+                                  <span className="absolute inset-0 flex items-center justify-center bg-black/30">
+                                    <PlayCircle className="w-12 h-12 text-white" />
+                                  </span>
+                                )}
+                              </a>
+                            </CarouselItem>
+                          ))}
+                          {screenshots.map((url, index) => (
+                            <CarouselItem key={url}>
+                              <div className="aspect-video rounded-lg overflow-hidden bg-muted">
+                                <img
+                                  src={url}
+                                  alt={`${game.title} screenshot ${index + 1}`}
+                                  className="w-full h-full object-cover"
+                                  loading="lazy"
+                                />
+                              </div>
+                            </CarouselItem>
+                          ))}
+                        </CarouselContent>
+                        {trailers.length + screenshots.length > 1 && (
+                          <>
+                            <CarouselPrevious data-testid="button-media-previous" />
+                            <CarouselNext data-testid="button-media-next" />
+                          </>
+                        )}
+                      </Carousel>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-4">
+                      {game.rating && (
+                        <div className="flex items-center gap-2">
+                          <Star className="w-5 h-5 text-yellow-500 fill-yellow-500" />
+                          <div>
+                            <p className="text-sm font-medium text-foreground">{game.rating}/5</p>
+                            <p className="text-xs text-muted-foreground">Rating</p>
+                          </div>
+                        </div>
+                      )}
+                      {game.playTime !== undefined && (
+                        <div className="flex items-center gap-2">
+                          <Clock className="w-5 h-5 text-muted-foreground" />
+                          <div>
+                            <p className="text-sm font-medium text-foreground">
+                              {Math.floor(game.playTime / 60)}h {game.playTime % 60}m
+                            </p>
+                            <p className="text-xs text-muted-foreground">Play Time</p>
+                          </div>
+                        </div>
+                      )}
+                      {game.size && (
+                        <div className="flex items-center gap-2">
+                          <HardDrive className="w-5 h-5 text-muted-foreground" />
+                          <div>
+                            <p className="text-sm font-medium text-foreground">{game.size}</p>
+                            <p className="text-xs text-muted-foreground">Size</p>
+                          </div>
+                        </div>
+                      )}
+                      {game.version && (
+                        <div className="flex items-center gap-2">
+                          <Package className="w-5 h-5 text-muted-foreground" />
+                          <div>
+                            <p className="text-sm font-medium text-foreground">v{game.version}</p>
+                            <p className="text-xs text-muted-foreground">Version</p>
+                          </div>
+                        </div>
+                      )}
+                      {game.genre && (
+                        <div className="flex items-center gap-2">
+                          <Tag className="w-5 h-5 text-muted-foreground" />
+                          <div>
+                            <p className="text-sm font-medium text-foreground">{game.genre}</p>
+                            <p className="text-xs text-muted-foreground">Genre</p>
+                          </div>
+                        </div>
+                      )}
                     </div>
-                  )}
-                </div>
+                  </TabsContent>
+                  <TabsContent value="leaderboards" className="mt-4">
+                    <GameLeaderboards key={game.id} gameId={game.id} />
+                  </TabsContent>
+                </Tabs>
 
                 <div className="flex flex-wrap gap-3 pt-4">
                   {game.isInstalled ? (
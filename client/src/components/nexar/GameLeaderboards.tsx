@@ -0,0 +1,158 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, Trophy, Medal } from "lucide-react";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { formatScore, type ScoreFormat } from "@/lib/format";
+
+export interface Leaderboard {
+  id: string;
+  gameId: string;
+  name: string;
+  sortOrder: "asc" | "desc";
+  scoreFormat: ScoreFormat;
+  resetPeriod: "daily" | "weekly" | "all_time";
+  createdAt: string;
+  updatedAt: string;
+}
+
+type LeaderboardView = "global" | "friends" | "around";
+
+interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  username: string;
+  avatarUrl: string;
+  score: number;
+  submittedAt: string;
+  isMe: boolean;
+}
+
+interface LeaderboardStandings {
+  leaderboard: Leaderboard;
+  view: LeaderboardView;
+  periodStart: string;
+  resetsAt: string | null;
+  entries: LeaderboardEntry[];
+  me: { rank: number; score: number; submittedAt: string } | null;
+}
+
+const RESET_LABELS: Record<Leaderboard["resetPeriod"], string> = {
+  daily: "Resets daily",
+  weekly: "Resets weekly",
+  all_time: "All time",
+};
+
+const RANK_COLORS = ["text-yellow-500", "text-slate-300", "text-amber-700"];
+
+export default function GameLeaderboards({ gameId }: { gameId: string }) {
+  const [leaderboardId, setLeaderboardId] = useState<string>("");
+  const [view, setView] = useState<LeaderboardView>("global");
+
+  const { data: leaderboards = [], isLoading: leaderboardsLoading } = useQuery<Leaderboard[]>({
+    queryKey: ["/api/games", gameId, "leaderboards"],
+  });
+
+  useEffect(() => {
+    if (!leaderboardId && leaderboards.length > 0) setLeaderboardId(leaderboards[0].id);
+  }, [leaderboards, leaderboardId]);
+
+  const { data: standings, isLoading: standingsLoading } = useQuery<LeaderboardStandings>({
+    queryKey: [`/api/leaderboards/${leaderboardId}?view=${view}`],
+    enabled: !!leaderboardId,
+    staleTime: 30 * 1000,
+  });
+
+  if (leaderboardsLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (leaderboards.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <Trophy className="w-10 h-10 mx-auto mb-3 opacity-50" />
+        <p className="text-sm">This game has no leaderboards</p>
+      </div>
+    );
+  }
+
+  const format = standings?.leaderboard.scoreFormat || "number";
+
+  return (
+    <div className="space-y-4" data-testid="game-leaderboards">
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={leaderboardId} onValueChange={setLeaderboardId}>
+          <SelectTrigger className="w-48" data-testid="select-leaderboard">
+            <SelectValue placeholder="Choose a leaderboard" />
+          </SelectTrigger>
+          <SelectContent>
+            {leaderboards.map((leaderboard) => (
+              <SelectItem key={leaderboard.id} value={leaderboard.id}>
+                {leaderboard.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={view}
+          onValueChange={(next) => next && setView(next as LeaderboardView)}
+        >
+          <ToggleGroupItem value="global" data-testid="toggle-leaderboard-global">Global</ToggleGroupItem>
+          <ToggleGroupItem value="friends" data-testid="toggle-leaderboard-friends">Friends</ToggleGroupItem>
+          <ToggleGroupItem value="around" data-testid="toggle-leaderboard-around">Around me</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {standings && (
+        <div className="flex items-center justify-between rounded-lg border border-border p-3" data-testid="leaderboard-my-rank">
+          <div>
+            <p className="text-xs text-muted-foreground">{RESET_LABELS[standings.leaderboard.resetPeriod]}</p>
+            <p className="text-sm font-medium text-foreground">
+              {standings.me ? `Your rank: #${standings.me.rank}` : "You haven't posted a score yet"}
+            </p>
+          </div>
+          {standings.me && (
+            <span className="text-lg font-bold text-primary">{formatScore(standings.me.score, format)}</span>
+          )}
+        </div>
+      )}
+
+      {standingsLoading || !standings ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : standings.entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">
+          {view === "around" ? "Post a score to see who's around you" : "No scores yet"}
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {standings.entries.map((entry) => (
+            <div
+              key={entry.userId}
+              className={`flex items-center gap-3 rounded-md px-3 py-2 ${entry.isMe ? "bg-primary/10 border border-primary/30" : ""}`}
+              data-testid={`leaderboard-entry-${entry.userId}`}
+            >
+              <span className={`w-8 text-sm font-bold ${RANK_COLORS[entry.rank - 1] || "text-muted-foreground"}`}>
+                {entry.rank <= 3 ? <Medal className="w-4 h-4" /> : `#${entry.rank}`}
+              </span>
+              <Avatar className="w-7 h-7">
+                <AvatarImage src={entry.avatarUrl} />
+                <AvatarFallback className="text-xs">{entry.username.slice(0, 2).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <span className="flex-1 text-sm text-foreground truncate">{entry.username}</span>
+              <span className="text-sm font-medium text-foreground">{formatScore(entry.score, format)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ListOrdered, Plus, Pencil, Trash2, Loader2, Save, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useApi } from "@/hooks/useApi";
+import { useToast } from "@/hooks/use-toast";
+import type { Leaderboard } from "./GameLeaderboards";
+
+type LeaderboardDraft = Pick<Leaderboard, "name" | "sortOrder" | "scoreFormat" | "resetPeriod">;
+
+const EMPTY_DRAFT: LeaderboardDraft = { name: "", sortOrder: "desc", scoreFormat: "number", resetPeriod: "all_time" };
+
+const SORT_ORDER_OPTIONS: { value: Leaderboard["sortOrder"]; label: string }[] = [
+  { value: "desc", label: "Highest first" },
+  { value: "asc", label: "Lowest first" },
+];
+
+const SCORE_FORMAT_OPTIONS: { value: Leaderboard["scoreFormat"]; label: string }[] = [
+  { value: "number", label: "Number" },
+  { value: "time", label: "Time (milliseconds)" },
+  { value: "decimal", label: "Decimal (hundredths)" },
+];
+
+const RESET_PERIOD_OPTIONS: { value: Leaderboard["resetPeriod"]; label: string }[] = [
+  { value: "all_time", label: "Never (all time)" },
+  { value: "weekly", label: "Weekly" },
+  { value: "daily", label: "Daily" },
+];
+
+const labelFor = <T extends string>(options: { value: T; label: string }[], value: T) =>
+  options.find((option) => option.value === value)?.label || value;
+
+export default function GameLeaderboardsEditor({ gameId }: { gameId: string }) {
+  const { post, patch, del } = useApi();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // null: form closed, "new": adding, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<LeaderboardDraft>(EMPTY_DRAFT);
+
+  const queryKey = ["/api/developer/game", gameId, "leaderboards"];
+  const { data: leaderboards = [], isLoading } = useQuery<Leaderboard[]>({ queryKey });
+
+  const openForm = (leaderboard?: Leaderboard) => {
+    setEditingId(leaderboard ? leaderboard.id : "new");
+    setDraft(leaderboard
+      ? {
+          name: leaderboard.name,
+          sortOrder: leaderboard.sortOrder,
+          scoreFormat: leaderboard.scoreFormat,
+          resetPeriod: leaderboard.resetPeriod,
+        }
+      : EMPTY_DRAFT);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const body = { ...draft, name: draft.name.trim() };
+      return editingId === "new"
+        ? post<Leaderboard>(`/api/developer/game/${gameId}/leaderboards`, body)
+        : patch<Leaderboard>(`/api/developer/game/${gameId}/leaderboards/${editingId}`, body);
+    },
+    onSuccess: () => {
+      toast({ title: editingId === "new" ? "Leaderboard added" : "Leaderboard updated" });
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save leaderboard", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (leaderboardId: string) => del(`/api/developer/game/${gameId}/leaderboards/${leaderboardId}`),
+    onSuccess: () => {
+      toast({ title: "Leaderboard deleted" });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete leaderboard", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="mt-6" data-testid="card-game-leaderboards">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <ListOrdered className="w-5 h-5 text-primary" />
+            Leaderboards
+          </CardTitle>
+          <CardDescription>
+            Your game submits scores during a play session; each player keeps their best score per period.
+          </CardDescription>
+        </div>
+        {editingId === null && (
+          <Button size="sm" onClick={() => openForm()} data-testid="button-add-leaderboard">
+            <Plus className="w-4 h-4 mr-2" />
+            Add
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {editingId !== null && (
+          <div className="rounded-lg border border-border p-4 space-y-4" data-testid="form-leaderboard">
+            <div className="space-y-2">
+              <Label htmlFor="leaderboard-name">Name</Label>
+              <Input
+                id="leaderboard-name"
+                value={draft.name}
+                maxLength={100}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                data-testid="input-leaderboard-name"
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label>Ranking</Label>
+                <Select
+                  value={draft.sortOrder}
+                  onValueChange={(sortOrder) => setDraft({ ...draft, sortOrder: sortOrder as Leaderboard["sortOrder"] })}
+                >
+                  <SelectTrigger data-testid="select-leaderboard-sort">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SORT_ORDER_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Score format</Label>
+                <Select
+                  value={draft.scoreFormat}
+                  onValueChange={(scoreFormat) => setDraft({ ...draft, scoreFormat: scoreFormat as Leaderboard["scoreFormat"] })}
+                >
+                  <SelectTrigger data-testid="select-leaderboard-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SCORE_FORMAT_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Resets</Label>
+                <Select
+                  value={draft.resetPeriod}
+                  onValueChange={(resetPeriod) => setDraft({ ...draft, resetPeriod: resetPeriod as Leaderboard["resetPeriod"] })}
+                >
+                  <SelectTrigger data-testid="select-leaderboard-reset">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RESET_PERIOD_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} disabled={saveMutation.isPending}>
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || !draft.name.trim()}
+                data-testid="button-save-leaderboard"
+              >
+                {saveMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : leaderboards.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No leaderboards yet</p>
+        ) : (
+          <div className="divide-y divide-border">
+            {leaderboards.map((leaderboard) => (
+              <div
+                key={leaderboard.id}
+                className="flex items-center gap-4 py-3"
+                data-testid={`row-leaderboard-${leaderboard.id}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{leaderboard.name}</p>
+                  <p className="text-xs text-muted-foreground font-mono truncate">{leaderboard.id}</p>
+                </div>
+                <div className="hidden md:flex gap-2">
+                  <Badge variant="secondary">{labelFor(SORT_ORDER_OPTIONS, leaderboard.sortOrder)}</Badge>
+                  <Badge variant="secondary">{labelFor(SCORE_FORMAT_OPTIONS, leaderboard.scoreFormat)}</Badge>
+                  <Badge variant="outline">{labelFor(RESET_PERIOD_OPTIONS, leaderboard.resetPeriod)}</Badge>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => openForm(leaderboard)}
+                  disabled={editingId !== null}
+                  data-testid={`button-edit-leaderboard-${leaderboard.id}`}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(leaderboard.id)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-leaderboard-${leaderboard.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState, useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Image, Upload, Loader2, Trash2, ArrowLeft, ArrowRight, PlayCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useApi } from "@/hooks/useApi";
+import { useToast } from "@/hooks/use-toast";
+
+type GameMediaKind = "cover" | "screenshot" | "trailer_thumbnail";
+
+interface GameMedia {
+  id: string;
+  gameId: string;
+  kind: GameMediaKind;
+  url: string;
+  contentType: string;
+  width: number;
+  height: number;
+  sizeBytes: number;
+  videoUrl: string | null;
+  sortOrder: number;
+  createdAt: string;
+}
+
+// Mirrors the server's GAME_MEDIA_RULES so the form can explain them up front
+const MEDIA_SECTIONS: { kind: GameMediaKind; title: string; hint: string; max: number }[] = [
+  { kind: "cover", title: "Cover Art", hint: "16:9, at least 1280x720. Uploading replaces the current cover.", max: 1 },
+  { kind: "screenshot", title: "Screenshots", hint: "At least 1280x720, up to 20.", max: 20 },
+  { kind: "trailer_thumbnail", title: "Trailers", hint: "16:9 thumbnail, at least 1280x720, with an optional video link. Up to 5.", max: 5 },
+];
+
+// Store media for a developer's own game. Images go up as multipart, so
+// uploads use fetchWithAuth rather than apiRequest.
+export default function GameMediaManager({ gameId }: { gameId: string }) {
+  const { fetchWithAuth, patch, del } = useApi();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingKind, setPendingKind] = useState<GameMediaKind | null>(null);
+  const [videoUrl, setVideoUrl] = useState("");
+
+  const queryKey = ["/api/developer/game", gameId, "media"];
+  const { data: media = [], isLoading } = useQuery<GameMedia[]>({ queryKey });
+
+  // Cover changes also show up in the game form and the portal list
+  const onMediaChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/developer/game", gameId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/developer/games"] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async ({ kind, file }: { kind: GameMediaKind; file: File }) => {
+      const form = new FormData();
+      form.append("kind", kind);
+      if (kind === "trailer_thumbnail" && videoUrl.trim()) form.append("videoUrl", videoUrl.trim());
+      form.append("media", file);
+
+      const res = await fetchWithAuth(`/api/developer/game/${gameId}/media`, { method: "POST", body: form });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.message || "Failed to upload image");
+      return body as GameMedia;
+    },
+    onSuccess: (item) => {
+      toast({ title: "Image uploaded" });
+      if (item.kind === "trailer_thumbnail") setVideoUrl("");
+      onMediaChanged();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to upload image", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: ({ kind, ids }: { kind: GameMediaKind; ids: string[] }) =>
+      patch<GameMedia[]>(`/api/developer/game/${gameId}/media/order`, { kind, ids }),
+    onSuccess: onMediaChanged,
+    onError: (error: Error) => {
+      toast({ title: "Failed to reorder", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (mediaId: string) => del(`/api/developer/game/${gameId}/media/${mediaId}`),
+    onSuccess: () => {
+      toast({ title: "Image removed" });
+      onMediaChanged();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove image", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const chooseFile = (kind: GameMediaKind) => {
+    setPendingKind(kind);
+    fileInputRef.current?.click();
+  };
+
+  const onFileChosen = (file: File | undefined) => {
+    if (file && pendingKind) uploadMutation.mutate({ kind: pendingKind, file });
+    setPendingKind(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const move = (items: GameMedia[], index: number, offset: number) => {
+    const ids = items.map((item) => item.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderMutation.mutate({ kind: items[index].kind, ids });
+  };
+
+  return (
+    <Card className="mt-6" data-testid="card-game-media">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Image className="w-5 h-5 text-primary" />
+          Store Media
+        </CardTitle>
+        <CardDescription>JPEG, PNG, GIF or WebP images up to 10 MB, shown on your store listing.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/gif,image/webp"
+          className="hidden"
+          onChange={(e) => onFileChosen(e.target.files?.[0])}
+        />
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          MEDIA_SECTIONS.map((section) => {
+            const items = media.filter((item) => item.kind === section.kind);
+            const isFull = section.kind !== "cover" && items.length >= section.max;
+            const isUploading = uploadMutation.isPending && uploadMutation.variables?.kind === section.kind;
+
+            return (
+              <div key={section.kind} className="space-y-3" data-testid={`media-section-${section.kind}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h4 className="font-semibold">{section.title}</h4>
+                    <p className="text-xs text-muted-foreground">{section.hint}</p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => chooseFile(section.kind)}
+                    disabled={uploadMutation.isPending || isFull}
+                    data-testid={`button-upload-${section.kind}`}
+                  >
+                    {isUploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                    Upload
+                  </Button>
+                </div>
+
+                {section.kind === "trailer_thumbnail" && !isFull && (
+                  <Input
+                    value={videoUrl}
+                    placeholder="Trailer link for the next upload (https://...)"
+                    onChange={(e) => setVideoUrl(e.target.value)}
+                    data-testid="input-trailer-video-url"
+                  />
+                )}
+
+                {items.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing uploaded yet</p>
+                ) : (
+                  <div className="grid gap-3 grid-cols-2 md:grid-cols-3">
+                    {items.map((item, index) => (
+                      <div
+                        key={item.id}
+                        className="group relative aspect-video rounded-md overflow-hidden border border-border bg-muted"
+                        data-testid={`media-item-${item.id}`}
+                      >
+                        <img src={item.url} alt={section.title} className="w-full h-full object-cover" />
+                        {item.videoUrl && (
+                          <PlayCircle className="absolute top-2 left-2 w-5 h-5 text-white drop-shadow" />
+                        )}
+                        <div className="absolute inset-x-0 bottom-0 flex items-center justify-between gap-1 p-1 bg-black/60 text-xs text-white">
+                          <span className="px-1">{item.width}x{item.height}</span>
+                          <div className="flex">
+                            {items.length > 1 && (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6 text-white"
+                                  disabled={index === 0 || reorderMutation.isPending}
+                                  onClick={() => move(items, index, -1)}
+                                  data-testid={`button-media-left-${item.id}`}
+                                >
+                                  <ArrowLeft className="w-3 h-3" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6 text-white"
+                                  disabled={index === items.length - 1 || reorderMutation.isPending}
+                                  onClick={() => move(items, index, 1)}
+                                  data-testid={`button-media-right-${item.id}`}
+                                >
+                                  <ArrowRight className="w-3 h-3" />
+                                </Button>
+                              </>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 text-white"
+                              disabled={deleteMutation.isPending}
+                              onClick={() => deleteMutation.mutate(item.id)}
+                              data-testid={`button-media-delete-${item.id}`}
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
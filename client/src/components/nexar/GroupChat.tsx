@@ -0,0 +1,341 @@
+import { useState, useEffect, useRef } from "react";
+import { Loader2, Send, ArrowLeft, Settings, Flag } from "lucide-react";
+import { useApi } from "@/hooks/useApi";
+import { useAuth } from "@/hooks/useAuth";
+import { useNotifications } from "@/hooks/useNotifications";
+import { useRealtimeEvent } from "@/hooks/useRealtime";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import GroupSettingsDialog, { GroupDetails } from "@/components/nexar/GroupSettingsDialog";
+import ReportDialog, { ReportTarget } from "@/components/nexar/ReportDialog";
+
+interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+}
+
+interface GroupMessage {
+  id: string;
+  groupId: string;
+  fromId: string | null;
+  kind: "text" | "system";
+  text: string;
+  timestamp: string;
+  sender: { id: string; username: string; avatarUrl: string } | null;
+}
+
+interface GroupMessagePage {
+  messages: GroupMessage[];
+  olderCursor: string | null;
+}
+
+interface GroupChatProps {
+  groupId: string;
+  onBack: () => void;
+  // Called once the user has left or been removed from the group
+  onLeft: () => void;
+  onRead: (groupId: string) => void;
+}
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" });
+
+export default function GroupChat({ groupId, onBack, onLeft, onRead }: GroupChatProps) {
+  const { get, post } = useApi();
+  const { user } = useAuth();
+  const { showAchievement } = useNotifications();
+  const { toast } = useToast();
+  const [group, setGroup] = useState<GroupDetails | null>(null);
+  const [messages, setMessages] = useState<GroupMessage[]>([]);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [newMessage, setNewMessage] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const topSentinelRef = useRef<HTMLDivElement>(null);
+  const lastMessageIdRef = useRef<string | undefined>(undefined);
+
+  const fetchGroup = async () => {
+    try {
+      setGroup(await get<GroupDetails>(`/api/groups/${groupId}`));
+    } catch (error) {
+      toast({ title: "Error loading group", variant: "destructive" });
+    }
+  };
+
+  const markRead = async () => {
+    try {
+      await post(`/api/groups/${groupId}/read`);
+      onRead(groupId);
+    } catch (error) {
+      console.error("Failed to mark group as read:", error);
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setGroup(null);
+    setMessages([]);
+    setOlderCursor(null);
+    lastMessageIdRef.current = undefined;
+
+    Promise.all([
+      get<GroupDetails>(`/api/groups/${groupId}`),
+      get<GroupMessagePage>(`/api/groups/${groupId}/messages`),
+    ])
+      .then(([details, page]) => {
+        if (cancelled) return;
+        setGroup(details);
+        setMessages(page.messages);
+        setOlderCursor(page.olderCursor);
+        markRead();
+      })
+      .catch(() => {
+        if (!cancelled) toast({ title: "Error loading group", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [groupId]);
+
+  const lastMessageId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    const previousId = lastMessageIdRef.current;
+    lastMessageIdRef.current = lastMessageId;
+    if (!lastMessageId) return;
+    messagesEndRef.current?.scrollIntoView({ behavior: previousId ? "smooth" : "auto" });
+  }, [lastMessageId]);
+
+  const loadOlder = async () => {
+    if (!olderCursor || isLoadingOlder) return;
+    setIsLoadingOlder(true);
+    const viewport = messagesContainerRef.current?.closest<HTMLElement>("[data-radix-scroll-area-viewport]");
+    const previousHeight = viewport?.scrollHeight ?? 0;
+    try {
+      const page = await get<GroupMessagePage>(`/api/groups/${groupId}/messages?before=${olderCursor}`);
+      setMessages((prev) => [...page.messages, ...prev]);
+      setOlderCursor(page.olderCursor);
+      requestAnimationFrame(() => {
+        if (viewport) viewport.scrollTop += viewport.scrollHeight - previousHeight;
+      });
+    } catch (error) {
+      toast({ title: "Error loading messages", variant: "destructive" });
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+
+  useEffect(() => {
+    const sentinel = topSentinelRef.current;
+    if (!sentinel || !olderCursor || isLoadingOlder || isLoading) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) loadOlder();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [olderCursor, isLoadingOlder, isLoading]);
+
+  useRealtimeEvent("group:message", ({ groupId: eventGroupId, message, sender }) => {
+    if (eventGroupId !== groupId) return;
+    setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, { ...message, sender }]));
+    if (message.fromId !== user?.id) markRead();
+  });
+
+  useRealtimeEvent("group:updated", ({ groupId: eventGroupId }) => {
+    if (eventGroupId === groupId) fetchGroup();
+  });
+
+  useRealtimeEvent("group:removed", ({ groupId: eventGroupId }) => {
+    if (eventGroupId !== groupId) return;
+    toast({ title: "You are no longer in this group" });
+    onLeft();
+  });
+
+  const handleSend = async () => {
+    if (!newMessage.trim()) return;
+    setIsSending(true);
+    try {
+      const response = await post<GroupMessage & { unlockedAchievements?: Achievement[] }>(
+        `/api/groups/${groupId}/messages`,
+        { text: newMessage }
+      );
+      const { unlockedAchievements, ...message } = response;
+      setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+      setNewMessage("");
+      unlockedAchievements?.forEach((achievement) => showAchievement(achievement));
+    } catch (error) {
+      toast({ title: "Failed to send message", variant: "destructive" });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const getInitials = (name: string) => name.slice(0, 2).toUpperCase();
+
+  return (
+    <>
+      <div className="p-4 border-b border-[#2A2A2A] flex items-center gap-3">
+        <Button
+          size="icon"
+          variant="ghost"
+          className="md:hidden text-[#EAEAEA]"
+          onClick={onBack}
+          data-testid="button-back"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </Button>
+        <Avatar className="w-10 h-10 border border-[#333333]">
+          <AvatarImage src={group?.avatarUrl} />
+          <AvatarFallback className="bg-[#2A2A2A] text-[#EAEAEA]">
+            {group ? getInitials(group.name) : ""}
+          </AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0">
+          <h2 className="text-lg font-semibold text-[#EAEAEA] truncate">{group?.name}</h2>
+          {group && (
+            <p className="text-xs text-[#A3A3A3] truncate">
+              {group.members.map((m) => m.username).join(", ")}
+            </p>
+          )}
+        </div>
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={() => setSettingsOpen(true)}
+          disabled={!group}
+          className="text-[#A3A3A3] hover:text-[#EAEAEA]"
+          data-testid="button-group-settings"
+        >
+          <Settings className="w-5 h-5" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 p-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-full">
+            <Loader2 className="w-6 h-6 animate-spin text-[#d00024]" />
+          </div>
+        ) : (
+          <div className="space-y-4" ref={messagesContainerRef}>
+            <div ref={topSentinelRef} />
+            {isLoadingOlder && (
+              <div className="flex justify-center">
+                <Loader2 className="w-5 h-5 animate-spin text-[#d00024]" />
+              </div>
+            )}
+            {messages.map((msg) => {
+              if (msg.kind === "system") {
+                return (
+                  <p
+                    key={msg.id}
+                    className="text-center text-xs text-[#666666]"
+                    data-testid={`group-system-message-${msg.id}`}
+                  >
+                    {msg.text} · {formatTime(msg.timestamp)}
+                  </p>
+                );
+              }
+
+              const isOwn = msg.fromId === user?.id;
+              return (
+                <div
+                  key={msg.id}
+                  className={`group flex items-center gap-2 ${isOwn ? "justify-end" : "justify-start"}`}
+                  data-testid={`group-message-${msg.id}`}
+                >
+                  {!isOwn && (
+                    <Avatar className="w-8 h-8 border border-[#333333] flex-shrink-0">
+                      <AvatarImage src={msg.sender?.avatarUrl} />
+                      <AvatarFallback className="bg-[#2A2A2A] text-[#EAEAEA] text-xs">
+                        {getInitials(msg.sender?.username || "?")}
+                      </AvatarFallback>
+                    </Avatar>
+                  )}
+                  <div
+                    className={`max-w-[70%] px-4 py-2 rounded-2xl ${
+                      isOwn
+                        ? "bg-[#d00024] text-white rounded-br-sm"
+                        : "bg-[#2A2A2A] text-[#EAEAEA] rounded-bl-sm"
+                    }`}
+                  >
+                    {!isOwn && (
+                      <p className="text-xs font-semibold text-[#d00024] mb-0.5">
+                        {msg.sender?.username || "Former member"}
+                      </p>
+                    )}
+                    <p>{msg.text}</p>
+                    <p className={`text-xs mt-1 ${isOwn ? "text-white/70" : "text-[#666666]"}`}>
+                      {formatTime(msg.timestamp)}
+                    </p>
+                  </div>
+                  {!isOwn && msg.sender && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() =>
+                        setReportTarget({ targetType: "group_message", messageId: msg.id, username: msg.sender!.username })
+                      }
+                      className="h-7 w-7 opacity-0 group-hover:opacity-100 text-[#666666] hover:text-[#d00024]"
+                      aria-label="Report message"
+                      data-testid={`button-report-group-message-${msg.id}`}
+                    >
+                      <Flag className="w-3.5 h-3.5" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+            <div ref={messagesEndRef} />
+          </div>
+        )}
+      </ScrollArea>
+
+      <div className="p-4 border-t border-[#2A2A2A]">
+        <div className="flex gap-3">
+          <Input
+            value={newMessage}
+            onChange={(e) => setNewMessage(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && !e.shiftKey && handleSend()}
+            placeholder={group ? `Message ${group.name}...` : "Type a message..."}
+            disabled={isSending}
+            data-testid="input-group-message"
+            className="flex-1 bg-[#111111] border-[#333333] text-[#EAEAEA] focus:border-[#d00024]"
+          />
+          <Button
+            onClick={handleSend}
+            disabled={isSending || !newMessage.trim()}
+            data-testid="button-send-group"
+            className="bg-[#d00024] hover:bg-[#b0001e] text-white"
+          >
+            {isSending ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
+          </Button>
+        </div>
+      </div>
+
+      <GroupSettingsDialog
+        group={group}
+        currentUserId={user?.id}
+        open={settingsOpen}
+        onOpenChange={setSettingsOpen}
+        onUpdated={setGroup}
+        onLeft={onLeft}
+      />
+
+      <ReportDialog target={reportTarget} onOpenChange={(open) => !open && setReportTarget(null)} />
+    </>
+  );
+}
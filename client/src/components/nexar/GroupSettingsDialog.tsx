@@ -0,0 +1,306 @@
+import { useState, useEffect, useRef } from "react";
+import { Loader2, Camera, Crown, Shield, MoreVertical, LogOut, UserPlus } from "lucide-react";
+import { useApi } from "@/hooks/useApi";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FriendPicker } from "@/components/nexar/CreateGroupDialog";
+
+export type GroupRole = "owner" | "admin" | "member";
+
+export interface GroupMember {
+  id: string;
+  username: string;
+  avatarUrl: string;
+  role: GroupRole;
+  joinedAt: string;
+}
+
+export interface GroupDetails {
+  id: string;
+  name: string;
+  avatarUrl: string;
+  createdAt: string;
+  members: GroupMember[];
+}
+
+interface GroupSettingsDialogProps {
+  group: GroupDetails | null;
+  currentUserId?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUpdated: (group: GroupDetails) => void;
+  onLeft: () => void;
+}
+
+export default function GroupSettingsDialog({
+  group,
+  currentUserId,
+  open,
+  onOpenChange,
+  onUpdated,
+  onLeft,
+}: GroupSettingsDialogProps) {
+  const { patch, post, del, fetchWithAuth } = useApi();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [inviteIds, setInviteIds] = useState<string[]>([]);
+  const [isInviting, setIsInviting] = useState(false);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open && group) {
+      setName(group.name);
+      setInviteIds([]);
+    }
+  }, [open, group?.id]);
+
+  if (!group) return null;
+
+  const myRole = group.members.find((m) => m.id === currentUserId)?.role;
+  const canManage = myRole === "owner" || myRole === "admin";
+
+  const runAction = async (key: string, action: () => Promise<void>, failureTitle: string) => {
+    setBusyAction(key);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleRename = () =>
+    runAction("rename", async () => {
+      onUpdated(await patch<GroupDetails>(`/api/groups/${group.id}`, { name: name.trim() }));
+    }, "Failed to rename group");
+
+  const handleAvatarChange = (file: File) =>
+    runAction("avatar", async () => {
+      const formData = new FormData();
+      formData.append("avatar", file);
+      const response = await fetchWithAuth(`/api/groups/${group.id}/avatar`, { method: "POST", body: formData });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Upload failed");
+      onUpdated(data);
+    }, "Failed to update group picture");
+
+  const handleInvite = async () => {
+    setIsInviting(true);
+    try {
+      onUpdated(await post<GroupDetails>(`/api/groups/${group.id}/members`, { userIds: inviteIds }));
+      setInviteIds([]);
+    } catch (error) {
+      toast({
+        title: "Failed to invite friends",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleSetRole = (member: GroupMember, role: GroupRole) =>
+    runAction(member.id, async () => {
+      onUpdated(await patch<GroupDetails>(`/api/groups/${group.id}/members/${member.id}`, { role }));
+    }, "Failed to change role");
+
+  const handleRemove = (member: GroupMember) =>
+    runAction(member.id, async () => {
+      await del(`/api/groups/${group.id}/members/${member.id}`);
+      onUpdated({ ...group, members: group.members.filter((m) => m.id !== member.id) });
+    }, "Failed to remove member");
+
+  const handleLeave = () =>
+    runAction("leave", async () => {
+      await del(`/api/groups/${group.id}/members/${currentUserId}`);
+      onOpenChange(false);
+      onLeft();
+    }, "Failed to leave group");
+
+  const canRemove = (member: GroupMember) =>
+    member.id !== currentUserId && (myRole === "owner" || (myRole === "admin" && member.role === "member"));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#1A1A1A] border-[#2A2A2A] text-[#EAEAEA] max-w-lg" data-testid="dialog-group-settings">
+        <DialogHeader>
+          <DialogTitle className="text-[#EAEAEA]">Group Settings</DialogTitle>
+          <DialogDescription className="text-[#A3A3A3]">
+            {group.members.length} member{group.members.length === 1 ? "" : "s"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 max-h-[70vh] overflow-y-auto pr-1">
+          <div className="flex items-center gap-4">
+            <button
+              type="button"
+              onClick={() => canManage && avatarInputRef.current?.click()}
+              disabled={!canManage || busyAction === "avatar"}
+              className="relative group"
+              data-testid="button-group-avatar"
+            >
+              <Avatar className="w-16 h-16 border border-[#333333]">
+                <AvatarImage src={group.avatarUrl} />
+                <AvatarFallback className="bg-[#2A2A2A] text-[#EAEAEA]">
+                  {group.name.slice(0, 2).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              {canManage && (
+                <span className="absolute inset-0 flex items-center justify-center rounded-full bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity">
+                  {busyAction === "avatar" ? (
+                    <Loader2 className="w-5 h-5 animate-spin text-white" />
+                  ) : (
+                    <Camera className="w-5 h-5 text-white" />
+                  )}
+                </span>
+              )}
+            </button>
+            <input
+              ref={avatarInputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/gif,image/webp"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleAvatarChange(file);
+                e.target.value = "";
+              }}
+            />
+            <div className="flex-1 flex gap-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={!canManage}
+                maxLength={64}
+                data-testid="input-group-rename"
+                className="bg-[#111111] border-[#333333] text-[#EAEAEA] focus:border-[#d00024]"
+              />
+              {canManage && (
+                <Button
+                  onClick={handleRename}
+                  disabled={busyAction === "rename" || !name.trim() || name.trim() === group.name}
+                  data-testid="button-rename-group"
+                  className="bg-[#d00024] hover:bg-[#b0001e] text-white"
+                >
+                  {busyAction === "rename" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-[#A3A3A3] uppercase tracking-wider mb-2">Members</h3>
+            <div className="space-y-1">
+              {group.members.map((member) => (
+                <div
+                  key={member.id}
+                  className="flex items-center gap-3 p-2 rounded-lg hover:bg-[#111111]"
+                  data-testid={`group-member-${member.id}`}
+                >
+                  <Avatar className="w-8 h-8 border border-[#333333]">
+                    <AvatarImage src={member.avatarUrl} />
+                    <AvatarFallback className="bg-[#2A2A2A] text-[#EAEAEA] text-xs">
+                      {member.username.slice(0, 2).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className="flex-1 text-sm text-[#EAEAEA] truncate">
+                    {member.username}
+                    {member.id === currentUserId && <span className="text-[#666666]"> (you)</span>}
+                  </span>
+                  {member.role === "owner" && <Crown className="w-4 h-4 text-yellow-500" aria-label="Owner" />}
+                  {member.role === "admin" && <Shield className="w-4 h-4 text-[#d00024]" aria-label="Admin" />}
+                  {(myRole === "owner" || canRemove(member)) && member.id !== currentUserId && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          disabled={busyAction === member.id}
+                          className="h-8 w-8 text-[#A3A3A3] hover:text-[#EAEAEA]"
+                          data-testid={`button-member-menu-${member.id}`}
+                        >
+                          {busyAction === member.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <MoreVertical className="w-4 h-4" />}
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {myRole === "owner" && member.role === "member" && (
+                          <DropdownMenuItem onClick={() => handleSetRole(member, "admin")}>Make admin</DropdownMenuItem>
+                        )}
+                        {myRole === "owner" && member.role === "admin" && (
+                          <DropdownMenuItem onClick={() => handleSetRole(member, "member")}>Remove admin</DropdownMenuItem>
+                        )}
+                        {myRole === "owner" && (
+                          <DropdownMenuItem onClick={() => handleSetRole(member, "owner")}>Make owner</DropdownMenuItem>
+                        )}
+                        {canRemove(member) && (
+                          <DropdownMenuItem onClick={() => handleRemove(member)} className="text-destructive">
+                            Remove from group
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {canManage && (
+            <div>
+              <h3 className="text-sm font-semibold text-[#A3A3A3] uppercase tracking-wider mb-2">Invite Friends</h3>
+              <FriendPicker
+                selectedIds={inviteIds}
+                onChange={setInviteIds}
+                excludeIds={group.members.map((m) => m.id)}
+              />
+              {inviteIds.length > 0 && (
+                <Button
+                  onClick={handleInvite}
+                  disabled={isInviting}
+                  data-testid="button-invite-members"
+                  className="mt-2 w-full bg-[#d00024] hover:bg-[#b0001e] text-white"
+                >
+                  {isInviting ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <UserPlus className="w-4 h-4 mr-2" />}
+                  Invite {inviteIds.length}
+                </Button>
+              )}
+            </div>
+          )}
+
+          <Button
+            variant="outline"
+            onClick={handleLeave}
+            disabled={busyAction === "leave"}
+            data-testid="button-leave-group"
+            className="w-full border-[#333333] bg-transparent text-[#d00024] hover:bg-[#2A2A2A] hover:text-[#d00024]"
+          >
+            {busyAction === "leave" ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <LogOut className="w-4 h-4 mr-2" />}
+            Leave Group
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,6 +3,8 @@ import { Home, Library, ShoppingBag, Download, Settings, Gamepad2, User, Users,
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { Progress } from "@/components/ui/progress";
+import type { Progression } from "@/hooks/useAuth";
 import NexarLogo from "./NexarLogo";
 
 export type NavPage = "home" | "library" | "store" | "downloads" | "settings" | "profile" | "friends" | "messages" | "achievements" | "cloud" | "wallet" | "nexarplus" | "developer";
@@ -12,8 +14,9 @@ interface NexarSidebarProps {
   onNavigate: (page: NavPage) => void;
   downloadCount?: number;
   pendingFriendRequests?: number;
+  unreadMessages?: number;
   walletBalance?: number;
-  user?: { username: string; avatarUrl?: string } | null;
+  user?: { username: string; avatarUrl?: string; progression?: Progression } | null;
   onLogout?: () => void;
 }
 
@@ -39,7 +42,7 @@ const settingsItems: { id: NavPage; label: string; icon: typeof Home }[] = [
   { id: "developer", label: "Developer", icon: Code },
 ];
 
-export default function NexarSidebar({ currentPage, onNavigate, downloadCount, pendingFriendRequests, walletBalance, user, onLogout }: NexarSidebarProps) {
+export default function NexarSidebar({ currentPage, onNavigate, downloadCount, pendingFriendRequests, unreadMessages, walletBalance, user, onLogout }: NexarSidebarProps) {
   const getInitials = (name: string) => name.slice(0, 2).toUpperCase();
 
   return (
@@ -136,6 +139,14 @@ export default function NexarSidebar({ currentPage, onNavigate, downloadCount, p
                     {pendingFriendRequests}
                   </span>
                 )}
+                {item.id === "messages" && unreadMessages && unreadMessages > 0 && (
+                  <span 
+                    className="ml-auto bg-primary text-primary-foreground text-xs px-2 py-0.5 rounded-full"
+                    data-testid="unread-messages-badge"
+                  >
+                    {unreadMessages > 99 ? "99+" : unreadMessages}
+                  </span>
+                )}
               </Button>
             </motion.div>
           );
@@ -193,7 +204,13 @@ export default function NexarSidebar({ currentPage, onNavigate, downloadCount, p
                 <p className="text-sm font-medium text-foreground truncate" data-testid="sidebar-username">
                   {user.username}
                 </p>
-                <p className="text-xs text-muted-foreground">Online</p>
+                {user.progression ? (
+                  <p className="text-xs text-muted-foreground" data-testid="sidebar-level">
+                    Level {user.progression.level} · {user.progression.achievementPoints} pts
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">Online</p>
+                )}
               </div>
               {onLogout && (
                 <Button
@@ -207,6 +224,13 @@ export default function NexarSidebar({ currentPage, onNavigate, downloadCount, p
                 </Button>
               )}
             </div>
+            {user.progression && (
+              <Progress
+                value={(user.progression.levelXp / user.progression.nextLevelXp) * 100}
+                className="h-1 mt-3"
+                title={`${user.progression.levelXp} / ${user.progression.nextLevelXp} XP to level ${user.progression.level + 1}`}
+              />
+            )}
           </div>
         )}
 
@@ -0,0 +1,60 @@
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { Gamepad2, Square, Timer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { ActiveSession } from "@/hooks/useGameSession";
+
+interface NowPlayingBarProps {
+  session: ActiveSession;
+  onQuit: () => void;
+}
+
+function formatElapsed(ms: number) {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
+
+export default function NowPlayingBar({ session, onQuit }: NowPlayingBarProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className="fixed bottom-4 right-4 z-50 flex items-center gap-4 px-4 py-3 rounded-lg bg-card border border-card-border shadow-xl"
+      data-testid="now-playing-bar"
+    >
+      <div className="w-10 h-10 rounded-md bg-primary/20 flex items-center justify-center">
+        <Gamepad2 className="w-5 h-5 text-primary" />
+      </div>
+      <div className="min-w-0">
+        <p className="text-xs text-muted-foreground">Now Playing</p>
+        <p className="font-medium text-foreground truncate max-w-48">{session.game.title}</p>
+      </div>
+      <div className="flex items-center gap-1 text-sm text-muted-foreground tabular-nums">
+        <Timer className="w-4 h-4" />
+        {formatElapsed(now - session.startedAt)}
+      </div>
+      {session.source === "trial" && session.trialMinutesRemaining !== undefined && (
+        <Badge variant="secondary" className="bg-blue-500 text-white">
+          Trial: {Math.ceil(session.trialMinutesRemaining)}m left
+        </Badge>
+      )}
+      <Button size="sm" variant="outline" onClick={onQuit} data-testid="button-quit-game">
+        <Square className="w-3 h-3 mr-2" />
+        Quit Game
+      </Button>
+    </motion.div>
+  );
+}
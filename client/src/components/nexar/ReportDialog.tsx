@@ -0,0 +1,128 @@
+import { useState, useEffect } from "react";
+import { Loader2, Flag } from "lucide-react";
+import { useApi } from "@/hooks/useApi";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export type ReportTarget =
+  | { targetType: "message" | "group_message"; messageId: string; username: string }
+  | { targetType: "profile" | "avatar"; userId: string; username: string };
+
+const REPORT_REASONS = [
+  { value: "spam", label: "Spam" },
+  { value: "harassment", label: "Harassment or bullying" },
+  { value: "hate_speech", label: "Hate speech" },
+  { value: "inappropriate_content", label: "Inappropriate content" },
+  { value: "impersonation", label: "Impersonation" },
+  { value: "other", label: "Something else" },
+];
+
+const TARGET_LABELS: Record<ReportTarget["targetType"], string> = {
+  message: "message",
+  group_message: "message",
+  profile: "profile",
+  avatar: "profile picture",
+};
+
+interface ReportDialogProps {
+  target: ReportTarget | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ReportDialog({ target, onOpenChange }: ReportDialogProps) {
+  const { post } = useApi();
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+  const [details, setDetails] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (target) {
+      setReason("");
+      setDetails("");
+    }
+  }, [target]);
+
+  const handleSubmit = async () => {
+    if (!target) return;
+    setIsSubmitting(true);
+    try {
+      await post("/api/reports", {
+        ...target,
+        reason,
+        details: details.trim() || undefined,
+      });
+      toast({ title: "Report submitted", description: "Thanks — a moderator will review it." });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Failed to submit report",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={(next) => !isSubmitting && onOpenChange(next)}>
+      <DialogContent className="bg-[#1A1A1A] border-[#2A2A2A] text-[#EAEAEA]" data-testid="dialog-report">
+        <DialogHeader>
+          <DialogTitle className="text-[#EAEAEA]">
+            Report {target ? TARGET_LABELS[target.targetType] : ""}
+          </DialogTitle>
+          <DialogDescription className="text-[#A3A3A3]">
+            {target?.username ? `Reporting ${target.username}. ` : ""}
+            Reports are anonymous and reviewed by Nexar moderators.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Select value={reason} onValueChange={setReason}>
+            <SelectTrigger data-testid="trigger-report-reason" className="bg-[#111111] border-[#333333] text-[#EAEAEA]">
+              <SelectValue placeholder="Choose a reason" />
+            </SelectTrigger>
+            <SelectContent>
+              {REPORT_REASONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="Anything else we should know? (optional)"
+            maxLength={1000}
+            data-testid="input-report-details"
+            className="bg-[#111111] border-[#333333] text-[#EAEAEA] focus:border-[#d00024]"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !reason}
+            data-testid="button-submit-report"
+            className="bg-[#d00024] hover:bg-[#b0001e] text-white"
+          >
+            {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Flag className="w-4 h-4 mr-2" />}
+            Submit Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
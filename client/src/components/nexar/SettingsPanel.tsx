@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { motion } from "framer-motion";
-import { Monitor, Wifi, HardDrive, Info, Palette, Zap, Shield, Bell, Cpu, MonitorSmartphone, Server, Clock, ShoppingCart, Lock, AlertTriangle, Crown, Check } from "lucide-react";
+import { Monitor, Wifi, HardDrive, Info, Palette, Zap, Shield, Bell, Cpu, MonitorSmartphone, Server, Clock, ShoppingCart, Lock, AlertTriangle, Crown, Check, Eye } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
@@ -10,11 +10,13 @@ import { Separator } from "@/components/ui/separator";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useDownloadSettings } from "@/hooks/useDownloadSettings";
 
 interface SystemInfo {
   version: string;
@@ -42,7 +44,7 @@ interface ParentalStatus {
   };
 }
 
-type SettingsTab = "display" | "performance" | "network" | "storage" | "notifications" | "parental" | "system";
+type SettingsTab = "display" | "performance" | "network" | "storage" | "notifications" | "privacy" | "parental" | "system";
 
 const tabs: { id: SettingsTab; label: string; icon: typeof Monitor }[] = [
   { id: "display", label: "Display", icon: Monitor },
@@ -50,6 +52,7 @@ const tabs: { id: SettingsTab; label: string; icon: typeof Monitor }[] = [
   { id: "network", label: "Network", icon: Wifi },
   { id: "storage", label: "Storage", icon: HardDrive },
   { id: "notifications", label: "Notifications", icon: Bell },
+  { id: "privacy", label: "Privacy", icon: Eye },
   { id: "parental", label: "Parental Controls", icon: Shield },
   { id: "system", label: "System", icon: Info },
 ];
@@ -61,6 +64,44 @@ const CONTENT_RATINGS = [
   { value: "18+", label: "Adults Only (18+)" },
 ];
 
+type Discoverability = "everyone" | "friends_of_friends" | "nobody";
+
+type ProfileVisibility = "public" | "friends" | "private";
+type ProfileField = "bio" | "joinDate" | "achievements" | "recentlyPlayed" | "friendCount" | "nexarPlus";
+
+interface PrivacySettings {
+  discoverability: Discoverability;
+  profileVisibility: Record<ProfileField, ProfileVisibility>;
+}
+
+const PROFILE_FIELDS: { field: ProfileField; label: string }[] = [
+  { field: "bio", label: "Bio" },
+  { field: "joinDate", label: "Join date" },
+  { field: "achievements", label: "Achievements" },
+  { field: "recentlyPlayed", label: "Recently played" },
+  { field: "friendCount", label: "Friend count" },
+  { field: "nexarPlus", label: "Nexar+ badge" },
+];
+
+const PROFILE_VISIBILITY_OPTIONS: { value: ProfileVisibility; label: string }[] = [
+  { value: "public", label: "Everyone" },
+  { value: "friends", label: "Friends only" },
+  { value: "private", label: "Only me" },
+];
+
+interface ListedUser {
+  id: string;
+  username: string;
+  avatarUrl: string;
+  since: string;
+}
+
+const DISCOVERABILITY_OPTIONS: { value: Discoverability; label: string; description: string }[] = [
+  { value: "everyone", label: "Everyone", description: "Anyone can find you by username" },
+  { value: "friends_of_friends", label: "Friends of friends", description: "Only people who share a friend with you" },
+  { value: "nobody", label: "Nobody", description: "You won't appear in search results" },
+];
+
 interface ThemeOption {
   id: string;
   name: string;
@@ -96,6 +137,47 @@ export default function SettingsPanel() {
 
   const hasNexarPlus = subscriptionStatus?.hasActiveSubscription ?? false;
 
+  const { data: privacySettings } = useQuery<PrivacySettings>({
+    queryKey: ["/api/users/me/privacy"],
+  });
+
+  const updatePrivacyMutation = useMutation({
+    mutationFn: async (changes: { discoverability?: Discoverability; profileVisibility?: Partial<Record<ProfileField, ProfileVisibility>> }) => {
+      const res = await apiRequest("PATCH", "/api/users/me/privacy", changes);
+      return res.json();
+    },
+    onSuccess: (data: PrivacySettings) => {
+      queryClient.setQueryData(["/api/users/me/privacy"], data);
+      toast({ title: "Privacy settings saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const { data: blockedUsers } = useQuery<ListedUser[]>({
+    queryKey: ["/api/blocks"],
+  });
+
+  const { data: mutedUsers } = useQuery<ListedUser[]>({
+    queryKey: ["/api/mutes"],
+  });
+
+  // Unblocks or unmutes, depending on which list the user is removed from
+  const removeListedUserMutation = useMutation({
+    mutationFn: async ({ list, userId }: { list: "/api/blocks" | "/api/mutes"; userId: string }) => {
+      await apiRequest("DELETE", `${list}/${userId}`);
+      return list;
+    },
+    onSuccess: (list) => {
+      queryClient.invalidateQueries({ queryKey: [list] });
+      toast({ title: list === "/api/blocks" ? "User unblocked" : "User unmuted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   const [settings, setSettings] = useState({
     darkMode: true,
     accentGlow: true,
@@ -103,13 +185,14 @@ export default function SettingsPanel() {
     resolution: "1920x1080",
     performanceMode: "balanced",
     autoUpdate: true,
-    downloadOnWifi: false,
     notifications: true,
     soundEffects: true,
     brightness: [80],
     volume: [70],
   });
 
+  const { settings: downloadSettings, updateSettings: updateDownloadSettings } = useDownloadSettings();
+
   const [pinModalOpen, setPinModalOpen] = useState(false);
   const [pinModalType, setPinModalType] = useState<"enable" | "disable" | "settings">("enable");
   const [pinInput, setPinInput] = useState("");
@@ -463,11 +546,11 @@ export default function SettingsPanel() {
                   <div className="flex items-center justify-between">
                     <div>
                       <p className="font-medium text-foreground">Download on Wi-Fi Only</p>
-                      <p className="text-sm text-muted-foreground">Save mobile data</p>
+                      <p className="text-sm text-muted-foreground">Hold queued downloads while on mobile data</p>
                     </div>
                     <Switch 
-                      checked={settings.downloadOnWifi}
-                      onCheckedChange={(v) => updateSetting("downloadOnWifi", v)}
+                      checked={downloadSettings.wifiOnly}
+                      onCheckedChange={(v) => updateDownloadSettings({ wifiOnly: v })}
                       data-testid="switch-wifi-only"
                     />
                   </div>
@@ -576,6 +659,129 @@ export default function SettingsPanel() {
             </>
           )}
 
+          {activeTab === "privacy" && (
+            <>
+              <div>
+                <h2 className="text-xl font-semibold text-foreground mb-1">Privacy</h2>
+                <p className="text-sm text-muted-foreground">Control who can find and contact you</p>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Discoverability</CardTitle>
+                  <CardDescription>
+                    Who can find you when searching for users. Existing friends and pending requests always can.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Select
+                    value={privacySettings?.discoverability}
+                    onValueChange={(v) => updatePrivacyMutation.mutate({ discoverability: v as Discoverability })}
+                    disabled={!privacySettings || updatePrivacyMutation.isPending}
+                  >
+                    <SelectTrigger data-testid="trigger-discoverability">
+                      <SelectValue placeholder="Loading..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DISCOVERABILITY_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {privacySettings && (
+                    <p className="text-sm text-muted-foreground mt-2">
+                      {DISCOVERABILITY_OPTIONS.find((o) => o.value === privacySettings.discoverability)?.description}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Profile Visibility</CardTitle>
+                  <CardDescription>
+                    Choose who can see each part of your public profile. Your username and avatar are always visible.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {PROFILE_FIELDS.map(({ field, label }) => (
+                    <div key={field} className="flex items-center justify-between gap-4">
+                      <Label className="text-sm">{label}</Label>
+                      <Select
+                        value={privacySettings?.profileVisibility[field]}
+                        onValueChange={(v) =>
+                          updatePrivacyMutation.mutate({ profileVisibility: { [field]: v as ProfileVisibility } })
+                        }
+                        disabled={!privacySettings || updatePrivacyMutation.isPending}
+                      >
+                        <SelectTrigger className="w-40" data-testid={`trigger-visibility-${field}`}>
+                          <SelectValue placeholder="Loading..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PROFILE_VISIBILITY_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              {([
+                {
+                  list: "/api/blocks",
+                  title: "Blocked Users",
+                  description: "Blocked users can't find you, message you or send you friend requests.",
+                  users: blockedUsers,
+                  action: "Unblock",
+                },
+                {
+                  list: "/api/mutes",
+                  title: "Muted Users",
+                  description: "Messages from muted users arrive silently and don't count towards your unread badge.",
+                  users: mutedUsers,
+                  action: "Unmute",
+                },
+              ] as const).map(({ list, title, description, users, action }) => (
+                <Card key={list}>
+                  <CardHeader>
+                    <CardTitle>{title}</CardTitle>
+                    <CardDescription>{description}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {!users?.length ? (
+                      <p className="text-sm text-muted-foreground">{users ? "Nobody here" : "Loading..."}</p>
+                    ) : (
+                      users.map((listed) => (
+                        <div key={listed.id} className="flex items-center gap-3" data-testid={`listed-user-${listed.id}`}>
+                          <Avatar className="w-8 h-8">
+                            <AvatarImage src={listed.avatarUrl} />
+                            <AvatarFallback>{listed.username.slice(0, 2).toUpperCase()}</AvatarFallback>
+                          </Avatar>
+                          <span className="flex-1 text-sm text-foreground truncate">{listed.username}</span>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => removeListedUserMutation.mutate({ list, userId: listed.id })}
+                            disabled={removeListedUserMutation.isPending}
+                            data-testid={`button-${action.toLowerCase()}-${listed.id}`}
+                          >
+                            {action}
+                          </Button>
+                        </div>
+                      ))
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </>
+          )}
+
           {activeTab === "parental" && (
             <>
               <div>
@@ -17,6 +17,15 @@ interface DeveloperProfile {
   status: "none" | "pending" | "approved" | "rejected";
 }
 
+// XP totals and where the user sits on the level curve
+export interface Progression {
+  level: number;
+  xp: number;
+  levelXp: number;
+  nextLevelXp: number;
+  achievementPoints: number;
+}
+
 interface User {
   id: string;
   email: string;
@@ -26,6 +35,7 @@ interface User {
   createdAt: string;
   role?: "user" | "developer" | "admin";
   developerProfile?: DeveloperProfile;
+  progression?: Progression;
 }
 
 interface RegisterResult {
@@ -0,0 +1,309 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from "react";
+import type { Game } from "@/components/nexar/GameCard";
+import type { DownloadInfo } from "@/components/nexar/DownloadItem";
+import { useDownloadSettings, isWithinSchedule } from "@/hooks/useDownloadSettings";
+import { getNetworkConnection, isOnCellularConnection } from "@/lib/device";
+import {
+  fetchBuildManifest,
+  downloadBuild,
+  deleteBuildChunks,
+  setBandwidthLimit,
+} from "@/lib/downloadEngine";
+import { formatBytes, formatDuration } from "@/lib/format";
+
+const QUEUE_STORAGE_KEY = "nexar_download_queue";
+const SPEED_WINDOW_MS = 10000;
+const SCHEDULE_CHECK_MS = 30000;
+
+export interface DownloadJob {
+  gameId: string;
+  title: string;
+  coverUrl?: string;
+  contentRating?: string;
+  buildId: string | null;
+  version: string | null;
+  sizeBytes: number;
+  chunkCount: number;
+  verifiedChunks: number;
+  downloadedBytes: number;
+  status: DownloadInfo["status"];
+  bytesPerSecond?: number;
+  error?: string;
+}
+
+function loadQueue(): DownloadJob[] {
+  try {
+    const saved = localStorage.getItem(QUEUE_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+function jobToDownloadInfo(job: DownloadJob): DownloadInfo {
+  const isDownloading = job.status === "downloading";
+  const remainingBytes = Math.max(0, job.sizeBytes - job.downloadedBytes);
+
+  return {
+    id: job.gameId,
+    title: job.title,
+    coverUrl: job.coverUrl,
+    contentRating: job.contentRating,
+    isInstalled: job.status === "completed",
+    size: job.sizeBytes ? formatBytes(job.sizeBytes) : undefined,
+    version: job.version,
+    downloadProgress: job.sizeBytes ? Math.floor((job.downloadedBytes / job.sizeBytes) * 100) : 0,
+    downloadSpeed: isDownloading
+      ? job.bytesPerSecond ? `${formatBytes(job.bytesPerSecond)}/s` : "Starting..."
+      : undefined,
+    timeRemaining: isDownloading
+      ? job.bytesPerSecond ? formatDuration(remainingBytes / job.bytesPerSecond) : "Calculating..."
+      : undefined,
+    status: job.status,
+    error: job.error,
+  };
+}
+
+interface DownloadManagerOptions {
+  onCompleted?: (job: DownloadJob) => void;
+  onError?: (job: DownloadJob, message: string) => void;
+}
+
+export function useDownloadManager({ onCompleted, onError }: DownloadManagerOptions = {}) {
+  const [jobs, setJobs] = useState<DownloadJob[]>(loadQueue);
+  const { settings } = useDownloadSettings();
+  const [clock, setClock] = useState(() => new Date());
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isCellular, setIsCellular] = useState(isOnCellularConnection);
+  const runningRef = useRef<Map<string, AbortController>>(new Map());
+  const callbacksRef = useRef({ onCompleted, onError });
+  callbacksRef.current = { onCompleted, onError };
+
+  useEffect(() => {
+    setBandwidthLimit(settings.bandwidthLimit);
+  }, [settings.bandwidthLimit]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setClock(new Date()), SCHEDULE_CHECK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const updateNetwork = () => {
+      setIsOnline(navigator.onLine);
+      setIsCellular(isOnCellularConnection());
+    };
+    const connection = getNetworkConnection();
+    window.addEventListener("online", updateNetwork);
+    window.addEventListener("offline", updateNetwork);
+    connection?.addEventListener("change", updateNetwork);
+    return () => {
+      window.removeEventListener("online", updateNetwork);
+      window.removeEventListener("offline", updateNetwork);
+      connection?.removeEventListener("change", updateNetwork);
+    };
+  }, []);
+
+  let blockedReason: string | null = null;
+  if (!isOnline) {
+    blockedReason = "You're offline. Downloads will resume when you reconnect.";
+  } else if (settings.wifiOnly && isCellular) {
+    blockedReason = "Waiting for Wi-Fi. Downloads on mobile data are turned off in Settings.";
+  } else if (!isWithinSchedule(settings, clock)) {
+    blockedReason = `Downloads are scheduled between ${settings.scheduleStart} and ${settings.scheduleEnd}.`;
+  }
+
+  useEffect(() => {
+    const persisted = jobs.map(({ bytesPerSecond: _, ...job }) => job);
+    localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(persisted));
+  }, [jobs]);
+
+  const updateJob = useCallback((gameId: string, changes: Partial<DownloadJob>) => {
+    setJobs(prev => prev.map(j => j.gameId === gameId ? { ...j, ...changes } : j));
+  }, []);
+
+  const runJob = useCallback(async (job: DownloadJob) => {
+    const controller = new AbortController();
+    runningRef.current.set(job.gameId, controller);
+
+    try {
+      const manifest = await fetchBuildManifest(job.gameId);
+      let startChunk = job.verifiedChunks;
+
+      // The live build changed while this download was paused; start over
+      if (job.buildId && job.buildId !== manifest.id) {
+        await deleteBuildChunks(job.buildId);
+        startChunk = 0;
+      }
+
+      const startBytes = manifest.chunks
+        .slice(0, startChunk)
+        .reduce((total, chunk) => total + chunk.size, 0);
+
+      updateJob(job.gameId, {
+        buildId: manifest.id,
+        version: manifest.version,
+        sizeBytes: manifest.sizeBytes,
+        chunkCount: manifest.chunks.length,
+        verifiedChunks: startChunk,
+        downloadedBytes: startBytes,
+        error: undefined,
+      });
+
+      const samples = [{ time: performance.now(), bytes: 0 }];
+
+      await downloadBuild(manifest, startChunk, controller.signal, (progress) => {
+        const now = performance.now();
+        samples.push({ time: now, bytes: progress.chunkBytes });
+        while (samples.length > 2 && now - samples[1].time > SPEED_WINDOW_MS) {
+          samples.shift();
+        }
+        const windowBytes = samples.slice(1).reduce((total, s) => total + s.bytes, 0);
+        const windowSeconds = (now - samples[0].time) / 1000;
+
+        updateJob(job.gameId, {
+          verifiedChunks: progress.verifiedChunks,
+          downloadedBytes: progress.downloadedBytes,
+          bytesPerSecond: windowSeconds > 0 ? windowBytes / windowSeconds : undefined,
+        });
+      });
+
+      updateJob(job.gameId, { status: "completed", bytesPerSecond: undefined });
+      callbacksRef.current.onCompleted?.({ ...job, buildId: manifest.id, version: manifest.version });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const message = error instanceof Error ? error.message : "Download failed";
+      updateJob(job.gameId, { status: "paused", bytesPerSecond: undefined, error: message });
+      callbacksRef.current.onError?.(job, message);
+    } finally {
+      if (runningRef.current.get(job.gameId) === controller) {
+        runningRef.current.delete(job.gameId);
+      }
+    }
+  }, [updateJob]);
+
+  // Queue order is priority order: the first maxConcurrent jobs that aren't
+  // paused or finished get to download, everything behind them waits.
+  useEffect(() => {
+    const slots = blockedReason ? 0 : Math.max(1, settings.maxConcurrent);
+    const allowed = new Set(
+      jobs
+        .filter(j => j.status === "downloading" || j.status === "queued")
+        .slice(0, slots)
+        .map(j => j.gameId)
+    );
+
+    const needsUpdate = jobs.some(j =>
+      (j.status === "queued" && allowed.has(j.gameId)) ||
+      (j.status === "downloading" && !allowed.has(j.gameId))
+    );
+    if (!needsUpdate) return;
+
+    setJobs(prev => prev.map(j => {
+      if (j.status === "queued" && allowed.has(j.gameId)) {
+        return { ...j, status: "downloading" as const };
+      }
+      if (j.status === "downloading" && !allowed.has(j.gameId)) {
+        return { ...j, status: "queued" as const, bytesPerSecond: undefined };
+      }
+      return j;
+    }));
+  }, [jobs, blockedReason, settings.maxConcurrent]);
+
+  useEffect(() => {
+    runningRef.current.forEach((controller, gameId) => {
+      if (!jobs.some(j => j.gameId === gameId && j.status === "downloading")) {
+        controller.abort();
+        runningRef.current.delete(gameId);
+      }
+    });
+
+    jobs
+      .filter(j => j.status === "downloading" && !runningRef.current.has(j.gameId))
+      .forEach(j => {
+        runJob(j);
+      });
+  }, [jobs, runJob]);
+
+  useEffect(() => {
+    const running = runningRef.current;
+    return () => {
+      running.forEach(controller => controller.abort());
+      running.clear();
+    };
+  }, []);
+
+  const enqueue = useCallback((game: Game) => {
+    setJobs(prev => {
+      if (prev.some(j => j.gameId === game.id && j.status !== "completed")) return prev;
+      return [
+        ...prev.filter(j => j.gameId !== game.id),
+        {
+          gameId: game.id,
+          title: game.title,
+          coverUrl: game.coverUrl,
+          contentRating: game.contentRating,
+          buildId: null,
+          // The store's live build figures until the manifest is fetched
+          version: game.version || null,
+          sizeBytes: game.sizeBytes || 0,
+          chunkCount: 0,
+          verifiedChunks: 0,
+          downloadedBytes: 0,
+          status: "queued",
+        },
+      ];
+    });
+  }, []);
+
+  const pause = useCallback((gameId: string) => {
+    updateJob(gameId, { status: "paused", bytesPerSecond: undefined });
+  }, [updateJob]);
+
+  const resume = useCallback((gameId: string) => {
+    updateJob(gameId, { status: "queued", error: undefined });
+  }, [updateJob]);
+
+  const remove = useCallback((gameId: string) => {
+    setJobs(prev => {
+      const job = prev.find(j => j.gameId === gameId);
+      if (job?.buildId) {
+        deleteBuildChunks(job.buildId).catch(error => {
+          console.error("Failed to clear downloaded chunks:", error);
+        });
+      }
+      return prev.filter(j => j.gameId !== gameId);
+    });
+  }, []);
+
+  const pauseAll = useCallback(() => {
+    setJobs(prev => prev.map(j =>
+      j.status === "downloading" || j.status === "queued"
+        ? { ...j, status: "paused" as const, bytesPerSecond: undefined }
+        : j
+    ));
+  }, []);
+
+  const resumeAll = useCallback(() => {
+    setJobs(prev => prev.map(j =>
+      j.status === "paused" ? { ...j, status: "queued" as const, error: undefined } : j
+    ));
+  }, []);
+
+  // Moves a job to the position currently held by another, shifting the rest
+  const reorder = useCallback((gameId: string, targetGameId: string) => {
+    setJobs(prev => {
+      const from = prev.findIndex(j => j.gameId === gameId);
+      const to = prev.findIndex(j => j.gameId === targetGameId);
+      if (from === -1 || to === -1 || from === to) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  }, []);
+
+  const downloads = useMemo(() => jobs.map(jobToDownloadInfo), [jobs]);
+
+  return { jobs, downloads, blockedReason, enqueue, pause, resume, remove, pauseAll, resumeAll, reorder };
+}
@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback } from "react";
+
+const SETTINGS_STORAGE_KEY = "nexar_download_settings";
+const SETTINGS_CHANGED_EVENT = "nexar-download-settings-changed";
+
+export interface DownloadSettings {
+  wifiOnly: boolean;
+  maxConcurrent: number;
+  // Global cap across all downloads in bytes per second; 0 means unlimited
+  bandwidthLimit: number;
+  scheduleEnabled: boolean;
+  scheduleStart: string;
+  scheduleEnd: string;
+}
+
+export const DEFAULT_DOWNLOAD_SETTINGS: DownloadSettings = {
+  wifiOnly: false,
+  maxConcurrent: 2,
+  bandwidthLimit: 0,
+  scheduleEnabled: false,
+  scheduleStart: "01:00",
+  scheduleEnd: "07:00",
+};
+
+function loadSettings(): DownloadSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return saved ? { ...DEFAULT_DOWNLOAD_SETTINGS, ...JSON.parse(saved) } : DEFAULT_DOWNLOAD_SETTINGS;
+  } catch {
+    return DEFAULT_DOWNLOAD_SETTINGS;
+  }
+}
+
+function toMinutes(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+// Windows may wrap past midnight, e.g. 23:00-07:00
+export function isWithinSchedule(settings: DownloadSettings, date = new Date()) {
+  if (!settings.scheduleEnabled) return true;
+  const start = toMinutes(settings.scheduleStart);
+  const end = toMinutes(settings.scheduleEnd);
+  const now = date.getHours() * 60 + date.getMinutes();
+  if (start === end) return true;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+export function useDownloadSettings() {
+  const [settings, setSettings] = useState<DownloadSettings>(loadSettings);
+
+  useEffect(() => {
+    const reload = () => setSettings(loadSettings());
+    window.addEventListener(SETTINGS_CHANGED_EVENT, reload);
+    window.addEventListener("storage", reload);
+    return () => {
+      window.removeEventListener(SETTINGS_CHANGED_EVENT, reload);
+      window.removeEventListener("storage", reload);
+    };
+  }, []);
+
+  const updateSettings = useCallback((changes: Partial<DownloadSettings>) => {
+    const next = { ...loadSettings(), ...changes };
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(next));
+    window.dispatchEvent(new Event(SETTINGS_CHANGED_EVENT));
+  }, []);
+
+  return { settings, updateSettings };
+}
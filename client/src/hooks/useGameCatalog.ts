@@ -0,0 +1,49 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Game } from "@/components/nexar/GameCard";
+
+export interface CatalogGame {
+  id: string;
+  title: string;
+  description: string;
+  genre: string | null;
+  contentRating: string;
+  rating: number | null;
+  size: string | null;
+  coverUrl: string;
+  price: number;
+  trialEnabled: boolean;
+  trialDurationMinutes: number | null;
+  nexarPlusDiscount: number | null;
+  inNexarPlusCollection: boolean;
+  featured: boolean;
+}
+
+export function catalogGameToGame(game: CatalogGame): Game {
+  return {
+    id: game.id,
+    title: game.title,
+    coverUrl: game.coverUrl || undefined,
+    isInstalled: false,
+    size: game.size || undefined,
+    rating: game.rating ?? undefined,
+    genre: game.genre || undefined,
+    contentRating: game.contentRating,
+    price: game.price,
+    hasTrial: game.trialEnabled,
+    trialMinutes: game.trialDurationMinutes ?? undefined,
+    isNexarPlusGame: game.inNexarPlusCollection,
+    nexarPlusDiscount: game.nexarPlusDiscount ?? undefined,
+  };
+}
+
+export function useGameCatalog() {
+  const { data, isLoading } = useQuery<CatalogGame[]>({
+    queryKey: ["/api/games"],
+  });
+
+  const catalog = data || [];
+  const storeGames = catalog.map(catalogGameToGame);
+  const featuredGames = catalog.filter(g => g.featured).map(catalogGameToGame);
+
+  return { catalog, storeGames, featuredGames, isLoading };
+}
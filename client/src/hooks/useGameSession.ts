@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { API_BASE_URL } from "@/lib/queryClient";
+import { getDeviceId } from "@/lib/device";
+import { useApi } from "@/hooks/useApi";
+import type { Game } from "@/components/nexar/GameCard";
+
+export interface ActiveSession {
+  sessionId: string;
+  game: Game;
+  source: "owned" | "developer" | "nexarplus" | "trial";
+  startedAt: number;
+  heartbeatIntervalSeconds: number;
+  trialMinutesRemaining?: number;
+}
+
+interface SessionStatus {
+  limitReached: boolean;
+  trialExpired: boolean;
+  trialMinutesRemaining?: number;
+}
+
+interface StartSessionResponse extends SessionStatus {
+  sessionId: string;
+  source: ActiveSession["source"];
+  heartbeatIntervalSeconds: number;
+}
+
+interface HeartbeatResponse extends SessionStatus {
+  ended: boolean;
+}
+
+export type SessionEndReason = "quit" | "trial_expired" | "limit_reached" | "lost";
+
+export function useGameSession(onEnded?: (game: Game, reason: SessionEndReason) => void) {
+  const queryClient = useQueryClient();
+  const { post, fetchWithAuth } = useApi();
+  const [activeSession, setActiveSession] = useState<ActiveSession | null>(null);
+  const sessionRef = useRef<ActiveSession | null>(null);
+  const onEndedRef = useRef(onEnded);
+  onEndedRef.current = onEnded;
+
+  useEffect(() => {
+    sessionRef.current = activeSession;
+  }, [activeSession]);
+
+  const finishSession = useCallback((reason: SessionEndReason) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    sessionRef.current = null;
+    setActiveSession(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/library"] });
+    onEndedRef.current?.(session.game, reason);
+  }, [queryClient]);
+
+  const startSession = useCallback(async (game: Game) => {
+    const data = await post<StartSessionResponse>("/api/sessions/start", {
+      gameId: game.id,
+      deviceId: getDeviceId(),
+    });
+
+    if (data.trialExpired || data.limitReached) {
+      await post(`/api/sessions/${data.sessionId}/end`).catch(() => undefined);
+      onEndedRef.current?.(game, data.trialExpired ? "trial_expired" : "limit_reached");
+      return null;
+    }
+
+    const session: ActiveSession = {
+      sessionId: data.sessionId,
+      game,
+      source: data.source,
+      startedAt: Date.now(),
+      heartbeatIntervalSeconds: data.heartbeatIntervalSeconds,
+      trialMinutesRemaining: data.trialMinutesRemaining,
+    };
+    sessionRef.current = session;
+    setActiveSession(session);
+    queryClient.invalidateQueries({ queryKey: ["/api/library"] });
+    return session;
+  }, [post, queryClient]);
+
+  const endSession = useCallback(async () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    try {
+      await post(`/api/sessions/${session.sessionId}/end`);
+    } catch (error) {
+      console.error("Failed to end session:", error);
+    }
+    finishSession("quit");
+  }, [post, finishSession]);
+
+  useEffect(() => {
+    if (!activeSession) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const res = await fetchWithAuth(`/api/sessions/${activeSession.sessionId}/heartbeat`, { method: "POST" });
+        if (res.status === 410) {
+          finishSession("lost");
+          return;
+        }
+        if (!res.ok) return;
+
+        const data: HeartbeatResponse = await res.json();
+        if (data.ended) {
+          finishSession(data.trialExpired ? "trial_expired" : "limit_reached");
+        } else if (data.trialMinutesRemaining !== undefined) {
+          setActiveSession(prev => prev ? { ...prev, trialMinutesRemaining: data.trialMinutesRemaining } : prev);
+        }
+      } catch (error) {
+        console.error("Session heartbeat failed:", error);
+      }
+    }, activeSession.heartbeatIntervalSeconds * 1000);
+
+    return () => clearInterval(interval);
+  }, [activeSession?.sessionId, activeSession?.heartbeatIntervalSeconds, fetchWithAuth, finishSession]);
+
+  useEffect(() => {
+    const handleUnload = () => {
+      const session = sessionRef.current;
+      const token = localStorage.getItem("nexar_token");
+      if (!session || !token) return;
+      fetch(`${API_BASE_URL}/api/sessions/${session.sessionId}/end`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+        keepalive: true,
+      });
+    };
+
+    window.addEventListener("beforeunload", handleUnload);
+    return () => window.removeEventListener("beforeunload", handleUnload);
+  }, []);
+
+  return { activeSession, startSession, endSession };
+}
@@ -0,0 +1,50 @@
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { getDeviceId, getDeviceName } from "@/lib/device";
+import type { Game } from "@/components/nexar/GameCard";
+
+export interface LibraryGame extends Game {
+  source: "owned" | "developer" | "nexarplus" | "trial";
+  lastPlayedAt: string | null;
+  isDeveloperGame: boolean;
+  installedDevices: { deviceId: string; deviceName: string | null; installedAt: string }[];
+  trialMinutesRemaining?: number;
+}
+
+export function useLibrary(enabled = true) {
+  const queryClient = useQueryClient();
+  const deviceId = getDeviceId();
+  const queryKey = ["/api/library", deviceId];
+
+  const { data, isLoading } = useQuery<LibraryGame[]>({
+    queryKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/library?deviceId=${encodeURIComponent(deviceId)}`);
+      return res.json();
+    },
+    enabled,
+  });
+
+  const refresh = useCallback(() => {
+    return queryClient.invalidateQueries({ queryKey: ["/api/library"] });
+  }, [queryClient]);
+
+  const markInstalled = useCallback(async (gameId: string) => {
+    await apiRequest("POST", `/api/library/${encodeURIComponent(gameId)}/install`, {
+      deviceId,
+      deviceName: getDeviceName(),
+    });
+    await refresh();
+  }, [deviceId, refresh]);
+
+  const uninstall = useCallback(async (gameId: string) => {
+    await apiRequest(
+      "DELETE",
+      `/api/library/${encodeURIComponent(gameId)}/install?deviceId=${encodeURIComponent(deviceId)}`
+    );
+    await refresh();
+  }, [deviceId, refresh]);
+
+  return { games: data || [], isLoading, deviceId, markInstalled, uninstall, refresh };
+}
@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import { useLocation } from "wouter";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Trophy, MessageCircle, X } from "lucide-react";
+import { useRealtimeEvent } from "@/hooks/useRealtime";
 
 import firstFriendImage from "@assets/first_friend_ach_(1)_1765039658293.png";
 import socialButterflyImage from "@assets/social_butterfly_ach_(1)_1765040235877.png";
@@ -22,23 +23,14 @@ const achievementImageMap: Record<string, string> = {
   profile_complete: profileCompleteImage,
 };
 
-interface Message {
+// Per-game achievements carry their developer-uploaded icon and game title
+interface UnlockedAchievement {
   id: string;
-  fromId: string;
-  toId: string;
-  text: string;
-  timestamp: string;
-}
-
-interface ConversationPartner {
-  id: string;
-  username: string;
-  avatarUrl: string;
-}
-
-interface Conversation {
-  partner: ConversationPartner;
-  lastMessage: Message | null;
+  name: string;
+  description: string;
+  icon: string;
+  iconUrl?: string;
+  gameTitle?: string;
 }
 
 interface BaseNotification {
@@ -53,6 +45,8 @@ interface AchievementNotification extends BaseNotification {
   name: string;
   description: string;
   icon: string;
+  iconUrl?: string;
+  gameTitle?: string;
 }
 
 interface MessageNotification extends BaseNotification {
@@ -67,7 +61,7 @@ type Notification = AchievementNotification | MessageNotification;
 
 interface NotificationContextValue {
   notifications: Notification[];
-  showAchievement: (achievement: { id: string; name: string; description: string; icon: string }) => void;
+  showAchievement: (achievement: UnlockedAchievement) => void;
   showMessage: (message: { senderId: string; senderUsername: string; senderAvatar?: string; preview: string }) => void;
   dismissNotification: (id: string) => void;
 }
@@ -85,31 +79,12 @@ export function useNotifications() {
 interface NotificationProviderProps {
   children: ReactNode;
   userId?: string | null;
-  token?: string | null;
 }
 
-const POLLING_INTERVAL = 15000; // 15 seconds
-
-function decodeJwtPayload(token: string): { userId?: string } | null {
-  try {
-    const parts = token.split(".");
-    if (parts.length !== 3) return null;
-    const base64Url = parts[1];
-    const base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
-    const padded = base64.padEnd(base64.length + (4 - (base64.length % 4)) % 4, "=");
-    const decoded = atob(padded);
-    return JSON.parse(decoded);
-  } catch {
-    return null;
-  }
-}
-
-export function NotificationProvider({ children, userId, token }: NotificationProviderProps) {
+export function NotificationProvider({ children, userId }: NotificationProviderProps) {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [location, setLocation] = useLocation();
-  const seenMessageIds = useRef<Set<string>>(new Set());
-  const lastPollTime = useRef<number>(Date.now());
-  const isInitialized = useRef(false);
+  const seenAchievementIds = useRef<Set<string>>(new Set());
   const prevUserIdRef = useRef<string | null | undefined>(null);
   const locationRef = useRef(location);
 
@@ -133,14 +108,21 @@ export function NotificationProvider({ children, userId, token }: NotificationPr
     }, 5000);
   }, [dismissNotification]);
 
-  const showAchievement = useCallback((achievement: { id: string; name: string; description: string; icon: string }) => {
+  // Unlocks arrive both in the HTTP response and over the realtime socket;
+  // each achievement only unlocks once, so show it once.
+  const showAchievement = useCallback((achievement: UnlockedAchievement) => {
+    if (seenAchievementIds.current.has(achievement.id)) return;
+    seenAchievementIds.current.add(achievement.id);
+
     const notification: AchievementNotification = {
-      id: `achievement-${achievement.id}-${Date.now()}`,
+      id: `achievement-${achievement.id}`,
       type: "achievement",
       achievementId: achievement.id,
       name: achievement.name,
       description: achievement.description,
       icon: achievement.icon,
+      iconUrl: achievement.iconUrl || undefined,
+      gameTitle: achievement.gameTitle,
       createdAt: Date.now(),
     };
     addNotification(notification);
@@ -161,71 +143,29 @@ export function NotificationProvider({ children, userId, token }: NotificationPr
 
   useEffect(() => {
     if (prevUserIdRef.current !== userId) {
-      seenMessageIds.current.clear();
-      lastPollTime.current = Date.now();
-      isInitialized.current = false;
+      seenAchievementIds.current.clear();
       prevUserIdRef.current = userId;
     }
+  }, [userId]);
 
-    if (!token || !userId) {
-      return;
-    }
-
-    const currentUserId = userId;
-
-    const pollMessages = async () => {
-      try {
-        const response = await fetch("/api/messages/conversations", {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        
-        if (!response.ok) return;
-        
-        const conversations: Conversation[] = await response.json();
-        
-        const isOnMessagesPage = locationRef.current === "/messages";
-        
-        for (const conv of conversations) {
-          const lastMsg = conv.lastMessage;
-          if (!lastMsg) continue;
-          
-          if (lastMsg.fromId === currentUserId) continue;
-          
-          if (seenMessageIds.current.has(lastMsg.id)) continue;
-          
-          seenMessageIds.current.add(lastMsg.id);
-          
-          if (!isInitialized.current) continue;
-          
-          const msgTime = new Date(lastMsg.timestamp).getTime();
-          if (msgTime < lastPollTime.current) continue;
-          
-          if (!isOnMessagesPage) {
-            addNotification({
-              id: `message-${lastMsg.id}`,
-              type: "message",
-              senderId: conv.partner.id,
-              senderUsername: conv.partner.username,
-              senderAvatar: conv.partner.avatarUrl,
-              preview: lastMsg.text.substring(0, 100),
-              createdAt: Date.now(),
-            });
-          }
-        }
-        
-        lastPollTime.current = Date.now();
-        isInitialized.current = true;
-      } catch (error) {
-        console.error("Failed to poll messages:", error);
-      }
-    };
-
-    pollMessages();
+  useRealtimeEvent("message:new", ({ message, sender, muted }) => {
+    if (!userId || message.fromId === userId || muted) return;
+    if (locationRef.current === "/messages") return;
 
-    const intervalId = setInterval(pollMessages, POLLING_INTERVAL);
+    addNotification({
+      id: `message-${message.id}`,
+      type: "message",
+      senderId: sender.id,
+      senderUsername: sender.username,
+      senderAvatar: sender.avatarUrl || undefined,
+      preview: message.text.substring(0, 100),
+      createdAt: Date.now(),
+    });
+  });
 
-    return () => clearInterval(intervalId);
-  }, [addNotification, token, userId]);
+  useRealtimeEvent("achievement:unlocked", (achievement) => {
+    showAchievement(achievement);
+  });
 
   const handleNotificationClick = (notification: Notification) => {
     dismissNotification(notification.id);
@@ -259,9 +199,9 @@ export function NotificationProvider({ children, userId, token }: NotificationPr
               <div className="p-4 flex items-start gap-3">
                 {notification.type === "achievement" ? (
                   <>
-                    {achievementImageMap[notification.achievementId] ? (
+                    {achievementImageMap[notification.achievementId] || notification.iconUrl ? (
                       <img 
-                        src={achievementImageMap[notification.achievementId]} 
+                        src={achievementImageMap[notification.achievementId] || notification.iconUrl} 
                         alt={notification.name}
                         className="flex-shrink-0 w-16 h-16 object-contain"
                       />
@@ -273,6 +213,9 @@ export function NotificationProvider({ children, userId, token }: NotificationPr
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2 mb-1">
                         <span className="text-[#d00024] text-xs font-semibold uppercase tracking-wider">Achievement Unlocked</span>
+                        {notification.gameTitle && (
+                          <span className="text-[#666666] text-xs truncate">{notification.gameTitle}</span>
+                        )}
                       </div>
                       <h4 className="text-[#EAEAEA] font-bold text-sm truncate">{notification.name}</h4>
                       <p className="text-[#A3A3A3] text-xs truncate">{notification.description}</p>
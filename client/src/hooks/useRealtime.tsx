@@ -0,0 +1,186 @@
+import { createContext, useContext, useEffect, useRef, useCallback, ReactNode } from "react";
+import { API_BASE_URL } from "@/lib/queryClient";
+
+export interface RealtimeEvents {
+  ready: Record<string, never>;
+  "message:new": {
+    message: {
+      id: string;
+      fromId: string;
+      toId: string;
+      text: string;
+      timestamp: string;
+      deliveredAt: string | null;
+      readAt: string | null;
+    };
+    sender: { id: string; username: string; avatarUrl: string | null };
+    // True when the recipient has muted the sender
+    muted: boolean;
+  };
+  "message:delivered": { partnerId: string; messageIds: string[]; deliveredAt: string };
+  "message:read": { readerId: string; senderId: string; messageIds: string[]; readAt: string };
+  "group:message": {
+    groupId: string;
+    message: {
+      id: string;
+      groupId: string;
+      fromId: string | null;
+      kind: "text" | "system";
+      text: string;
+      timestamp: string;
+    };
+    sender: { id: string; username: string; avatarUrl: string } | null;
+  };
+  "group:updated": { groupId: string };
+  "group:removed": { groupId: string };
+  "group:read": { groupId: string; readAt: string };
+  "friend:request": {
+    requestId: string;
+    from: { id: string; username: string; avatarUrl: string | null };
+  };
+  "friend:accepted": {
+    requestId: string;
+    friend: { id: string; username: string; avatarUrl: string | null };
+  };
+  "achievement:unlocked": {
+    id: string;
+    name: string;
+    description: string;
+    icon: string;
+    // Only set for per-game achievements
+    iconUrl?: string;
+    gameId?: string;
+    gameTitle?: string;
+    points?: number;
+  };
+  "wallet:balance": { balance: number };
+  "progression:updated": {
+    level: number;
+    xp: number;
+    levelXp: number;
+    nextLevelXp: number;
+    achievementPoints: number;
+    leveledUp: boolean;
+  };
+  "moderation:action": {
+    action: "warn" | "suspend" | "clear_avatar" | "clear_bio";
+    reason: string;
+    expiresAt: string | null;
+  };
+}
+
+export type RealtimeEventType = keyof RealtimeEvents;
+
+type Listener<T extends RealtimeEventType> = (payload: RealtimeEvents[T]) => void;
+
+// Listeners are stored untyped; subscribe is what ties each one to its event
+type StoredListener = (payload: unknown) => void;
+
+interface RealtimeContextValue {
+  subscribe: <T extends RealtimeEventType>(type: T, listener: Listener<T>) => () => void;
+}
+
+const RealtimeContext = createContext<RealtimeContextValue | null>(null);
+
+const INITIAL_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+// Close code the server uses for a missing or expired token
+const UNAUTHORIZED_CLOSE_CODE = 4401;
+
+function getRealtimeUrl(token: string) {
+  const base = new URL(API_BASE_URL || window.location.origin, window.location.href);
+  base.protocol = base.protocol === "https:" ? "wss:" : "ws:";
+  base.pathname = "/ws";
+  base.search = `?token=${encodeURIComponent(token)}`;
+  return base.toString();
+}
+
+interface RealtimeProviderProps {
+  children: ReactNode;
+  token?: string | null;
+}
+
+export function RealtimeProvider({ children, token }: RealtimeProviderProps) {
+  const listenersRef = useRef<Map<RealtimeEventType, Set<StoredListener>>>(new Map());
+
+  const subscribe = useCallback(<T extends RealtimeEventType>(type: T, listener: Listener<T>) => {
+    const listeners = listenersRef.current;
+    const stored = listener as StoredListener;
+    if (!listeners.has(type)) {
+      listeners.set(type, new Set());
+    }
+    listeners.get(type)!.add(stored);
+    return () => {
+      listeners.get(type)?.delete(stored);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!token) return;
+
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryDelay = INITIAL_RETRY_DELAY;
+    let stopped = false;
+
+    const connect = () => {
+      socket = new WebSocket(getRealtimeUrl(token));
+
+      socket.onopen = () => {
+        retryDelay = INITIAL_RETRY_DELAY;
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          const { type, payload }: { type: RealtimeEventType; payload: unknown } = JSON.parse(event.data);
+          listenersRef.current.get(type)?.forEach((listener) => listener(payload));
+        } catch (error) {
+          console.error("Failed to handle realtime event:", error);
+        }
+      };
+
+      socket.onclose = (event) => {
+        if (stopped || event.code === UNAUTHORIZED_CLOSE_CODE) return;
+        retryTimer = setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY);
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [token]);
+
+  return (
+    <RealtimeContext.Provider value={{ subscribe }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+}
+
+// Subscribes for the lifetime of the component. The handler may change between
+// renders without resubscribing. "ready" fires on every (re)connect, so use it
+// to refetch anything that may have been missed while disconnected.
+export function useRealtimeEvent<T extends RealtimeEventType>(
+  type: T,
+  handler: (payload: RealtimeEvents[T]) => void
+) {
+  const context = useContext(RealtimeContext);
+  if (!context) {
+    throw new Error("useRealtimeEvent must be used within a RealtimeProvider");
+  }
+
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  const { subscribe } = context;
+  useEffect(() => {
+    return subscribe(type, (payload) => handlerRef.current(payload));
+  }, [subscribe, type]);
+}
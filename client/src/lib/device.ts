@@ -0,0 +1,28 @@
+const DEVICE_ID_KEY = "nexar_device_id";
+
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+export function getDeviceName(): string {
+  const platform = (navigator as Navigator & { userAgentData?: { platform?: string } }).userAgentData?.platform
+    || navigator.platform
+    || "Unknown";
+  return `NexarOS PC (${platform})`;
+}
+
+type NetworkConnection = EventTarget & { type?: string };
+
+export function getNetworkConnection(): NetworkConnection | undefined {
+  return (navigator as Navigator & { connection?: NetworkConnection }).connection;
+}
+
+// Browsers that don't expose the connection type are treated as unmetered
+export function isOnCellularConnection(): boolean {
+  return getNetworkConnection()?.type === "cellular";
+}
@@ -0,0 +1,190 @@
+import { API_BASE_URL } from "@/lib/queryClient";
+
+export interface BuildChunk {
+  index: number;
+  offset: number;
+  size: number;
+  sha256: string;
+}
+
+export interface BuildManifest {
+  id: string;
+  gameId: string;
+  version: string;
+  sizeBytes: number;
+  sha256: string;
+  chunkSize: number;
+  chunks: BuildChunk[];
+  contentUrl: string;
+}
+
+const DB_NAME = "nexar-downloads";
+const CHUNK_STORE = "chunks";
+const MAX_CHUNK_ATTEMPTS = 3;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let bandwidthLimit = 0;
+let nextTransferSlot = 0;
+
+// Shared by every running download, so the cap applies to the total rate
+export function setBandwidthLimit(bytesPerSecond: number) {
+  bandwidthLimit = Math.max(0, bytesPerSecond);
+  nextTransferSlot = 0;
+}
+
+function throttle(bytes: number, signal: AbortSignal) {
+  if (!bandwidthLimit) return Promise.resolve();
+
+  const now = performance.now();
+  nextTransferSlot = Math.max(now, nextTransferSlot) + (bytes / bandwidthLimit) * 1000;
+  const delay = nextTransferSlot - now;
+
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Download aborted", "AbortError"));
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function openDownloadDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(CHUNK_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+async function putChunk(buildId: string, index: number, data: ArrayBuffer) {
+  const db = await openDownloadDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(CHUNK_STORE, "readwrite");
+    tx.objectStore(CHUNK_STORE).put(data, `${buildId}:${index}`);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function deleteBuildChunks(buildId: string) {
+  const db = await openDownloadDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(CHUNK_STORE, "readwrite");
+    tx.objectStore(CHUNK_STORE).delete(IDBKeyRange.bound(`${buildId}:`, `${buildId}:\uffff`));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+async function sha256Hex(data: ArrayBuffer) {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem("nexar_token");
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+export async function fetchBuildManifest(gameId: string): Promise<BuildManifest> {
+  const res = await fetch(`${API_BASE_URL}/api/downloads/${encodeURIComponent(gameId)}/manifest`, {
+    headers: authHeaders(),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.message || "Failed to get build manifest");
+  }
+  return res.json();
+}
+
+async function readBody(res: Response, signal: AbortSignal): Promise<ArrayBuffer> {
+  if (!res.body) return res.arrayBuffer();
+
+  const reader = res.body.getReader();
+  const parts: Uint8Array[] = [];
+  let length = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+    length += value.byteLength;
+    await throttle(value.byteLength, signal);
+  }
+
+  const data = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.byteLength;
+  }
+  return data.buffer;
+}
+
+async function fetchChunk(manifest: BuildManifest, chunk: BuildChunk, signal: AbortSignal) {
+  const res = await fetch(`${API_BASE_URL}${manifest.contentUrl}`, {
+    headers: {
+      ...authHeaders(),
+      Range: `bytes=${chunk.offset}-${chunk.offset + chunk.size - 1}`,
+    },
+    signal,
+  });
+  if (res.status !== 206 && res.status !== 200) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.message || `Chunk ${chunk.index} failed with status ${res.status}`);
+  }
+
+  const data = await readBody(res, signal);
+  // A server that ignores Range sends the whole file; slice the chunk out of it
+  return res.status === 200 ? data.slice(chunk.offset, chunk.offset + chunk.size) : data;
+}
+
+export interface ChunkProgress {
+  verifiedChunks: number;
+  downloadedBytes: number;
+  chunkBytes: number;
+}
+
+// Downloads every chunk from startChunk onwards, verifying each against the
+// manifest hash before it is stored. A chunk that fails verification is
+// re-fetched; progress only ever advances past verified chunks.
+export async function downloadBuild(
+  manifest: BuildManifest,
+  startChunk: number,
+  signal: AbortSignal,
+  onChunk: (progress: ChunkProgress) => void,
+) {
+  let downloadedBytes = manifest.chunks
+    .slice(0, startChunk)
+    .reduce((total, chunk) => total + chunk.size, 0);
+
+  for (let i = startChunk; i < manifest.chunks.length; i++) {
+    const chunk = manifest.chunks[i];
+    let verified = false;
+
+    for (let attempt = 1; attempt <= MAX_CHUNK_ATTEMPTS && !verified; attempt++) {
+      const data = await fetchChunk(manifest, chunk, signal);
+      if (await sha256Hex(data) === chunk.sha256) {
+        await putChunk(manifest.id, chunk.index, data);
+        verified = true;
+      } else if (attempt === MAX_CHUNK_ATTEMPTS) {
+        throw new Error(`Chunk ${chunk.index} failed verification`);
+      }
+    }
+
+    downloadedBytes += chunk.size;
+    onChunk({ verifiedChunks: i + 1, downloadedBytes, chunkBytes: chunk.size });
+  }
+}
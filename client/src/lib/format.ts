@@ -0,0 +1,30 @@
+export function formatBytes(bytes: number) {
+  if (!bytes) return "0 B";
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  const exponent = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  return `${(bytes / Math.pow(1024, exponent)).toFixed(exponent === 0 ? 0 : 1)} ${units[exponent]}`;
+}
+
+export function formatDuration(seconds: number) {
+  if (!isFinite(seconds)) return "Calculating...";
+  if (seconds < 60) return `${Math.ceil(seconds)} sec`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} min`;
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.ceil((seconds % 3600) / 60);
+  return `${hours}h ${minutes}m`;
+}
+
+export type ScoreFormat = "number" | "time" | "decimal";
+
+// Leaderboard scores are stored as integers: times in milliseconds and
+// decimals in hundredths
+export function formatScore(score: number, format: ScoreFormat) {
+  if (format === "time") {
+    const minutes = Math.floor(score / 60000);
+    const seconds = Math.floor((score % 60000) / 1000);
+    const millis = score % 1000;
+    return `${minutes}:${String(seconds).padStart(2, "0")}.${String(millis).padStart(3, "0")}`;
+  }
+  if (format === "decimal") return (score / 100).toFixed(2);
+  return score.toLocaleString();
+}
@@ -2,7 +2,8 @@ import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
 import { useApi } from "@/hooks/useApi";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Trophy, User, Users, MessageCircle, Cloud, Heart, MessagesSquare, Database, Lock, Code } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, Trophy, User, Users, MessageCircle, Cloud, Heart, MessagesSquare, Database, Lock, Code, EyeOff } from "lucide-react";
 
 import firstFriendImage from "@assets/first_friend_ach_(1)_1765039658293.png";
 import socialButterflyImage from "@assets/social_butterfly_ach_(1)_1765040235877.png";
@@ -27,8 +28,64 @@ interface Achievement {
   name: string;
   description: string;
   icon: string;
+  points: number;
   unlocked: boolean;
   unlockedAt: string | null;
+  progress: number;
+  target: number;
+  // Percentage of all users who have unlocked it
+  rarity: number;
+}
+
+interface GameAchievement {
+  id: string;
+  name: string;
+  description: string;
+  iconUrl: string;
+  hidden: boolean;
+  points: number;
+  unlocked: boolean;
+  unlockedAt: string | null;
+  // Percentage of the game's players who have unlocked it
+  rarity: number;
+}
+
+interface GameAchievementGroup {
+  gameId: string;
+  title: string;
+  coverUrl: string;
+  unlocked: number;
+  total: number;
+  earnedPoints: number;
+  totalPoints: number;
+  completion: number;
+  achievements: GameAchievement[];
+}
+
+// Platform and per-game achievements rendered through the same card
+interface DisplayAchievement {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  imageUrl?: string;
+  hidden?: boolean;
+  points?: number;
+  progress?: number;
+  target?: number;
+  rarity: number;
+  unlocked: boolean;
+  unlockedAt: string | null;
+}
+
+interface AchievementSection {
+  key: string;
+  title: string;
+  unlocked: number;
+  total: number;
+  completion: number;
+  points?: { earned: number; total: number };
+  achievements: DisplayAchievement[];
 }
 
 const iconMap: Record<string, typeof Trophy> = {
@@ -43,17 +100,34 @@ const iconMap: Record<string, typeof Trophy> = {
   code: Code,
 };
 
+// Checked in order; the first tier whose ceiling covers the rarity wins
+const RARITY_TIERS = [
+  { max: 1, label: "Legendary", className: "text-amber-400 border-amber-400/40" },
+  { max: 5, label: "Epic", className: "text-purple-400 border-purple-400/40" },
+  { max: 20, label: "Rare", className: "text-sky-400 border-sky-400/40" },
+  { max: 50, label: "Uncommon", className: "text-emerald-400 border-emerald-400/40" },
+  { max: 100, label: "Common", className: "text-[#A3A3A3] border-[#333333]" },
+];
+
+const getRarityTier = (rarity: number) =>
+  RARITY_TIERS.find((tier) => rarity <= tier.max) || RARITY_TIERS[RARITY_TIERS.length - 1];
+
 export default function AchievementsPage() {
   const { get } = useApi();
   const { toast } = useToast();
   const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [gameGroups, setGameGroups] = useState<GameAchievementGroup[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
     const fetchAchievements = async () => {
       try {
-        const data = await get<Achievement[]>("/api/achievements");
-        setAchievements(data);
+        const [platformData, gameData] = await Promise.all([
+          get<Achievement[]>("/api/achievements"),
+          get<GameAchievementGroup[]>("/api/achievements/games"),
+        ]);
+        setAchievements(platformData);
+        setGameGroups(gameData);
       } catch (error) {
         toast({ title: "Error loading achievements", variant: "destructive" });
       } finally {
@@ -71,7 +145,39 @@ export default function AchievementsPage() {
     });
   };
 
-  const unlockedCount = achievements.filter((a) => a.unlocked).length;
+  const platformUnlocked = achievements.filter((a) => a.unlocked).length;
+  const sections: AchievementSection[] = [
+    {
+      key: "nexar",
+      title: "Nexar",
+      unlocked: platformUnlocked,
+      total: achievements.length,
+      completion: achievements.length ? Math.round((platformUnlocked / achievements.length) * 100) : 0,
+      points: {
+        earned: achievements.filter((a) => a.unlocked).reduce((sum, a) => sum + a.points, 0),
+        total: achievements.reduce((sum, a) => sum + a.points, 0),
+      },
+      achievements: achievements.map((achievement) => ({
+        ...achievement,
+        imageUrl: achievementImageMap[achievement.id],
+      })),
+    },
+    ...gameGroups.map((group) => ({
+      key: group.gameId,
+      title: group.title,
+      unlocked: group.unlocked,
+      total: group.total,
+      completion: group.completion,
+      points: { earned: group.earnedPoints, total: group.totalPoints },
+      achievements: group.achievements.map((achievement) => ({
+        ...achievement,
+        icon: "trophy",
+        imageUrl: achievement.iconUrl || undefined,
+      })),
+    })),
+  ];
+  const unlockedCount = sections.reduce((sum, section) => sum + section.unlocked, 0);
+  const totalCount = sections.reduce((sum, section) => sum + section.total, 0);
 
   if (isLoading) {
     return (
@@ -95,81 +201,127 @@ export default function AchievementsPage() {
           </h1>
           <div className="bg-[#1A1A1A] px-4 py-2 rounded-xl border border-[#2A2A2A]">
             <span className="text-[#d00024] font-bold">{unlockedCount}</span>
-            <span className="text-[#A3A3A3]"> / {achievements.length}</span>
+            <span className="text-[#A3A3A3]"> / {totalCount}</span>
           </div>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {achievements.map((achievement, index) => {
-            const IconComponent = iconMap[achievement.icon] || Trophy;
-            return (
-              <motion.div
-                key={achievement.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.3, delay: index * 0.05 }}
-                data-testid={`achievement-${achievement.id}`}
-                className={`relative p-5 rounded-2xl border transition-all ${
-                  achievement.unlocked
-                    ? "bg-[#1A1A1A] border-[#d00024]/50 shadow-lg shadow-[#d00024]/10"
-                    : "bg-[#111111] border-[#2A2A2A] opacity-60"
-                }`}
-              >
-                <div className="flex items-start gap-4">
-                  {achievementImageMap[achievement.id] ? (
-                    <img 
-                      src={achievementImageMap[achievement.id]} 
-                      alt={achievement.name}
-                      className={`w-24 h-24 flex-shrink-0 object-contain ${
-                        !achievement.unlocked && "opacity-40 grayscale"
-                      }`}
-                    />
-                  ) : (
-                    <div
-                      className={`w-14 h-14 rounded-xl flex items-center justify-center ${
+        <div className="space-y-10">
+          {sections.map((section) => (
+            <section key={section.key} data-testid={`achievement-section-${section.key}`}>
+              <div className="flex items-end justify-between gap-4 mb-3">
+                <div className="min-w-0">
+                  <h2 className="text-xl font-semibold text-[#EAEAEA] truncate">{section.title}</h2>
+                  <p className="text-sm text-[#A3A3A3]">
+                    {section.unlocked} of {section.total} unlocked
+                    {section.points && ` · ${section.points.earned} / ${section.points.total} points`}
+                  </p>
+                </div>
+                <span className="text-2xl font-bold text-[#d00024]">{section.completion}%</span>
+              </div>
+              <Progress value={section.completion} className="h-2 mb-4 bg-[#2A2A2A]" />
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {section.achievements.map((achievement, index) => {
+                  const IconComponent = iconMap[achievement.icon] || Trophy;
+                  return (
+                    <motion.div
+                      key={achievement.id}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ duration: 0.3, delay: index * 0.05 }}
+                      data-testid={`achievement-${achievement.id}`}
+                      className={`relative p-5 rounded-2xl border transition-all ${
                         achievement.unlocked
-                          ? "bg-[#d00024]/20 text-[#d00024]"
-                          : "bg-[#2A2A2A] text-[#666666]"
+                          ? "bg-[#1A1A1A] border-[#d00024]/50 shadow-lg shadow-[#d00024]/10"
+                          : "bg-[#111111] border-[#2A2A2A] opacity-60"
                       }`}
                     >
-                      {achievement.unlocked ? (
-                        <IconComponent className="w-7 h-7" />
-                      ) : (
-                        <Lock className="w-7 h-7" />
-                      )}
-                    </div>
-                  )}
-                  <div className="flex-1">
-                    <h3
-                      className={`font-semibold text-lg ${
-                        achievement.unlocked ? "text-[#EAEAEA]" : "text-[#666666]"
-                      }`}
-                    >
-                      {achievement.name}
-                    </h3>
-                    <p
-                      className={`text-sm mt-1 ${
-                        achievement.unlocked ? "text-[#A3A3A3]" : "text-[#555555]"
-                      }`}
-                    >
-                      {achievement.description}
-                    </p>
-                    {achievement.unlocked && achievement.unlockedAt && (
-                      <p className="text-xs text-[#d00024] mt-2">
-                        Unlocked {formatDate(achievement.unlockedAt)}
-                      </p>
-                    )}
-                  </div>
-                </div>
+                      <div className="flex items-start gap-4">
+                        {achievement.imageUrl ? (
+                          <img 
+                            src={achievement.imageUrl} 
+                            alt={achievement.name}
+                            className={`w-24 h-24 flex-shrink-0 object-contain ${
+                              !achievement.unlocked && "opacity-40 grayscale"
+                            }`}
+                          />
+                        ) : (
+                          <div
+                            className={`w-14 h-14 rounded-xl flex items-center justify-center ${
+                              achievement.unlocked
+                                ? "bg-[#d00024]/20 text-[#d00024]"
+                                : "bg-[#2A2A2A] text-[#666666]"
+                            }`}
+                          >
+                            {achievement.unlocked ? (
+                              <IconComponent className="w-7 h-7" />
+                            ) : achievement.hidden ? (
+                              <EyeOff className="w-7 h-7" />
+                            ) : (
+                              <Lock className="w-7 h-7" />
+                            )}
+                          </div>
+                        )}
+                        <div className="flex-1">
+                          <h3
+                            className={`font-semibold text-lg ${
+                              achievement.unlocked ? "text-[#EAEAEA]" : "text-[#666666]"
+                            }`}
+                          >
+                            {achievement.name}
+                          </h3>
+                          <p
+                            className={`text-sm mt-1 ${
+                              achievement.unlocked ? "text-[#A3A3A3]" : "text-[#555555]"
+                            }`}
+                          >
+                            {achievement.description}
+                          </p>
+                          {achievement.unlocked && achievement.unlockedAt && (
+                            <p className="text-xs text-[#d00024] mt-2">
+                              Unlocked {formatDate(achievement.unlockedAt)}
+                            </p>
+                          )}
+                          {!achievement.unlocked && achievement.target !== undefined && achievement.target > 1 && (
+                            <div className="mt-3" data-testid={`progress-achievement-${achievement.id}`}>
+                              <div className="flex justify-between text-xs text-[#666666] mb-1">
+                                <span>Progress</span>
+                                <span>
+                                  {achievement.progress ?? 0} / {achievement.target}
+                                </span>
+                              </div>
+                              <Progress
+                                value={((achievement.progress ?? 0) / achievement.target) * 100}
+                                className="h-1.5 bg-[#2A2A2A]"
+                              />
+                            </div>
+                          )}
+                          <div className="flex items-center gap-2 mt-2 flex-wrap">
+                            <span
+                              className={`text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-full border ${getRarityTier(achievement.rarity).className}`}
+                              data-testid={`rarity-achievement-${achievement.id}`}
+                            >
+                              {getRarityTier(achievement.rarity).label}
+                            </span>
+                            <span className="text-xs text-[#666666]">{achievement.rarity}% of players</span>
+                            {achievement.points !== undefined && (
+                              <span className="text-xs text-[#666666]">· {achievement.points} points</span>
+                            )}
+                          </div>
+                        </div>
+                      </div>
 
-                {achievement.unlocked && (
-                  <div className="absolute top-3 right-3">
-                    <Trophy className="w-5 h-5 text-[#d00024]" />
-                  </div>
-                )}
-              </motion.div>
-            );
-          })}
+                      {achievement.unlocked && (
+                        <div className="absolute top-3 right-3">
+                          <Trophy className="w-5 h-5 text-[#d00024]" />
+                        </div>
+                      )}
+                    </motion.div>
+                  );
+                })}
+              </div>
+            </section>
+          ))}
         </div>
       </motion.div>
     </div>
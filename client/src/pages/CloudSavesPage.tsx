@@ -1,10 +1,17 @@
-import { useState, useEffect } from "react";
-import { motion } from "framer-motion";
+import { useState, useEffect, useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
 import { useApi } from "@/hooks/useApi";
 import { useNotifications } from "@/hooks/useNotifications";
+import { useLibrary } from "@/hooks/useLibrary";
+import { getDeviceId, getDeviceName } from "@/lib/device";
+import { formatBytes } from "@/lib/format";
+import CloudSaveConflictDialog, {
+  type CloudSaveConflict,
+  type ConflictResolution,
+} from "@/components/nexar/CloudSaveConflictDialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
 import { Label } from "@/components/ui/label";
 import {
   Dialog,
@@ -13,8 +20,15 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Cloud, Plus, Download, Trash2, Edit, FileText, Calendar } from "lucide-react";
+import { Loader2, Cloud, Plus, Download, Trash2, Edit, FileText, Calendar, History, RotateCcw, Gamepad2 } from "lucide-react";
 
 interface Achievement {
   id: string;
@@ -25,28 +39,189 @@ interface Achievement {
 
 interface CloudSave {
   id: string;
+  gameId: string;
+  gameTitle: string | null;
   filename: string;
+  revision: number;
+  revisionCount?: number;
+  sizeBytes?: number;
+  deviceName?: string | null;
   uploadedAt: string;
-  data?: string;
+}
+
+interface SaveRevision {
+  id: string;
+  revision: number;
+  filename: string;
+  deviceName: string | null;
+  createdAt: string;
+  sizeBytes: number;
+  isCurrent: boolean;
+}
+
+interface SaveGroup {
+  gameId: string;
+  gameTitle: string;
+  saves: CloudSave[];
+}
+
+interface CloudUsage {
+  usedBytes: number;
+  quotaBytes: number;
+  isNexarPlus: boolean;
+}
+
+function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+function conflictedCopyName(filename: string, deviceName: string) {
+  const dot = filename.lastIndexOf(".");
+  const stem = dot > 0 ? filename.slice(0, dot) : filename;
+  const extension = dot > 0 ? filename.slice(dot) : "";
+  const stamp = new Date().toISOString().slice(0, 16).replace("T", " ");
+  return `${stem} (${deviceName} conflicted copy ${stamp})${extension}`;
+}
+
+function deviceFields() {
+  return { deviceId: getDeviceId(), deviceName: getDeviceName() };
 }
 
 export default function CloudSavesPage() {
-  const { get, post, patch, del } = useApi();
+  const { get, post, del, fetchWithAuth } = useApi();
   const { showAchievement } = useNotifications();
   const { toast } = useToast();
+  const { games: libraryGames } = useLibrary();
   const [saves, setSaves] = useState<CloudSave[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isUploading, setIsUploading] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingSave, setEditingSave] = useState<CloudSave | null>(null);
+  const [gameId, setGameId] = useState("");
   const [filename, setFilename] = useState("");
-  const [data, setData] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [usage, setUsage] = useState<CloudUsage | null>(null);
   const [pendingActions, setPendingActions] = useState<Set<string>>(new Set());
+  const [expandedSaveId, setExpandedSaveId] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<SaveRevision[]>([]);
+  const [revisionsLoading, setRevisionsLoading] = useState(false);
+  const [conflict, setConflict] = useState<CloudSaveConflict | null>(null);
+  const [resolving, setResolving] = useState<ConflictResolution | null>(null);
+
+  const groups = useMemo<SaveGroup[]>(() => {
+    const byGame = new Map<string, SaveGroup>();
+    saves.forEach((save) => {
+      const group = byGame.get(save.gameId) || {
+        gameId: save.gameId,
+        gameTitle: save.gameTitle || "Other Saves",
+        saves: [],
+      };
+      group.saves.push(save);
+      byGame.set(save.gameId, group);
+    });
+    return Array.from(byGame.values()).sort((a, b) => a.gameTitle.localeCompare(b.gameTitle));
+  }, [saves]);
+
+  const markPending = (id: string, pending: boolean) => {
+    setPendingActions((prev) => {
+      const next = new Set(prev);
+      if (pending) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  // Returns false when the write was rejected as stale and a conflict is pending
+  const updateSave = async (
+    save: Pick<CloudSave, "id" | "gameId">,
+    changes: { filename: string; file: File | null },
+    baseRevision: number,
+  ) => {
+    const form = saveForm({ filename: changes.filename, baseRevision: String(baseRevision) }, changes.file);
+    const res = await fetchWithAuth(`/api/cloud/${save.id}`, { method: "PATCH", body: form });
+
+    if (res.status === 409) {
+      const body: { cloud?: CloudSave; local?: { sizeBytes?: number }; message?: string } = await res.json();
+      // Without a cloud copy the 409 is a filename clash, not a stale revision
+      if (!body.cloud) {
+        throw new Error(body.message || "A save with this filename already exists for this game");
+      }
+      setConflict({
+        saveId: save.id,
+        gameId: save.gameId,
+        local: {
+          ...changes,
+          sizeBytes: body.local?.sizeBytes,
+          deviceName: getDeviceName(),
+          modifiedAt: new Date().toISOString(),
+        },
+        cloud: {
+          filename: body.cloud.filename,
+          sizeBytes: body.cloud.sizeBytes,
+          deviceName: body.cloud.deviceName || null,
+          modifiedAt: body.cloud.uploadedAt,
+          revision: body.cloud.revision,
+        },
+      });
+      return false;
+    }
+
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      throw new Error(errorData.message || "Request failed");
+    }
+
+    if (expandedSaveId === save.id) {
+      loadRevisions(save.id);
+    }
+    return true;
+  };
+
+  const saveForm = (fields: Record<string, string>, saveFile: File | null) => {
+    const form = new FormData();
+    Object.entries({ ...fields, ...deviceFields() }).forEach(([key, value]) => form.append(key, value));
+    if (saveFile) {
+      form.append("file", saveFile);
+    }
+    return form;
+  };
+
+  const createSave = async (fields: { gameId: string; filename: string }, saveFile: File) => {
+    const res = await fetchWithAuth("/api/cloud", { method: "POST", body: saveForm(fields, saveFile) });
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      throw new Error(errorData.message || "Upload failed");
+    }
+    return res.json() as Promise<CloudSave & { unlockedAchievements?: Achievement[] }>;
+  };
+
+  const downloadContent = async (url: string, filename: string) => {
+    const res = await fetchWithAuth(url);
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      throw new Error(errorData.message || "Download failed");
+    }
+    downloadBlob(filename, await res.blob());
+  };
 
   const fetchSaves = async () => {
     try {
-      const savesData = await get<CloudSave[]>("/api/cloud");
+      const [savesData, usageData] = await Promise.all([
+        get<CloudSave[]>("/api/cloud"),
+        get<CloudUsage>("/api/cloud/usage"),
+      ]);
       setSaves(savesData);
+      setUsage(usageData);
     } catch (error) {
       toast({ title: "Error loading cloud saves", variant: "destructive" });
     } finally {
@@ -59,18 +234,28 @@ export default function CloudSavesPage() {
   }, []);
 
   const handleUpload = async () => {
-    if (!filename.trim() || !data.trim()) {
+    if ((!editingSave && (!gameId || !file)) || !filename.trim()) {
       toast({ title: "Please fill in all fields", variant: "destructive" });
       return;
     }
+    if (file && usage && usage.usedBytes + file.size > usage.quotaBytes) {
+      toast({
+        title: "Not enough cloud storage",
+        description: `${file.name} is ${formatBytes(file.size)} but only ${formatBytes(Math.max(0, usage.quotaBytes - usage.usedBytes))} is free`,
+        variant: "destructive",
+      });
+      return;
+    }
 
     setIsUploading(true);
     try {
       if (editingSave) {
-        await patch(`/api/cloud/${editingSave.id}`, { filename, data });
-        toast({ title: "Cloud save updated" });
+        const updated = await updateSave(editingSave, { filename, file }, editingSave.revision);
+        if (updated) {
+          toast({ title: "Cloud save updated" });
+        }
       } else {
-        const response = await post<CloudSave & { unlockedAchievements?: Achievement[] }>("/api/cloud", { filename, data });
+        const response = await createSave({ gameId, filename }, file as File);
         const { unlockedAchievements } = response;
         toast({ title: "Cloud save uploaded" });
         if (unlockedAchievements?.length) {
@@ -78,8 +263,9 @@ export default function CloudSavesPage() {
         }
       }
       setIsDialogOpen(false);
+      setGameId("");
       setFilename("");
-      setData("");
+      setFile(null);
       setEditingSave(null);
       fetchSaves();
     } catch (error) {
@@ -98,8 +284,9 @@ export default function CloudSavesPage() {
     try {
       const fullSave = await get<CloudSave>(`/api/cloud/${save.id}`);
       setEditingSave(fullSave);
+      setGameId(fullSave.gameId);
       setFilename(fullSave.filename);
-      setData(fullSave.data || "");
+      setFile(null);
       setIsDialogOpen(true);
     } catch (error) {
       toast({ title: "Error loading save", variant: "destructive" });
@@ -115,16 +302,7 @@ export default function CloudSavesPage() {
   const handleDownload = async (save: CloudSave) => {
     setPendingActions((prev) => new Set(prev).add(save.id));
     try {
-      const fullSave = await get<CloudSave>(`/api/cloud/${save.id}`);
-      const blob = new Blob([fullSave.data || ""], { type: "text/plain" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = save.filename;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      await downloadContent(`/api/cloud/${save.id}/content`, save.filename);
       toast({ title: "Download started" });
     } catch (error) {
       toast({ title: "Download failed", variant: "destructive" });
@@ -154,6 +332,106 @@ export default function CloudSavesPage() {
     }
   };
 
+  const loadRevisions = async (saveId: string) => {
+    setRevisionsLoading(true);
+    try {
+      const history = await get<SaveRevision[]>(`/api/cloud/${saveId}/revisions`);
+      setRevisions(history);
+    } catch (error) {
+      toast({ title: "Error loading save history", variant: "destructive" });
+    } finally {
+      setRevisionsLoading(false);
+    }
+  };
+
+  const toggleHistory = (saveId: string) => {
+    if (expandedSaveId === saveId) {
+      setExpandedSaveId(null);
+      return;
+    }
+    setExpandedSaveId(saveId);
+    setRevisions([]);
+    loadRevisions(saveId);
+  };
+
+  const handleDownloadRevision = async (save: CloudSave, revision: SaveRevision) => {
+    markPending(revision.id, true);
+    try {
+      await downloadContent(
+        `/api/cloud/${save.id}/revisions/${revision.revision}/content`,
+        `r${revision.revision}-${revision.filename}`,
+      );
+    } catch (error) {
+      toast({ title: "Download failed", variant: "destructive" });
+    } finally {
+      markPending(revision.id, false);
+    }
+  };
+
+  const handleRestore = async (save: CloudSave, revision: SaveRevision) => {
+    markPending(revision.id, true);
+    try {
+      await post(`/api/cloud/${save.id}/revisions/${revision.revision}/restore`, deviceFields());
+      toast({
+        title: "Save restored",
+        description: `${save.filename} was restored to revision ${revision.revision}`,
+      });
+      fetchSaves();
+      loadRevisions(save.id);
+    } catch (error) {
+      toast({
+        title: "Restore failed",
+        description: error instanceof Error ? error.message : "Could not restore revision",
+        variant: "destructive",
+      });
+    } finally {
+      markPending(revision.id, false);
+    }
+  };
+
+  const handleResolveConflict = async (resolution: ConflictResolution) => {
+    if (!conflict) return;
+
+    if (resolution === "cloud") {
+      setConflict(null);
+      toast({ title: "Kept cloud version", description: "Your local changes were discarded" });
+      fetchSaves();
+      return;
+    }
+
+    setResolving(resolution);
+    try {
+      if (resolution === "local") {
+        const resolved = conflict;
+        setConflict(null);
+        const updated = await updateSave(
+          { id: resolved.saveId, gameId: resolved.gameId },
+          { filename: resolved.local.filename, file: resolved.local.file },
+          resolved.cloud.revision,
+        );
+        if (updated) {
+          toast({ title: "Kept local version", description: "The cloud save was replaced with your changes" });
+        }
+      } else if (conflict.local.file) {
+        await createSave(
+          { gameId: conflict.gameId, filename: conflictedCopyName(conflict.local.filename, getDeviceName()) },
+          conflict.local.file,
+        );
+        setConflict(null);
+        toast({ title: "Kept both versions", description: "Your local changes were saved as a copy" });
+      }
+      fetchSaves();
+    } catch (error) {
+      toast({
+        title: "Failed to resolve conflict",
+        description: error instanceof Error ? error.message : "Could not save",
+        variant: "destructive",
+      });
+    } finally {
+      setResolving(null);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       year: "numeric",
@@ -166,8 +444,9 @@ export default function CloudSavesPage() {
 
   const openNewDialog = () => {
     setEditingSave(null);
+    setGameId("");
     setFilename("");
-    setData("");
+    setFile(null);
     setIsDialogOpen(true);
   };
 
@@ -209,6 +488,28 @@ export default function CloudSavesPage() {
                 </DialogTitle>
               </DialogHeader>
               <div className="space-y-4 pt-4">
+                <div className="space-y-2">
+                  <Label className="text-[#EAEAEA]">Game</Label>
+                  {editingSave ? (
+                    <p className="text-sm text-[#A3A3A3]" data-testid="text-save-game">
+                      {editingSave.gameTitle || "Other Saves"}
+                    </p>
+                  ) : (
+                    <Select value={gameId} onValueChange={setGameId}>
+                      <SelectTrigger
+                        data-testid="select-save-game"
+                        className="bg-[#111111] border-[#333333] text-[#EAEAEA]"
+                      >
+                        <SelectValue placeholder="Choose a game from your library" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {libraryGames.map((game) => (
+                          <SelectItem key={game.id} value={game.id}>{game.title}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="filename" className="text-[#EAEAEA]">
                     Filename
@@ -223,18 +524,25 @@ export default function CloudSavesPage() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="data" className="text-[#EAEAEA]">
-                    Save Data
+                  <Label htmlFor="save-file" className="text-[#EAEAEA]">
+                    {editingSave ? "Replace Save File (optional)" : "Save File"}
                   </Label>
-                  <Textarea
-                    id="data"
-                    value={data}
-                    onChange={(e) => setData(e.target.value)}
-                    placeholder="Paste your save data here..."
-                    rows={8}
-                    data-testid="input-data"
-                    className="bg-[#111111] border-[#333333] text-[#EAEAEA] focus:border-[#d00024] resize-none font-mono text-sm"
+                  <Input
+                    id="save-file"
+                    type="file"
+                    onChange={(e) => {
+                      const selected = e.target.files?.[0] || null;
+                      setFile(selected);
+                      if (selected && !filename.trim()) {
+                        setFilename(selected.name);
+                      }
+                    }}
+                    data-testid="input-save-file"
+                    className="bg-[#111111] border-[#333333] text-[#EAEAEA] focus:border-[#d00024] file:text-[#EAEAEA]"
                   />
+                  {file && (
+                    <p className="text-xs text-[#A3A3A3]">{formatBytes(file.size)}</p>
+                  )}
                 </div>
                 <Button
                   onClick={handleUpload}
@@ -254,6 +562,23 @@ export default function CloudSavesPage() {
           </Dialog>
         </div>
 
+        {usage && (
+          <div className="mb-8 p-5 bg-[#1A1A1A] rounded-2xl border border-[#2A2A2A] space-y-3" data-testid="cloud-usage">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-[#EAEAEA] font-medium">Cloud Storage</span>
+              <span className="text-[#A3A3A3]">
+                {formatBytes(usage.usedBytes)} of {formatBytes(usage.quotaBytes)} used
+              </span>
+            </div>
+            <Progress value={Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100)} className="h-2" />
+            <p className="text-xs text-[#A3A3A3]">
+              {usage.isNexarPlus
+                ? "Nexar+ storage. Older revisions count towards your usage until they are pruned."
+                : "Upgrade to Nexar+ for more cloud save storage."}
+            </p>
+          </div>
+        )}
+
         {saves.length === 0 ? (
           <div className="text-center py-16 text-[#A3A3A3]">
             <Cloud className="w-16 h-16 mx-auto mb-4 opacity-50" />
@@ -261,70 +586,187 @@ export default function CloudSavesPage() {
             <p className="text-sm mt-2">Upload your first save to keep it safe in the cloud.</p>
           </div>
         ) : (
-          <div className="space-y-4">
-            {saves.map((save, index) => (
-              <motion.div
-                key={save.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.3, delay: index * 0.05 }}
-                data-testid={`save-${save.id}`}
-                className="flex items-center justify-between p-5 bg-[#1A1A1A] rounded-2xl border border-[#2A2A2A]"
-              >
-                <div className="flex items-center gap-4">
-                  <div className="w-12 h-12 rounded-xl bg-[#d00024]/20 flex items-center justify-center">
-                    <FileText className="w-6 h-6 text-[#d00024]" />
-                  </div>
-                  <div>
-                    <h3 className="text-[#EAEAEA] font-medium">{save.filename}</h3>
-                    <div className="flex items-center gap-2 text-[#A3A3A3] text-sm mt-1">
-                      <Calendar className="w-3 h-3" />
-                      <span>{formatDate(save.uploadedAt)}</span>
-                    </div>
-                  </div>
+          <div className="space-y-8">
+            {groups.map((group) => (
+              <section key={group.gameId} className="space-y-4" data-testid={`save-group-${group.gameId}`}>
+                <div className="flex items-center gap-2 text-[#A3A3A3]">
+                  <Gamepad2 className="w-4 h-4" />
+                  <h2 className="text-sm font-medium uppercase tracking-wider">{group.gameTitle}</h2>
+                  <span className="text-xs">({group.saves.length})</span>
                 </div>
 
-                <div className="flex gap-2">
-                  <Button
-                    size="icon"
-                    variant="ghost"
-                    onClick={() => handleDownload(save)}
-                    disabled={pendingActions.has(save.id)}
-                    data-testid={`button-download-${save.id}`}
-                    className="text-[#A3A3A3] hover:text-[#EAEAEA] hover:bg-[#2A2A2A]"
+                {group.saves.map((save, index) => (
+                  <motion.div
+                    key={save.id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.3, delay: index * 0.05 }}
+                    data-testid={`save-${save.id}`}
+                    className="bg-[#1A1A1A] rounded-2xl border border-[#2A2A2A]"
                   >
-                    {pendingActions.has(save.id) ? (
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                    ) : (
-                      <Download className="w-4 h-4" />
-                    )}
-                  </Button>
-                  <Button
-                    size="icon"
-                    variant="ghost"
-                    onClick={() => handleEdit(save)}
-                    disabled={pendingActions.has(save.id)}
-                    data-testid={`button-edit-${save.id}`}
-                    className="text-[#A3A3A3] hover:text-[#EAEAEA] hover:bg-[#2A2A2A]"
-                  >
-                    <Edit className="w-4 h-4" />
-                  </Button>
-                  <Button
-                    size="icon"
-                    variant="ghost"
-                    onClick={() => handleDelete(save.id)}
-                    disabled={pendingActions.has(save.id)}
-                    data-testid={`button-delete-${save.id}`}
-                    className="text-[#666666] hover:text-[#d00024] hover:bg-[#d00024]/10"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
-                </div>
-              </motion.div>
+                    <div className="flex items-center justify-between p-5">
+                      <div className="flex items-center gap-4">
+                        <div className="w-12 h-12 rounded-xl bg-[#d00024]/20 flex items-center justify-center">
+                          <FileText className="w-6 h-6 text-[#d00024]" />
+                        </div>
+                        <div>
+                          <h3 className="text-[#EAEAEA] font-medium">{save.filename}</h3>
+                          <div className="flex items-center gap-2 text-[#A3A3A3] text-sm mt-1">
+                            <Calendar className="w-3 h-3" />
+                            <span>{formatDate(save.uploadedAt)}</span>
+                            <span>·</span>
+                            <span>Revision {save.revision}</span>
+                            {save.sizeBytes !== undefined && (
+                              <>
+                                <span>·</span>
+                                <span>{formatBytes(save.sizeBytes)}</span>
+                              </>
+                            )}
+                            {save.deviceName && (
+                              <>
+                                <span>·</span>
+                                <span>{save.deviceName}</span>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="flex gap-2">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => toggleHistory(save.id)}
+                          data-testid={`button-history-${save.id}`}
+                          className={`hover:text-[#EAEAEA] hover:bg-[#2A2A2A] ${expandedSaveId === save.id ? "text-[#EAEAEA] bg-[#2A2A2A]" : "text-[#A3A3A3]"}`}
+                        >
+                          <History className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleDownload(save)}
+                          disabled={pendingActions.has(save.id)}
+                          data-testid={`button-download-${save.id}`}
+                          className="text-[#A3A3A3] hover:text-[#EAEAEA] hover:bg-[#2A2A2A]"
+                        >
+                          {pendingActions.has(save.id) ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <Download className="w-4 h-4" />
+                          )}
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleEdit(save)}
+                          disabled={pendingActions.has(save.id)}
+                          data-testid={`button-edit-${save.id}`}
+                          className="text-[#A3A3A3] hover:text-[#EAEAEA] hover:bg-[#2A2A2A]"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleDelete(save.id)}
+                          disabled={pendingActions.has(save.id)}
+                          data-testid={`button-delete-${save.id}`}
+                          className="text-[#666666] hover:text-[#d00024] hover:bg-[#d00024]/10"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    <AnimatePresence>
+                      {expandedSaveId === save.id && (
+                        <motion.div
+                          initial={{ height: 0, opacity: 0 }}
+                          animate={{ height: "auto", opacity: 1 }}
+                          exit={{ height: 0, opacity: 0 }}
+                          className="overflow-hidden border-t border-[#2A2A2A]"
+                          data-testid={`history-${save.id}`}
+                        >
+                          {revisionsLoading && revisions.length === 0 ? (
+                            <div className="flex justify-center py-6">
+                              <Loader2 className="w-5 h-5 animate-spin text-[#d00024]" />
+                            </div>
+                          ) : (
+                            <ol className="ml-10 my-5 mr-5 border-l border-[#333333]">
+                              {revisions.map((revision) => (
+                                <li
+                                  key={revision.id}
+                                  className="relative ml-6 mb-4 last:mb-0 flex items-center justify-between gap-4"
+                                  data-testid={`revision-${revision.revision}`}
+                                >
+                                  <span
+                                    className={`absolute -left-[1.875rem] top-1.5 w-3 h-3 rounded-full border-2 border-[#1A1A1A] ${revision.isCurrent ? "bg-[#d00024]" : "bg-[#555555]"}`}
+                                  />
+                                  <div>
+                                    <p className="text-sm text-[#EAEAEA]">
+                                      Revision {revision.revision}
+                                      {revision.isCurrent && (
+                                        <span className="ml-2 text-xs text-[#d00024]">Current</span>
+                                      )}
+                                    </p>
+                                    <p className="text-xs text-[#A3A3A3]">
+                                      {formatDate(revision.createdAt)}
+                                      {` · ${formatBytes(revision.sizeBytes)}`}
+                                      {revision.deviceName && ` · ${revision.deviceName}`}
+                                      {revision.filename !== save.filename && ` · ${revision.filename}`}
+                                    </p>
+                                  </div>
+                                  <div className="flex gap-2">
+                                    <Button
+                                      size="icon"
+                                      variant="ghost"
+                                      onClick={() => handleDownloadRevision(save, revision)}
+                                      disabled={pendingActions.has(revision.id)}
+                                      data-testid={`button-download-revision-${revision.revision}`}
+                                      className="text-[#A3A3A3] hover:text-[#EAEAEA] hover:bg-[#2A2A2A]"
+                                    >
+                                      <Download className="w-4 h-4" />
+                                    </Button>
+                                    {!revision.isCurrent && (
+                                      <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={() => handleRestore(save, revision)}
+                                        disabled={pendingActions.has(revision.id)}
+                                        data-testid={`button-restore-revision-${revision.revision}`}
+                                        className="text-[#A3A3A3] hover:text-[#EAEAEA] hover:bg-[#2A2A2A]"
+                                      >
+                                        {pendingActions.has(revision.id) ? (
+                                          <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                                        ) : (
+                                          <RotateCcw className="w-4 h-4 mr-2" />
+                                        )}
+                                        Restore
+                                      </Button>
+                                    )}
+                                  </div>
+                                </li>
+                              ))}
+                            </ol>
+                          )}
+                        </motion.div>
+                      )}
+                    </AnimatePresence>
+                  </motion.div>
+                ))}
+              </section>
             ))}
           </div>
         )}
       </motion.div>
+
+      <CloudSaveConflictDialog
+        conflict={conflict}
+        resolving={resolving}
+        onResolve={handleResolveConflict}
+        onClose={() => setConflict(null)}
+      />
     </div>
   );
 }
@@ -3,12 +3,14 @@ import { motion } from "framer-motion";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { 
   Code, Plus, Gamepad2, FileText, BarChart3, Loader2, 
-  Edit, Send, Eye, Clock, CheckCircle, XCircle
+  Edit, Send, Eye, Clock, CheckCircle, XCircle, KeyRound
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import GameApiKeysManager from "@/components/nexar/GameApiKeysManager";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/queryClient";
@@ -22,6 +24,7 @@ interface DeveloperGame {
   genre: string;
   tags: string[];
   status: "draft" | "pending" | "approved" | "rejected";
+  version: string | null;
   versions: string[];
   createdAt: string;
   updatedAt: string;
@@ -45,6 +48,7 @@ export default function DeveloperPortalPage({ onNavigateToEditor }: { onNavigate
   const { token } = useAuth();
   const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState("games");
+  const [keysGameId, setKeysGameId] = useState<string>("");
 
   const { data: status, isLoading: statusLoading } = useQuery<DeveloperStatus>({
     queryKey: ["/api/developer/status"],
@@ -56,6 +60,8 @@ export default function DeveloperPortalPage({ onNavigateToEditor }: { onNavigate
     enabled: !!token && status?.status === "approved",
   });
 
+  const selectedKeysGameId = keysGameId || games?.[0]?.gameId || "";
+
   const submitForReviewMutation = useMutation({
     mutationFn: async (gameId: string) => {
       return apiRequest("POST", "/api/developer/game/submitForReview", { gameId });
@@ -133,6 +139,10 @@ export default function DeveloperPortalPage({ onNavigateToEditor }: { onNavigate
             <Gamepad2 className="w-4 h-4 mr-2" />
             My Games
           </TabsTrigger>
+          <TabsTrigger value="keys" data-testid="tab-api-keys">
+            <KeyRound className="w-4 h-4 mr-2" />
+            API Keys
+          </TabsTrigger>
           <TabsTrigger value="docs" data-testid="tab-docs">
             <FileText className="w-4 h-4 mr-2" />
             Documentation
@@ -187,6 +197,11 @@ export default function DeveloperPortalPage({ onNavigateToEditor }: { onNavigate
                         <p className="text-sm text-muted-foreground truncate">{game.description}</p>
                         <div className="flex items-center gap-3 mt-1 flex-wrap">
                           <span className="text-sm text-muted-foreground">{game.genre}</span>
+                          {game.versions.length > 0 && (
+                            <span className="text-sm text-muted-foreground">
+                              v{game.version} · {game.versions.length} build{game.versions.length === 1 ? "" : "s"}
+                            </span>
+                          )}
                           <span className="text-sm font-medium text-primary">
                             {game.price === 0 ? "Free" : `$${game.price.toFixed(2)}`}
                           </span>
@@ -233,6 +248,34 @@ export default function DeveloperPortalPage({ onNavigateToEditor }: { onNavigate
           )}
         </TabsContent>
 
+        <TabsContent value="keys">
+          {!games || games.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <KeyRound className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+                <h3 className="text-xl font-semibold mb-2">No Games Yet</h3>
+                <p className="text-muted-foreground">
+                  API keys are issued per game. Create a game to get started.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              <Select value={selectedKeysGameId} onValueChange={setKeysGameId}>
+                <SelectTrigger className="w-64" data-testid="select-api-keys-game">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {games.map((game) => (
+                    <SelectItem key={game.gameId} value={game.gameId}>{game.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <GameApiKeysManager key={selectedKeysGameId} gameId={selectedKeysGameId} />
+            </div>
+          )}
+        </TabsContent>
+
         <TabsContent value="docs">
           <Card>
             <CardHeader>
@@ -268,6 +311,15 @@ export default function DeveloperPortalPage({ onNavigateToEditor }: { onNavigate
                   <li>Rejected games can be resubmitted after making requested changes</li>
                 </ul>
               </div>
+              <div>
+                <h3 className="font-semibold mb-2">Platform Services</h3>
+                <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
+                  <li>Issue a key for your game under API Keys and pick only the scopes it needs</li>
+                  <li>Send the key in the X-Nexar-Api-Key header to /api/game-services endpoints</li>
+                  <li>Calls are made for the player's current play session, passed as its session ID</li>
+                  <li>Rotate a key if it may have leaked; the old key stops working immediately</li>
+                </ul>
+              </div>
               <div>
                 <h3 className="font-semibold mb-2">Revenue & Payments</h3>
                 <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
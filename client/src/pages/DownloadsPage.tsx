@@ -1,33 +1,145 @@
+import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Download, Pause, Play, CheckCircle, Clock } from "lucide-react";
+import { Download, Pause, Play, CheckCircle, Clock, GripVertical, Settings2, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import DownloadItem, { type DownloadInfo } from "@/components/nexar/DownloadItem";
+import { useDownloadSettings } from "@/hooks/useDownloadSettings";
+
+const MB = 1024 * 1024;
+
+const BANDWIDTH_OPTIONS = [
+  { value: 0, label: "Unlimited" },
+  { value: 1 * MB, label: "1 MB/s" },
+  { value: 5 * MB, label: "5 MB/s" },
+  { value: 10 * MB, label: "10 MB/s" },
+  { value: 25 * MB, label: "25 MB/s" },
+  { value: 50 * MB, label: "50 MB/s" },
+];
 
 interface DownloadsPageProps {
   downloads: DownloadInfo[];
+  blockedReason: string | null;
   onPause: (download: DownloadInfo) => void;
   onResume: (download: DownloadInfo) => void;
   onCancel: (download: DownloadInfo) => void;
   onPlay: (download: DownloadInfo) => void;
   onPauseAll: () => void;
   onResumeAll: () => void;
+  onReorder: (gameId: string, targetGameId: string) => void;
+}
+
+function QueueSettings() {
+  const { settings, updateSettings } = useDownloadSettings();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-queue-settings">
+          <Settings2 className="w-4 h-4 mr-2" />
+          Queue Settings
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm font-medium text-foreground">Simultaneous downloads</p>
+          <Select
+            value={String(settings.maxConcurrent)}
+            onValueChange={(v) => updateSettings({ maxConcurrent: Number(v) })}
+          >
+            <SelectTrigger className="w-20" data-testid="select-max-concurrent">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[1, 2, 3, 4, 5].map(n => (
+                <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm font-medium text-foreground">Bandwidth limit</p>
+          <Select
+            value={String(settings.bandwidthLimit)}
+            onValueChange={(v) => updateSettings({ bandwidthLimit: Number(v) })}
+          >
+            <SelectTrigger className="w-32" data-testid="select-bandwidth-limit">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BANDWIDTH_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <p className="text-sm font-medium text-foreground">Scheduled downloads</p>
+              <p className="text-xs text-muted-foreground">Only download during this window</p>
+            </div>
+            <Switch
+              checked={settings.scheduleEnabled}
+              onCheckedChange={(v) => updateSettings({ scheduleEnabled: v })}
+              data-testid="switch-download-schedule"
+            />
+          </div>
+          {settings.scheduleEnabled && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="time"
+                value={settings.scheduleStart}
+                onChange={(e) => updateSettings({ scheduleStart: e.target.value })}
+                data-testid="input-schedule-start"
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                type="time"
+                value={settings.scheduleEnd}
+                onChange={(e) => updateSettings({ scheduleEnd: e.target.value })}
+                data-testid="input-schedule-end"
+              />
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
 }
 
 export default function DownloadsPage({
   downloads,
+  blockedReason,
   onPause,
   onResume,
   onCancel,
   onPlay,
   onPauseAll,
-  onResumeAll
+  onResumeAll,
+  onReorder
 }: DownloadsPageProps) {
-  const activeDownloads = downloads.filter(d => d.status === "downloading" || d.status === "paused");
-  const queuedDownloads = downloads.filter(d => d.status === "queued");
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+
+  // Downloads arrive in priority order; completed ones drop out of the queue
+  const queue = downloads.filter(d => d.status !== "completed");
+  const activeDownloads = queue.filter(d => d.status === "downloading" || d.status === "paused");
+  const queuedDownloads = queue.filter(d => d.status === "queued");
   const completedDownloads = downloads.filter(d => d.status === "completed");
 
-  const hasActiveDownloads = activeDownloads.length > 0 || queuedDownloads.length > 0;
+  const hasActiveDownloads = queue.length > 0;
 
   return (
     <motion.div
@@ -48,35 +160,45 @@ export default function DownloadsPage({
           </p>
         </div>
 
-        {hasActiveDownloads && (
-          <div className="flex items-center gap-2">
-            <Button 
-              variant="outline" 
-              size="sm" 
-              onClick={onPauseAll}
-              data-testid="button-pause-all"
-            >
-              <Pause className="w-4 h-4 mr-2" />
-              Pause All
-            </Button>
-            <Button 
-              variant="outline" 
-              size="sm" 
-              onClick={onResumeAll}
-              data-testid="button-resume-all"
-            >
-              <Play className="w-4 h-4 mr-2" />
-              Resume All
-            </Button>
-          </div>
-        )}
+        <div className="flex items-center gap-2">
+          <QueueSettings />
+          {hasActiveDownloads && (
+            <>
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={onPauseAll}
+                data-testid="button-pause-all"
+              >
+                <Pause className="w-4 h-4 mr-2" />
+                Pause All
+              </Button>
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={onResumeAll}
+                data-testid="button-resume-all"
+              >
+                <Play className="w-4 h-4 mr-2" />
+                Resume All
+              </Button>
+            </>
+          )}
+        </div>
       </div>
 
+      {blockedReason && queuedDownloads.length > 0 && (
+        <div className="flex items-center gap-3 p-4 rounded-lg border border-yellow-500/30 bg-yellow-500/10" data-testid="banner-downloads-blocked">
+          <AlertTriangle className="w-5 h-5 text-yellow-500 flex-shrink-0" />
+          <p className="text-sm text-foreground">{blockedReason}</p>
+        </div>
+      )}
+
       <Tabs defaultValue="active">
         <TabsList>
           <TabsTrigger value="active" className="gap-2" data-testid="tab-active">
             <Download className="w-4 h-4" />
-            Active ({activeDownloads.length + queuedDownloads.length})
+            Active ({queue.length})
           </TabsTrigger>
           <TabsTrigger value="completed" className="gap-2" data-testid="tab-completed">
             <CheckCircle className="w-4 h-4" />
@@ -86,7 +208,7 @@ export default function DownloadsPage({
 
         <TabsContent value="active" className="mt-6">
           <AnimatePresence>
-            {activeDownloads.length === 0 && queuedDownloads.length === 0 ? (
+            {queue.length === 0 ? (
               <motion.div
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
@@ -99,44 +221,44 @@ export default function DownloadsPage({
                 </p>
               </motion.div>
             ) : (
-              <div className="space-y-6">
-                {activeDownloads.length > 0 && (
-                  <section className="space-y-3">
-                    <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider">
-                      Downloading
-                    </h3>
-                    <div className="space-y-2">
-                      {activeDownloads.map((download) => (
+              <section className="space-y-3">
+                <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+                  <Clock className="w-4 h-4" />
+                  Queue
+                  <span className="normal-case tracking-normal">- drag to change priority</span>
+                </h3>
+                <div className="space-y-2">
+                  {queue.map((download) => (
+                    <div
+                      key={download.id}
+                      draggable
+                      onDragStart={(e) => {
+                        setDraggingId(download.id);
+                        e.dataTransfer.effectAllowed = "move";
+                      }}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        if (draggingId && draggingId !== download.id) {
+                          onReorder(draggingId, download.id);
+                        }
+                      }}
+                      onDragEnd={() => setDraggingId(null)}
+                      className={`flex items-center gap-2 ${draggingId === download.id ? "opacity-50" : ""}`}
+                      data-testid={`queue-entry-${download.id}`}
+                    >
+                      <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
                         <DownloadItem
-                          key={download.id}
                           download={download}
                           onPause={onPause}
                           onResume={onResume}
                           onCancel={onCancel}
                         />
-                      ))}
+                      </div>
                     </div>
-                  </section>
-                )}
-
-                {queuedDownloads.length > 0 && (
-                  <section className="space-y-3">
-                    <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
-                      <Clock className="w-4 h-4" />
-                      Queued
-                    </h3>
-                    <div className="space-y-2">
-                      {queuedDownloads.map((download) => (
-                        <DownloadItem
-                          key={download.id}
-                          download={download}
-                          onCancel={onCancel}
-                        />
-                      ))}
-                    </div>
-                  </section>
-                )}
-              </div>
+                  ))}
+                </div>
+              </section>
             )}
           </AnimatePresence>
         </TabsContent>
@@ -2,12 +2,21 @@ import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
 import { useApi } from "@/hooks/useApi";
 import { useNotifications } from "@/hooks/useNotifications";
+import { useRealtimeEvent } from "@/hooks/useRealtime";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, UserPlus, Check, X, Trash2, Search, Users, Send, Clock } from "lucide-react";
+import ReportDialog, { ReportTarget } from "@/components/nexar/ReportDialog";
+import { Loader2, UserPlus, Check, X, Trash2, Search, Users, Send, Clock, MoreVertical, BellOff, Ban, Flag } from "lucide-react";
 
 interface Achievement {
   id: string;
@@ -23,13 +32,31 @@ interface User {
   bio: string;
 }
 
+type Relationship = "none" | "friend" | "pending_sent" | "pending_received" | "blocked";
+
+interface SearchResult extends User {
+  relationship: Relationship;
+}
+
 interface FriendRequest {
   id: string;
   sender?: User;
   receiver?: User;
 }
 
-export default function FriendsPage() {
+const RELATIONSHIP_LABELS: Record<Relationship, string> = {
+  none: "",
+  friend: "Friends",
+  pending_sent: "Request sent",
+  pending_received: "Wants to be friends",
+  blocked: "Blocked",
+};
+
+interface FriendsPageProps {
+  onViewProfile: (userId: string) => void;
+}
+
+export default function FriendsPage({ onViewProfile }: FriendsPageProps) {
   const { get, post, del } = useApi();
   const { showAchievement } = useNotifications();
   const { toast } = useToast();
@@ -37,10 +64,11 @@ export default function FriendsPage() {
   const [requests, setRequests] = useState<FriendRequest[]>([]);
   const [sentRequests, setSentRequests] = useState<FriendRequest[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
-  const [searchResults, setSearchResults] = useState<User[]>([]);
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSearching, setIsSearching] = useState(false);
   const [pendingActions, setPendingActions] = useState<Set<string>>(new Set());
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
 
   const fetchData = async () => {
     try {
@@ -63,14 +91,24 @@ export default function FriendsPage() {
     fetchData();
   }, []);
 
+  useRealtimeEvent("friend:request", () => fetchData());
+  useRealtimeEvent("friend:accepted", () => fetchData());
+
   const handleSearch = async () => {
     if (!searchQuery.trim()) return;
     setIsSearching(true);
     try {
-      const results = await get<User[]>(`/api/users/search?q=${encodeURIComponent(searchQuery)}`);
+      const results = await get<SearchResult[]>(`/api/users/search?q=${encodeURIComponent(searchQuery.trim())}`);
       setSearchResults(results);
+      if (results.length === 0) {
+        toast({ title: "No users found" });
+      }
     } catch (error) {
-      toast({ title: "Search failed", variant: "destructive" });
+      toast({
+        title: "Search failed",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
     } finally {
       setIsSearching(false);
     }
@@ -104,6 +142,10 @@ export default function FriendsPage() {
     try {
       const response = await post<{ message: string; unlockedAchievements?: Achievement[] }>(`/api/friends/accept/${requestId}`, {});
       toast({ title: "Friend request accepted!" });
+      const senderId = requests.find((r) => r.id === requestId)?.sender?.id;
+      setSearchResults((prev) =>
+        prev.map((result) => (result.id === senderId ? { ...result, relationship: "friend" } : result))
+      );
       if (response?.unlockedAchievements?.length) {
         response.unlockedAchievements.forEach((achievement) => {
           showAchievement(achievement);
@@ -155,6 +197,46 @@ export default function FriendsPage() {
     }
   };
 
+  const handleMute = async (target: User) => {
+    try {
+      await post("/api/mutes", { userId: target.id });
+      toast({ title: `Muted ${target.username}`, description: "You won't get notifications for their messages." });
+    } catch (error) {
+      toast({
+        title: "Failed to mute user",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleBlock = async (target: User) => {
+    setPendingActions((prev) => new Set(prev).add(target.id));
+    try {
+      await post("/api/blocks", { userId: target.id });
+      toast({
+        title: `Blocked ${target.username}`,
+        description: "They can no longer message you or send you friend requests.",
+      });
+      setSearchResults((prev) =>
+        prev.map((result) => (result.id === target.id ? { ...result, relationship: "blocked" } : result))
+      );
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Failed to block user",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setPendingActions((prev) => {
+        const next = new Set(prev);
+        next.delete(target.id);
+        return next;
+      });
+    }
+  };
+
   const getInitials = (name: string) => name.slice(0, 2).toUpperCase();
 
   if (isLoading) {
@@ -213,7 +295,11 @@ export default function FriendsPage() {
                   className="flex items-center justify-between p-3 bg-[#111111] rounded-lg"
                   data-testid={`search-result-${user.id}`}
                 >
-                  <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => onViewProfile(user.id)}
+                    className="flex items-center gap-3 text-left hover:opacity-80"
+                    data-testid={`button-view-profile-${user.id}`}
+                  >
                     <Avatar className="w-10 h-10">
                       <AvatarImage src={user.avatarUrl} />
                       <AvatarFallback className="bg-[#2A2A2A] text-[#EAEAEA]">
@@ -221,20 +307,41 @@ export default function FriendsPage() {
                       </AvatarFallback>
                     </Avatar>
                     <span className="text-[#EAEAEA] font-medium">{user.username}</span>
-                  </div>
-                  <Button
-                    size="sm"
-                    onClick={() => handleSendRequest(user.username)}
-                    disabled={pendingActions.has(user.username)}
-                    data-testid={`button-add-${user.id}`}
-                    className="bg-[#d00024] hover:bg-[#b0001e] text-white"
-                  >
-                    {pendingActions.has(user.username) ? (
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                    ) : (
-                      <Send className="w-4 h-4" />
-                    )}
-                  </Button>
+                  </button>
+                  {user.relationship === "none" && (
+                    <Button
+                      size="sm"
+                      onClick={() => handleSendRequest(user.username)}
+                      disabled={pendingActions.has(user.username)}
+                      data-testid={`button-add-${user.id}`}
+                      className="bg-[#d00024] hover:bg-[#b0001e] text-white"
+                    >
+                      {pendingActions.has(user.username) ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Send className="w-4 h-4" />
+                      )}
+                    </Button>
+                  )}
+                  {user.relationship === "pending_received" && (() => {
+                    const request = requests.find((r) => r.sender?.id === user.id);
+                    return request ? (
+                      <Button
+                        size="sm"
+                        onClick={() => handleAccept(request.id)}
+                        disabled={pendingActions.has(request.id)}
+                        data-testid={`button-accept-search-${user.id}`}
+                        className="bg-green-600 hover:bg-green-700 text-white"
+                      >
+                        {pendingActions.has(request.id) ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                      </Button>
+                    ) : null;
+                  })()}
+                  {user.relationship !== "none" && user.relationship !== "pending_received" && (
+                    <span className="text-sm text-[#A3A3A3]" data-testid={`relationship-${user.id}`}>
+                      {RELATIONSHIP_LABELS[user.relationship]}
+                    </span>
+                  )}
                 </div>
               ))}
             </div>
@@ -283,7 +390,11 @@ export default function FriendsPage() {
                     className="flex items-center justify-between p-4 bg-[#1A1A1A] rounded-xl border border-[#2A2A2A]"
                     data-testid={`friend-${friend.id}`}
                   >
-                    <div className="flex items-center gap-4">
+                    <button
+                      onClick={() => onViewProfile(friend.id)}
+                      className="flex items-center gap-4 text-left hover:opacity-80"
+                      data-testid={`button-view-profile-${friend.id}`}
+                    >
                       <Avatar className="w-12 h-12 border border-[#333333]">
                         <AvatarImage src={friend.avatarUrl} />
                         <AvatarFallback className="bg-[#2A2A2A] text-[#EAEAEA]">
@@ -296,21 +407,59 @@ export default function FriendsPage() {
                           {friend.bio || "No bio"}
                         </p>
                       </div>
-                    </div>
-                    <Button
-                      size="icon"
-                      variant="ghost"
-                      onClick={() => handleRemove(friend.id)}
-                      disabled={pendingActions.has(friend.id)}
-                      data-testid={`button-remove-${friend.id}`}
-                      className="text-[#666666] hover:text-[#d00024] hover:bg-[#d00024]/10"
-                    >
-                      {pendingActions.has(friend.id) ? (
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                      ) : (
-                        <Trash2 className="w-4 h-4" />
-                      )}
-                    </Button>
+                    </button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          disabled={pendingActions.has(friend.id)}
+                          data-testid={`button-friend-menu-${friend.id}`}
+                          className="text-[#666666] hover:text-[#EAEAEA]"
+                        >
+                          {pendingActions.has(friend.id) ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <MoreVertical className="w-4 h-4" />
+                          )}
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => handleRemove(friend.id)} data-testid={`button-remove-${friend.id}`}>
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Remove friend
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleMute(friend)} data-testid={`button-mute-${friend.id}`}>
+                          <BellOff className="w-4 h-4 mr-2" />
+                          Mute
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => setReportTarget({ targetType: "profile", userId: friend.id, username: friend.username })}
+                          data-testid={`button-report-${friend.id}`}
+                        >
+                          <Flag className="w-4 h-4 mr-2" />
+                          Report profile
+                        </DropdownMenuItem>
+                        {friend.avatarUrl && (
+                          <DropdownMenuItem
+                            onClick={() => setReportTarget({ targetType: "avatar", userId: friend.id, username: friend.username })}
+                            data-testid={`button-report-avatar-${friend.id}`}
+                          >
+                            <Flag className="w-4 h-4 mr-2" />
+                            Report profile picture
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          onClick={() => handleBlock(friend)}
+                          className="text-destructive"
+                          data-testid={`button-block-${friend.id}`}
+                        >
+                          <Ban className="w-4 h-4 mr-2" />
+                          Block
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </div>
                 ))
               )}
@@ -331,7 +480,11 @@ export default function FriendsPage() {
                     className="flex items-center justify-between p-4 bg-[#1A1A1A] rounded-xl border border-[#2A2A2A]"
                     data-testid={`request-${request.id}`}
                   >
-                    <div className="flex items-center gap-4">
+                    <button
+                      onClick={() => request.sender && onViewProfile(request.sender.id)}
+                      className="flex items-center gap-4 text-left hover:opacity-80"
+                      data-testid={`button-view-profile-${request.sender?.id}`}
+                    >
                       <Avatar className="w-12 h-12 border border-[#333333]">
                         <AvatarImage src={request.sender?.avatarUrl} />
                         <AvatarFallback className="bg-[#2A2A2A] text-[#EAEAEA]">
@@ -341,7 +494,7 @@ export default function FriendsPage() {
                       <p className="text-[#EAEAEA] font-medium">
                         {request.sender?.username}
                       </p>
-                    </div>
+                    </button>
                     <div className="flex gap-2">
                       <Button
                         size="icon"
@@ -366,6 +519,19 @@ export default function FriendsPage() {
                       >
                         <X className="w-4 h-4" />
                       </Button>
+                      {request.sender && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleBlock(request.sender!)}
+                          disabled={pendingActions.has(request.id) || pendingActions.has(request.sender.id)}
+                          title="Block"
+                          data-testid={`button-block-request-${request.id}`}
+                          className="text-[#666666] hover:text-[#d00024] hover:bg-[#d00024]/10"
+                        >
+                          <Ban className="w-4 h-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 ))
@@ -406,6 +572,8 @@ export default function FriendsPage() {
           </TabsContent>
         </Tabs>
       </motion.div>
+
+      <ReportDialog target={reportTarget} onOpenChange={(open) => !open && setReportTarget(null)} />
     </div>
   );
 }
@@ -16,14 +16,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/queryClient";
+import GameAchievementsEditor from "@/components/nexar/GameAchievementsEditor";
+import GameLeaderboardsEditor from "@/components/nexar/GameLeaderboardsEditor";
+import GameBuildsManager from "@/components/nexar/GameBuildsManager";
+import GameMediaManager from "@/components/nexar/GameMediaManager";
 
 const gameFormSchema = z.object({
   title: z.string().min(3, "Title must be at least 3 characters").max(100),
   description: z.string().min(100, "Description must be at least 100 characters").max(5000),
   price: z.coerce.number().min(0, "Price cannot be negative").max(999.99, "Price cannot exceed $999.99"),
   genre: z.string().min(1, "Please select a genre"),
+  contentRating: z.enum(["E", "T", "M", "18+"]),
   tags: z.string().optional(),
-  coverImage: z.string().url("Please enter a valid URL").optional().or(z.literal("")),
 });
 
 type GameFormValues = z.infer<typeof gameFormSchema>;
@@ -35,8 +39,10 @@ interface DeveloperGame {
   description: string;
   price: number;
   genre: string;
+  contentRating: GameFormValues["contentRating"];
   tags: string[];
   status: "draft" | "pending" | "approved" | "rejected";
+  version: string | null;
   versions: string[];
   createdAt: string;
   updatedAt: string;
@@ -60,6 +66,13 @@ const GENRES = [
   "Indie",
 ];
 
+const CONTENT_RATINGS: { value: GameFormValues["contentRating"]; label: string }[] = [
+  { value: "E", label: "E - Everyone" },
+  { value: "T", label: "T - Teen" },
+  { value: "M", label: "M - Mature" },
+  { value: "18+", label: "18+ - Adults Only" },
+];
+
 export default function GameEditorPage({ 
   gameId, 
   onBack 
@@ -84,8 +97,8 @@ export default function GameEditorPage({
       description: "",
       price: 0,
       genre: "",
+      contentRating: "E",
       tags: "",
-      coverImage: "",
     },
   });
 
@@ -96,8 +109,8 @@ export default function GameEditorPage({
         description: existingGame.description,
         price: existingGame.price,
         genre: existingGame.genre,
+        contentRating: existingGame.contentRating || "E",
         tags: existingGame.tags.join(", "),
-        coverImage: existingGame.coverImage || "",
       });
     }
   }, [existingGame, form]);
@@ -251,7 +264,7 @@ export default function GameEditorPage({
                 )}
               />
 
-              <div className="grid gap-6 md:grid-cols-2">
+              <div className="grid gap-6 md:grid-cols-3">
                 <FormField
                   control={form.control}
                   name="price"
@@ -304,6 +317,31 @@ export default function GameEditorPage({
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="contentRating"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Content Rating</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-content-rating">
+                            <SelectValue placeholder="Select a rating" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {CONTENT_RATINGS.map((rating) => (
+                            <SelectItem key={rating.value} value={rating.value}>
+                              {rating.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
 
               <FormField
@@ -330,41 +368,11 @@ export default function GameEditorPage({
                 )}
               />
 
-              <FormField
-                control={form.control}
-                name="coverImage"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="flex items-center gap-2">
-                      <Image className="w-4 h-4" />
-                      Cover Image URL
-                    </FormLabel>
-                    <FormControl>
-                      <Input 
-                        placeholder="https://example.com/cover.jpg"
-                        {...field}
-                        data-testid="input-game-cover"
-                      />
-                    </FormControl>
-                    <FormDescription>
-                      Link to your game's cover art (16:9 aspect ratio recommended).
-                    </FormDescription>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {form.watch("coverImage") && (
-                <div className="rounded-lg overflow-hidden border border-border">
-                  <img 
-                    src={form.watch("coverImage")} 
-                    alt="Cover preview"
-                    className="w-full h-48 object-cover"
-                    onError={(e) => {
-                      (e.target as HTMLImageElement).style.display = "none";
-                    }}
-                  />
-                </div>
+              {!isEditing && (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Image className="w-4 h-4" />
+                  You can upload cover art, screenshots and trailers once the game is created.
+                </p>
               )}
 
               <div className="flex gap-4 pt-4">
@@ -394,6 +402,15 @@ export default function GameEditorPage({
           </Form>
         </CardContent>
       </Card>
+
+      {gameId && (
+        <>
+          <GameMediaManager gameId={gameId} />
+          <GameBuildsManager gameId={gameId} />
+          <GameAchievementsEditor gameId={gameId} />
+          <GameLeaderboardsEditor gameId={gameId} />
+        </>
+      )}
     </motion.div>
   );
 }
@@ -1,4 +1,4 @@
-import { useState, useMemo, useEffect } from "react";
+import { useState, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Search, Filter, Grid, List, SortAsc, Crown } from "lucide-react";
 import { Input } from "@/components/ui/input";
@@ -12,67 +12,32 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import GameCard, { type Game } from "@/components/nexar/GameCard";
-import { useAuth } from "@/hooks/useAuth";
-import { useApi } from "@/hooks/useApi";
+import type { LibraryGame } from "@/hooks/useLibrary";
 
 interface LibraryPageProps {
-  games: Game[];
+  games: LibraryGame[];
   onPlayGame: (game: Game) => void;
+  onInstallGame: (game: Game) => void;
   onDeleteGame: (game: Game) => void;
   onViewGameDetails: (game: Game) => void;
 }
 
-interface NexarPlusGame {
-  id: string;
-  title: string;
-  coverUrl?: string;
-}
-
-const NEXAR_PLUS_COLLECTION: NexarPlusGame[] = [
-  { id: "store-7", title: "Phantom Protocol", coverUrl: "https://images.unsplash.com/photo-1542751371-adc38448a05e?w=400&h=600&fit=crop" },
-  { id: "store-8", title: "Eternal Realms", coverUrl: "https://images.unsplash.com/photo-1511512578047-dfb367046420?w=400&h=600&fit=crop" },
-];
-
 export default function LibraryPage({
   games,
   onPlayGame,
+  onInstallGame,
   onDeleteGame,
   onViewGameDetails
 }: LibraryPageProps) {
-  const { token } = useAuth();
-  const { get } = useApi();
   const [searchQuery, setSearchQuery] = useState("");
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
   const [filter, setFilter] = useState<"all" | "installed" | "nexarplus">("all");
   const [sortBy, setSortBy] = useState<"name" | "recent" | "playtime">("recent");
-  const [hasSubscription, setHasSubscription] = useState(false);
-
-  useEffect(() => {
-    if (token) {
-      loadSubscriptionStatus();
-    }
-  }, [token]);
 
-  const loadSubscriptionStatus = async () => {
-    try {
-      const data = await get<{ hasActiveSubscription: boolean }>("/api/subscription/status");
-      if (data) {
-        setHasSubscription(data.hasActiveSubscription);
-      }
-    } catch (error) {
-      console.error("Failed to load subscription status:", error);
-    }
-  };
-
-  const nexarPlusGames = useMemo(() => {
-    if (!hasSubscription) return [];
-    return NEXAR_PLUS_COLLECTION.map(npg => ({
-      ...npg,
-      isInstalled: games.some(g => g.id === npg.id && g.isInstalled),
-      isNexarPlusGame: true,
-      isOwned: true,
-    }));
-  }, [hasSubscription, games]);
+  const nexarPlusGames = useMemo(
+    () => games.filter(g => g.source === "nexarplus"),
+    [games]
+  );
 
   const filteredGames = useMemo(() => {
     if (filter === "nexarplus") {
@@ -104,6 +69,11 @@ export default function LibraryPage({
       result.sort((a, b) => a.title.localeCompare(b.title));
     } else if (sortBy === "playtime") {
       result.sort((a, b) => (b.playTime || 0) - (a.playTime || 0));
+    } else {
+      result.sort((a, b) => 
+        (b.lastPlayedAt ? new Date(b.lastPlayedAt).getTime() : 0) -
+        (a.lastPlayedAt ? new Date(a.lastPlayedAt).getTime() : 0)
+      );
     }
 
     return result;
@@ -161,7 +131,7 @@ export default function LibraryPage({
           <TabsList>
             <TabsTrigger value="all" data-testid="tab-all">All Games</TabsTrigger>
             <TabsTrigger value="installed" data-testid="tab-installed">Installed</TabsTrigger>
-            {hasSubscription && (
+            {nexarPlusGames.length > 0 && (
               <TabsTrigger value="nexarplus" data-testid="tab-nexarplus" className="gap-1">
                 <Crown className="w-3 h-3" />
                 Nexar+ Collection
@@ -221,6 +191,7 @@ export default function LibraryPage({
                 <GameCard
                   game={game}
                   onPlay={onPlayGame}
+                  onInstall={onInstallGame}
                   onDelete={onDeleteGame}
                   onManage={onViewGameDetails}
                 />
@@ -246,6 +217,7 @@ export default function LibraryPage({
                   game={game}
                   variant="horizontal"
                   onPlay={onPlayGame}
+                  onInstall={onInstallGame}
                   onDelete={onDeleteGame}
                   onManage={onViewGameDetails}
                 />
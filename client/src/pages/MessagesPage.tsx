@@ -1,14 +1,41 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, ReactNode } from "react";
 import { motion } from "framer-motion";
 import { useApi } from "@/hooks/useApi";
 import { useAuth } from "@/hooks/useAuth";
 import { useNotifications } from "@/hooks/useNotifications";
+import { useRealtimeEvent } from "@/hooks/useRealtime";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Send, MessageCircle, ArrowLeft } from "lucide-react";
+import GroupChat from "@/components/nexar/GroupChat";
+import CreateGroupDialog from "@/components/nexar/CreateGroupDialog";
+import ReportDialog, { ReportTarget } from "@/components/nexar/ReportDialog";
+import {
+  Loader2,
+  Send,
+  MessageCircle,
+  ArrowLeft,
+  Check,
+  CheckCheck,
+  Search,
+  X,
+  Users,
+  MoreVertical,
+  Bell,
+  BellOff,
+  Ban,
+  Flag,
+  User as UserIcon,
+} from "lucide-react";
 
 interface Achievement {
   id: string;
@@ -29,26 +56,124 @@ interface Message {
   toId: string;
   text: string;
   timestamp: string;
+  deliveredAt: string | null;
+  readAt: string | null;
 }
 
 interface Conversation {
   partner: User;
   lastMessage: Message | null;
+  unreadCount: number;
+  muted: boolean;
+  lastActivityAt: string;
 }
 
-export default function MessagesPage() {
-  const { get, post } = useApi();
+interface GroupSummary {
+  id: string;
+  name: string;
+  avatarUrl: string;
+  role: "owner" | "admin" | "member";
+  memberCount: number;
+  unreadCount: number;
+  lastMessage: {
+    id: string;
+    fromId: string | null;
+    kind: "text" | "system";
+    text: string;
+    timestamp: string;
+    senderUsername: string | null;
+  } | null;
+  lastActivityAt: string;
+}
+
+type InboxItem =
+  | { kind: "direct"; id: string; lastActivityAt: string; conversation: Conversation }
+  | { kind: "group"; id: string; lastActivityAt: string; group: GroupSummary };
+
+interface MessagePage {
+  messages: Message[];
+  olderCursor: string | null;
+  newerCursor: string | null;
+}
+
+interface SearchResult {
+  message: Message;
+  partner: User;
+  headline: string;
+}
+
+interface SearchResponse {
+  results: SearchResult[];
+  matchStart: string;
+  matchEnd: string;
+  nextCursor: string | null;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const HIGHLIGHT_DURATION_MS = 3000;
+
+// Renders a search headline, wrapping the delimited matches in <mark>
+function HighlightedText({ text, start, end }: { text: string; start: string; end: string }) {
+  const parts: ReactNode[] = [];
+  text.split(start).forEach((chunk, index) => {
+    if (index === 0) {
+      parts.push(chunk);
+      return;
+    }
+    const [match, ...rest] = chunk.split(end);
+    parts.push(
+      <mark key={index} className="bg-[#d00024]/30 text-[#EAEAEA] rounded px-0.5">
+        {match}
+      </mark>,
+      rest.join(end)
+    );
+  });
+  return <>{parts}</>;
+}
+
+function MessageStatus({ message }: { message: Message }) {
+  if (message.readAt) {
+    return <CheckCheck className="w-3.5 h-3.5 text-white" aria-label="Read" data-testid="status-read" />;
+  }
+  if (message.deliveredAt) {
+    return <CheckCheck className="w-3.5 h-3.5 text-white/50" aria-label="Delivered" data-testid="status-delivered" />;
+  }
+  return <Check className="w-3.5 h-3.5 text-white/50" aria-label="Sent" data-testid="status-sent" />;
+}
+
+interface MessagesPageProps {
+  onViewProfile: (userId: string) => void;
+}
+
+export default function MessagesPage({ onViewProfile }: MessagesPageProps) {
+  const { get, post, del } = useApi();
   const { user } = useAuth();
   const { showAchievement } = useNotifications();
   const { toast } = useToast();
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [selectedPartner, setSelectedPartner] = useState<User | null>(null);
+  const [groups, setGroups] = useState<GroupSummary[]>([]);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [createGroupOpen, setCreateGroupOpen] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState("");
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
   const [isSending, setIsSending] = useState(false);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [newerCursor, setNewerCursor] = useState<string | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [isLoadingNewer, setIsLoadingNewer] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [search, setSearch] = useState<SearchResponse | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const topSentinelRef = useRef<HTMLDivElement>(null);
+  const bottomSentinelRef = useRef<HTMLDivElement>(null);
+  const lastMessageIdRef = useRef<string | undefined>(undefined);
 
   const fetchConversations = async () => {
     try {
@@ -61,19 +186,137 @@ export default function MessagesPage() {
     }
   };
 
+  const fetchGroups = async () => {
+    try {
+      setGroups(await get<GroupSummary[]>("/api/groups"));
+    } catch (error) {
+      toast({ title: "Error loading groups", variant: "destructive" });
+    }
+  };
+
   useEffect(() => {
     fetchConversations();
+    fetchGroups();
   }, []);
 
+  useRealtimeEvent("group:message", () => fetchGroups());
+  useRealtimeEvent("group:updated", () => fetchGroups());
+  useRealtimeEvent("group:removed", () => fetchGroups());
+
+  const inboxItems: InboxItem[] = [
+    ...conversations.map((conversation): InboxItem => ({
+      kind: "direct",
+      id: conversation.partner.id,
+      lastActivityAt: conversation.lastActivityAt,
+      conversation,
+    })),
+    ...groups.map((group): InboxItem => ({
+      kind: "group",
+      id: group.id,
+      lastActivityAt: group.lastActivityAt,
+      group,
+    })),
+  ].sort((a, b) => new Date(b.lastActivityAt).getTime() - new Date(a.lastActivityAt).getTime());
+
+  const handleSelectGroup = (groupId: string) => {
+    setSelectedPartner(null);
+    setSelectedGroupId(groupId);
+  };
+
+  const handleGroupRead = (groupId: string) => {
+    setGroups((prev) => prev.map((g) => (g.id === groupId ? { ...g, unreadCount: 0 } : g)));
+  };
+
+  const handleLeftGroup = () => {
+    setSelectedGroupId(null);
+    fetchGroups();
+  };
+
+  // Follow the conversation only when a message lands at the bottom, not
+  // when older history is prepended or we've jumped into the middle
+  const lastMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+    const previousId = lastMessageIdRef.current;
+    lastMessageIdRef.current = lastMessageId;
+    if (!lastMessageId || highlightedMessageId || newerCursor) return;
+    messagesEndRef.current?.scrollIntoView({ behavior: previousId ? "smooth" : "auto" });
+  }, [lastMessageId]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    messagesContainerRef.current
+      ?.querySelector(`[data-message-id="${highlightedMessageId}"]`)
+      ?.scrollIntoView({ block: "center" });
+    const timer = setTimeout(() => setHighlightedMessageId(null), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId, isLoadingMessages]);
+
+  const markRead = async (partnerId: string, upToMessageId?: string) => {
+    try {
+      await post(`/api/messages/${partnerId}/read`, { upToMessageId });
+      setConversations((prev) =>
+        prev.map((conv) => (conv.partner.id === partnerId ? { ...conv, unreadCount: 0 } : conv))
+      );
+    } catch (error) {
+      console.error("Failed to mark messages as read:", error);
+    }
+  };
+
+  const applyReceipt = (messageIds: string[], changes: Partial<Message>) => {
+    const ids = new Set(messageIds);
+    setMessages((prev) => prev.map((m) => (ids.has(m.id) ? { ...m, ...changes } : m)));
+    setConversations((prev) =>
+      prev.map((conv) =>
+        conv.lastMessage && ids.has(conv.lastMessage.id)
+          ? { ...conv, lastMessage: { ...conv.lastMessage, ...changes } }
+          : conv
+      )
+    );
+  };
+
+  useRealtimeEvent("message:new", ({ message }) => {
+    const partnerId = message.fromId === user?.id ? message.toId : message.fromId;
+    // While viewing older history the next page load will pick it up
+    if (selectedPartner?.id === partnerId && !newerCursor) {
+      setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+      if (message.fromId === partnerId) {
+        markRead(partnerId, message.id);
+      }
+    }
+    fetchConversations();
+  });
+
+  useRealtimeEvent("message:delivered", ({ messageIds, deliveredAt }) => {
+    applyReceipt(messageIds, { deliveredAt });
+  });
+
+  useRealtimeEvent("message:read", ({ readerId, senderId, messageIds, readAt }) => {
+    // Our own reads (e.g. from another tab) only affect unread counts
+    if (readerId === user?.id) {
+      setConversations((prev) =>
+        prev.map((conv) => (conv.partner.id === senderId ? { ...conv, unreadCount: 0 } : conv))
+      );
+    } else {
+      applyReceipt(messageIds, { readAt });
+    }
+  });
 
-  const loadMessages = async (partnerId: string) => {
+  const loadMessages = async (partnerId: string, aroundMessageId?: string) => {
     setIsLoadingMessages(true);
+    setMessages([]);
+    setOlderCursor(null);
+    setNewerCursor(null);
+    lastMessageIdRef.current = undefined;
     try {
-      const data = await get<Message[]>(`/api/messages/${partnerId}`);
-      setMessages(data);
+      const params = aroundMessageId ? `?around=${aroundMessageId}` : "";
+      const page = await get<MessagePage>(`/api/messages/${partnerId}${params}`);
+      setMessages(page.messages);
+      setOlderCursor(page.olderCursor);
+      setNewerCursor(page.newerCursor);
+      const lastIncoming = [...page.messages].reverse().find((m) => m.fromId === partnerId);
+      if (!page.newerCursor && lastIncoming && !lastIncoming.readAt) {
+        markRead(partnerId, lastIncoming.id);
+      }
     } catch (error) {
       toast({ title: "Error loading messages", variant: "destructive" });
     } finally {
@@ -81,21 +324,122 @@ export default function MessagesPage() {
     }
   };
 
+  const getScrollViewport = () =>
+    messagesContainerRef.current?.closest<HTMLElement>("[data-radix-scroll-area-viewport]") ?? null;
+
+  const loadOlder = async () => {
+    if (!selectedPartner || !olderCursor || isLoadingOlder) return;
+    setIsLoadingOlder(true);
+    const viewport = getScrollViewport();
+    const previousHeight = viewport?.scrollHeight ?? 0;
+    try {
+      const page = await get<MessagePage>(`/api/messages/${selectedPartner.id}?before=${olderCursor}`);
+      setMessages((prev) => [...page.messages, ...prev]);
+      setOlderCursor(page.olderCursor);
+      // Keep the messages the user was reading in place
+      requestAnimationFrame(() => {
+        if (viewport) viewport.scrollTop += viewport.scrollHeight - previousHeight;
+      });
+    } catch (error) {
+      toast({ title: "Error loading messages", variant: "destructive" });
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+
+  const loadNewer = async () => {
+    if (!selectedPartner || !newerCursor || isLoadingNewer) return;
+    setIsLoadingNewer(true);
+    try {
+      const page = await get<MessagePage>(`/api/messages/${selectedPartner.id}?after=${newerCursor}`);
+      setMessages((prev) => [...prev, ...page.messages.filter((m) => !prev.some((p) => p.id === m.id))]);
+      setNewerCursor(page.newerCursor);
+      if (!page.newerCursor) {
+        const lastIncoming = [...page.messages].reverse().find((m) => m.fromId === selectedPartner.id);
+        if (lastIncoming && !lastIncoming.readAt) {
+          markRead(selectedPartner.id, lastIncoming.id);
+        }
+      }
+    } catch (error) {
+      toast({ title: "Error loading messages", variant: "destructive" });
+    } finally {
+      setIsLoadingNewer(false);
+    }
+  };
+
+  // Load more history as the top/bottom of the thread scrolls into view
+  useEffect(() => {
+    const sentinel = topSentinelRef.current;
+    if (!sentinel || !olderCursor || isLoadingOlder || isLoadingMessages) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) loadOlder();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [olderCursor, isLoadingOlder, isLoadingMessages]);
+
+  useEffect(() => {
+    const sentinel = bottomSentinelRef.current;
+    if (!sentinel || !newerCursor || isLoadingNewer || isLoadingMessages) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) loadNewer();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [newerCursor, isLoadingNewer, isLoadingMessages]);
+
   const handleSelectPartner = (partner: User) => {
+    setSelectedGroupId(null);
     setSelectedPartner(partner);
+    setHighlightedMessageId(null);
     loadMessages(partner.id);
   };
 
+  const runSearch = async (q: string, cursor?: string) => {
+    setIsSearching(true);
+    try {
+      const params = new URLSearchParams({ q });
+      if (cursor) params.set("cursor", cursor);
+      const data = await get<SearchResponse>(`/api/messages/search?${params}`);
+      setSearch((prev) => (cursor && prev ? { ...data, results: [...prev.results, ...data.results] } : data));
+    } catch (error) {
+      toast({ title: "Search failed", variant: "destructive" });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  useEffect(() => {
+    const q = searchQuery.trim();
+    if (!q) {
+      setSearch(null);
+      return;
+    }
+    const timer = setTimeout(() => runSearch(q), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const handleOpenSearchResult = (result: SearchResult) => {
+    setSelectedGroupId(null);
+    setSelectedPartner(result.partner);
+    setHighlightedMessageId(result.message.id);
+    loadMessages(result.partner.id, result.message.id);
+  };
+
   const handleSend = async () => {
     if (!newMessage.trim() || !selectedPartner) return;
     setIsSending(true);
     try {
-      const response = await post<Message & { unlockedAchievements?: Achievement[] }>("/api/messages", {
-        toId: selectedPartner.id,
+      const response = await post<Message & { unlockedAchievements?: Achievement[] }>(`/api/messages/${selectedPartner.id}`, {
         text: newMessage,
       });
       const { unlockedAchievements, ...message } = response;
-      setMessages((prev) => [...prev, message]);
+      if (newerCursor) {
+        // Jump back to the live end of the conversation
+        loadMessages(selectedPartner.id);
+      } else {
+        setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+      }
       setNewMessage("");
       fetchConversations();
       if (unlockedAchievements?.length) {
@@ -108,6 +452,49 @@ export default function MessagesPage() {
     }
   };
 
+  const isPartnerMuted = conversations.some((c) => c.partner.id === selectedPartner?.id && c.muted);
+
+  const handleToggleMute = async () => {
+    if (!selectedPartner) return;
+    const partnerId = selectedPartner.id;
+    try {
+      if (isPartnerMuted) {
+        await del(`/api/mutes/${partnerId}`);
+      } else {
+        await post("/api/mutes", { userId: partnerId });
+      }
+      setConversations((prev) =>
+        prev.map((conv) => (conv.partner.id === partnerId ? { ...conv, muted: !isPartnerMuted } : conv))
+      );
+      toast({ title: isPartnerMuted ? `Unmuted ${selectedPartner.username}` : `Muted ${selectedPartner.username}` });
+    } catch (error) {
+      toast({
+        title: isPartnerMuted ? "Failed to unmute user" : "Failed to mute user",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleBlock = async () => {
+    if (!selectedPartner) return;
+    try {
+      await post("/api/blocks", { userId: selectedPartner.id });
+      toast({
+        title: `Blocked ${selectedPartner.username}`,
+        description: "They can no longer message you or send you friend requests.",
+      });
+      setSelectedPartner(null);
+      fetchConversations();
+    } catch (error) {
+      toast({
+        title: "Failed to block user",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
   const getInitials = (name: string) => name.slice(0, 2).toUpperCase();
 
   const formatTime = (timestamp: string) => {
@@ -145,16 +532,100 @@ export default function MessagesPage() {
         {/* Conversations list */}
         <div
           className={`w-full md:w-80 border-r border-[#2A2A2A] flex flex-col ${
-            selectedPartner ? "hidden md:flex" : "flex"
+            selectedPartner || selectedGroupId ? "hidden md:flex" : "flex"
           }`}
         >
           <div className="p-4 border-b border-[#2A2A2A]">
-            <h1 className="text-xl font-bold text-[#EAEAEA] uppercase tracking-wider">
-              Messages
-            </h1>
+            <div className="flex items-center justify-between">
+              <h1 className="text-xl font-bold text-[#EAEAEA] uppercase tracking-wider">
+                Messages
+              </h1>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => setCreateGroupOpen(true)}
+                className="text-[#A3A3A3] hover:text-[#EAEAEA]"
+                title="New group"
+                data-testid="button-new-group"
+              >
+                <Users className="w-5 h-5" />
+              </Button>
+            </div>
+            <div className="relative mt-3">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#666666]" />
+              <Input
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search messages..."
+                data-testid="input-search-messages"
+                className="pl-9 pr-9 bg-[#111111] border-[#333333] text-[#EAEAEA] focus:border-[#d00024]"
+              />
+              {searchQuery && (
+                <button
+                  onClick={() => setSearchQuery("")}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-[#666666] hover:text-[#EAEAEA]"
+                  data-testid="button-clear-search"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
           </div>
           <ScrollArea className="flex-1">
-            {conversations.length === 0 ? (
+            {searchQuery.trim() ? (
+              <div className="p-2" data-testid="message-search-results">
+                {isSearching && !search ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="w-6 h-6 animate-spin text-[#d00024]" />
+                  </div>
+                ) : search && search.results.length === 0 ? (
+                  <p className="text-center py-12 text-[#A3A3A3] px-4">No messages found</p>
+                ) : (
+                  search && (
+                    <>
+                      {search.results.map((result) => (
+                        <button
+                          key={result.message.id}
+                          onClick={() => handleOpenSearchResult(result)}
+                          data-testid={`search-result-${result.message.id}`}
+                          className="w-full flex items-start gap-3 p-3 rounded-xl transition-colors hover:bg-[#1A1A1A] text-left"
+                        >
+                          <Avatar className="w-10 h-10 border border-[#333333]">
+                            <AvatarImage src={result.partner.avatarUrl} />
+                            <AvatarFallback className="bg-[#2A2A2A] text-[#EAEAEA]">
+                              {getInitials(result.partner.username)}
+                            </AvatarFallback>
+                          </Avatar>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center justify-between gap-2">
+                              <p className="text-[#EAEAEA] font-medium truncate">{result.partner.username}</p>
+                              <span className="text-[#666666] text-xs flex-shrink-0">
+                                {formatTime(result.message.timestamp)}
+                              </span>
+                            </div>
+                            <p className="text-[#A3A3A3] text-sm line-clamp-2">
+                              {result.message.fromId === user?.id ? "You: " : ""}
+                              <HighlightedText text={result.headline} start={search.matchStart} end={search.matchEnd} />
+                            </p>
+                          </div>
+                        </button>
+                      ))}
+                      {search.nextCursor && (
+                        <Button
+                          variant="ghost"
+                          onClick={() => runSearch(searchQuery.trim(), search.nextCursor!)}
+                          disabled={isSearching}
+                          data-testid="button-more-results"
+                          className="w-full text-[#A3A3A3] hover:text-[#EAEAEA] hover:bg-[#1A1A1A]"
+                        >
+                          {isSearching ? <Loader2 className="w-4 h-4 animate-spin" /> : "More results"}
+                        </Button>
+                      )}
+                    </>
+                  )
+                )}
+              </div>
+            ) : inboxItems.length === 0 ? (
               <div className="text-center py-12 text-[#A3A3A3] px-4">
                 <MessageCircle className="w-12 h-12 mx-auto mb-4 opacity-50" />
                 <p>No conversations yet</p>
@@ -164,41 +635,79 @@ export default function MessagesPage() {
               </div>
             ) : (
               <div className="p-2">
-                {conversations.map((conv) => (
-                  <button
-                    key={conv.partner.id}
-                    onClick={() => handleSelectPartner(conv.partner)}
-                    data-testid={`conversation-${conv.partner.id}`}
-                    className={`w-full flex items-center gap-3 p-3 rounded-xl transition-colors ${
-                      selectedPartner?.id === conv.partner.id
-                        ? "bg-[#d00024]/20 border border-[#d00024]"
-                        : "hover:bg-[#1A1A1A]"
-                    }`}
-                  >
-                    <Avatar className="w-12 h-12 border border-[#333333]">
-                      <AvatarImage src={conv.partner.avatarUrl} />
-                      <AvatarFallback className="bg-[#2A2A2A] text-[#EAEAEA]">
-                        {getInitials(conv.partner.username)}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div className="flex-1 text-left min-w-0">
-                      <p className="text-[#EAEAEA] font-medium truncate">
-                        {conv.partner.username}
-                      </p>
-                      {conv.lastMessage && (
-                        <p className="text-[#A3A3A3] text-sm truncate">
-                          {conv.lastMessage.fromId === user?.id ? "You: " : ""}
-                          {conv.lastMessage.text}
+                {inboxItems.map((item) => {
+                  const isSelected =
+                    item.kind === "group" ? selectedGroupId === item.id : selectedPartner?.id === item.id;
+                  const name = item.kind === "group" ? item.group.name : item.conversation.partner.username;
+                  const avatarUrl = item.kind === "group" ? item.group.avatarUrl : item.conversation.partner.avatarUrl;
+                  const unreadCount = item.kind === "group" ? item.group.unreadCount : item.conversation.unreadCount;
+                  const isMuted = item.kind === "direct" && item.conversation.muted;
+                  let preview: string | null = null;
+                  if (item.kind === "group") {
+                    const last = item.group.lastMessage;
+                    if (last) {
+                      const author = last.kind === "system" ? "" : last.fromId === user?.id ? "You: " : `${last.senderUsername || "Former member"}: `;
+                      preview = `${author}${last.text}`;
+                    }
+                  } else if (item.conversation.lastMessage) {
+                    preview = `${item.conversation.lastMessage.fromId === user?.id ? "You: " : ""}${item.conversation.lastMessage.text}`;
+                  }
+
+                  return (
+                    <button
+                      key={`${item.kind}-${item.id}`}
+                      onClick={() =>
+                        item.kind === "group" ? handleSelectGroup(item.id) : handleSelectPartner(item.conversation.partner)
+                      }
+                      data-testid={item.kind === "group" ? `group-conversation-${item.id}` : `conversation-${item.id}`}
+                      className={`w-full flex items-center gap-3 p-3 rounded-xl transition-colors ${
+                        isSelected
+                          ? "bg-[#d00024]/20 border border-[#d00024]"
+                          : "hover:bg-[#1A1A1A]"
+                      }`}
+                    >
+                      <div className="relative">
+                        <Avatar className="w-12 h-12 border border-[#333333]">
+                          <AvatarImage src={avatarUrl} />
+                          <AvatarFallback className="bg-[#2A2A2A] text-[#EAEAEA]">
+                            {getInitials(name)}
+                          </AvatarFallback>
+                        </Avatar>
+                        {item.kind === "group" && (
+                          <span className="absolute -bottom-1 -right-1 w-5 h-5 rounded-full bg-[#111111] border border-[#333333] flex items-center justify-center">
+                            <Users className="w-3 h-3 text-[#A3A3A3]" />
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex-1 text-left min-w-0">
+                        <p className="text-[#EAEAEA] font-medium truncate flex items-center gap-1">
+                          <span className="truncate">{name}</span>
+                          {isMuted && <BellOff className="w-3.5 h-3.5 text-[#666666] flex-shrink-0" aria-label="Muted" />}
                         </p>
-                      )}
-                    </div>
-                    {conv.lastMessage && (
-                      <span className="text-[#666666] text-xs">
-                        {formatTime(conv.lastMessage.timestamp)}
-                      </span>
-                    )}
-                  </button>
-                ))}
+                        {preview && (
+                          <p className={`text-sm truncate ${unreadCount > 0 ? "text-[#EAEAEA] font-medium" : "text-[#A3A3A3]"}`}>
+                            {preview}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex flex-col items-end gap-1">
+                        {preview && (
+                          <span className="text-[#666666] text-xs">
+                            {formatTime(item.lastActivityAt)}
+                          </span>
+                        )}
+                        {unreadCount > 0 && (
+                          <span
+                            className={`${isMuted ? "bg-[#333333]" : "bg-[#d00024]"} text-white text-xs px-2 py-0.5 rounded-full`}
+                            data-testid={`unread-count-${item.id}`}
+                          >
+                            {unreadCount}
+                          </span>
+                        )}
+                      </div>
+                    </button>
+                  );
+                })}
               </div>
             )}
           </ScrollArea>
@@ -207,10 +716,18 @@ export default function MessagesPage() {
         {/* Chat view */}
         <div
           className={`flex-1 flex flex-col ${
-            !selectedPartner ? "hidden md:flex" : "flex"
+            !selectedPartner && !selectedGroupId ? "hidden md:flex" : "flex"
           }`}
         >
-          {selectedPartner ? (
+          {selectedGroupId ? (
+            <GroupChat
+              key={selectedGroupId}
+              groupId={selectedGroupId}
+              onBack={() => setSelectedGroupId(null)}
+              onLeft={handleLeftGroup}
+              onRead={handleGroupRead}
+            />
+          ) : selectedPartner ? (
             <>
               <div className="p-4 border-b border-[#2A2A2A] flex items-center gap-3">
                 <Button
@@ -222,15 +739,57 @@ export default function MessagesPage() {
                 >
                   <ArrowLeft className="w-5 h-5" />
                 </Button>
-                <Avatar className="w-10 h-10 border border-[#333333]">
-                  <AvatarImage src={selectedPartner.avatarUrl} />
-                  <AvatarFallback className="bg-[#2A2A2A] text-[#EAEAEA]">
-                    {getInitials(selectedPartner.username)}
-                  </AvatarFallback>
-                </Avatar>
-                <h2 className="text-lg font-semibold text-[#EAEAEA]">
-                  {selectedPartner.username}
-                </h2>
+                <button
+                  onClick={() => onViewProfile(selectedPartner.id)}
+                  className="flex-1 min-w-0 flex items-center gap-3 text-left hover:opacity-80"
+                  data-testid="button-view-partner-profile"
+                >
+                  <Avatar className="w-10 h-10 border border-[#333333]">
+                    <AvatarImage src={selectedPartner.avatarUrl} />
+                    <AvatarFallback className="bg-[#2A2A2A] text-[#EAEAEA]">
+                      {getInitials(selectedPartner.username)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <h2 className="text-lg font-semibold text-[#EAEAEA] truncate">
+                    {selectedPartner.username}
+                  </h2>
+                </button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="text-[#A3A3A3] hover:text-[#EAEAEA]"
+                      data-testid="button-chat-menu"
+                    >
+                      <MoreVertical className="w-5 h-5" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => onViewProfile(selectedPartner.id)} data-testid="menu-view-profile">
+                      <UserIcon className="w-4 h-4 mr-2" />
+                      View profile
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleToggleMute} data-testid="menu-toggle-mute">
+                      {isPartnerMuted ? <Bell className="w-4 h-4 mr-2" /> : <BellOff className="w-4 h-4 mr-2" />}
+                      {isPartnerMuted ? "Unmute" : "Mute"}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() =>
+                        setReportTarget({ targetType: "profile", userId: selectedPartner.id, username: selectedPartner.username })
+                      }
+                      data-testid="menu-report-user"
+                    >
+                      <Flag className="w-4 h-4 mr-2" />
+                      Report
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={handleBlock} className="text-destructive" data-testid="menu-block-user">
+                      <Ban className="w-4 h-4 mr-2" />
+                      Block
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
               </div>
 
               <ScrollArea className="flex-1 p-4">
@@ -239,34 +798,62 @@ export default function MessagesPage() {
                     <Loader2 className="w-6 h-6 animate-spin text-[#d00024]" />
                   </div>
                 ) : (
-                  <div className="space-y-4">
+                  <div className="space-y-4" ref={messagesContainerRef}>
+                    <div ref={topSentinelRef} />
+                    {isLoadingOlder && (
+                      <div className="flex justify-center">
+                        <Loader2 className="w-5 h-5 animate-spin text-[#d00024]" />
+                      </div>
+                    )}
                     {messages.map((msg) => {
                       const isOwn = msg.fromId === user?.id;
                       return (
                         <div
                           key={msg.id}
-                          className={`flex ${isOwn ? "justify-end" : "justify-start"}`}
+                          className={`group flex items-center gap-2 ${isOwn ? "justify-end" : "justify-start"}`}
                           data-testid={`message-${msg.id}`}
+                          data-message-id={msg.id}
                         >
                           <div
-                            className={`max-w-[70%] px-4 py-2 rounded-2xl ${
+                            className={`max-w-[70%] px-4 py-2 rounded-2xl transition-shadow ${
                               isOwn
                                 ? "bg-[#d00024] text-white rounded-br-sm"
                                 : "bg-[#2A2A2A] text-[#EAEAEA] rounded-bl-sm"
-                            }`}
+                            } ${highlightedMessageId === msg.id ? "ring-2 ring-[#EAEAEA] ring-offset-2 ring-offset-[#0A0A0A]" : ""}`}
                           >
                             <p>{msg.text}</p>
-                            <p
-                              className={`text-xs mt-1 ${
-                                isOwn ? "text-white/70" : "text-[#666666]"
+                            <div
+                              className={`flex items-center gap-1 text-xs mt-1 ${
+                                isOwn ? "text-white/70 justify-end" : "text-[#666666]"
                               }`}
                             >
                               {formatTime(msg.timestamp)}
-                            </p>
+                              {isOwn && <MessageStatus message={msg} />}
+                            </div>
                           </div>
+                          {!isOwn && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() =>
+                                setReportTarget({ targetType: "message", messageId: msg.id, username: selectedPartner.username })
+                              }
+                              className="h-7 w-7 opacity-0 group-hover:opacity-100 text-[#666666] hover:text-[#d00024]"
+                              aria-label="Report message"
+                              data-testid={`button-report-message-${msg.id}`}
+                            >
+                              <Flag className="w-3.5 h-3.5" />
+                            </Button>
+                          )}
                         </div>
                       );
                     })}
+                    {isLoadingNewer && (
+                      <div className="flex justify-center">
+                        <Loader2 className="w-5 h-5 animate-spin text-[#d00024]" />
+                      </div>
+                    )}
+                    <div ref={bottomSentinelRef} />
                     <div ref={messagesEndRef} />
                   </div>
                 )}
@@ -308,6 +895,17 @@ export default function MessagesPage() {
           )}
         </div>
       </motion.div>
+
+      <CreateGroupDialog
+        open={createGroupOpen}
+        onOpenChange={setCreateGroupOpen}
+        onCreated={(groupId) => {
+          fetchGroups();
+          handleSelectGroup(groupId);
+        }}
+      />
+
+      <ReportDialog target={reportTarget} onOpenChange={(open) => !open && setReportTarget(null)} />
     </div>
   );
 }
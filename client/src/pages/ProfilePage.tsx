@@ -9,9 +9,10 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
-import { Loader2, Save, User, Calendar, Upload, Camera, Crown } from "lucide-react";
+import { Loader2, Save, User, Calendar, Upload, Camera, Crown, Star, Trophy } from "lucide-react";
 
 interface Achievement {
   id: string;
@@ -199,6 +200,27 @@ export default function ProfilePage() {
                 <Calendar className="w-4 h-4" />
                 <span>Joined {formatDate(user.createdAt)}</span>
               </div>
+              {user.progression && (
+                <div className="mt-4 max-w-sm" data-testid="profile-progression">
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="flex items-center gap-2 text-[#EAEAEA] font-semibold">
+                      <Star className="w-4 h-4 text-[#d00024]" />
+                      Level {user.progression.level}
+                    </span>
+                    <span className="flex items-center gap-1 text-[#A3A3A3]">
+                      <Trophy className="w-4 h-4" />
+                      {user.progression.achievementPoints} points
+                    </span>
+                  </div>
+                  <Progress
+                    value={(user.progression.levelXp / user.progression.nextLevelXp) * 100}
+                    className="h-2 bg-[#2A2A2A]"
+                  />
+                  <p className="text-xs text-[#666666] mt-1">
+                    {user.progression.levelXp} / {user.progression.nextLevelXp} XP to level {user.progression.level + 1}
+                  </p>
+                </div>
+              )}
             </div>
 
             <Button
@@ -0,0 +1,283 @@
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { useApi } from "@/hooks/useApi";
+import { useToast } from "@/hooks/use-toast";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, ArrowLeft, Calendar, Crown, Lock, Trophy, Users, Gamepad2, UserX, Star } from "lucide-react";
+
+import firstFriendImage from "@assets/first_friend_ach_(1)_1765039658293.png";
+import socialButterflyImage from "@assets/social_butterfly_ach_(1)_1765040235877.png";
+import firstLoginImage from "@assets/first_login_ach_(1)_1765040378073.png";
+import developerImage from "@assets/developer_ach_(1)_1765040424106.png";
+import messengerImage from "@assets/messenger_ach_(1)_1765040734815.png";
+import chatMasterImage from "@assets/chat_master_ach_(1)_1765041253777.png";
+import profileCompleteImage from "@assets/profile_complete_(1)_1765042660861.png";
+
+const achievementImageMap: Record<string, string> = {
+  first_friend: firstFriendImage,
+  social_butterfly: socialButterflyImage,
+  first_login: firstLoginImage,
+  developer: developerImage,
+  messenger: messengerImage,
+  chat_master: chatMasterImage,
+  profile_complete: profileCompleteImage,
+};
+
+type Relationship = "self" | "none" | "friend" | "pending_sent" | "pending_received" | "blocked";
+
+// Fields the owner has hidden from this viewer are null
+interface PublicProfile {
+  id: string;
+  username: string;
+  avatarUrl: string;
+  level: number;
+  achievementPoints: number | null;
+  bio: string | null;
+  joinedAt: string | null;
+  isNexarPlus: boolean | null;
+  friendCount: number | null;
+  achievements: {
+    unlocked: number;
+    total: number;
+    showcase: { id: string; name: string; description: string; icon: string; unlockedAt: string }[];
+  } | null;
+  recentlyPlayed: {
+    gameId: string;
+    title: string;
+    coverUrl: string;
+    minutesPlayed: number;
+    lastPlayedAt: string;
+  }[] | null;
+  relationship: Relationship;
+}
+
+const RELATIONSHIP_LABELS: Partial<Record<Relationship, string>> = {
+  self: "This is you",
+  friend: "Friends",
+  pending_sent: "Friend request sent",
+  pending_received: "Wants to be friends",
+  blocked: "Blocked",
+};
+
+interface PublicProfilePageProps {
+  userId: string;
+  onBack: () => void;
+}
+
+function HiddenSection({ label }: { label: string }) {
+  return (
+    <p className="flex items-center gap-2 text-sm text-[#666666]">
+      <Lock className="w-4 h-4" />
+      {label} {label.endsWith("s") ? "are" : "is"} private
+    </p>
+  );
+}
+
+const formatPlaytime = (minutes: number) =>
+  minutes < 60 ? `${minutes}m played` : `${Math.floor(minutes / 60)}h ${minutes % 60}m played`;
+
+export default function PublicProfilePage({ userId, onBack }: PublicProfilePageProps) {
+  const { get } = useApi();
+  const { toast } = useToast();
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setNotFound(false);
+    get<PublicProfile>(`/api/users/${userId}/profile`)
+      .then((data) => {
+        if (!cancelled) setProfile(data);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        setNotFound(true);
+        toast({
+          title: "Error loading profile",
+          description: error instanceof Error ? error.message : undefined,
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString("en-US", { month: "long", year: "numeric" });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-full flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-[#d00024]" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-full p-6 md:p-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className="max-w-2xl mx-auto space-y-6"
+      >
+        <Button
+          variant="ghost"
+          onClick={onBack}
+          data-testid="button-profile-back"
+          className="text-[#A3A3A3] hover:text-[#EAEAEA] -ml-2"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+
+        {notFound || !profile ? (
+          <div className="text-center py-12 text-[#A3A3A3]">
+            <UserX className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>This profile isn't available</p>
+          </div>
+        ) : (
+          <>
+            <div className="bg-[#1A1A1A] rounded-2xl p-6 border border-[#2A2A2A]" data-testid="public-profile">
+              <div className="flex items-start gap-6">
+                <Avatar className="w-24 h-24 border-2 border-[#d00024]">
+                  <AvatarImage src={profile.avatarUrl} />
+                  <AvatarFallback className="bg-[#2A2A2A] text-[#EAEAEA] text-2xl">
+                    {profile.username.slice(0, 2).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <h2 className="text-2xl font-bold text-[#EAEAEA]" data-testid="text-profile-username">
+                      {profile.username}
+                    </h2>
+                    {profile.isNexarPlus && (
+                      <Badge
+                        className="bg-gradient-to-r from-yellow-500 to-amber-600 text-black border-0"
+                        data-testid="badge-profile-nexar-plus"
+                      >
+                        <Crown className="w-3 h-3 mr-1" />
+                        Nexar+ Member
+                      </Badge>
+                    )}
+                  </div>
+                  {RELATIONSHIP_LABELS[profile.relationship] && (
+                    <p className="text-[#A3A3A3] text-sm">{RELATIONSHIP_LABELS[profile.relationship]}</p>
+                  )}
+                  <div className="flex items-center gap-4 mt-2 text-[#A3A3A3] text-sm flex-wrap">
+                    <span className="flex items-center gap-2 text-[#EAEAEA] font-semibold" data-testid="text-profile-level">
+                      <Star className="w-4 h-4 text-[#d00024]" />
+                      Level {profile.level}
+                    </span>
+                    {profile.achievementPoints !== null && (
+                      <span className="flex items-center gap-2">
+                        <Trophy className="w-4 h-4" />
+                        {profile.achievementPoints} points
+                      </span>
+                    )}
+                    {profile.joinedAt && (
+                      <span className="flex items-center gap-2">
+                        <Calendar className="w-4 h-4" />
+                        Joined {formatDate(profile.joinedAt)}
+                      </span>
+                    )}
+                    {profile.friendCount !== null && (
+                      <span className="flex items-center gap-2" data-testid="text-friend-count">
+                        <Users className="w-4 h-4" />
+                        {profile.friendCount} friend{profile.friendCount === 1 ? "" : "s"}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+              <div className="mt-6">
+                {profile.bio === null ? (
+                  <HiddenSection label="Bio" />
+                ) : (
+                  <p className="text-[#EAEAEA]" data-testid="text-profile-bio">
+                    {profile.bio || "No bio yet."}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-[#1A1A1A] rounded-2xl p-6 border border-[#2A2A2A]">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm font-semibold text-[#A3A3A3] uppercase tracking-wider flex items-center gap-2">
+                  <Trophy className="w-4 h-4" />
+                  Achievements
+                </h3>
+                {profile.achievements && (
+                  <span className="text-sm text-[#666666]">
+                    {profile.achievements.unlocked} / {profile.achievements.total}
+                  </span>
+                )}
+              </div>
+              {!profile.achievements ? (
+                <HiddenSection label="Achievements" />
+              ) : profile.achievements.showcase.length === 0 ? (
+                <p className="text-sm text-[#666666]">No achievements unlocked yet</p>
+              ) : (
+                <div className="grid grid-cols-3 sm:grid-cols-6 gap-3">
+                  {profile.achievements.showcase.map((achievement) => (
+                    <div
+                      key={achievement.id}
+                      className="flex flex-col items-center text-center"
+                      title={achievement.description}
+                      data-testid={`showcase-achievement-${achievement.id}`}
+                    >
+                      {achievementImageMap[achievement.id] ? (
+                        <img src={achievementImageMap[achievement.id]} alt={achievement.name} className="w-14 h-14 object-contain" />
+                      ) : (
+                        <div className="w-14 h-14 rounded-full bg-[#d00024]/20 border border-[#d00024]/50 flex items-center justify-center">
+                          <Trophy className="w-6 h-6 text-[#d00024]" />
+                        </div>
+                      )}
+                      <span className="text-xs text-[#EAEAEA] mt-1 line-clamp-2">{achievement.name}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-[#1A1A1A] rounded-2xl p-6 border border-[#2A2A2A]">
+              <h3 className="text-sm font-semibold text-[#A3A3A3] uppercase tracking-wider flex items-center gap-2 mb-4">
+                <Gamepad2 className="w-4 h-4" />
+                Recently Played
+              </h3>
+              {!profile.recentlyPlayed ? (
+                <HiddenSection label="Recently played games" />
+              ) : profile.recentlyPlayed.length === 0 ? (
+                <p className="text-sm text-[#666666]">Nothing played yet</p>
+              ) : (
+                <div className="space-y-3">
+                  {profile.recentlyPlayed.map((game) => (
+                    <div key={game.gameId} className="flex items-center gap-3" data-testid={`recent-game-${game.gameId}`}>
+                      <div className="w-10 h-14 rounded bg-[#2A2A2A] overflow-hidden flex-shrink-0">
+                        {game.coverUrl && <img src={game.coverUrl} alt={game.title} className="w-full h-full object-cover" />}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-[#EAEAEA] font-medium truncate">{game.title}</p>
+                        <p className="text-xs text-[#666666]">
+                          {formatPlaytime(game.minutesPlayed)} · last played {new Date(game.lastPlayedAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -1,9 +1,16 @@
-import { useState, useMemo, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { motion } from "framer-motion";
-import { Search, Tag, Star, TrendingUp, Clock, Loader2 } from "lucide-react";
+import { Search, Tag, Percent, Crown, Loader2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
-import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Toggle } from "@/components/ui/toggle";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { useApi } from "@/hooks/useApi";
@@ -20,7 +27,6 @@ import {
 import { Button } from "@/components/ui/button";
 
 interface StorePageProps {
-  storeGames: Game[];
   featuredGames: Game[];
   onInstallGame: (game: Game) => void;
   onViewGameDetails: (game: Game) => void;
@@ -31,41 +37,42 @@ interface WalletData {
   ownedGames: string[];
 }
 
-interface GameMetadata {
-  gameId: string;
-  trialEnabled?: boolean;
-  trialMinutes?: number;
-  nexarPlusDiscount?: number;
-  inNexarPlusCollection?: boolean;
+interface StoreCategory {
+  id: string;
+  label: string;
+  count: number;
 }
 
-interface SubscriptionStatus {
-  hasActiveSubscription: boolean;
-  status?: string;
+interface StoreGame extends Omit<Game, "isInstalled"> {
+  description: string;
+  isDeveloperGame: boolean;
+  developerName: string | null;
 }
 
-const categories = [
-  { id: "all", label: "All Games" },
-  { id: "action", label: "Action" },
-  { id: "rpg", label: "RPG" },
-  { id: "adventure", label: "Adventure" },
-  { id: "strategy", label: "Strategy" },
-  { id: "sports", label: "Sports" },
-];
+interface StoreGamesPage {
+  games: StoreGame[];
+  nextCursor: string | null;
+}
 
-const gamePrices: Record<string, number> = {
-  "store-1": 49.99,
-  "store-2": 59.99,
-  "store-3": 29.99,
-  "store-4": 39.99,
-  "store-5": 69.99,
-  "store-6": 24.99,
-  "store-7": 34.99,
-  "store-8": 44.99,
+const PRICE_RANGES: Record<string, { label: string; min?: number; max?: number }> = {
+  any: { label: "Any Price" },
+  free: { label: "Free", max: 0 },
+  under20: { label: "Under £20", max: 20 },
+  "20to40": { label: "£20 - £40", min: 20, max: 40 },
+  over40: { label: "Over £40", min: 40 },
 };
 
+const SORT_OPTIONS = [
+  { id: "title", label: "Name" },
+  { id: "rating", label: "Top Rated" },
+  { id: "newest", label: "Newest" },
+  { id: "price_asc", label: "Price: Low to High" },
+  { id: "price_desc", label: "Price: High to Low" },
+];
+
+const CONTENT_RATINGS = ["E", "T", "M", "18+"];
+
 export default function StorePage({
-  storeGames,
   featuredGames,
   onInstallGame,
   onViewGameDetails
@@ -74,107 +81,107 @@ export default function StorePage({
   const { token } = useAuth();
   const { get, post } = useApi();
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("all");
+  const [priceRange, setPriceRange] = useState("any");
+  const [contentRating, setContentRating] = useState("any");
+  const [onSale, setOnSale] = useState(false);
+  const [nexarPlusOnly, setNexarPlusOnly] = useState(false);
+  const [sortBy, setSortBy] = useState("title");
+  const [categories, setCategories] = useState<StoreCategory[]>([]);
+  const [storeGames, setStoreGames] = useState<Game[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingGames, setIsLoadingGames] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [walletData, setWalletData] = useState<WalletData | null>(null);
-  const [isLoadingWallet, setIsLoadingWallet] = useState(true);
   const [buyDialog, setBuyDialog] = useState<{ open: boolean; game: Game | null }>({ open: false, game: null });
   const [isPurchasing, setIsPurchasing] = useState(false);
-  const [gameMetadata, setGameMetadata] = useState<GameMetadata[]>([]);
-  const [subscriptionStatus, setSubscriptionStatus] = useState<SubscriptionStatus | null>(null);
 
   useEffect(() => {
     loadWallet();
-    loadGameMetadata();
-    if (token) {
-      loadSubscriptionStatus();
-    }
+    loadCategories();
   }, [token]);
 
-  const loadWallet = async () => {
-    if (!token) {
-      setIsLoadingWallet(false);
-      return;
-    }
-    try {
-      const data = await get<WalletData>("/api/wallet");
-      if (data) {
-        setWalletData(data);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const buildStoreUrl = useCallback((cursor?: string) => {
+    const params = new URLSearchParams({ sort: sortBy });
+    const range = PRICE_RANGES[priceRange];
+
+    if (selectedCategory !== "all") params.set("genre", selectedCategory);
+    if (range.min !== undefined) params.set("minPrice", String(range.min));
+    if (range.max !== undefined) params.set("maxPrice", String(range.max));
+    if (contentRating !== "any") params.set("contentRating", contentRating);
+    if (onSale) params.set("onSale", "true");
+    if (nexarPlusOnly) params.set("nexarPlus", "true");
+    if (debouncedSearch) params.set("q", debouncedSearch);
+    if (cursor) params.set("cursor", cursor);
+
+    return `/api/store/games?${params.toString()}`;
+  }, [sortBy, priceRange, selectedCategory, contentRating, onSale, nexarPlusOnly, debouncedSearch]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadGames = async () => {
+      setIsLoadingGames(true);
+      try {
+        const data = await get<StoreGamesPage>(buildStoreUrl());
+        if (!cancelled) {
+          setStoreGames(data.games.map(g => ({ ...g, isInstalled: false })));
+          setNextCursor(data.nextCursor);
+        }
+      } catch (error) {
+        console.error("Failed to load store games:", error);
+      } finally {
+        if (!cancelled) setIsLoadingGames(false);
       }
+    };
+
+    loadGames();
+    return () => {
+      cancelled = true;
+    };
+  }, [buildStoreUrl, get]);
+
+  const loadMoreGames = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const data = await get<StoreGamesPage>(buildStoreUrl(nextCursor));
+      setStoreGames(prev => [...prev, ...data.games.map(g => ({ ...g, isInstalled: false }))]);
+      setNextCursor(data.nextCursor);
     } catch (error) {
-      console.error("Failed to load wallet:", error);
+      console.error("Failed to load more store games:", error);
     } finally {
-      setIsLoadingWallet(false);
+      setIsLoadingMore(false);
     }
   };
 
-  const loadGameMetadata = async () => {
+  const loadWallet = async () => {
+    if (!token) return;
     try {
-      const data = await get<{ games: GameMetadata[] }>("/api/games/metadata");
-      if (data?.games) {
-        setGameMetadata(data.games);
+      const data = await get<WalletData>("/api/wallet");
+      if (data) {
+        setWalletData(data);
       }
     } catch (error) {
-      console.error("Failed to load game metadata:", error);
+      console.error("Failed to load wallet:", error);
     }
   };
 
-  const loadSubscriptionStatus = async () => {
+  const loadCategories = async () => {
     try {
-      const data = await get<SubscriptionStatus>("/api/subscription/status");
-      if (data) {
-        setSubscriptionStatus(data);
-      }
+      const data = await get<StoreCategory[]>("/api/store/categories");
+      setCategories(data);
     } catch (error) {
-      console.error("Failed to load subscription status:", error);
+      console.error("Failed to load store categories:", error);
     }
   };
 
-  const gamesWithPricesAndOwnership = useMemo(() => {
-    const hasSubscription = subscriptionStatus?.hasActiveSubscription || false;
-    
-    return storeGames.map(game => {
-      const basePrice = gamePrices[game.id] || 29.99;
-      const metadata = gameMetadata.find(m => m.gameId === game.id);
-      
-      let finalPrice = basePrice;
-      let discountPercent = 0;
-      
-      if (hasSubscription && metadata?.nexarPlusDiscount) {
-        discountPercent = metadata.nexarPlusDiscount;
-        finalPrice = Math.round(basePrice * (1 - discountPercent / 100) * 100) / 100;
-      }
-      
-      return {
-        ...game,
-        price: finalPrice,
-        originalPrice: discountPercent > 0 ? basePrice : undefined,
-        discountPercent: discountPercent > 0 ? discountPercent : undefined,
-        isOwned: walletData?.ownedGames?.includes(game.id) || false,
-        hasTrial: metadata?.trialEnabled || false,
-        trialMinutes: metadata?.trialMinutes,
-        isNexarPlusGame: metadata?.inNexarPlusCollection || false,
-      };
-    });
-  }, [storeGames, walletData, gameMetadata, subscriptionStatus]);
-
-  const filteredGames = useMemo(() => {
-    let result = [...gamesWithPricesAndOwnership];
-
-    if (searchQuery) {
-      result = result.filter(g => 
-        g.title.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-    }
-
-    if (selectedCategory !== "all") {
-      result = result.filter(g => 
-        g.genre?.toLowerCase().includes(selectedCategory)
-      );
-    }
-
-    return result;
-  }, [gamesWithPricesAndOwnership, searchQuery, selectedCategory]);
-
   const handleBuyGame = (game: Game) => {
     setBuyDialog({ open: true, game });
   };
@@ -183,7 +190,7 @@ export default function StorePage({
     if (!buyDialog.game) return;
 
     const game = buyDialog.game;
-    const price = game.price || 29.99;
+    const price = game.price ?? 0;
 
     if (!walletData || walletData.balance < price) {
       toast({
@@ -207,6 +214,7 @@ export default function StorePage({
           balance: result.balance,
           ownedGames: result.ownedGames,
         } : null);
+        setStoreGames(prev => prev.map(g => g.id === game.id ? { ...g, isOwned: true } : g));
 
         toast({
           title: "Purchase Successful",
@@ -276,6 +284,9 @@ export default function StorePage({
         <div className="flex flex-col md:flex-row md:items-center gap-4">
           <Tabs value={selectedCategory} onValueChange={setSelectedCategory}>
             <TabsList className="h-auto flex-wrap gap-1">
+              <TabsTrigger value="all" data-testid="tab-category-all">
+                All Games
+              </TabsTrigger>
               {categories.map(cat => (
                 <TabsTrigger 
                   key={cat.id} 
@@ -289,18 +300,57 @@ export default function StorePage({
           </Tabs>
 
           <div className="flex items-center gap-2 md:ml-auto flex-wrap">
-            <Badge variant="secondary" className="gap-1">
-              <Star className="w-3 h-3" />
-              Top Rated
-            </Badge>
-            <Badge variant="secondary" className="gap-1">
-              <TrendingUp className="w-3 h-3" />
-              Trending
-            </Badge>
-            <Badge variant="secondary" className="gap-1">
-              <Clock className="w-3 h-3" />
-              New
-            </Badge>
+            <Select value={priceRange} onValueChange={setPriceRange}>
+              <SelectTrigger className="w-36" data-testid="select-price-range">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PRICE_RANGES).map(([id, range]) => (
+                  <SelectItem key={id} value={id}>{range.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={contentRating} onValueChange={setContentRating}>
+              <SelectTrigger className="w-32" data-testid="select-content-rating">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any Rating</SelectItem>
+                {CONTENT_RATINGS.map(rating => (
+                  <SelectItem key={rating} value={rating}>Rated {rating}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Toggle
+              variant="outline"
+              size="sm"
+              pressed={onSale}
+              onPressedChange={setOnSale}
+              data-testid="toggle-on-sale"
+            >
+              <Percent className="w-3 h-3" />
+              On Sale
+            </Toggle>
+            <Toggle
+              variant="outline"
+              size="sm"
+              pressed={nexarPlusOnly}
+              onPressedChange={setNexarPlusOnly}
+              data-testid="toggle-nexar-plus"
+            >
+              <Crown className="w-3 h-3" />
+              Nexar+
+            </Toggle>
+            <Select value={sortBy} onValueChange={setSortBy}>
+              <SelectTrigger className="w-44" data-testid="select-sort">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </div>
 
@@ -310,27 +360,29 @@ export default function StorePage({
               <Tag className="w-5 h-5 text-primary" />
               Available Games
             </h2>
-            <span className="text-sm text-muted-foreground">{filteredGames.length} games</span>
+            <span className="text-sm text-muted-foreground">
+              {storeGames.length}{nextCursor ? "+" : ""} games
+            </span>
           </div>
 
-          {isLoadingWallet ? (
+          {isLoadingGames ? (
             <div className="flex items-center justify-center py-16">
               <Loader2 className="w-8 h-8 animate-spin text-primary" />
             </div>
-          ) : filteredGames.length === 0 ? (
+          ) : storeGames.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-16 text-center">
               <Search className="w-16 h-16 text-muted-foreground/50 mb-4" />
               <h3 className="text-lg font-medium text-foreground mb-2">No games found</h3>
-              <p className="text-muted-foreground">Try adjusting your search or category filter</p>
+              <p className="text-muted-foreground">Try adjusting your search or filters</p>
             </div>
           ) : (
             <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
-              {filteredGames.map((game, index) => (
+              {storeGames.map((game, index) => (
                 <motion.div
                   key={game.id}
                   initial={{ opacity: 0, y: 20 }}
                   animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: index * 0.03 }}
+                  transition={{ delay: (index % 24) * 0.03 }}
                 >
                   <GameCard
                     game={game}
@@ -342,6 +394,20 @@ export default function StorePage({
               ))}
             </div>
           )}
+
+          {nextCursor && !isLoadingGames && (
+            <div className="flex justify-center pt-2">
+              <Button
+                variant="outline"
+                onClick={loadMoreGames}
+                disabled={isLoadingMore}
+                data-testid="button-load-more-games"
+              >
+                {isLoadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Load More
+              </Button>
+            </div>
+          )}
         </section>
       </div>
 
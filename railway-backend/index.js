@@ -3,6 +3,7 @@ const cors = require("cors");
 const http = require("http");
 const { registerRoutes } = require("./routes.js");
 const { initDb } = require("./initDb");
+const { attachRealtime } = require("./realtime");
 
 const app = express();
 const httpServer = http.createServer(app);
@@ -36,6 +37,7 @@ app.use((req, res, next) => {
 (async () => {
   await initDb();
   await registerRoutes(httpServer, app);
+  attachRealtime(httpServer);
 
   app.use((err, _req, res, _next) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,79 @@
+const crypto = require("crypto");
+const { query } = require("../db");
+
+// Per-game API keys let a shipped game call platform services without a
+// player's JWT. Keys look like nxk_<prefix>_<secret>; only the prefix (for
+// lookup and display) and a SHA-256 of the whole key are stored.
+
+const API_KEY_SCOPES = ["achievements", "leaderboards", "cloud_saves", "entitlements"];
+const API_KEY_HEADER = "x-nexar-api-key";
+
+function hashApiKey(key) {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+function generateApiKey() {
+  const prefix = crypto.randomBytes(4).toString("hex");
+  const secret = crypto.randomBytes(24).toString("base64url");
+  const key = `nxk_${prefix}_${secret}`;
+  return { key, prefix, hash: hashApiKey(key) };
+}
+
+function parseApiKey(key) {
+  const match = /^nxk_([0-9a-f]{8})_[A-Za-z0-9_-]+$/.exec(key || "");
+  return match ? match[1] : null;
+}
+
+// Authenticates the X-Nexar-Api-Key header and requires `scope` on the key.
+// Sets req.game to { apiKeyId, gameId, libraryId, scopes }, where libraryId
+// is the dev- prefixed id used by sessions, playtime and the library.
+function apiKeyMiddleware(scope) {
+  return async function apiKeyAuth(req, res, next) {
+    try {
+      const key = req.headers[API_KEY_HEADER];
+      const prefix = parseApiKey(key);
+
+      if (!prefix) {
+        return res.status(401).json({ message: "API key required" });
+      }
+
+      const keyResult = await query(
+        "SELECT * FROM game_api_keys WHERE key_prefix = $1 AND revoked_at IS NULL",
+        [prefix]
+      );
+      const row = keyResult.rows[0];
+      const presented = Buffer.from(hashApiKey(key), "hex");
+      if (!row || !crypto.timingSafeEqual(presented, Buffer.from(row.key_hash, "hex"))) {
+        return res.status(401).json({ message: "Invalid or revoked API key" });
+      }
+
+      if (scope && !(row.scopes || []).includes(scope)) {
+        return res.status(403).json({ message: `This API key doesn't have the ${scope} scope` });
+      }
+
+      // Not awaited: a slow usage write shouldn't hold up the game's call
+      query(
+        "UPDATE game_api_keys SET usage_count = usage_count + 1, last_used_at = NOW() WHERE id = $1",
+        [row.id]
+      ).catch(error => console.error("API key usage update error:", error));
+
+      req.game = {
+        apiKeyId: row.id,
+        gameId: row.game_id,
+        libraryId: `dev-${row.game_id}`,
+        scopes: row.scopes || [],
+      };
+      next();
+    } catch (error) {
+      console.error("API key auth error:", error);
+      res.status(500).json({ message: "Failed to authenticate API key" });
+    }
+  };
+}
+
+module.exports = {
+  API_KEY_SCOPES,
+  generateApiKey,
+  hashApiKey,
+  apiKeyMiddleware,
+};
@@ -32,8 +32,22 @@ function authMiddleware(req, res, next) {
   next();
 }
 
+function optionalAuthMiddleware(req, res, next) {
+  const authHeader = req.headers.authorization;
+
+  if (authHeader && authHeader.startsWith("Bearer ")) {
+    const payload = verifyToken(authHeader.substring(7));
+    if (payload) {
+      req.user = payload;
+    }
+  }
+
+  next();
+}
+
 module.exports = {
   generateToken,
   verifyToken,
-  authMiddleware
+  authMiddleware,
+  optionalAuthMiddleware
 };
@@ -0,0 +1,44 @@
+// In-memory fixed-window rate limiter. Counts reset when the process restarts
+// and aren't shared between instances, which is fine for throttling abuse of
+// a single endpoint but not for billing-grade quotas.
+function rateLimit({ windowMs, max, keyGenerator, message = "Too many requests, please try again later" }) {
+  const hits = new Map();
+
+  // Drop expired windows so the map doesn't grow without bound
+  const sweepInterval = setInterval(() => {
+    const now = Date.now();
+    hits.forEach((entry, key) => {
+      if (entry.resetAt <= now) hits.delete(key);
+    });
+  }, windowMs);
+  sweepInterval.unref();
+
+  return function rateLimitMiddleware(req, res, next) {
+    const key = keyGenerator ? keyGenerator(req) : req.user?.userId || req.ip;
+    const now = Date.now();
+
+    let entry = hits.get(key);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs };
+      hits.set(key, entry);
+    }
+    entry.count++;
+
+    const remaining = Math.max(max - entry.count, 0);
+    const resetSeconds = Math.ceil((entry.resetAt - now) / 1000);
+    res.set("RateLimit-Limit", String(max));
+    res.set("RateLimit-Remaining", String(remaining));
+    res.set("RateLimit-Reset", String(resetSeconds));
+
+    if (entry.count > max) {
+      res.set("Retry-After", String(resetSeconds));
+      return res.status(429).json({ message, retryAfter: resetSeconds });
+    }
+
+    next();
+  };
+}
+
+module.exports = {
+  rateLimit,
+};
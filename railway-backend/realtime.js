@@ -0,0 +1,99 @@
+const { WebSocketServer, WebSocket } = require("ws");
+const { verifyToken } = require("./middleware/auth");
+
+const REALTIME_PATH = "/ws";
+const PING_INTERVAL_MS = 30000;
+
+// userId -> set of open sockets (one per tab/device)
+const connections = new Map();
+
+function addConnection(userId, socket) {
+  if (!connections.has(userId)) {
+    connections.set(userId, new Set());
+  }
+  connections.get(userId).add(socket);
+}
+
+function removeConnection(userId, socket) {
+  const sockets = connections.get(userId);
+  if (!sockets) return;
+  sockets.delete(socket);
+  if (sockets.size === 0) {
+    connections.delete(userId);
+  }
+}
+
+// =======================
+// ATTACH: WEBSOCKET GATEWAY ON THE HTTP SERVER
+// =======================
+// Browsers can't set headers on a WebSocket handshake, so the JWT comes in
+// the query string: /ws?token=<jwt>
+function attachRealtime(httpServer) {
+  const wss = new WebSocketServer({ server: httpServer, path: REALTIME_PATH });
+
+  wss.on("connection", (socket, req) => {
+    const url = new URL(req.url, "http://localhost");
+    const payload = verifyToken(url.searchParams.get("token") || "");
+
+    if (!payload?.userId) {
+      socket.close(4401, "Invalid or expired token");
+      return;
+    }
+
+    const userId = payload.userId;
+    socket.isAlive = true;
+    addConnection(userId, socket);
+
+    socket.on("pong", () => {
+      socket.isAlive = true;
+    });
+    socket.on("close", () => removeConnection(userId, socket));
+    socket.on("error", (error) => {
+      console.error("Realtime socket error:", error);
+    });
+
+    socket.send(JSON.stringify({ type: "ready", payload: {}, sentAt: new Date().toISOString() }));
+  });
+
+  // Drop sockets that stopped answering pings (sleeping laptops, dead proxies)
+  const pingInterval = setInterval(() => {
+    wss.clients.forEach((socket) => {
+      if (!socket.isAlive) {
+        socket.terminate();
+        return;
+      }
+      socket.isAlive = false;
+      socket.ping();
+    });
+  }, PING_INTERVAL_MS);
+  pingInterval.unref();
+
+  wss.on("close", () => clearInterval(pingInterval));
+
+  return wss;
+}
+
+// =======================
+// PUBLISH: PUSH AN EVENT TO EVERY SOCKET A USER HAS OPEN
+// =======================
+// Returns how many sockets the event was sent to, so callers can tell
+// whether the user is currently connected.
+function publish(userId, type, payload = {}) {
+  const sockets = connections.get(userId);
+  if (!sockets) return 0;
+
+  const message = JSON.stringify({ type, payload, sentAt: new Date().toISOString() });
+  let sent = 0;
+  sockets.forEach((socket) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(message);
+      sent++;
+    }
+  });
+  return sent;
+}
+
+module.exports = {
+  attachRealtime,
+  publish,
+};
@@ -1,16 +1,29 @@
 const { createServer } = require("http");
 const bcrypt = require("bcryptjs");
-const { v4: uuidv4 } = require("uuid");
+const { v4: uuidv4, validate: isUuid } = require("uuid");
 const multer = require("multer");
 const path = require("path");
 const fs = require("fs");
 const {
   generateToken,
   authMiddleware,
+  optionalAuthMiddleware,
 } = require("./middleware/auth");
 const { query } = require("./db");
 const { sendVerificationEmail, sendPasswordResetEmail } = require("./utils/email");
 const { getUncachableStripeClient, getStripePublishableKey } = require("./stripeClient");
+const { getBuildStorageDir, createBuildManifest, parseSemver, compareSemver, formatBytes } = require("./utils/builds");
+const { readImageInfo } = require("./utils/imageSize");
+const storage = require("./utils/storage");
+const { publish } = require("./realtime");
+const { rateLimit } = require("./middleware/rateLimit");
+const { API_KEY_SCOPES, generateApiKey, apiKeyMiddleware } = require("./middleware/apiKey");
+const { toDeveloperProfile, toParentalControls, toPublicUser, toFriendUser, toSelfUser, toAdminUser } = require("./utils/userDto");
+const { dbDefinitionToApiAchievement, getAchievementDefinitions, emitEvent, rarityPercent } = require("./utils/achievements");
+const { toProgression, awardXp, awardPlaytimeXp } = require("./utils/progression");
+
+// Postgres error code for a UNIQUE constraint violation
+const UNIQUE_VIOLATION = "23505";
 
 function getSystemConfig() {
   const configPath = path.join(process.cwd(), "shared/config.json");
@@ -49,40 +62,162 @@ const avatarStorage = multer.diskStorage({
   },
 });
 
+const IMAGE_CONTENT_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+
+const imageFileFilter = (req, file, cb) => {
+  if (IMAGE_CONTENT_TYPES.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error("Only JPEG, PNG, GIF, and WebP images are allowed"));
+  }
+};
+
 const uploadAvatar = multer({
   storage: avatarStorage,
   limits: { fileSize: 5 * 1024 * 1024 },
-  fileFilter: (req, file, cb) => {
-    const allowedTypes = ["image/jpeg", "image/png", "image/gif", "image/webp"];
-    if (allowedTypes.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      cb(new Error("Only JPEG, PNG, GIF, and WebP images are allowed"));
-    }
+  fileFilter: imageFileFilter,
+});
+
+// Store media for developer games, served from /uploads/media
+const uploadGameMedia = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      const uploadDir = path.join(process.cwd(), "uploads/media");
+      if (!fs.existsSync(uploadDir)) {
+        fs.mkdirSync(uploadDir, { recursive: true });
+      }
+      cb(null, uploadDir);
+    },
+    filename: (req, file, cb) => {
+      cb(null, `${Date.now()}-${uuidv4()}${path.extname(file.originalname).toLowerCase()}`);
+    },
+  }),
+  limits: { fileSize: 10 * 1024 * 1024 },
+  fileFilter: imageFileFilter,
+});
+
+const buildFilename = (req, file, cb) => {
+  cb(null, `${Date.now()}-${uuidv4()}${path.extname(file.originalname)}`);
+};
+
+const buildStorage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    cb(null, getBuildStorageDir(req.params.gameId));
   },
+  filename: buildFilename,
 });
 
-const ACHIEVEMENTS_LIST = [
-  { id: "first_login", name: "First Login", description: "Log in for the first time", icon: "trophy" },
-  { id: "profile_complete", name: "Profile Complete", description: "Complete your profile with avatar and bio", icon: "user" },
-  { id: "first_friend", name: "First Friend", description: "Add your first friend", icon: "users" },
-  { id: "messenger", name: "Messenger", description: "Send your first message", icon: "message-circle" },
-  { id: "social_butterfly", name: "Social Butterfly", description: "Have 5 friends", icon: "heart" },
-  { id: "chat_master", name: "Chat Master", description: "Send 50 messages", icon: "messages-square" },
-  { id: "developer", name: "Developer", description: "Have a game approved for the Nexar Store", icon: "code" },
-];
-
-const GAME_CATALOG = {
-  "store-1": { price: 49.99, name: "Galactic Frontier", trialEnabled: true, trialDurationMinutes: 120, nexarPlusDiscount: 20 },
-  "store-2": { price: 59.99, name: "Dragon's Legacy", trialEnabled: true, trialDurationMinutes: 120, nexarPlusDiscount: 15 },
-  "store-3": { price: 29.99, name: "Urban Legends", nexarPlusDiscount: 25 },
-  "store-4": { price: 39.99, name: "Quantum Break", trialEnabled: true, trialDurationMinutes: 120 },
-  "store-5": { price: 69.99, name: "Warzone Elite", nexarPlusDiscount: 10 },
-  "store-6": { price: 24.99, name: "Speed Kings" },
-  "store-7": { price: 34.99, name: "Empire Builder", inNexarPlusCollection: true },
-  "store-8": { price: 44.99, name: "Championship 2025", inNexarPlusCollection: true },
+const uploadBuild = multer({
+  storage: buildStorage,
+  limits: { fileSize: 20 * 1024 * 1024 * 1024 },
+});
+
+// Developer builds are filed under the dev- library id their rows use
+const uploadDeveloperBuild = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      cb(null, getBuildStorageDir(`dev-${req.params.gameId}`));
+    },
+    filename: buildFilename,
+  }),
+  limits: { fileSize: 20 * 1024 * 1024 * 1024 },
+});
+
+const CLOUD_QUOTA_FREE_BYTES = 100 * 1024 * 1024;
+const CLOUD_QUOTA_NEXAR_PLUS_BYTES = 1024 * 1024 * 1024;
+
+const uploadCloudSave = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      cb(null, storage.getIncomingDir());
+    },
+    filename: (req, file, cb) => {
+      cb(null, `${Date.now()}-${uuidv4()}`);
+    },
+  }),
+  limits: { fileSize: CLOUD_QUOTA_NEXAR_PLUS_BYTES },
+});
+
+const DISCOVERABILITY_OPTIONS = ["everyone", "friends_of_friends", "nobody"];
+
+// Who can see each optional public profile field. Username and avatar are
+// always visible to anyone who can see the profile at all.
+const PROFILE_VISIBILITY_OPTIONS = ["public", "friends", "private"];
+const PROFILE_VISIBILITY_DEFAULTS = {
+  bio: "public",
+  joinDate: "public",
+  achievements: "public",
+  recentlyPlayed: "friends",
+  friendCount: "friends",
+  nexarPlus: "public",
 };
 
+function getProfileVisibility(row) {
+  return { ...PROFILE_VISIBILITY_DEFAULTS, ...(row.profile_visibility || {}) };
+}
+
+// Search is cheap to call and returns real accounts, so cap it per user to
+// stop it being used to enumerate usernames
+const userSearchRateLimit = rateLimit({
+  windowMs: 60 * 1000,
+  max: 30,
+  message: "Too many searches, please wait a moment",
+});
+
+// Friend requests notify the target, so cap them to stop one account spamming
+// requests at a list of usernames
+const friendRequestRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 20,
+  message: "Too many friend requests, please try again later",
+});
+
+// Games submit on every run end, so this only needs to stop runaway loops.
+// Game servers may submit for many players from one address, so it's keyed
+// per API key and session rather than per IP.
+const gameServiceScoreRateLimit = rateLimit({
+  windowMs: 60 * 1000,
+  max: 60,
+  keyGenerator: (req) => `${req.game.apiKeyId}:${req.params.sessionId}`,
+  message: "Too many score submissions, please slow down",
+});
+
+const LEADERBOARD_SORT_ORDERS = ["asc", "desc"];
+const LEADERBOARD_SCORE_FORMATS = ["number", "time", "decimal"];
+const LEADERBOARD_RESET_PERIODS = ["daily", "weekly", "all_time"];
+
+// Start (inclusive) and end (exclusive) of the current leaderboard period as
+// UTC dates. Weeks start on Monday; all-time boards have one fixed period.
+function getLeaderboardPeriod(resetPeriod, now = new Date()) {
+  const day = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const toDate = (date) => date.toISOString().slice(0, 10);
+  if (resetPeriod === "daily") {
+    const end = new Date(day);
+    end.setUTCDate(end.getUTCDate() + 1);
+    return { start: toDate(day), resetsAt: end.toISOString() };
+  }
+  if (resetPeriod === "weekly") {
+    const start = new Date(day);
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+    const end = new Date(start);
+    end.setUTCDate(end.getUTCDate() + 7);
+    return { start: toDate(start), resetsAt: end.toISOString() };
+  }
+  return { start: "1970-01-01", resetsAt: null };
+}
+
+const REPORT_REASONS = ["spam", "harassment", "hate_speech", "inappropriate_content", "impersonation", "other"];
+const REPORT_TARGET_TYPES = ["message", "group_message", "profile", "avatar"];
+const REPORT_STATUSES = ["open", "actioned", "dismissed"];
+const MODERATION_ACTIONS = ["warn", "suspend", "clear_avatar", "clear_bio", "dismiss"];
+const MAX_SUSPENSION_DAYS = 365;
+
+const reportRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 10,
+  message: "Too many reports, please try again later",
+});
+
 const NEXAR_PLUS_PRICE = 4.99;
 const NEXAR_PLUS_CURRENCY = "gbp";
 
@@ -109,6 +244,7 @@ function dbUserToApiUser(row) {
     nexarPlusSubscriptionId: row.nexar_plus_subscription_id,
     nexarPlusStatus: row.nexar_plus_status,
     createdAt: row.created_at,
+    discoverability: row.discoverability || "everyone",
     subscription: row.developer_profile?.subscription || null,
     parentalControls: row.developer_profile?.parentalControls || null,
     trialUsage: row.developer_profile?.trialUsage || null,
@@ -134,28 +270,107 @@ function dbMessageToApiMessage(row) {
     toId: row.to_id,
     text: row.content,
     timestamp: row.timestamp,
+    deliveredAt: row.delivered_at || null,
+    readAt: row.read_at || null,
   };
 }
 
-function dbAchievementToApiAchievement(row) {
+// Saves from before binary uploads keep their contents in the save_data column
+function cloudSaveSize(row) {
+  if (row.size_bytes != null) return Number(row.size_bytes);
+  if (row.save_data != null) return Buffer.byteLength(cloudSaveDataToBuffer(row.save_data));
+  return 0;
+}
+
+function cloudSaveDataToBuffer(saveData) {
+  return Buffer.from(typeof saveData === "string" ? saveData : JSON.stringify(saveData));
+}
+
+function dbCloudSaveToApiCloudSave(row) {
   if (!row) return null;
   return {
     id: row.id,
     userId: row.user_id,
-    achievementId: row.achievement_id,
-    unlockedAt: row.unlocked_at,
+    gameId: row.game_id,
+    gameTitle: row.game_title || null,
+    filename: row.save_name,
+    contentType: row.content_type || "application/octet-stream",
+    sha256: row.sha256 || null,
+    revision: row.revision,
+    revisionCount: row.revision_count !== undefined ? Number(row.revision_count) : undefined,
+    sizeBytes: cloudSaveSize(row),
+    deviceId: row.device_id || null,
+    deviceName: row.device_name || null,
+    uploadedAt: row.updated_at || row.created_at,
   };
 }
 
-function dbCloudSaveToApiCloudSave(row) {
+function dbCloudSaveRevisionToApiRevision(row) {
   if (!row) return null;
   return {
     id: row.id,
-    userId: row.user_id,
-    gameId: row.game_id,
+    saveId: row.save_id,
+    revision: row.revision,
     filename: row.save_name,
-    data: row.save_data,
-    uploadedAt: row.updated_at || row.created_at,
+    sizeBytes: cloudSaveSize(row),
+    deviceName: row.device_name || null,
+    createdAt: row.created_at,
+  };
+}
+
+function dbGroupMessageToApiGroupMessage(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    groupId: row.group_id,
+    fromId: row.from_id,
+    kind: row.kind,
+    text: row.content,
+    timestamp: row.timestamp,
+  };
+}
+
+function dbGroupToApiGroup(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    name: row.name,
+    avatarUrl: row.avatar_url || "",
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function dbReportToApiReport(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    reporterId: row.reporter_id,
+    targetUserId: row.target_user_id,
+    targetType: row.target_type,
+    messageId: row.message_id,
+    reason: row.reason,
+    details: row.details || "",
+    snapshot: row.snapshot || {},
+    status: row.status,
+    resolvedBy: row.resolved_by,
+    resolvedAt: row.resolved_at,
+    createdAt: row.created_at,
+  };
+}
+
+function dbModerationActionToApiModerationAction(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    userId: row.user_id,
+    adminId: row.admin_id,
+    reportId: row.report_id,
+    action: row.action,
+    reason: row.reason || "",
+    expiresAt: row.expires_at,
+    createdAt: row.created_at,
   };
 }
 
@@ -185,24 +400,198 @@ function dbDevGameToApiDevGame(row) {
     price: parseFloat(row.price),
     coverImage: row.cover_image || "",
     screenshots: row.screenshots || [],
+    contentRating: row.content_rating || "E",
     version: row.version,
+    versions: row.versions || [],
     status: row.status,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
 }
 
+function dbGameAchievementToApiGameAchievement(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    gameId: `dev-${row.game_id}`,
+    name: row.name,
+    description: row.description || "",
+    iconUrl: row.icon_url || "",
+    hidden: row.hidden,
+    points: row.points,
+    sortOrder: row.sort_order,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function dbLeaderboardToApiLeaderboard(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    gameId: `dev-${row.game_id}`,
+    name: row.name,
+    sortOrder: row.sort_order,
+    scoreFormat: row.score_format,
+    resetPeriod: row.reset_period,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function dbGameMediaToApiGameMedia(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    gameId: `dev-${row.game_id}`,
+    kind: row.kind,
+    url: row.url,
+    contentType: row.content_type,
+    width: row.width,
+    height: row.height,
+    sizeBytes: Number(row.size_bytes),
+    videoUrl: row.video_url,
+    sortOrder: row.sort_order,
+    createdAt: row.created_at,
+  };
+}
+
+function dbApiKeyToApiApiKey(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    gameId: `dev-${row.game_id}`,
+    name: row.name,
+    prefix: `nxk_${row.key_prefix}`,
+    scopes: row.scopes || [],
+    usageCount: Number(row.usage_count) || 0,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+    rotatedFrom: row.rotated_from,
+    createdAt: row.created_at,
+  };
+}
+
+function dbGameToApiGame(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description || "",
+    genre: row.genre,
+    contentRating: row.content_rating || "E",
+    rating: row.rating !== null ? parseFloat(row.rating) : null,
+    size: row.size,
+    coverUrl: row.cover_url || "",
+    price: parseFloat(row.price),
+    trialEnabled: row.trial_enabled,
+    trialDurationMinutes: row.trial_duration_minutes,
+    nexarPlusDiscount: row.nexar_plus_discount,
+    inNexarPlusCollection: row.in_nexar_plus_collection,
+    featured: row.featured,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function dbBuildToApiBuild(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    gameId: row.game_id,
+    version: row.version,
+    sizeBytes: Number(row.size_bytes),
+    size: formatBytes(Number(row.size_bytes)),
+    sha256: row.sha256,
+    chunkSize: row.chunk_size,
+    chunkCount: Array.isArray(row.chunks) ? row.chunks.length : 0,
+    releaseNotes: row.release_notes || "",
+    isLive: row.is_live,
+    promotedAt: row.promoted_at,
+    createdAt: row.created_at,
+  };
+}
+
+function dbStoreGameToApiStoreGame(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description || "",
+    genre: row.genre,
+    contentRating: row.content_rating || "E",
+    rating: row.rating !== null ? parseFloat(row.rating) : null,
+    size: row.build_size_bytes != null ? formatBytes(Number(row.build_size_bytes)) : row.size,
+    sizeBytes: row.build_size_bytes != null ? Number(row.build_size_bytes) : null,
+    version: row.build_version || null,
+    coverUrl: row.cover_url || "",
+    screenshots: row.screenshots || [],
+    trailers: row.trailers || [],
+    price: parseFloat(row.price) || 0,
+    hasTrial: row.trial_enabled,
+    trialMinutes: row.trial_duration_minutes,
+    nexarPlusDiscount: row.nexar_plus_discount,
+    isNexarPlusGame: row.in_nexar_plus_collection,
+    isDeveloperGame: row.is_developer_game,
+    developerName: row.developer_name,
+    createdAt: row.created_at,
+  };
+}
+
+// Approved developer games in the catalog shape, under the dev- id the store
+// and library use. They have no trials or Nexar+ pricing.
+function dbDevGameToApiCatalogGame(row) {
+  if (!row) return null;
+  return {
+    id: `dev-${row.game_id}`,
+    title: row.title,
+    description: row.description || "",
+    genre: row.genre,
+    contentRating: row.content_rating || "E",
+    rating: null,
+    size: null,
+    coverUrl: row.cover_image || "",
+    price: parseFloat(row.price) || 0,
+    trialEnabled: false,
+    trialDurationMinutes: null,
+    nexarPlusDiscount: null,
+    inNexarPlusCollection: false,
+    featured: false,
+    developerId: row.developer_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Resolves any id the store lists: a games row, or dev- plus an approved
+// developer game
+async function getCatalogGame(gameId) {
+  if (typeof gameId === "string" && gameId.startsWith("dev-")) {
+    const devResult = await query(
+      "SELECT * FROM developer_games WHERE 'dev-' || game_id = $1 AND status = 'approved'",
+      [gameId]
+    );
+    return dbDevGameToApiCatalogGame(devResult.rows[0]);
+  }
+  const result = await query("SELECT * FROM games WHERE id = $1", [gameId]);
+  return dbGameToApiGame(result.rows[0]);
+}
+
 async function registerRoutes(httpServer, app) {
   
-  // Serve uploaded avatars statically
-  app.use("/uploads/avatars", (req, res, next) => {
-    const avatarPath = path.join(process.cwd(), "uploads/avatars", req.path);
-    if (fs.existsSync(avatarPath)) {
-      res.sendFile(avatarPath);
+  // Serve uploaded avatars and store media statically
+  const serveUploads = (dir, notFoundMessage) => (req, res) => {
+    const uploadDir = path.join(process.cwd(), dir);
+    const filePath = path.join(uploadDir, req.path);
+    if (filePath.startsWith(uploadDir + path.sep) && fs.existsSync(filePath)) {
+      res.sendFile(filePath);
     } else {
-      res.status(404).json({ message: "Avatar not found" });
+      res.status(404).json({ message: notFoundMessage });
     }
-  });
+  };
+
+  app.use("/uploads/avatars", serveUploads("uploads/avatars", "Avatar not found"));
+  app.use("/uploads/media", serveUploads("uploads/media", "Media not found"));
 
   // ==================== SYSTEM ROUTES ====================
 
@@ -263,11 +652,7 @@ async function registerRoutes(httpServer, app) {
         [userId, email, username, passwordHash, "", "", false, verificationToken, 0, [], "user"]
       );
 
-      await query(
-        `INSERT INTO achievements (id, user_id, achievement_id, unlocked_at)
-         VALUES ($1, $2, $3, NOW())`,
-        [uuidv4(), userId, "first_login"]
-      );
+      await emitEvent(userId, "account.created");
 
       sendVerificationEmail(email, username, verificationToken).catch(err => {
         console.error("Failed to send verification email:", err);
@@ -309,14 +694,22 @@ async function registerRoutes(httpServer, app) {
         });
       }
 
+      const suspendedUntil = result.rows[0].suspended_until;
+      if (suspendedUntil && new Date(suspendedUntil) > new Date()) {
+        return res.status(403).json({
+          message: `Your account is suspended until ${new Date(suspendedUntil).toUTCString()}`,
+          suspendedUntil,
+          reason: result.rows[0].suspension_reason || "",
+        });
+      }
+
       const token = generateToken({
         userId: user.id,
         email: user.email,
         username: user.username,
       });
 
-      const { passwordHash: _, ...userWithoutPassword } = user;
-      res.json({ user: userWithoutPassword, token });
+      res.json({ user: toSelfUser(result.rows[0]), token });
     } catch (error) {
       console.error("Login error:", error);
       res.status(500).json({ message: "Login failed" });
@@ -436,16 +829,14 @@ async function registerRoutes(httpServer, app) {
       if (result.rows.length === 0) {
         return res.status(404).json({ message: "User not found" });
       }
-      const user = dbUserToApiUser(result.rows[0]);
-      const { passwordHash: _, ...userWithoutPassword } = user;
-      res.json(userWithoutPassword);
+      res.json(toSelfUser(result.rows[0]));
     } catch (error) {
       console.error("Get me error:", error);
       res.status(500).json({ message: "Failed to get user" });
     }
   });
 
-  app.patch("/api/auth/profile", authMiddleware, async (req, res) => {
+  app.patch("/api/auth/profile", authMiddleware, rejectSuspended, async (req, res) => {
     try {
       const { avatarUrl, bio, username } = req.body;
       const updates = [];
@@ -474,9 +865,7 @@ async function registerRoutes(httpServer, app) {
 
       if (updates.length === 0) {
         const result = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-        const user = dbUserToApiUser(result.rows[0]);
-        const { passwordHash: _, ...userWithoutPassword } = user;
-        return res.json({ ...userWithoutPassword, unlockedAchievements: [] });
+        return res.json({ ...toSelfUser(result.rows[0]), unlockedAchievements: [] });
       }
 
       values.push(req.user.userId);
@@ -491,31 +880,18 @@ async function registerRoutes(httpServer, app) {
 
       const updated = dbUserToApiUser(updateResult.rows[0]);
 
-      const unlockedAchievements = [];
-      if (updated.avatarUrl && updated.bio) {
-        const existingAchResult = await query(
-          "SELECT id FROM achievements WHERE user_id = $1 AND achievement_id = $2",
-          [req.user.userId, "profile_complete"]
-        );
-        if (existingAchResult.rows.length === 0) {
-          await query(
-            "INSERT INTO achievements (id, user_id, achievement_id, unlocked_at) VALUES ($1, $2, $3, NOW())",
-            [uuidv4(), req.user.userId, "profile_complete"]
-          );
-          const achievement = ACHIEVEMENTS_LIST.find(a => a.id === "profile_complete");
-          if (achievement) unlockedAchievements.push(achievement);
-        }
-      }
+      const unlockedAchievements = updated.avatarUrl && updated.bio
+        ? await emitEvent(req.user.userId, "profile.completed", { value: 1 })
+        : [];
 
-      const { passwordHash: _, ...userWithoutPassword } = updated;
-      res.json({ ...userWithoutPassword, unlockedAchievements });
+      res.json({ ...toSelfUser(updateResult.rows[0]), unlockedAchievements });
     } catch (error) {
       console.error("Profile update error:", error);
       res.status(500).json({ message: "Profile update failed" });
     }
   });
 
-  app.post("/api/auth/avatar", authMiddleware, uploadAvatar.single("avatar"), async (req, res) => {
+  app.post("/api/auth/avatar", authMiddleware, rejectSuspended, uploadAvatar.single("avatar"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
@@ -534,127 +910,631 @@ async function registerRoutes(httpServer, app) {
 
       const updated = dbUserToApiUser(updateResult.rows[0]);
 
-      const unlockedAchievements = [];
-      if (updated.avatarUrl && updated.bio) {
-        const existingAchResult = await query(
-          "SELECT id FROM achievements WHERE user_id = $1 AND achievement_id = $2",
-          [req.user.userId, "profile_complete"]
-        );
-        if (existingAchResult.rows.length === 0) {
-          await query(
-            "INSERT INTO achievements (id, user_id, achievement_id, unlocked_at) VALUES ($1, $2, $3, NOW())",
-            [uuidv4(), req.user.userId, "profile_complete"]
-          );
-          const achievement = ACHIEVEMENTS_LIST.find(a => a.id === "profile_complete");
-          if (achievement) unlockedAchievements.push(achievement);
-        }
-      }
+      const unlockedAchievements = updated.avatarUrl && updated.bio
+        ? await emitEvent(req.user.userId, "profile.completed", { value: 1 })
+        : [];
 
-      const { passwordHash: _, ...userWithoutPassword } = updated;
-      res.json({ ...userWithoutPassword, unlockedAchievements });
+      res.json({ ...toSelfUser(updateResult.rows[0]), unlockedAchievements });
     } catch (error) {
       console.error("Avatar upload error:", error);
       res.status(500).json({ message: "Avatar upload failed" });
     }
   });
 
-  // ==================== FRIENDS ROUTES ====================
+  // ==================== USER ROUTES ====================
 
-  app.get("/api/friends", authMiddleware, async (req, res) => {
+  const USER_SEARCH_LIMIT = 20;
+  const USER_SEARCH_MIN_LENGTH = 2;
+
+  const escapeLikePattern = (value) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+  function getRelationshipStatus(row, userId) {
+    if (row.is_blocked) return "blocked";
+    if (row.friend_status === "accepted") return "friend";
+    if (row.friend_status === "pending") {
+      return row.friend_sender_id === userId ? "pending_sent" : "pending_received";
+    }
+    return "none";
+  }
+
+  // Prefix and fuzzy username search. Users who blocked the searcher are never
+  // returned; everyone else is filtered by their discoverability setting,
+  // except people the searcher already has a friendship or request with.
+  app.get("/api/users/search", authMiddleware, userSearchRateLimit, async (req, res) => {
     try {
       const userId = req.user.userId;
-      const friendsResult = await query(
-        `SELECT * FROM friends 
-         WHERE status = 'accepted' AND (sender_id = $1 OR receiver_id = $1)`,
-        [userId]
+      const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+
+      if (q.length < USER_SEARCH_MIN_LENGTH) {
+        return res.status(400).json({ message: `Search must be at least ${USER_SEARCH_MIN_LENGTH} characters` });
+      }
+
+      const searchResult = await query(
+        `WITH my_friends AS (
+           SELECT CASE WHEN sender_id = $1 THEN receiver_id ELSE sender_id END AS id
+           FROM friends
+           WHERE status = 'accepted' AND (sender_id = $1 OR receiver_id = $1)
+         ),
+         friends_of_friends AS (
+           SELECT CASE WHEN f.sender_id = mf.id THEN f.receiver_id ELSE f.sender_id END AS id
+           FROM friends f
+           JOIN my_friends mf ON f.sender_id = mf.id OR f.receiver_id = mf.id
+           WHERE f.status = 'accepted'
+         )
+         SELECT u.id, u.username, u.avatar_url, u.bio,
+                fr.status AS friend_status, fr.sender_id AS friend_sender_id,
+                EXISTS (SELECT 1 FROM user_blocks b WHERE b.blocker_id = $1 AND b.blocked_id = u.id) AS is_blocked
+         FROM users u
+         LEFT JOIN friends fr
+           ON fr.status IN ('pending', 'accepted')
+          AND ((fr.sender_id = $1 AND fr.receiver_id = u.id) OR (fr.sender_id = u.id AND fr.receiver_id = $1))
+         WHERE u.id <> $1
+           AND (LOWER(u.username) LIKE $3 OR u.username % $2)
+           AND NOT EXISTS (SELECT 1 FROM user_blocks b WHERE b.blocker_id = u.id AND b.blocked_id = $1)
+           AND (
+             fr.id IS NOT NULL
+             OR u.discoverability = 'everyone'
+             OR (u.discoverability = 'friends_of_friends' AND u.id IN (SELECT id FROM friends_of_friends))
+           )
+         ORDER BY LOWER(u.username) = LOWER($2) DESC,
+                  LOWER(u.username) LIKE $3 DESC,
+                  similarity(u.username, $2) DESC,
+                  u.username ASC
+         LIMIT $4`,
+        [userId, q, `${escapeLikePattern(q.toLowerCase())}%`, USER_SEARCH_LIMIT]
       );
 
-      const friendIds = friendsResult.rows.map((fr) => 
-        fr.sender_id === userId ? fr.receiver_id : fr.sender_id
-      );
+      res.json(searchResult.rows.map(row => ({
+        ...toPublicUser(row),
+        relationship: getRelationshipStatus(row, userId),
+      })));
+    } catch (error) {
+      console.error("Search users error:", error);
+      res.status(500).json({ message: "Failed to search users" });
+    }
+  });
 
-      if (friendIds.length === 0) {
-        return res.json([]);
+  app.get("/api/users/me/privacy", authMiddleware, async (req, res) => {
+    try {
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      const usersResult = await query(
-        "SELECT * FROM users WHERE id = ANY($1)",
-        [friendIds]
-      );
-
-      const friends = usersResult.rows.map(row => {
-        const user = dbUserToApiUser(row);
-        const { passwordHash: _, ...userWithoutPassword } = user;
-        return userWithoutPassword;
+      const user = dbUserToApiUser(userResult.rows[0]);
+      res.json({
+        discoverability: user.discoverability,
+        profileVisibility: getProfileVisibility(userResult.rows[0]),
       });
-
-      res.json(friends);
     } catch (error) {
-      console.error("Get friends error:", error);
-      res.status(500).json({ message: "Failed to get friends" });
+      console.error("Get privacy settings error:", error);
+      res.status(500).json({ message: "Failed to get privacy settings" });
     }
   });
 
-  app.get("/api/friends/requests", authMiddleware, async (req, res) => {
+  // Accepts any subset of the settings; profileVisibility is merged per field
+  app.patch("/api/users/me/privacy", authMiddleware, async (req, res) => {
     try {
-      const userId = req.user.userId;
-      const pendingResult = await query(
-        "SELECT * FROM friends WHERE receiver_id = $1 AND status = 'pending'",
-        [userId]
-      );
-
-      const senderIds = pendingResult.rows.map(fr => fr.sender_id);
-      if (senderIds.length === 0) {
-        return res.json([]);
+      const { discoverability, profileVisibility } = req.body;
+      if (discoverability !== undefined && !DISCOVERABILITY_OPTIONS.includes(discoverability)) {
+        return res.status(400).json({ message: `Discoverability must be one of: ${DISCOVERABILITY_OPTIONS.join(", ")}` });
+      }
+      if (profileVisibility !== undefined) {
+        if (!profileVisibility || typeof profileVisibility !== "object" || Array.isArray(profileVisibility)) {
+          return res.status(400).json({ message: "Profile visibility must be an object" });
+        }
+        for (const [field, visibility] of Object.entries(profileVisibility)) {
+          if (!(field in PROFILE_VISIBILITY_DEFAULTS)) {
+            return res.status(400).json({ message: `Unknown profile field: ${field}` });
+          }
+          if (!PROFILE_VISIBILITY_OPTIONS.includes(visibility)) {
+            return res.status(400).json({ message: `Visibility must be one of: ${PROFILE_VISIBILITY_OPTIONS.join(", ")}` });
+          }
+        }
       }
 
-      const usersResult = await query(
-        "SELECT * FROM users WHERE id = ANY($1)",
-        [senderIds]
+      const updateResult = await query(
+        `UPDATE users
+         SET discoverability = COALESCE($1, discoverability),
+             profile_visibility = profile_visibility || $2::jsonb
+         WHERE id = $3 RETURNING *`,
+        [discoverability ?? null, JSON.stringify(profileVisibility || {}), req.user.userId]
       );
+      if (updateResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
 
-      const usersMap = {};
-      usersResult.rows.forEach(row => {
-        const user = dbUserToApiUser(row);
-        const { passwordHash: _, ...userWithoutPassword } = user;
-        usersMap[user.id] = userWithoutPassword;
+      const user = dbUserToApiUser(updateResult.rows[0]);
+      res.json({
+        discoverability: user.discoverability,
+        profileVisibility: getProfileVisibility(updateResult.rows[0]),
       });
-
-      const requestsWithUsers = pendingResult.rows.map(fr => ({
-        ...dbFriendToApiFriend(fr),
-        sender: usersMap[fr.sender_id],
-      })).filter(r => r.sender);
-
-      res.json(requestsWithUsers);
     } catch (error) {
-      console.error("Get friend requests error:", error);
-      res.status(500).json({ message: "Failed to get friend requests" });
+      console.error("Update privacy settings error:", error);
+      res.status(500).json({ message: "Failed to update privacy settings" });
     }
   });
 
-  app.get("/api/friends/sent", authMiddleware, async (req, res) => {
-    try {
-      const userId = req.user.userId;
-      const sentResult = await query(
-        "SELECT * FROM friends WHERE sender_id = $1 AND status = 'pending'",
-        [userId]
-      );
+  const PROFILE_SHOWCASE_SIZE = 6;
+  const PROFILE_RECENT_GAMES = 5;
 
-      const receiverIds = sentResult.rows.map(fr => fr.receiver_id);
-      if (receiverIds.length === 0) {
-        return res.json([]);
+  // Another user's profile. Fields the viewer isn't allowed to see come back
+  // as null so the client can tell "hidden" apart from "empty".
+  app.get("/api/users/:userId/profile", authMiddleware, async (req, res) => {
+    try {
+      const viewerId = req.user.userId;
+      const { userId } = req.params;
+      if (!isUuid(userId)) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      const usersResult = await query(
+      const profileResult = await query(
+        `SELECT u.*,
+                fr.status AS friend_status, fr.sender_id AS friend_sender_id,
+                EXISTS (SELECT 1 FROM user_blocks b WHERE b.blocker_id = $2 AND b.blocked_id = u.id) AS is_blocked
+         FROM users u
+         LEFT JOIN friends fr
+           ON fr.status IN ('pending', 'accepted')
+          AND ((fr.sender_id = $2 AND fr.receiver_id = u.id) OR (fr.sender_id = u.id AND fr.receiver_id = $2))
+         WHERE u.id = $1
+           AND NOT EXISTS (SELECT 1 FROM user_blocks b WHERE b.blocker_id = u.id AND b.blocked_id = $2)`,
+        [userId, viewerId]
+      );
+      if (profileResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const row = profileResult.rows[0];
+      const isSelf = row.id === viewerId;
+      const isFriend = row.friend_status === "accepted";
+      const visibility = getProfileVisibility(row);
+      const canSee = (field) =>
+        isSelf || visibility[field] === "public" || (visibility[field] === "friends" && isFriend);
+
+      let achievements = null;
+      if (canSee("achievements")) {
+        const [definitions, achievementsResult] = await Promise.all([
+          getAchievementDefinitions(),
+          query(
+            `SELECT d.*, a.unlocked_at
+             FROM achievements a
+             JOIN achievement_definitions d ON d.id = a.achievement_id
+             WHERE a.user_id = $1
+             ORDER BY a.unlocked_at DESC`,
+            [userId]
+          ),
+        ]);
+        const unlocked = achievementsResult.rows.map(a => ({
+          ...dbDefinitionToApiAchievement(a),
+          unlockedAt: a.unlocked_at,
+        }));
+        achievements = {
+          unlocked: unlocked.length,
+          total: definitions.length,
+          showcase: unlocked.slice(0, PROFILE_SHOWCASE_SIZE),
+        };
+      }
+
+      let recentlyPlayed = null;
+      if (canSee("recentlyPlayed")) {
+        const playedResult = await query(
+          `SELECT p.game_id, p.seconds_played, p.last_played_at,
+                  COALESCE(g.title, d.title) AS title, COALESCE(g.cover_url, d.cover_image) AS cover_url
+           FROM game_playtime p
+           LEFT JOIN games g ON g.id = p.game_id
+           LEFT JOIN developer_games d ON 'dev-' || d.game_id = p.game_id
+           WHERE p.user_id = $1 AND p.last_played_at IS NOT NULL
+             AND COALESCE(g.title, d.title) IS NOT NULL
+           ORDER BY p.last_played_at DESC
+           LIMIT $2`,
+          [userId, PROFILE_RECENT_GAMES]
+        );
+        recentlyPlayed = playedResult.rows.map(game => ({
+          gameId: game.game_id,
+          title: game.title,
+          coverUrl: game.cover_url || "",
+          minutesPlayed: Math.floor(Number(game.seconds_played) / 60),
+          lastPlayedAt: game.last_played_at,
+        }));
+      }
+
+      let friendCount = null;
+      if (canSee("friendCount")) {
+        const countResult = await query(
+          "SELECT COUNT(*) FROM friends WHERE status = 'accepted' AND (sender_id = $1 OR receiver_id = $1)",
+          [userId]
+        );
+        friendCount = parseInt(countResult.rows[0].count);
+      }
+
+      const user = toPublicUser(row);
+      const progression = toProgression(row);
+      res.json({
+        id: user.id,
+        username: user.username,
+        avatarUrl: user.avatarUrl,
+        level: progression.level,
+        achievementPoints: canSee("achievements") ? progression.achievementPoints : null,
+        bio: canSee("bio") ? user.bio : null,
+        joinedAt: canSee("joinDate") ? row.created_at : null,
+        isNexarPlus: canSee("nexarPlus") ? !!row.developer_profile?.subscription?.active : null,
+        friendCount,
+        achievements,
+        recentlyPlayed,
+        relationship: isSelf ? "self" : getRelationshipStatus(row, viewerId),
+      });
+    } catch (error) {
+      console.error("Get profile error:", error);
+      res.status(500).json({ message: "Failed to get profile" });
+    }
+  });
+
+  // ==================== BLOCK, MUTE & REPORT ROUTES ====================
+
+  // Suspended accounts can still read but not post or send requests. Login
+  // already refuses them; this covers tokens issued before the suspension.
+  async function rejectSuspended(req, res, next) {
+    try {
+      const userResult = await query(
+        "SELECT suspended_until, suspension_reason FROM users WHERE id = $1",
+        [req.user.userId]
+      );
+      const suspendedUntil = userResult.rows[0]?.suspended_until;
+      if (suspendedUntil && new Date(suspendedUntil) > new Date()) {
+        return res.status(403).json({
+          message: `Your account is suspended until ${new Date(suspendedUntil).toUTCString()}`,
+          suspendedUntil,
+          reason: userResult.rows[0].suspension_reason || "",
+        });
+      }
+      next();
+    } catch (error) {
+      console.error("Suspension check error:", error);
+      res.status(500).json({ message: "Failed to check account status" });
+    }
+  }
+
+  async function isBlockedBetween(userId, otherUserId) {
+    const blockResult = await query(
+      `SELECT 1 FROM user_blocks
+       WHERE (blocker_id = $1 AND blocked_id = $2) OR (blocker_id = $2 AND blocked_id = $1)`,
+      [userId, otherUserId]
+    );
+    return blockResult.rows.length > 0;
+  }
+
+  async function isMutedBy(muterId, mutedId) {
+    const muteResult = await query(
+      "SELECT 1 FROM user_mutes WHERE muter_id = $1 AND muted_id = $2",
+      [muterId, mutedId]
+    );
+    return muteResult.rows.length > 0;
+  }
+
+  // Shared validation for the block and mute endpoints
+  async function getListTargetUser(req, res) {
+    const { userId: targetId } = req.body;
+    if (!targetId || !isUuid(targetId)) {
+      res.status(400).json({ message: "User ID is required" });
+      return null;
+    }
+    if (targetId === req.user.userId) {
+      res.status(400).json({ message: "You can't do that to yourself" });
+      return null;
+    }
+    const targetResult = await query("SELECT id, username, avatar_url FROM users WHERE id = $1", [targetId]);
+    if (targetResult.rows.length === 0) {
+      res.status(404).json({ message: "User not found" });
+      return null;
+    }
+    return targetResult.rows[0];
+  }
+
+  app.get("/api/blocks", authMiddleware, async (req, res) => {
+    try {
+      const blocksResult = await query(
+        `SELECT u.id, u.username, u.avatar_url, b.created_at
+         FROM user_blocks b
+         JOIN users u ON u.id = b.blocked_id
+         WHERE b.blocker_id = $1
+         ORDER BY b.created_at DESC`,
+        [req.user.userId]
+      );
+
+      res.json(blocksResult.rows.map(row => ({
+        id: row.id,
+        username: row.username,
+        avatarUrl: row.avatar_url || "",
+        since: row.created_at,
+      })));
+    } catch (error) {
+      console.error("Get blocks error:", error);
+      res.status(500).json({ message: "Failed to get blocked users" });
+    }
+  });
+
+  // Blocking ends any friendship or pending request between the two users so
+  // the blocked user loses messaging and group-invite access immediately
+  app.post("/api/blocks", authMiddleware, async (req, res) => {
+    try {
+      const userId = req.user.userId;
+      const target = await getListTargetUser(req, res);
+      if (!target) return;
+
+      await query(
+        "INSERT INTO user_blocks (blocker_id, blocked_id) VALUES ($1, $2) ON CONFLICT DO NOTHING",
+        [userId, target.id]
+      );
+      await query(
+        `DELETE FROM friends
+         WHERE (sender_id = $1 AND receiver_id = $2) OR (sender_id = $2 AND receiver_id = $1)`,
+        [userId, target.id]
+      );
+      await syncFriendCounts([userId, target.id]);
+
+      res.status(201).json({ id: target.id, username: target.username, avatarUrl: target.avatar_url || "" });
+    } catch (error) {
+      console.error("Block user error:", error);
+      res.status(500).json({ message: "Failed to block user" });
+    }
+  });
+
+  app.delete("/api/blocks/:userId", authMiddleware, async (req, res) => {
+    try {
+      const deleteResult = await query(
+        "DELETE FROM user_blocks WHERE blocker_id = $1 AND blocked_id = $2 RETURNING blocked_id",
+        [req.user.userId, req.params.userId]
+      );
+      if (deleteResult.rows.length === 0) {
+        return res.status(404).json({ message: "User is not blocked" });
+      }
+
+      res.json({ message: "User unblocked" });
+    } catch (error) {
+      console.error("Unblock user error:", error);
+      res.status(500).json({ message: "Failed to unblock user" });
+    }
+  });
+
+  app.get("/api/mutes", authMiddleware, async (req, res) => {
+    try {
+      const mutesResult = await query(
+        `SELECT u.id, u.username, u.avatar_url, m.created_at
+         FROM user_mutes m
+         JOIN users u ON u.id = m.muted_id
+         WHERE m.muter_id = $1
+         ORDER BY m.created_at DESC`,
+        [req.user.userId]
+      );
+
+      res.json(mutesResult.rows.map(row => ({
+        id: row.id,
+        username: row.username,
+        avatarUrl: row.avatar_url || "",
+        since: row.created_at,
+      })));
+    } catch (error) {
+      console.error("Get mutes error:", error);
+      res.status(500).json({ message: "Failed to get muted users" });
+    }
+  });
+
+  app.post("/api/mutes", authMiddleware, async (req, res) => {
+    try {
+      const target = await getListTargetUser(req, res);
+      if (!target) return;
+
+      await query(
+        "INSERT INTO user_mutes (muter_id, muted_id) VALUES ($1, $2) ON CONFLICT DO NOTHING",
+        [req.user.userId, target.id]
+      );
+
+      res.status(201).json({ id: target.id, username: target.username, avatarUrl: target.avatar_url || "" });
+    } catch (error) {
+      console.error("Mute user error:", error);
+      res.status(500).json({ message: "Failed to mute user" });
+    }
+  });
+
+  app.delete("/api/mutes/:userId", authMiddleware, async (req, res) => {
+    try {
+      const deleteResult = await query(
+        "DELETE FROM user_mutes WHERE muter_id = $1 AND muted_id = $2 RETURNING muted_id",
+        [req.user.userId, req.params.userId]
+      );
+      if (deleteResult.rows.length === 0) {
+        return res.status(404).json({ message: "User is not muted" });
+      }
+
+      res.json({ message: "User unmuted" });
+    } catch (error) {
+      console.error("Unmute user error:", error);
+      res.status(500).json({ message: "Failed to unmute user" });
+    }
+  });
+
+  // Works out who is being reported and snapshots the content as the reporter
+  // saw it. Reporters can only report messages they received or can see in a
+  // group they belong to.
+  async function resolveReportTarget(reporterId, { targetType, messageId, userId }) {
+    if (targetType === "message") {
+      const messageResult = await query(
+        "SELECT * FROM messages WHERE id = $1 AND to_id = $2",
+        [messageId, reporterId]
+      );
+      if (messageResult.rows.length === 0) return null;
+      const message = messageResult.rows[0];
+      return {
+        targetUserId: message.from_id,
+        messageId: message.id,
+        snapshot: { text: message.content, timestamp: message.timestamp },
+      };
+    }
+
+    if (targetType === "group_message") {
+      const messageResult = await query(
+        `SELECT m.* FROM group_messages m
+         JOIN group_members gm ON gm.group_id = m.group_id AND gm.user_id = $2
+         WHERE m.id = $1 AND m.kind = 'text' AND m.from_id IS NOT NULL AND m.from_id <> $2`,
+        [messageId, reporterId]
+      );
+      if (messageResult.rows.length === 0) return null;
+      const message = messageResult.rows[0];
+      return {
+        targetUserId: message.from_id,
+        messageId: message.id,
+        snapshot: { groupId: message.group_id, text: message.content, timestamp: message.timestamp },
+      };
+    }
+
+    const userResult = await query("SELECT id, username, avatar_url, bio FROM users WHERE id = $1", [userId]);
+    if (userResult.rows.length === 0 || userId === reporterId) return null;
+    const user = userResult.rows[0];
+    return {
+      targetUserId: user.id,
+      messageId: null,
+      snapshot: targetType === "avatar"
+        ? { avatarUrl: user.avatar_url || "" }
+        : { username: user.username, bio: user.bio || "", avatarUrl: user.avatar_url || "" },
+    };
+  }
+
+  app.post("/api/reports", authMiddleware, reportRateLimit, async (req, res) => {
+    try {
+      const userId = req.user.userId;
+      const { targetType, messageId, userId: targetUserId, reason, details } = req.body;
+
+      if (!REPORT_TARGET_TYPES.includes(targetType)) {
+        return res.status(400).json({ message: `Target type must be one of: ${REPORT_TARGET_TYPES.join(", ")}` });
+      }
+      if (!REPORT_REASONS.includes(reason)) {
+        return res.status(400).json({ message: `Reason must be one of: ${REPORT_REASONS.join(", ")}` });
+      }
+      const isMessageReport = targetType === "message" || targetType === "group_message";
+      if (isMessageReport ? !isUuid(messageId || "") : !isUuid(targetUserId || "")) {
+        return res.status(400).json({ message: isMessageReport ? "Message ID is required" : "User ID is required" });
+      }
+      if (details !== undefined && (typeof details !== "string" || details.length > 1000)) {
+        return res.status(400).json({ message: "Details must be at most 1000 characters" });
+      }
+
+      const target = await resolveReportTarget(userId, { targetType, messageId, userId: targetUserId });
+      if (!target) {
+        return res.status(404).json({ message: isMessageReport ? "Message not found" : "User not found" });
+      }
+
+      const duplicateResult = await query(
+        `SELECT id FROM user_reports
+         WHERE reporter_id = $1 AND target_user_id = $2 AND target_type = $3
+           AND message_id IS NOT DISTINCT FROM $4 AND status = 'open'`,
+        [userId, target.targetUserId, targetType, target.messageId]
+      );
+      if (duplicateResult.rows.length > 0) {
+        return res.status(409).json({ message: "You have already reported this" });
+      }
+
+      const reportResult = await query(
+        `INSERT INTO user_reports (id, reporter_id, target_user_id, target_type, message_id, reason, details, snapshot, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
+         RETURNING *`,
+        [uuidv4(), userId, target.targetUserId, targetType, target.messageId, reason, details?.trim() || null, target.snapshot]
+      );
+
+      const { snapshot: _, ...report } = dbReportToApiReport(reportResult.rows[0]);
+      res.status(201).json(report);
+    } catch (error) {
+      console.error("Create report error:", error);
+      res.status(500).json({ message: "Failed to submit report" });
+    }
+  });
+
+  // ==================== FRIENDS ROUTES ====================
+
+  app.get("/api/friends", authMiddleware, async (req, res) => {
+    try {
+      const userId = req.user.userId;
+      const friendsResult = await query(
+        `SELECT * FROM friends 
+         WHERE status = 'accepted' AND (sender_id = $1 OR receiver_id = $1)`,
+        [userId]
+      );
+
+      const friendIds = friendsResult.rows.map((fr) => 
+        fr.sender_id === userId ? fr.receiver_id : fr.sender_id
+      );
+
+      if (friendIds.length === 0) {
+        return res.json([]);
+      }
+
+      const usersResult = await query(
+        "SELECT * FROM users WHERE id = ANY($1)",
+        [friendIds]
+      );
+
+      res.json(usersResult.rows.map(toFriendUser));
+    } catch (error) {
+      console.error("Get friends error:", error);
+      res.status(500).json({ message: "Failed to get friends" });
+    }
+  });
+
+  app.get("/api/friends/requests", authMiddleware, async (req, res) => {
+    try {
+      const userId = req.user.userId;
+      const pendingResult = await query(
+        "SELECT * FROM friends WHERE receiver_id = $1 AND status = 'pending'",
+        [userId]
+      );
+
+      const senderIds = pendingResult.rows.map(fr => fr.sender_id);
+      if (senderIds.length === 0) {
+        return res.json([]);
+      }
+
+      const usersResult = await query(
+        "SELECT * FROM users WHERE id = ANY($1)",
+        [senderIds]
+      );
+
+      const usersMap = {};
+      usersResult.rows.forEach(row => {
+        usersMap[row.id] = toFriendUser(row);
+      });
+
+      const requestsWithUsers = pendingResult.rows.map(fr => ({
+        ...dbFriendToApiFriend(fr),
+        sender: usersMap[fr.sender_id],
+      })).filter(r => r.sender);
+
+      res.json(requestsWithUsers);
+    } catch (error) {
+      console.error("Get friend requests error:", error);
+      res.status(500).json({ message: "Failed to get friend requests" });
+    }
+  });
+
+  app.get("/api/friends/sent", authMiddleware, async (req, res) => {
+    try {
+      const userId = req.user.userId;
+      const sentResult = await query(
+        "SELECT * FROM friends WHERE sender_id = $1 AND status = 'pending'",
+        [userId]
+      );
+
+      const receiverIds = sentResult.rows.map(fr => fr.receiver_id);
+      if (receiverIds.length === 0) {
+        return res.json([]);
+      }
+
+      const usersResult = await query(
         "SELECT * FROM users WHERE id = ANY($1)",
         [receiverIds]
       );
 
       const usersMap = {};
       usersResult.rows.forEach(row => {
-        const user = dbUserToApiUser(row);
-        const { passwordHash: _, ...userWithoutPassword } = user;
-        usersMap[user.id] = userWithoutPassword;
+        usersMap[row.id] = toFriendUser(row);
       });
 
       const requestsWithUsers = sentResult.rows.map(fr => ({
@@ -669,7 +1549,7 @@ async function registerRoutes(httpServer, app) {
     }
   });
 
-  app.post("/api/friends/request", authMiddleware, async (req, res) => {
+  app.post("/api/friends/request", authMiddleware, friendRequestRateLimit, rejectSuspended, async (req, res) => {
     try {
       const { username } = req.body;
       const userId = req.user.userId;
@@ -689,6 +1569,11 @@ async function registerRoutes(httpServer, app) {
         return res.status(400).json({ message: "Cannot send friend request to yourself" });
       }
 
+      // Same response as an unknown username so a blocked user can't tell
+      if (await isBlockedBetween(userId, targetUser.id)) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
       const existingResult = await query(
         `SELECT * FROM friends 
          WHERE (sender_id = $1 AND receiver_id = $2) OR (sender_id = $2 AND receiver_id = $1)`,
@@ -703,11 +1588,19 @@ async function registerRoutes(httpServer, app) {
         return res.status(400).json({ message: "Friend request already exists" });
       }
 
+      const requestId = uuidv4();
       await query(
         "INSERT INTO friends (id, sender_id, receiver_id, status, created_at) VALUES ($1, $2, $3, $4, NOW())",
-        [uuidv4(), userId, targetUser.id, "pending"]
+        [requestId, userId, targetUser.id, "pending"]
       );
 
+      const senderResult = await query("SELECT id, username, avatar_url FROM users WHERE id = $1", [userId]);
+      const sender = senderResult.rows[0];
+      publish(targetUser.id, "friend:request", {
+        requestId,
+        from: { id: sender.id, username: sender.username, avatarUrl: sender.avatar_url },
+      });
+
       res.status(201).json({ message: "Friend request sent" });
     } catch (error) {
       console.error("Send friend request error:", error);
@@ -715,6 +1608,23 @@ async function registerRoutes(httpServer, app) {
     }
   });
 
+  // friends.count is state rather than a running total, so both sides are
+  // recounted whenever a friendship starts or ends. Returns each user's new
+  // unlocks keyed by user id.
+  async function syncFriendCounts(userIds) {
+    const friendCountsResult = await query(
+      `SELECT u.id, (SELECT COUNT(*) FROM friends f
+                     WHERE f.status = 'accepted' AND (f.sender_id = u.id OR f.receiver_id = u.id)) AS count
+       FROM users u WHERE u.id = ANY($1)`,
+      [userIds]
+    );
+    const unlockedByUser = {};
+    for (const row of friendCountsResult.rows) {
+      unlockedByUser[row.id] = await emitEvent(row.id, "friends.count", { value: parseInt(row.count) });
+    }
+    return unlockedByUser;
+  }
+
   app.post("/api/friends/accept/:requestId", authMiddleware, async (req, res) => {
     try {
       const { requestId } = req.params;
@@ -737,43 +1647,16 @@ async function registerRoutes(httpServer, app) {
 
       await query("UPDATE friends SET status = 'accepted' WHERE id = $1", [requestId]);
 
-      const friendshipsResult = await query(
-        `SELECT * FROM friends 
-         WHERE status = 'accepted' AND (sender_id = $1 OR receiver_id = $1)`,
-        [userId]
-      );
-
-      const unlockedAchievements = [];
-      
-      if (friendshipsResult.rows.length === 1) {
-        const existingAchResult = await query(
-          "SELECT id FROM achievements WHERE user_id = $1 AND achievement_id = $2",
-          [userId, "first_friend"]
-        );
-        if (existingAchResult.rows.length === 0) {
-          await query(
-            "INSERT INTO achievements (id, user_id, achievement_id, unlocked_at) VALUES ($1, $2, $3, NOW())",
-            [uuidv4(), userId, "first_friend"]
-          );
-          const achievement = ACHIEVEMENTS_LIST.find(a => a.id === "first_friend");
-          if (achievement) unlockedAchievements.push(achievement);
-        }
-      }
+      // Both sides gained a friend; the sender hears about their unlocks over the socket
+      const unlockedByUser = await syncFriendCounts([userId, request.senderId]);
+      const unlockedAchievements = unlockedByUser[userId] || [];
 
-      if (friendshipsResult.rows.length >= 5) {
-        const existingAchResult = await query(
-          "SELECT id FROM achievements WHERE user_id = $1 AND achievement_id = $2",
-          [userId, "social_butterfly"]
-        );
-        if (existingAchResult.rows.length === 0) {
-          await query(
-            "INSERT INTO achievements (id, user_id, achievement_id, unlocked_at) VALUES ($1, $2, $3, NOW())",
-            [uuidv4(), userId, "social_butterfly"]
-          );
-          const achievement = ACHIEVEMENTS_LIST.find(a => a.id === "social_butterfly");
-          if (achievement) unlockedAchievements.push(achievement);
-        }
-      }
+      const accepterResult = await query("SELECT id, username, avatar_url FROM users WHERE id = $1", [userId]);
+      const accepter = accepterResult.rows[0];
+      publish(request.senderId, "friend:accepted", {
+        requestId,
+        friend: { id: accepter.id, username: accepter.username, avatarUrl: accepter.avatar_url },
+      });
 
       res.json({ message: "Friend request accepted", unlockedAchievements });
     } catch (error) {
@@ -821,6 +1704,8 @@ async function registerRoutes(httpServer, app) {
         return res.status(404).json({ message: "Friendship not found" });
       }
 
+      await syncFriendCounts([userId, friendId]);
+
       res.json({ message: "Friend removed" });
     } catch (error) {
       console.error("Delete friend error:", error);
@@ -830,33 +1715,302 @@ async function registerRoutes(httpServer, app) {
 
   // ==================== MESSAGES ROUTES ====================
 
-  app.get("/api/messages/:friendId", authMiddleware, async (req, res) => {
+  const MESSAGE_PAGE_SIZE = 50;
+  const MESSAGE_SEARCH_PAGE_SIZE = 20;
+
+  // Marks everything waiting for the user as delivered and tells each sender
+  async function markMessagesDelivered(userId) {
+    const deliveredResult = await query(
+      `UPDATE messages SET delivered_at = NOW()
+       WHERE to_id = $1 AND delivered_at IS NULL
+       RETURNING id, from_id, delivered_at`,
+      [userId]
+    );
+
+    const bySender = new Map();
+    for (const row of deliveredResult.rows) {
+      if (!bySender.has(row.from_id)) {
+        bySender.set(row.from_id, { messageIds: [], deliveredAt: row.delivered_at });
+      }
+      bySender.get(row.from_id).messageIds.push(row.id);
+    }
+    bySender.forEach((receipt, senderId) => {
+      publish(senderId, "message:delivered", { partnerId: userId, ...receipt });
+    });
+  }
+
+  app.get("/api/messages/conversations", authMiddleware, async (req, res) => {
     try {
-      const { friendId } = req.params;
       const userId = req.user.userId;
+      await markMessagesDelivered(userId);
+
+      // Every friend plus anyone with message history (e.g. an unfriended
+      // partner), newest activity first
+      const conversationsResult = await query(
+        `WITH partners AS (
+           SELECT CASE WHEN sender_id = $1 THEN receiver_id ELSE sender_id END AS partner_id,
+                  created_at AS since
+           FROM friends
+           WHERE status = 'accepted' AND (sender_id = $1 OR receiver_id = $1)
+           UNION ALL
+           SELECT CASE WHEN from_id = $1 THEN to_id ELSE from_id END AS partner_id,
+                  MIN(timestamp) AS since
+           FROM messages
+           WHERE from_id = $1 OR to_id = $1
+           GROUP BY 1
+         )
+         SELECT u.id, u.username, u.avatar_url, p.since,
+                lm.id AS last_id, lm.from_id AS last_from_id, lm.to_id AS last_to_id,
+                lm.content AS last_content, lm.timestamp AS last_timestamp,
+                lm.delivered_at AS last_delivered_at, lm.read_at AS last_read_at,
+                (SELECT COUNT(*) FROM messages um
+                 WHERE um.from_id = u.id AND um.to_id = $1 AND um.read_at IS NULL) AS unread_count,
+                EXISTS (SELECT 1 FROM user_mutes mu WHERE mu.muter_id = $1 AND mu.muted_id = u.id) AS muted
+         FROM (SELECT partner_id, MIN(since) AS since FROM partners GROUP BY partner_id) p
+         JOIN users u ON u.id = p.partner_id
+         LEFT JOIN LATERAL (
+           SELECT * FROM messages m
+           WHERE (m.from_id = $1 AND m.to_id = p.partner_id) OR (m.from_id = p.partner_id AND m.to_id = $1)
+           ORDER BY m.timestamp DESC
+           LIMIT 1
+         ) lm ON true
+         ORDER BY COALESCE(lm.timestamp, p.since) DESC`,
+        [userId]
+      );
 
-      const messagesResult = await query(
-        `SELECT * FROM messages 
-         WHERE (from_id = $1 AND to_id = $2) OR (from_id = $2 AND to_id = $1)
-         ORDER BY timestamp ASC`,
-        [userId, friendId]
+      const conversations = conversationsResult.rows.map(row => ({
+        partner: { id: row.id, username: row.username, avatarUrl: row.avatar_url },
+        lastMessage: row.last_id
+          ? dbMessageToApiMessage({
+              id: row.last_id,
+              from_id: row.last_from_id,
+              to_id: row.last_to_id,
+              content: row.last_content,
+              timestamp: row.last_timestamp,
+              delivered_at: row.last_delivered_at,
+              read_at: row.last_read_at,
+            })
+          : null,
+        unreadCount: parseInt(row.unread_count),
+        muted: row.muted,
+        lastActivityAt: row.last_timestamp || row.since,
+      }));
+
+      res.json(conversations);
+    } catch (error) {
+      console.error("Get conversations error:", error);
+      res.status(500).json({ message: "Failed to get conversations" });
+    }
+  });
+
+  app.get("/api/messages/unread-count", authMiddleware, async (req, res) => {
+    try {
+      const userId = req.user.userId;
+      await markMessagesDelivered(userId);
+
+      const unreadResult = await query(
+        `SELECT (SELECT COUNT(*) FROM messages dm
+                 WHERE dm.to_id = $1 AND dm.read_at IS NULL
+                   AND NOT EXISTS (SELECT 1 FROM user_mutes mu WHERE mu.muter_id = $1 AND mu.muted_id = dm.from_id))
+              + (SELECT COUNT(*) FROM group_messages m
+                 JOIN group_members gm ON gm.group_id = m.group_id AND gm.user_id = $1
+                 WHERE m.kind = 'text' AND m.from_id IS DISTINCT FROM $1 AND m.timestamp > gm.last_read_at
+                   AND NOT EXISTS (SELECT 1 FROM user_mutes mu WHERE mu.muter_id = $1 AND mu.muted_id = m.from_id)
+                   AND NOT EXISTS (SELECT 1 FROM user_blocks ub WHERE ub.blocker_id = $1 AND ub.blocked_id = m.from_id)) AS count`,
+        [userId]
       );
 
-      const messages = messagesResult.rows.map(dbMessageToApiMessage);
-      res.json(messages);
+      res.json({ total: parseInt(unreadResult.rows[0].count) });
     } catch (error) {
-      console.error("Get messages error:", error);
-      res.status(500).json({ message: "Failed to get messages" });
+      console.error("Get unread count error:", error);
+      res.status(500).json({ message: "Failed to get unread count" });
     }
   });
 
-  app.post("/api/messages/:friendId", authMiddleware, async (req, res) => {
+  // Marks messages from a partner as read, up to and including upToMessageId
+  // when given so a client only acknowledges what it has actually shown
+  app.post("/api/messages/:friendId/read", authMiddleware, async (req, res) => {
     try {
       const { friendId } = req.params;
-      const { text } = req.body;
+      const { upToMessageId } = req.body || {};
       const userId = req.user.userId;
 
-      if (!text || !text.trim()) {
+      const params = [userId, friendId];
+      let upToClause = "";
+      if (upToMessageId) {
+        const upToResult = await query(
+          "SELECT timestamp FROM messages WHERE id = $1 AND from_id = $2 AND to_id = $3",
+          [upToMessageId, friendId, userId]
+        );
+        if (upToResult.rows.length === 0) {
+          return res.status(404).json({ message: "Message not found" });
+        }
+        params.push(upToResult.rows[0].timestamp);
+        upToClause = "AND timestamp <= $3";
+      }
+
+      const readResult = await query(
+        `UPDATE messages SET read_at = NOW(), delivered_at = COALESCE(delivered_at, NOW())
+         WHERE to_id = $1 AND from_id = $2 AND read_at IS NULL ${upToClause}
+         RETURNING id, read_at`,
+        params
+      );
+
+      const messageIds = readResult.rows.map(row => row.id);
+      if (messageIds.length > 0) {
+        const receipt = { readerId: userId, senderId: friendId, messageIds, readAt: readResult.rows[0].read_at };
+        publish(friendId, "message:read", receipt);
+        // Keeps the reader's other tabs and unread badge in sync
+        publish(userId, "message:read", receipt);
+      }
+
+      res.json({ messageIds });
+    } catch (error) {
+      console.error("Mark messages read error:", error);
+      res.status(500).json({ message: "Failed to mark messages as read" });
+    }
+  });
+
+  // Highlight delimiters for search snippets; private-use code points can't
+  // collide with message text and keep the client from rendering raw HTML
+  const SEARCH_MATCH_START = "\uE000";
+  const SEARCH_MATCH_END = "\uE001";
+
+  app.get("/api/messages/search", authMiddleware, async (req, res) => {
+    try {
+      const userId = req.user.userId;
+      const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!q) {
+        return res.status(400).json({ message: "Search query is required" });
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || MESSAGE_SEARCH_PAGE_SIZE, 1), 50);
+      const values = [userId, q];
+      let cursorClause = "";
+      if (req.query.cursor) {
+        if (!isUuid(req.query.cursor)) {
+          return res.status(400).json({ message: "Invalid cursor" });
+        }
+        values.push(req.query.cursor);
+        cursorClause = `AND (m.timestamp, m.id) < (
+          SELECT timestamp, id FROM messages WHERE id = $${values.length} AND (from_id = $1 OR to_id = $1)
+        )`;
+      }
+      values.push(limit + 1);
+
+      const searchResult = await query(
+        `SELECT m.*, u.id AS partner_id, u.username AS partner_username, u.avatar_url AS partner_avatar_url,
+                ts_headline('english', m.content, websearch_to_tsquery('english', $2),
+                  'StartSel=${SEARCH_MATCH_START}, StopSel=${SEARCH_MATCH_END}, MaxWords=20, MinWords=8') AS headline
+         FROM messages m
+         JOIN users u ON u.id = CASE WHEN m.from_id = $1 THEN m.to_id ELSE m.from_id END
+         WHERE (m.from_id = $1 OR m.to_id = $1)
+           AND m.search_vector @@ websearch_to_tsquery('english', $2)
+           ${cursorClause}
+         ORDER BY m.timestamp DESC, m.id DESC
+         LIMIT $${values.length}`,
+        values
+      );
+
+      const pageRows = searchResult.rows.slice(0, limit);
+      res.json({
+        results: pageRows.map(row => ({
+          message: dbMessageToApiMessage(row),
+          partner: { id: row.partner_id, username: row.partner_username, avatarUrl: row.partner_avatar_url },
+          headline: row.headline,
+        })),
+        matchStart: SEARCH_MATCH_START,
+        matchEnd: SEARCH_MATCH_END,
+        nextCursor: searchResult.rows.length > limit ? pageRows[pageRows.length - 1].id : null,
+      });
+    } catch (error) {
+      console.error("Search messages error:", error);
+      res.status(500).json({ message: "Failed to search messages" });
+    }
+  });
+
+  // Pages through a conversation newest-first. Cursors are message ids:
+  //   ?before=<id>  older messages    ?after=<id>  newer messages
+  //   ?around=<id>  a page centred on a message, for jumping to search results
+  // Messages always come back in ascending order.
+  app.get("/api/messages/:friendId", authMiddleware, async (req, res) => {
+    try {
+      const { friendId } = req.params;
+      const { before, after, around } = req.query;
+      const userId = req.user.userId;
+      const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || MESSAGE_PAGE_SIZE, 1), 100);
+
+      const conversationClause = "((from_id = $1 AND to_id = $2) OR (from_id = $2 AND to_id = $1))";
+
+      const anchorId = before || after || around;
+      if (anchorId) {
+        if (!isUuid(anchorId)) {
+          return res.status(400).json({ message: "Invalid cursor" });
+        }
+        const anchorResult = await query(
+          `SELECT id FROM messages WHERE id = $3 AND ${conversationClause}`,
+          [userId, friendId, anchorId]
+        );
+        if (anchorResult.rows.length === 0) {
+          return res.status(400).json({ message: "Invalid cursor" });
+        }
+      }
+      const anchorTuple = "(SELECT timestamp, id FROM messages WHERE id = $3)";
+
+      const fetchOlder = async (comparison, pageSize) => {
+        const params = anchorId ? [userId, friendId, anchorId, pageSize + 1] : [userId, friendId, pageSize + 1];
+        const result = await query(
+          `SELECT * FROM messages
+           WHERE ${conversationClause} ${anchorId ? `AND (timestamp, id) ${comparison} ${anchorTuple}` : ""}
+           ORDER BY timestamp DESC, id DESC
+           LIMIT $${params.length}`,
+          params
+        );
+        return { rows: result.rows.slice(0, pageSize).reverse(), hasMore: result.rows.length > pageSize };
+      };
+
+      const fetchNewer = async (comparison, pageSize) => {
+        const result = await query(
+          `SELECT * FROM messages
+           WHERE ${conversationClause} AND (timestamp, id) ${comparison} ${anchorTuple}
+           ORDER BY timestamp ASC, id ASC
+           LIMIT $4`,
+          [userId, friendId, anchorId, pageSize + 1]
+        );
+        return { rows: result.rows.slice(0, pageSize), hasMore: result.rows.length > pageSize };
+      };
+
+      let older = { rows: [], hasMore: false };
+      let newer = { rows: [], hasMore: false };
+      if (around) {
+        older = await fetchOlder("<=", Math.ceil(limit / 2));
+        newer = await fetchNewer(">", Math.floor(limit / 2));
+      } else if (after) {
+        newer = await fetchNewer(">", limit);
+      } else {
+        older = await fetchOlder("<", limit);
+      }
+
+      const rows = [...older.rows, ...newer.rows];
+      res.json({
+        messages: rows.map(dbMessageToApiMessage),
+        olderCursor: older.hasMore ? rows[0].id : null,
+        // Only set when the page doesn't reach the latest message
+        newerCursor: newer.hasMore ? rows[rows.length - 1].id : null,
+      });
+    } catch (error) {
+      console.error("Get messages error:", error);
+      res.status(500).json({ message: "Failed to get messages" });
+    }
+  });
+
+  app.post("/api/messages/:friendId", authMiddleware, rejectSuspended, async (req, res) => {
+    try {
+      const { friendId } = req.params;
+      const { text } = req.body;
+      const userId = req.user.userId;
+
+      if (!text || !text.trim()) {
         return res.status(400).json({ message: "Message text is required" });
       }
 
@@ -871,6 +2025,10 @@ async function registerRoutes(httpServer, app) {
         return res.status(403).json({ message: "You can only message friends" });
       }
 
+      if (await isBlockedBetween(userId, friendId)) {
+        return res.status(403).json({ message: "You can't message this user" });
+      }
+
       const messageId = uuidv4();
       await query(
         "INSERT INTO messages (id, from_id, to_id, content, timestamp) VALUES ($1, $2, $3, $4, NOW())",
@@ -878,44 +2036,27 @@ async function registerRoutes(httpServer, app) {
       );
 
       const messageResult = await query("SELECT * FROM messages WHERE id = $1", [messageId]);
-      const message = dbMessageToApiMessage(messageResult.rows[0]);
-
-      const unlockedAchievements = [];
-      const userMessagesResult = await query(
-        "SELECT COUNT(*) as count FROM messages WHERE from_id = $1",
-        [userId]
-      );
-      const messageCount = parseInt(userMessagesResult.rows[0].count);
+      let message = dbMessageToApiMessage(messageResult.rows[0]);
 
-      if (messageCount === 1) {
-        const existingAchResult = await query(
-          "SELECT id FROM achievements WHERE user_id = $1 AND achievement_id = $2",
-          [userId, "messenger"]
+      const senderResult = await query("SELECT id, username, avatar_url FROM users WHERE id = $1", [userId]);
+      const sender = senderResult.rows[0];
+      const event = {
+        message,
+        sender: { id: sender.id, username: sender.username, avatarUrl: sender.avatar_url },
+      };
+      // Muted senders still deliver; the flag tells the recipient's client to skip the toast
+      const muted = await isMutedBy(friendId, userId);
+      if (publish(friendId, "message:new", { ...event, muted }) > 0) {
+        const deliveredResult = await query(
+          "UPDATE messages SET delivered_at = NOW() WHERE id = $1 RETURNING *",
+          [messageId]
         );
-        if (existingAchResult.rows.length === 0) {
-          await query(
-            "INSERT INTO achievements (id, user_id, achievement_id, unlocked_at) VALUES ($1, $2, $3, NOW())",
-            [uuidv4(), userId, "messenger"]
-          );
-          const achievement = ACHIEVEMENTS_LIST.find(a => a.id === "messenger");
-          if (achievement) unlockedAchievements.push(achievement);
-        }
+        message = dbMessageToApiMessage(deliveredResult.rows[0]);
+        event.message = message;
       }
+      publish(userId, "message:new", { ...event, muted: false });
 
-      if (messageCount >= 50) {
-        const existingAchResult = await query(
-          "SELECT id FROM achievements WHERE user_id = $1 AND achievement_id = $2",
-          [userId, "chat_master"]
-        );
-        if (existingAchResult.rows.length === 0) {
-          await query(
-            "INSERT INTO achievements (id, user_id, achievement_id, unlocked_at) VALUES ($1, $2, $3, NOW())",
-            [uuidv4(), userId, "chat_master"]
-          );
-          const achievement = ACHIEVEMENTS_LIST.find(a => a.id === "chat_master");
-          if (achievement) unlockedAchievements.push(achievement);
-        }
-      }
+      const unlockedAchievements = await emitEvent(userId, "message.sent");
 
       res.status(201).json({ ...message, unlockedAchievements });
     } catch (error) {
@@ -924,381 +2065,2582 @@ async function registerRoutes(httpServer, app) {
     }
   });
 
-  // ==================== ACHIEVEMENTS ROUTES ====================
+  // ==================== GROUP CONVERSATION ROUTES ====================
 
-  app.get("/api/achievements", authMiddleware, async (req, res) => {
-    try {
-      const userId = req.user.userId;
-      const achievementsResult = await query(
-        "SELECT * FROM achievements WHERE user_id = $1",
-        [userId]
-      );
+  const GROUP_MEMBER_LIMIT = 50;
+  const GROUP_NAME_MAX_LENGTH = 64;
+  const GROUP_MESSAGE_PAGE_SIZE = 50;
+  const canManageGroup = (role) => role === "owner" || role === "admin";
 
-      const userAchievements = achievementsResult.rows.map(dbAchievementToApiAchievement);
+  async function getGroupMembership(groupId, userId) {
+    const membershipResult = await query(
+      "SELECT * FROM group_members WHERE group_id = $1 AND user_id = $2",
+      [groupId, userId]
+    );
+    return membershipResult.rows[0] || null;
+  }
 
-      const achievementsWithDetails = ACHIEVEMENTS_LIST.map(achievement => {
-        const unlocked = userAchievements.find(ua => ua.achievementId === achievement.id);
-        return {
-          ...achievement,
-          unlocked: !!unlocked,
-          unlockedAt: unlocked?.unlockedAt || null,
-        };
-      });
+  async function getGroupDetails(groupId) {
+    const groupResult = await query("SELECT * FROM group_conversations WHERE id = $1", [groupId]);
+    if (groupResult.rows.length === 0) return null;
+
+    const membersResult = await query(
+      `SELECT u.id, u.username, u.avatar_url, gm.role, gm.joined_at
+       FROM group_members gm
+       JOIN users u ON u.id = gm.user_id
+       WHERE gm.group_id = $1
+       ORDER BY CASE gm.role WHEN 'owner' THEN 0 WHEN 'admin' THEN 1 ELSE 2 END, gm.joined_at ASC`,
+      [groupId]
+    );
+
+    return {
+      ...dbGroupToApiGroup(groupResult.rows[0]),
+      members: membersResult.rows.map(row => ({
+        id: row.id,
+        username: row.username,
+        avatarUrl: row.avatar_url || "",
+        role: row.role,
+        joinedAt: row.joined_at,
+      })),
+    };
+  }
 
-      res.json(achievementsWithDetails);
-    } catch (error) {
-      console.error("Get achievements error:", error);
-      res.status(500).json({ message: "Failed to get achievements" });
-    }
-  });
+  // With a senderId, members who have blocked the sender are skipped
+  async function publishToGroup(groupId, type, payload, senderId = null) {
+    const membersResult = await query(
+      `SELECT user_id FROM group_members gm
+       WHERE gm.group_id = $1
+         AND NOT EXISTS (SELECT 1 FROM user_blocks ub WHERE ub.blocker_id = gm.user_id AND ub.blocked_id = $2)`,
+      [groupId, senderId]
+    );
+    membersResult.rows.forEach(row => publish(row.user_id, type, payload));
+  }
 
-  app.get("/api/achievements/list", (req, res) => {
-    res.json(ACHIEVEMENTS_LIST);
-  });
+  async function addGroupSystemMessage(groupId, text) {
+    const messageResult = await query(
+      `INSERT INTO group_messages (id, group_id, from_id, kind, content, timestamp)
+       VALUES ($1, $2, NULL, 'system', $3, NOW()) RETURNING *`,
+      [uuidv4(), groupId, text]
+    );
+    await query("UPDATE group_conversations SET updated_at = NOW() WHERE id = $1", [groupId]);
+    const message = dbGroupMessageToApiGroupMessage(messageResult.rows[0]);
+    await publishToGroup(groupId, "group:message", { groupId, message, sender: null });
+    return message;
+  }
 
-  // ==================== CLOUD SAVES ROUTES ====================
+  // Only accepted friends of the inviter can be added to a group
+  async function filterFriendIds(userId, candidateIds) {
+    const friendsResult = await query(
+      `SELECT CASE WHEN sender_id = $1 THEN receiver_id ELSE sender_id END AS friend_id
+       FROM friends
+       WHERE status = 'accepted'
+         AND ((sender_id = $1 AND receiver_id = ANY($2)) OR (receiver_id = $1 AND sender_id = ANY($2)))`,
+      [userId, candidateIds]
+    );
+    return friendsResult.rows.map(row => row.friend_id);
+  }
 
-  app.get("/api/cloud", authMiddleware, async (req, res) => {
+  async function getUsernames(userIds) {
+    const usersResult = await query("SELECT id, username FROM users WHERE id = ANY($1)", [userIds]);
+    return usersResult.rows.map(row => row.username);
+  }
+
+  app.get("/api/groups", authMiddleware, async (req, res) => {
     try {
       const userId = req.user.userId;
-      const savesResult = await query(
-        "SELECT id, user_id, game_id, save_name, created_at, updated_at FROM cloud_saves WHERE user_id = $1",
+      const groupsResult = await query(
+        `SELECT g.*, gm.role,
+                (SELECT COUNT(*) FROM group_members c WHERE c.group_id = g.id) AS member_count,
+                (SELECT COUNT(*) FROM group_messages um
+                 WHERE um.group_id = g.id AND um.kind = 'text'
+                   AND um.from_id IS DISTINCT FROM $1 AND um.timestamp > gm.last_read_at
+                   AND NOT EXISTS (SELECT 1 FROM user_blocks ub WHERE ub.blocker_id = $1 AND ub.blocked_id = um.from_id)) AS unread_count,
+                lm.id AS last_id, lm.from_id AS last_from_id, lm.kind AS last_kind,
+                lm.content AS last_content, lm.timestamp AS last_timestamp,
+                lu.username AS last_sender_username
+         FROM group_members gm
+         JOIN group_conversations g ON g.id = gm.group_id
+         LEFT JOIN LATERAL (
+           SELECT * FROM group_messages m
+           WHERE m.group_id = g.id
+             AND NOT EXISTS (SELECT 1 FROM user_blocks ub WHERE ub.blocker_id = $1 AND ub.blocked_id = m.from_id)
+           ORDER BY m.timestamp DESC, m.id DESC
+           LIMIT 1
+         ) lm ON true
+         LEFT JOIN users lu ON lu.id = lm.from_id
+         WHERE gm.user_id = $1
+         ORDER BY COALESCE(lm.timestamp, g.created_at) DESC`,
         [userId]
       );
-      
-      const saves = savesResult.rows.map(row => ({
-        id: row.id,
-        userId: row.user_id,
-        gameId: row.game_id,
-        filename: row.save_name,
-        uploadedAt: row.updated_at || row.created_at,
+
+      const groups = groupsResult.rows.map(row => ({
+        ...dbGroupToApiGroup(row),
+        role: row.role,
+        memberCount: parseInt(row.member_count),
+        unreadCount: parseInt(row.unread_count),
+        lastMessage: row.last_id
+          ? {
+              ...dbGroupMessageToApiGroupMessage({
+                id: row.last_id,
+                group_id: row.id,
+                from_id: row.last_from_id,
+                kind: row.last_kind,
+                content: row.last_content,
+                timestamp: row.last_timestamp,
+              }),
+              senderUsername: row.last_sender_username,
+            }
+          : null,
+        lastActivityAt: row.last_timestamp || row.created_at,
       }));
-      
-      res.json(saves);
+
+      res.json(groups);
     } catch (error) {
-      console.error("Get cloud saves error:", error);
-      res.status(500).json({ message: "Failed to get cloud saves" });
+      console.error("Get groups error:", error);
+      res.status(500).json({ message: "Failed to get groups" });
     }
   });
 
-  app.get("/api/cloud/:saveId", authMiddleware, async (req, res) => {
+  app.post("/api/groups", authMiddleware, rejectSuspended, async (req, res) => {
     try {
       const userId = req.user.userId;
-      const { saveId } = req.params;
+      const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+      const memberIds = Array.isArray(req.body.memberIds) ? [...new Set(req.body.memberIds)] : [];
 
-      const saveResult = await query(
-        "SELECT * FROM cloud_saves WHERE id = $1 AND user_id = $2",
-        [saveId, userId]
-      );
+      if (!name || name.length > GROUP_NAME_MAX_LENGTH) {
+        return res.status(400).json({ message: `Group name must be 1-${GROUP_NAME_MAX_LENGTH} characters` });
+      }
+      if (memberIds.length === 0) {
+        return res.status(400).json({ message: "Add at least one friend to the group" });
+      }
+      if (!memberIds.every(id => typeof id === "string" && isUuid(id))) {
+        return res.status(400).json({ message: "Invalid member ID" });
+      }
+      if (memberIds.length + 1 > GROUP_MEMBER_LIMIT) {
+        return res.status(400).json({ message: `Groups can have at most ${GROUP_MEMBER_LIMIT} members` });
+      }
 
-      if (saveResult.rows.length === 0) {
-        return res.status(404).json({ message: "Cloud save not found" });
+      const friendIds = await filterFriendIds(userId, memberIds);
+      if (friendIds.length !== memberIds.length) {
+        return res.status(403).json({ message: "You can only add friends to a group" });
       }
 
-      const save = dbCloudSaveToApiCloudSave(saveResult.rows[0]);
-      res.json(save);
+      const groupId = uuidv4();
+      await query(
+        "INSERT INTO group_conversations (id, name, created_by, created_at, updated_at) VALUES ($1, $2, $3, NOW(), NOW())",
+        [groupId, name, userId]
+      );
+      await query(
+        `INSERT INTO group_members (group_id, user_id, role, joined_at, last_read_at)
+         SELECT $1, member_id, CASE WHEN member_id = $2 THEN 'owner' ELSE 'member' END, NOW(), NOW()
+         FROM unnest($3::uuid[]) AS member_id`,
+        [groupId, userId, [userId, ...friendIds]]
+      );
+
+      const [creatorName] = await getUsernames([userId]);
+      await addGroupSystemMessage(groupId, `${creatorName} created the group "${name}"`);
+
+      const group = await getGroupDetails(groupId);
+      await publishToGroup(groupId, "group:updated", { groupId });
+
+      res.status(201).json(group);
     } catch (error) {
-      console.error("Get cloud save error:", error);
-      res.status(500).json({ message: "Failed to get cloud save" });
+      console.error("Create group error:", error);
+      res.status(500).json({ message: "Failed to create group" });
     }
   });
 
-  app.post("/api/cloud", authMiddleware, async (req, res) => {
+  app.get("/api/groups/:groupId", authMiddleware, async (req, res) => {
     try {
-      const userId = req.user.userId;
-      const { filename, data } = req.body;
-
-      if (!filename || !data) {
-        return res.status(400).json({ message: "Filename and data are required" });
+      const { groupId } = req.params;
+      if (!isUuid(groupId) || !(await getGroupMembership(groupId, req.user.userId))) {
+        return res.status(404).json({ message: "Group not found" });
       }
 
-      const saveId = uuidv4();
-      await query(
-        `INSERT INTO cloud_saves (id, user_id, game_id, save_name, save_data, created_at, updated_at) 
-         VALUES ($1, $2, $3, $4, $5, NOW(), NOW())`,
-        [saveId, userId, "default", filename, data]
-      );
-
-      res.status(201).json({
-        id: saveId,
-        userId,
-        filename,
-        uploadedAt: new Date().toISOString(),
-      });
+      res.json(await getGroupDetails(groupId));
     } catch (error) {
-      console.error("Create cloud save error:", error);
-      res.status(500).json({ message: "Failed to create cloud save" });
+      console.error("Get group error:", error);
+      res.status(500).json({ message: "Failed to get group" });
     }
   });
 
-  app.patch("/api/cloud/:saveId", authMiddleware, async (req, res) => {
+  app.patch("/api/groups/:groupId", authMiddleware, rejectSuspended, async (req, res) => {
     try {
+      const { groupId } = req.params;
       const userId = req.user.userId;
-      const { saveId } = req.params;
-      const { filename, data } = req.body;
-
-      const existingResult = await query(
-        "SELECT * FROM cloud_saves WHERE id = $1 AND user_id = $2",
-        [saveId, userId]
-      );
+      const membership = isUuid(groupId) ? await getGroupMembership(groupId, userId) : null;
 
-      if (existingResult.rows.length === 0) {
-        return res.status(404).json({ message: "Cloud save not found" });
+      if (!membership) {
+        return res.status(404).json({ message: "Group not found" });
       }
-
-      const updates = ["updated_at = NOW()"];
-      const values = [];
-      let paramIndex = 1;
-
-      if (filename) {
-        updates.push(`save_name = $${paramIndex++}`);
-        values.push(filename);
+      if (!canManageGroup(membership.role)) {
+        return res.status(403).json({ message: "Only group owners and admins can edit the group" });
       }
-      if (data) {
-        updates.push(`save_data = $${paramIndex++}`);
-        values.push(data);
+
+      const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+      if (!name || name.length > GROUP_NAME_MAX_LENGTH) {
+        return res.status(400).json({ message: `Group name must be 1-${GROUP_NAME_MAX_LENGTH} characters` });
       }
 
-      values.push(saveId);
-      const updateResult = await query(
-        `UPDATE cloud_saves SET ${updates.join(", ")} WHERE id = $${paramIndex} RETURNING *`,
-        values
+      await query(
+        "UPDATE group_conversations SET name = $1, updated_at = NOW() WHERE id = $2",
+        [name, groupId]
       );
 
-      const updated = updateResult.rows[0];
-      res.json({
-        id: updated.id,
-        userId: updated.user_id,
-        filename: updated.save_name,
-        uploadedAt: updated.updated_at,
-      });
+      const [username] = await getUsernames([userId]);
+      await addGroupSystemMessage(groupId, `${username} renamed the group to "${name}"`);
+      await publishToGroup(groupId, "group:updated", { groupId });
+
+      res.json(await getGroupDetails(groupId));
     } catch (error) {
-      console.error("Update cloud save error:", error);
-      res.status(500).json({ message: "Update failed" });
+      console.error("Update group error:", error);
+      res.status(500).json({ message: "Failed to update group" });
     }
   });
 
-  app.delete("/api/cloud/:saveId", authMiddleware, async (req, res) => {
+  // Runs ahead of multer so a picture is only written for someone allowed to
+  // change it
+  async function requireGroupManager(req, res, next) {
+    try {
+      const { groupId } = req.params;
+      const membership = isUuid(groupId) ? await getGroupMembership(groupId, req.user.userId) : null;
+
+      if (!membership) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      if (!canManageGroup(membership.role)) {
+        return res.status(403).json({ message: "Only group owners and admins can edit the group" });
+      }
+      next();
+    } catch (error) {
+      console.error("Group membership check error:", error);
+      res.status(500).json({ message: "Failed to check group membership" });
+    }
+  }
+
+  app.post("/api/groups/:groupId/avatar", authMiddleware, rejectSuspended, requireGroupManager, uploadAvatar.single("avatar"), async (req, res) => {
     try {
+      const { groupId } = req.params;
       const userId = req.user.userId;
-      const { saveId } = req.params;
 
-      const deleteResult = await query(
-        "DELETE FROM cloud_saves WHERE id = $1 AND user_id = $2 RETURNING id",
-        [saveId, userId]
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      await query(
+        "UPDATE group_conversations SET avatar_url = $1, updated_at = NOW() WHERE id = $2",
+        [`/uploads/avatars/${req.file.filename}`, groupId]
       );
 
-      if (deleteResult.rows.length === 0) {
-        return res.status(404).json({ message: "Cloud save not found" });
-      }
+      const [username] = await getUsernames([userId]);
+      await addGroupSystemMessage(groupId, `${username} changed the group picture`);
+      await publishToGroup(groupId, "group:updated", { groupId });
 
-      res.json({ message: "Cloud save deleted" });
+      res.json(await getGroupDetails(groupId));
     } catch (error) {
-      console.error("Delete cloud save error:", error);
-      res.status(500).json({ message: "Failed to delete cloud save" });
+      console.error("Group avatar upload error:", error);
+      res.status(500).json({ message: "Group avatar upload failed" });
     }
   });
 
-  // ==================== EMAIL VERIFICATION ROUTES ====================
-
-  app.get("/api/auth/verify", async (req, res) => {
+  app.post("/api/groups/:groupId/members", authMiddleware, rejectSuspended, async (req, res) => {
     try {
-      const { token } = req.query;
+      const { groupId } = req.params;
+      const userId = req.user.userId;
+      const membership = isUuid(groupId) ? await getGroupMembership(groupId, userId) : null;
 
-      if (!token || typeof token !== "string") {
-        return res.status(400).json({ message: "Verification token is required" });
+      if (!membership) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      if (!canManageGroup(membership.role)) {
+        return res.status(403).json({ message: "Only group owners and admins can invite members" });
       }
 
-      const userResult = await query(
-        "SELECT * FROM users WHERE verification_token = $1",
-        [token]
-      );
+      const userIds = Array.isArray(req.body.userIds) ? [...new Set(req.body.userIds)] : [];
+      if (userIds.length === 0) {
+        return res.status(400).json({ message: "No users to invite" });
+      }
+      if (!userIds.every(id => typeof id === "string" && isUuid(id))) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
 
-      if (userResult.rows.length === 0) {
-        return res.status(400).json({ message: "Invalid verification token" });
+      const friendIds = await filterFriendIds(userId, userIds);
+      if (friendIds.length !== userIds.length) {
+        return res.status(403).json({ message: "You can only invite friends to a group" });
       }
 
-      const user = dbUserToApiUser(userResult.rows[0]);
+      const existingResult = await query(
+        "SELECT user_id FROM group_members WHERE group_id = $1",
+        [groupId]
+      );
+      const existingIds = new Set(existingResult.rows.map(row => row.user_id));
+      const newIds = friendIds.filter(id => !existingIds.has(id));
 
-      if (user.verified) {
-        return res.json({ message: "Email already verified" });
+      if (newIds.length === 0) {
+        return res.status(400).json({ message: "Those users are already in the group" });
+      }
+      if (existingIds.size + newIds.length > GROUP_MEMBER_LIMIT) {
+        return res.status(400).json({ message: `Groups can have at most ${GROUP_MEMBER_LIMIT} members` });
       }
 
       await query(
-        "UPDATE users SET verified = true, verification_token = NULL WHERE id = $1",
-        [user.id]
+        `INSERT INTO group_members (group_id, user_id, role, joined_at, last_read_at)
+         SELECT $1, member_id, 'member', NOW(), NOW() FROM unnest($2::uuid[]) AS member_id
+         ON CONFLICT (group_id, user_id) DO NOTHING`,
+        [groupId, newIds]
       );
 
-      res.json({ message: "Email verified successfully" });
+      const [inviterName] = await getUsernames([userId]);
+      const invitedNames = await getUsernames(newIds);
+      await addGroupSystemMessage(groupId, `${inviterName} added ${invitedNames.join(", ")}`);
+      await publishToGroup(groupId, "group:updated", { groupId });
+
+      res.status(201).json(await getGroupDetails(groupId));
     } catch (error) {
-      console.error("Verification error:", error);
-      res.status(500).json({ message: "Verification failed" });
+      console.error("Invite group members error:", error);
+      res.status(500).json({ message: "Failed to invite members" });
     }
   });
 
-  // ==================== WALLET ROUTES ====================
-
-  app.get("/api/wallet", authMiddleware, async (req, res) => {
+  // Changes a member's role. Owners can promote/demote admins or hand the
+  // group over by making someone else the owner.
+  app.patch("/api/groups/:groupId/members/:memberId", authMiddleware, async (req, res) => {
     try {
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
+      const { groupId, memberId } = req.params;
+      const { role } = req.body;
+      const userId = req.user.userId;
+      const membership = isUuid(groupId) ? await getGroupMembership(groupId, userId) : null;
+
+      if (!membership) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      if (membership.role !== "owner") {
+        return res.status(403).json({ message: "Only the group owner can change roles" });
+      }
+      if (!["owner", "admin", "member"].includes(role)) {
+        return res.status(400).json({ message: "Role must be one of: owner, admin, member" });
+      }
+      if (memberId === userId) {
+        return res.status(400).json({ message: "Transfer ownership to another member instead" });
       }
 
-      const user = dbUserToApiUser(userResult.rows[0]);
+      const target = isUuid(memberId) ? await getGroupMembership(groupId, memberId) : null;
+      if (!target) {
+        return res.status(404).json({ message: "Member not found" });
+      }
 
-      const transactionsResult = await query(
-        "SELECT * FROM wallet_transactions WHERE user_id = $1 ORDER BY created_at DESC",
-        [req.user.userId]
+      await query(
+        "UPDATE group_members SET role = $1 WHERE group_id = $2 AND user_id = $3",
+        [role, groupId, memberId]
       );
+      if (role === "owner") {
+        await query(
+          "UPDATE group_members SET role = 'admin' WHERE group_id = $1 AND user_id = $2",
+          [groupId, userId]
+        );
+      }
 
-      const transactions = transactionsResult.rows.map(dbTransactionToApiTransaction);
+      const [ownerName] = await getUsernames([userId]);
+      const [targetName] = await getUsernames([memberId]);
+      const descriptions = {
+        owner: `${ownerName} made ${targetName} the group owner`,
+        admin: `${ownerName} made ${targetName} an admin`,
+        member: `${ownerName} removed ${targetName} as an admin`,
+      };
+      await addGroupSystemMessage(groupId, descriptions[role]);
+      await publishToGroup(groupId, "group:updated", { groupId });
 
-      res.json({
-        balance: user.walletBalance || 0,
-        transactions,
-        ownedGames: user.ownedGames || [],
-      });
+      res.json(await getGroupDetails(groupId));
     } catch (error) {
-      console.error("Get wallet error:", error);
-      res.status(500).json({ message: "Failed to get wallet" });
+      console.error("Update group member error:", error);
+      res.status(500).json({ message: "Failed to update member" });
     }
   });
 
-  app.get("/api/wallet/stripe-key", async (req, res) => {
+  // Kicks a member, or leaves the group when memberId is the caller
+  app.delete("/api/groups/:groupId/members/:memberId", authMiddleware, async (req, res) => {
     try {
-      const publishableKey = await getStripePublishableKey();
-      res.json({ publishableKey });
-    } catch (error) {
-      console.error("Failed to get Stripe key:", error);
-      res.status(500).json({ message: "Failed to get payment configuration" });
-    }
-  });
+      const { groupId, memberId } = req.params;
+      const userId = req.user.userId;
+      const membership = isUuid(groupId) ? await getGroupMembership(groupId, userId) : null;
 
-  app.post("/api/wallet/create-checkout", authMiddleware, async (req, res) => {
-    try {
+      if (!membership) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+
+      const isLeaving = memberId === userId;
+      const target = isLeaving ? membership : isUuid(memberId) ? await getGroupMembership(groupId, memberId) : null;
+      if (!target) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (!isLeaving) {
+        const canKick = membership.role === "owner" || (membership.role === "admin" && target.role === "member");
+        if (!canKick) {
+          return res.status(403).json({ message: "You don't have permission to remove this member" });
+        }
+      }
+
+      const [actorName] = await getUsernames([userId]);
+      const [targetName] = isLeaving ? [actorName] : await getUsernames([memberId]);
+
+      await query("DELETE FROM group_members WHERE group_id = $1 AND user_id = $2", [groupId, memberId]);
+      publish(memberId, "group:removed", { groupId });
+
+      const remainingResult = await query(
+        `SELECT user_id, role FROM group_members WHERE group_id = $1
+         ORDER BY CASE role WHEN 'admin' THEN 0 ELSE 1 END, joined_at ASC`,
+        [groupId]
+      );
+
+      if (remainingResult.rows.length === 0) {
+        await query("DELETE FROM group_conversations WHERE id = $1", [groupId]);
+        return res.json({ message: "Group deleted" });
+      }
+
+      await addGroupSystemMessage(groupId, isLeaving ? `${targetName} left the group` : `${actorName} removed ${targetName}`);
+
+      // A departing owner hands the group to the longest-serving admin, or member
+      if (target.role === "owner") {
+        const successorId = remainingResult.rows[0].user_id;
+        await query(
+          "UPDATE group_members SET role = 'owner' WHERE group_id = $1 AND user_id = $2",
+          [groupId, successorId]
+        );
+        const [successorName] = await getUsernames([successorId]);
+        await addGroupSystemMessage(groupId, `${successorName} is now the group owner`);
+      }
+
+      await publishToGroup(groupId, "group:updated", { groupId });
+
+      res.json({ message: isLeaving ? "Left group" : "Member removed" });
+    } catch (error) {
+      console.error("Remove group member error:", error);
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
+  app.get("/api/groups/:groupId/messages", authMiddleware, async (req, res) => {
+    try {
+      const { groupId } = req.params;
+      const { before } = req.query;
+      const userId = req.user.userId;
+
+      if (!isUuid(groupId) || !(await getGroupMembership(groupId, userId))) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      if (before && !isUuid(before)) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || GROUP_MESSAGE_PAGE_SIZE, 1), 100);
+      const values = [groupId, userId];
+      let cursorClause = "";
+      if (before) {
+        values.push(before);
+        cursorClause = "AND (m.timestamp, m.id) < (SELECT timestamp, id FROM group_messages WHERE id = $3 AND group_id = $1)";
+      }
+      values.push(limit + 1);
+
+      const messagesResult = await query(
+        `SELECT m.*, u.username AS sender_username, u.avatar_url AS sender_avatar_url
+         FROM group_messages m
+         LEFT JOIN users u ON u.id = m.from_id
+         WHERE m.group_id = $1 ${cursorClause}
+           AND NOT EXISTS (SELECT 1 FROM user_blocks ub WHERE ub.blocker_id = $2 AND ub.blocked_id = m.from_id)
+         ORDER BY m.timestamp DESC, m.id DESC
+         LIMIT $${values.length}`,
+        values
+      );
+
+      const pageRows = messagesResult.rows.slice(0, limit).reverse();
+      res.json({
+        messages: pageRows.map(row => ({
+          ...dbGroupMessageToApiGroupMessage(row),
+          sender: row.from_id
+            ? { id: row.from_id, username: row.sender_username, avatarUrl: row.sender_avatar_url || "" }
+            : null,
+        })),
+        olderCursor: messagesResult.rows.length > limit ? pageRows[0].id : null,
+      });
+    } catch (error) {
+      console.error("Get group messages error:", error);
+      res.status(500).json({ message: "Failed to get group messages" });
+    }
+  });
+
+  app.post("/api/groups/:groupId/messages", authMiddleware, rejectSuspended, async (req, res) => {
+    try {
+      const { groupId } = req.params;
+      const { text } = req.body;
+      const userId = req.user.userId;
+
+      if (!isUuid(groupId) || !(await getGroupMembership(groupId, userId))) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      if (!text || !text.trim()) {
+        return res.status(400).json({ message: "Message text is required" });
+      }
+
+      const messageResult = await query(
+        `INSERT INTO group_messages (id, group_id, from_id, kind, content, timestamp)
+         VALUES ($1, $2, $3, 'text', $4, NOW()) RETURNING *`,
+        [uuidv4(), groupId, userId, text.trim()]
+      );
+      await query(
+        "UPDATE group_members SET last_read_at = NOW() WHERE group_id = $1 AND user_id = $2",
+        [groupId, userId]
+      );
+
+      const senderResult = await query("SELECT id, username, avatar_url FROM users WHERE id = $1", [userId]);
+      const sender = {
+        id: senderResult.rows[0].id,
+        username: senderResult.rows[0].username,
+        avatarUrl: senderResult.rows[0].avatar_url || "",
+      };
+      const message = { ...dbGroupMessageToApiGroupMessage(messageResult.rows[0]), sender };
+
+      await publishToGroup(groupId, "group:message", { groupId, message, sender }, userId);
+
+      const unlockedAchievements = await emitEvent(userId, "message.sent");
+
+      res.status(201).json({ ...message, unlockedAchievements });
+    } catch (error) {
+      console.error("Send group message error:", error);
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  app.post("/api/groups/:groupId/read", authMiddleware, async (req, res) => {
+    try {
+      const { groupId } = req.params;
+      const userId = req.user.userId;
+
+      const readResult = isUuid(groupId)
+        ? await query(
+            "UPDATE group_members SET last_read_at = NOW() WHERE group_id = $1 AND user_id = $2 RETURNING last_read_at",
+            [groupId, userId]
+          )
+        : { rows: [] };
+
+      if (readResult.rows.length === 0) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+
+      // Keeps the reader's other tabs and unread badge in sync
+      publish(userId, "group:read", { groupId, readAt: readResult.rows[0].last_read_at });
+
+      res.json({ readAt: readResult.rows[0].last_read_at });
+    } catch (error) {
+      console.error("Mark group read error:", error);
+      res.status(500).json({ message: "Failed to mark group as read" });
+    }
+  });
+
+  // ==================== ACHIEVEMENTS ROUTES ====================
+
+  app.get("/api/achievements", authMiddleware, async (req, res) => {
+    try {
+      const userId = req.user.userId;
+      const [achievementsResult, populationResult] = await Promise.all([
+        query(
+          `SELECT d.*, a.unlocked_at, COALESCE(c.count, 0) AS progress,
+                  (SELECT COUNT(*) FROM achievements x WHERE x.achievement_id = d.id) AS unlock_count
+           FROM achievement_definitions d
+           LEFT JOIN achievements a ON a.achievement_id = d.id AND a.user_id = $1
+           LEFT JOIN achievement_counters c ON c.user_id = $1 AND c.event = d.event
+           ORDER BY d.sort_order ASC, d.id ASC`,
+          [userId]
+        ),
+        query("SELECT COUNT(*) AS count FROM users"),
+      ]);
+      const population = parseInt(populationResult.rows[0].count);
+
+      // Accounts from before the counters existed can be unlocked with no
+      // counter row, so an unlock always reads as complete
+      const achievementsWithDetails = achievementsResult.rows.map(row => ({
+        ...dbDefinitionToApiAchievement(row),
+        unlocked: !!row.unlocked_at,
+        unlockedAt: row.unlocked_at || null,
+        progress: row.unlocked_at ? row.threshold : Math.min(row.progress, row.threshold),
+        target: row.threshold,
+        rarity: rarityPercent(parseInt(row.unlock_count), population),
+      }));
+
+      res.json(achievementsWithDetails);
+    } catch (error) {
+      console.error("Get achievements error:", error);
+      res.status(500).json({ message: "Failed to get achievements" });
+    }
+  });
+
+  // Per-game achievements for games in the user's library, plus any game
+  // they've already unlocked something in. Hidden achievements stay masked
+  // until unlocked.
+  app.get("/api/achievements/games", authMiddleware, async (req, res) => {
+    try {
+      const userId = req.user.userId;
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const library = await loadLibrary(userResult.rows[0]);
+      const achievementsResult = await query(
+        `SELECT ga.*, d.title AS game_title, d.cover_image, u.unlocked_at,
+                (SELECT COUNT(*) FROM user_game_achievements x WHERE x.achievement_id = ga.id) AS unlock_count,
+                (SELECT COUNT(*) FROM game_playtime p WHERE p.game_id = 'dev-' || ga.game_id) AS player_count
+         FROM game_achievements ga
+         JOIN developer_games d ON d.game_id = ga.game_id
+         LEFT JOIN user_game_achievements u ON u.achievement_id = ga.id AND u.user_id = $1
+         WHERE 'dev-' || ga.game_id = ANY($2)
+            OR EXISTS (
+              SELECT 1 FROM user_game_achievements mine
+              JOIN game_achievements other ON other.id = mine.achievement_id
+              WHERE mine.user_id = $1 AND other.game_id = ga.game_id
+            )
+         ORDER BY d.title ASC, ga.sort_order ASC, ga.created_at ASC`,
+        [userId, library.map(entry => entry.id)]
+      );
+
+      const games = new Map();
+      achievementsResult.rows.forEach(row => {
+        // Rarity is measured against everyone who has played the game
+        const unlockCount = parseInt(row.unlock_count);
+        const achievement = {
+          ...dbGameAchievementToApiGameAchievement(row),
+          rarity: rarityPercent(unlockCount, Math.max(parseInt(row.player_count), unlockCount)),
+        };
+        let game = games.get(achievement.gameId);
+        if (!game) {
+          game = {
+            gameId: achievement.gameId,
+            title: row.game_title,
+            coverUrl: row.cover_image || "",
+            unlocked: 0,
+            total: 0,
+            earnedPoints: 0,
+            totalPoints: 0,
+            completion: 0,
+            achievements: [],
+          };
+          games.set(achievement.gameId, game);
+        }
+
+        const unlocked = !!row.unlocked_at;
+        game.total++;
+        game.totalPoints += achievement.points;
+        if (unlocked) {
+          game.unlocked++;
+          game.earnedPoints += achievement.points;
+        }
+        game.achievements.push(achievement.hidden && !unlocked
+          ? { ...achievement, name: "Hidden achievement", description: "Keep playing to discover this achievement", iconUrl: "", unlocked, unlockedAt: null }
+          : { ...achievement, unlocked, unlockedAt: row.unlocked_at || null });
+      });
+
+      res.json(Array.from(games.values()).map(game => ({
+        ...game,
+        completion: Math.round((game.unlocked / game.total) * 100),
+      })));
+    } catch (error) {
+      console.error("Get achievements by game error:", error);
+      res.status(500).json({ message: "Failed to get achievements" });
+    }
+  });
+
+  app.get("/api/achievements/list", async (req, res) => {
+    try {
+      res.json(await getAchievementDefinitions());
+    } catch (error) {
+      console.error("Get achievement list error:", error);
+      res.status(500).json({ message: "Failed to get achievements" });
+    }
+  });
+
+  // ==================== CLOUD SAVES ROUTES ====================
+
+  const CLOUD_SAVE_REVISION_LIMIT = 10;
+
+  const CLOUD_SAVE_GAME_JOIN = `
+    LEFT JOIN games g ON g.id = cs.game_id
+    LEFT JOIN developer_games d ON 'dev-' || d.game_id = cs.game_id
+  `;
+
+  const cloudSaveEtag = (saveRow) => `"${saveRow.id}:${saveRow.revision}"`;
+
+  // Every upload gets its own key, so a write that loses a revision race never
+  // touches the object the winning write stored.
+  const cloudSaveObjectKey = (userId, saveId) => `cloud-saves/${userId}/${saveId}/${uuidv4()}`;
+
+  const discardUpload = (req) => {
+    if (req.file) fs.unlink(req.file.path, () => {});
+  };
+
+  // Writers name the revision they started from, either as baseRevision in the
+  // body or as the ETag from a previous read in If-Match.
+  const getBaseRevision = (req) => {
+    if (req.body.baseRevision !== undefined) {
+      return parseInt(req.body.baseRevision, 10);
+    }
+    const ifMatch = req.headers["if-match"];
+    if (ifMatch) {
+      const match = ifMatch.match(/:(\d+)"?$/);
+      return match ? parseInt(match[1], 10) : NaN;
+    }
+    return undefined;
+  };
+
+  const findCloudSaveGame = async (gameId) => {
+    const result = await query(
+      `SELECT id, title FROM games WHERE id = $1
+       UNION ALL
+       SELECT 'dev-' || game_id, title FROM developer_games WHERE 'dev-' || game_id = $1`,
+      [gameId]
+    );
+    return result.rows[0] || null;
+  };
+
+  // Revisions can share an object (renames and restores don't copy data), so
+  // usage counts each stored object once.
+  const getCloudStorageUsage = async (userId) => {
+    const userResult = await query("SELECT * FROM users WHERE id = $1", [userId]);
+    const user = dbUserToApiUser(userResult.rows[0]);
+    const isNexarPlus = !!user?.subscription?.active;
+
+    const usageResult = await query(
+      `SELECT COALESCE(SUM(size), 0) AS used_bytes FROM (
+         SELECT DISTINCT ON (COALESCE(storage_key, id::text))
+                COALESCE(size_bytes, octet_length(save_data::text)) AS size
+         FROM cloud_save_revisions
+         WHERE user_id = $1
+       ) objects`,
+      [userId]
+    );
+
+    return {
+      usedBytes: Number(usageResult.rows[0].used_bytes),
+      quotaBytes: isNexarPlus ? CLOUD_QUOTA_NEXAR_PLUS_BYTES : CLOUD_QUOTA_FREE_BYTES,
+      isNexarPlus,
+    };
+  };
+
+  const checkCloudQuota = async (userId, incomingBytes) => {
+    const usage = await getCloudStorageUsage(userId);
+    return usage.usedBytes + incomingBytes <= usage.quotaBytes ? null : usage;
+  };
+
+  const sendQuotaExceeded = (res, usage) => {
+    res.status(413).json({
+      message: usage.isNexarPlus
+        ? "Cloud storage quota exceeded. Delete old saves to free up space."
+        : "Cloud storage quota exceeded. Upgrade to Nexar+ for more cloud storage.",
+      usedBytes: usage.usedBytes,
+      quotaBytes: usage.quotaBytes,
+    });
+  };
+
+  // The upload limit is the largest quota, so a file over it can never fit and
+  // gets the same 413 as any other quota overrun
+  const receiveCloudSaveFile = (req, res, next) => {
+    uploadCloudSave.single("file")(req, res, async (error) => {
+      if (error?.code !== "LIMIT_FILE_SIZE") return next(error);
+      try {
+        sendQuotaExceeded(res, await getCloudStorageUsage(req.user.userId));
+      } catch (usageError) {
+        next(usageError);
+      }
+    });
+  };
+
+  const deleteUnreferencedObjects = async (keys) => {
+    for (const key of new Set(keys.filter(Boolean))) {
+      const refResult = await query("SELECT 1 FROM cloud_save_revisions WHERE storage_key = $1 LIMIT 1", [key]);
+      if (refResult.rows.length === 0) {
+        await storage.deleteObject(key);
+      }
+    }
+  };
+
+  // Snapshots the save's current state as a revision and drops anything older
+  // than the last CLOUD_SAVE_REVISION_LIMIT revisions.
+  const recordCloudSaveRevision = async (saveRow) => {
+    await query(
+      `INSERT INTO cloud_save_revisions
+         (id, save_id, user_id, revision, save_name, save_data, storage_key, size_bytes, content_type, sha256, device_id, device_name, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW())
+       ON CONFLICT (save_id, revision) DO NOTHING`,
+      [
+        uuidv4(), saveRow.id, saveRow.user_id, saveRow.revision, saveRow.save_name,
+        saveRow.save_data != null ? JSON.stringify(saveRow.save_data) : null,
+        saveRow.storage_key, saveRow.size_bytes, saveRow.content_type, saveRow.sha256,
+        saveRow.device_id, saveRow.device_name,
+      ]
+    );
+    const prunedResult = await query(
+      "DELETE FROM cloud_save_revisions WHERE save_id = $1 AND revision <= $2 RETURNING storage_key",
+      [saveRow.id, saveRow.revision - CLOUD_SAVE_REVISION_LIMIT]
+    );
+    await deleteUnreferencedObjects(prunedResult.rows.map(row => row.storage_key));
+  };
+
+  const sendCloudSaveContent = (res, row) => {
+    res.attachment(row.save_name);
+    res.type(row.content_type || "application/octet-stream");
+
+    if (!row.storage_key) {
+      return res.send(cloudSaveDataToBuffer(row.save_data));
+    }
+    if (!storage.objectExists(row.storage_key)) {
+      return res.status(404).json({ message: "Save file is missing from storage" });
+    }
+
+    res.set("Content-Length", String(row.size_bytes));
+    storage.createObjectStream(row.storage_key)
+      .on("error", (error) => {
+        console.error("Stream cloud save error:", error);
+        res.destroy(error);
+      })
+      .pipe(res);
+  };
+
+  app.get("/api/cloud", authMiddleware, async (req, res) => {
+    try {
+      const userId = req.user.userId;
+      const savesResult = await query(
+        `SELECT cs.id, cs.user_id, cs.game_id, cs.save_name, cs.revision, cs.device_id, cs.device_name,
+                cs.content_type, cs.sha256, cs.created_at, cs.updated_at,
+                COALESCE(cs.size_bytes, octet_length(cs.save_data::text)) AS size_bytes,
+                COALESCE(g.title, d.title) AS game_title,
+                (SELECT COUNT(*) FROM cloud_save_revisions r WHERE r.save_id = cs.id) AS revision_count
+         FROM cloud_saves cs
+         ${CLOUD_SAVE_GAME_JOIN}
+         WHERE cs.user_id = $1
+         ORDER BY cs.updated_at DESC`,
+        [userId]
+      );
+
+      res.json(savesResult.rows.map(dbCloudSaveToApiCloudSave));
+    } catch (error) {
+      console.error("Get cloud saves error:", error);
+      res.status(500).json({ message: "Failed to get cloud saves" });
+    }
+  });
+
+  app.get("/api/cloud/usage", authMiddleware, async (req, res) => {
+    try {
+      res.json(await getCloudStorageUsage(req.user.userId));
+    } catch (error) {
+      console.error("Get cloud usage error:", error);
+      res.status(500).json({ message: "Failed to get cloud storage usage" });
+    }
+  });
+
+  app.get("/api/cloud/:saveId", authMiddleware, async (req, res) => {
+    try {
+      const userId = req.user.userId;
+      const { saveId } = req.params;
+
+      const saveResult = await query(
+        `SELECT cs.*, COALESCE(g.title, d.title) AS game_title
+         FROM cloud_saves cs
+         ${CLOUD_SAVE_GAME_JOIN}
+         WHERE cs.id = $1 AND cs.user_id = $2`,
+        [saveId, userId]
+      );
+
+      if (saveResult.rows.length === 0) {
+        return res.status(404).json({ message: "Cloud save not found" });
+      }
+
+      const save = dbCloudSaveToApiCloudSave(saveResult.rows[0]);
+      res.set("ETag", cloudSaveEtag(saveResult.rows[0]));
+      res.json(save);
+    } catch (error) {
+      console.error("Get cloud save error:", error);
+      res.status(500).json({ message: "Failed to get cloud save" });
+    }
+  });
+
+  app.get("/api/cloud/:saveId/content", authMiddleware, async (req, res) => {
+    try {
+      const saveResult = await query(
+        "SELECT * FROM cloud_saves WHERE id = $1 AND user_id = $2",
+        [req.params.saveId, req.user.userId]
+      );
+
+      if (saveResult.rows.length === 0) {
+        return res.status(404).json({ message: "Cloud save not found" });
+      }
+
+      res.set("ETag", cloudSaveEtag(saveResult.rows[0]));
+      sendCloudSaveContent(res, saveResult.rows[0]);
+    } catch (error) {
+      console.error("Download cloud save error:", error);
+      res.status(500).json({ message: "Failed to download cloud save" });
+    }
+  });
+
+  app.post("/api/cloud", authMiddleware, receiveCloudSaveFile, async (req, res) => {
+    let storedKey = null;
+    try {
+      const userId = req.user.userId;
+      const { gameId, deviceId, deviceName } = req.body;
+      const filename = req.body.filename || req.file?.originalname;
+
+      if (!req.file) {
+        return res.status(400).json({ message: "No save file uploaded" });
+      }
+
+      if (!gameId || !filename) {
+        discardUpload(req);
+        return res.status(400).json({ message: "Game and filename are required" });
+      }
+
+      const game = await findCloudSaveGame(gameId);
+      if (!game) {
+        discardUpload(req);
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      const existingResult = await query(
+        "SELECT id FROM cloud_saves WHERE user_id = $1 AND game_id = $2 AND save_name = $3",
+        [userId, gameId, filename]
+      );
+      if (existingResult.rows.length > 0) {
+        discardUpload(req);
+        return res.status(400).json({ message: "A save with this filename already exists for this game" });
+      }
+
+      const overQuota = await checkCloudQuota(userId, req.file.size);
+      if (overQuota) {
+        discardUpload(req);
+        return sendQuotaExceeded(res, overQuota);
+      }
+
+      const saveId = uuidv4();
+      const stored = await storage.putObject(cloudSaveObjectKey(userId, saveId), req.file.path);
+      storedKey = stored.key;
+
+      const insertResult = await query(
+        `INSERT INTO cloud_saves
+           (id, user_id, game_id, save_name, storage_key, size_bytes, content_type, sha256, revision, device_id, device_name, created_at, updated_at) 
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 1, $9, $10, NOW(), NOW())
+         RETURNING *`,
+        [
+          saveId, userId, gameId, filename, stored.key, stored.sizeBytes,
+          req.file.mimetype || "application/octet-stream", stored.sha256,
+          deviceId || null, deviceName || null,
+        ]
+      );
+
+      const saved = insertResult.rows[0];
+      await recordCloudSaveRevision(saved);
+
+      const unlockedAchievements = await emitEvent(userId, "cloud_save.uploaded");
+
+      res.set("ETag", cloudSaveEtag(saved));
+      res.status(201).json({ ...dbCloudSaveToApiCloudSave({ ...saved, game_title: game.title }), unlockedAchievements });
+    } catch (error) {
+      console.error("Create cloud save error:", error);
+      discardUpload(req);
+      if (storedKey) storage.deleteObject(storedKey).catch(() => {});
+      res.status(500).json({ message: "Failed to create cloud save" });
+    }
+  });
+
+  app.patch("/api/cloud/:saveId", authMiddleware, receiveCloudSaveFile, async (req, res) => {
+    let storedKey = null;
+    try {
+      const userId = req.user.userId;
+      const { saveId } = req.params;
+      const { filename, deviceId, deviceName } = req.body;
+      const baseRevision = getBaseRevision(req);
+
+      if (baseRevision === undefined) {
+        discardUpload(req);
+        return res.status(428).json({ message: "baseRevision or If-Match is required to update a cloud save" });
+      }
+      if (isNaN(baseRevision)) {
+        discardUpload(req);
+        return res.status(400).json({ message: "Invalid base revision" });
+      }
+
+      const existingResult = await query(
+        "SELECT * FROM cloud_saves WHERE id = $1 AND user_id = $2",
+        [saveId, userId]
+      );
+
+      if (existingResult.rows.length === 0) {
+        discardUpload(req);
+        return res.status(404).json({ message: "Cloud save not found" });
+      }
+
+      if (filename && filename !== existingResult.rows[0].save_name) {
+        const nameResult = await query(
+          "SELECT id FROM cloud_saves WHERE user_id = $1 AND game_id = $2 AND save_name = $3",
+          [userId, existingResult.rows[0].game_id, filename]
+        );
+        if (nameResult.rows.length > 0) {
+          discardUpload(req);
+          return res.status(409).json({ message: "A save with this filename already exists for this game" });
+        }
+      }
+
+      const updates = ["updated_at = NOW()", "revision = revision + 1"];
+      const values = [];
+      let paramIndex = 1;
+
+      if (filename) {
+        updates.push(`save_name = $${paramIndex++}`);
+        values.push(filename);
+      }
+      if (req.file) {
+        const overQuota = await checkCloudQuota(userId, req.file.size);
+        if (overQuota) {
+          discardUpload(req);
+          return sendQuotaExceeded(res, overQuota);
+        }
+
+        const stored = await storage.putObject(cloudSaveObjectKey(userId, saveId), req.file.path);
+        storedKey = stored.key;
+        updates.push("save_data = NULL");
+        updates.push(`storage_key = $${paramIndex++}`);
+        values.push(stored.key);
+        updates.push(`size_bytes = $${paramIndex++}`);
+        values.push(stored.sizeBytes);
+        updates.push(`content_type = $${paramIndex++}`);
+        values.push(req.file.mimetype || "application/octet-stream");
+        updates.push(`sha256 = $${paramIndex++}`);
+        values.push(stored.sha256);
+      }
+      updates.push(`device_id = $${paramIndex++}`);
+      values.push(deviceId || null);
+      updates.push(`device_name = $${paramIndex++}`);
+      values.push(deviceName || null);
+
+      // Matching on the base revision makes the check and the write atomic
+      values.push(saveId, baseRevision);
+      const updateResult = await query(
+        `WITH cs AS (
+           UPDATE cloud_saves SET ${updates.join(", ")}
+           WHERE id = $${paramIndex} AND revision = $${paramIndex + 1}
+           RETURNING *
+         )
+         SELECT cs.*, COALESCE(g.title, d.title) AS game_title
+         FROM cs
+         ${CLOUD_SAVE_GAME_JOIN}`,
+        values
+      );
+
+      if (updateResult.rows.length === 0) {
+        if (storedKey) await storage.deleteObject(storedKey);
+
+        const currentResult = await query(
+          `SELECT cs.*, COALESCE(g.title, d.title) AS game_title
+           FROM cloud_saves cs
+           ${CLOUD_SAVE_GAME_JOIN}
+           WHERE cs.id = $1 AND cs.user_id = $2`,
+          [saveId, userId]
+        );
+        if (currentResult.rows.length === 0) {
+          return res.status(404).json({ message: "Cloud save not found" });
+        }
+        const current = currentResult.rows[0];
+        res.set("ETag", cloudSaveEtag(current));
+        return res.status(409).json({
+          message: "This save was changed on another device",
+          cloud: dbCloudSaveToApiCloudSave(current),
+          local: {
+            filename: filename || current.save_name,
+            sizeBytes: req.file ? req.file.size : cloudSaveSize(current),
+            baseRevision,
+            deviceId: deviceId || null,
+            deviceName: deviceName || null,
+          },
+        });
+      }
+
+      const updated = updateResult.rows[0];
+      await recordCloudSaveRevision(updated);
+
+      res.set("ETag", cloudSaveEtag(updated));
+      res.json(dbCloudSaveToApiCloudSave(updated));
+    } catch (error) {
+      discardUpload(req);
+      if (storedKey) deleteUnreferencedObjects([storedKey]).catch(() => {});
+      // Another save took the name between the check above and the update
+      if (error.code === UNIQUE_VIOLATION) {
+        return res.status(409).json({ message: "A save with this filename already exists for this game" });
+      }
+      console.error("Update cloud save error:", error);
+      res.status(500).json({ message: "Update failed" });
+    }
+  });
+
+  app.get("/api/cloud/:saveId/revisions", authMiddleware, async (req, res) => {
+    try {
+      const userId = req.user.userId;
+      const { saveId } = req.params;
+
+      const saveResult = await query(
+        "SELECT id, revision FROM cloud_saves WHERE id = $1 AND user_id = $2",
+        [saveId, userId]
+      );
+      if (saveResult.rows.length === 0) {
+        return res.status(404).json({ message: "Cloud save not found" });
+      }
+
+      const revisionsResult = await query(
+        `SELECT id, save_id, revision, save_name, device_name, created_at,
+                COALESCE(size_bytes, octet_length(save_data::text)) AS size_bytes
+         FROM cloud_save_revisions
+         WHERE save_id = $1
+         ORDER BY revision DESC`,
+        [saveId]
+      );
+
+      const currentRevision = saveResult.rows[0].revision;
+      res.json(revisionsResult.rows.map(row => ({
+        ...dbCloudSaveRevisionToApiRevision(row),
+        isCurrent: row.revision === currentRevision,
+      })));
+    } catch (error) {
+      console.error("Get cloud save revisions error:", error);
+      res.status(500).json({ message: "Failed to get save history" });
+    }
+  });
+
+  app.get("/api/cloud/:saveId/revisions/:revision/content", authMiddleware, async (req, res) => {
+    try {
+      const userId = req.user.userId;
+      const { saveId, revision } = req.params;
+
+      const revisionResult = await query(
+        "SELECT * FROM cloud_save_revisions WHERE save_id = $1 AND user_id = $2 AND revision = $3",
+        [saveId, userId, parseInt(revision, 10) || 0]
+      );
+      if (revisionResult.rows.length === 0) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      sendCloudSaveContent(res, revisionResult.rows[0]);
+    } catch (error) {
+      console.error("Download cloud save revision error:", error);
+      res.status(500).json({ message: "Failed to download revision" });
+    }
+  });
+
+  // Restoring never rewrites history: the old revision's contents become a
+  // new revision on top, so the restore itself can be undone.
+  app.post("/api/cloud/:saveId/revisions/:revision/restore", authMiddleware, async (req, res) => {
+    try {
+      const userId = req.user.userId;
+      const { saveId, revision } = req.params;
+
+      const revisionResult = await query(
+        "SELECT * FROM cloud_save_revisions WHERE save_id = $1 AND user_id = $2 AND revision = $3",
+        [saveId, userId, parseInt(revision, 10) || 0]
+      );
+      if (revisionResult.rows.length === 0) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      const source = revisionResult.rows[0];
+      const updateResult = await query(
+        `UPDATE cloud_saves
+         SET save_name = $1, save_data = $2, storage_key = $3, size_bytes = $4, content_type = $5, sha256 = $6,
+             revision = revision + 1, device_id = $7, device_name = $8, updated_at = NOW()
+         WHERE id = $9 AND user_id = $10
+         RETURNING *`,
+        [
+          source.save_name,
+          source.save_data != null ? JSON.stringify(source.save_data) : null,
+          source.storage_key, source.size_bytes, source.content_type, source.sha256,
+          req.body.deviceId || null, req.body.deviceName || null,
+          saveId, userId,
+        ]
+      );
+      if (updateResult.rows.length === 0) {
+        return res.status(404).json({ message: "Cloud save not found" });
+      }
+
+      const restored = updateResult.rows[0];
+      await recordCloudSaveRevision(restored);
+
+      res.set("ETag", cloudSaveEtag(restored));
+      res.json({ ...dbCloudSaveToApiCloudSave(restored), restoredFrom: source.revision });
+    } catch (error) {
+      console.error("Restore cloud save error:", error);
+      res.status(500).json({ message: "Failed to restore revision" });
+    }
+  });
+
+  app.delete("/api/cloud/:saveId", authMiddleware, async (req, res) => {
+    try {
+      const userId = req.user.userId;
+      const { saveId } = req.params;
+
+      const keysResult = await query(
+        "SELECT DISTINCT storage_key FROM cloud_save_revisions WHERE save_id = $1 AND user_id = $2 AND storage_key IS NOT NULL",
+        [saveId, userId]
+      );
+
+      const deleteResult = await query(
+        "DELETE FROM cloud_saves WHERE id = $1 AND user_id = $2 RETURNING id, storage_key",
+        [saveId, userId]
+      );
+
+      if (deleteResult.rows.length === 0) {
+        return res.status(404).json({ message: "Cloud save not found" });
+      }
+
+      await deleteUnreferencedObjects([
+        ...keysResult.rows.map(row => row.storage_key),
+        deleteResult.rows[0].storage_key,
+      ]);
+
+      res.json({ message: "Cloud save deleted" });
+    } catch (error) {
+      console.error("Delete cloud save error:", error);
+      res.status(500).json({ message: "Failed to delete cloud save" });
+    }
+  });
+
+  // ==================== EMAIL VERIFICATION ROUTES ====================
+
+  app.get("/api/auth/verify", async (req, res) => {
+    try {
+      const { token } = req.query;
+
+      if (!token || typeof token !== "string") {
+        return res.status(400).json({ message: "Verification token is required" });
+      }
+
+      const userResult = await query(
+        "SELECT * FROM users WHERE verification_token = $1",
+        [token]
+      );
+
+      if (userResult.rows.length === 0) {
+        return res.status(400).json({ message: "Invalid verification token" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+
+      if (user.verified) {
+        return res.json({ message: "Email already verified" });
+      }
+
+      await query(
+        "UPDATE users SET verified = true, verification_token = NULL WHERE id = $1",
+        [user.id]
+      );
+
+      res.json({ message: "Email verified successfully" });
+    } catch (error) {
+      console.error("Verification error:", error);
+      res.status(500).json({ message: "Verification failed" });
+    }
+  });
+
+  // ==================== WALLET ROUTES ====================
+
+  app.get("/api/wallet", authMiddleware, async (req, res) => {
+    try {
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+
+      const transactionsResult = await query(
+        "SELECT * FROM wallet_transactions WHERE user_id = $1 ORDER BY created_at DESC",
+        [req.user.userId]
+      );
+
+      const transactions = transactionsResult.rows.map(dbTransactionToApiTransaction);
+
+      res.json({
+        balance: user.walletBalance || 0,
+        transactions,
+        ownedGames: user.ownedGames || [],
+      });
+    } catch (error) {
+      console.error("Get wallet error:", error);
+      res.status(500).json({ message: "Failed to get wallet" });
+    }
+  });
+
+  app.get("/api/wallet/stripe-key", async (req, res) => {
+    try {
+      const publishableKey = await getStripePublishableKey();
+      res.json({ publishableKey });
+    } catch (error) {
+      console.error("Failed to get Stripe key:", error);
+      res.status(500).json({ message: "Failed to get payment configuration" });
+    }
+  });
+
+  app.post("/api/wallet/create-checkout", authMiddleware, async (req, res) => {
+    try {
       const { amount } = req.body;
       
-      if (!amount || amount < 5 || amount > 100) {
-        return res.status(400).json({ message: "Amount must be between £5 and £100" });
+      if (!amount || amount < 5 || amount > 100) {
+        return res.status(400).json({ message: "Amount must be between £5 and £100" });
+      }
+
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+      const stripe = await getUncachableStripeClient();
+      
+      const baseUrl = process.env.RAILWAY_PUBLIC_DOMAIN 
+        ? `https://${process.env.RAILWAY_PUBLIC_DOMAIN}`
+        : process.env.REPLIT_DOMAINS?.split(',')[0] 
+          ? `https://${process.env.REPLIT_DOMAINS.split(',')[0]}`
+          : 'http://localhost:5000';
+
+      const session = await stripe.checkout.sessions.create({
+        payment_method_types: ['card'],
+        line_items: [{
+          price_data: {
+            currency: 'gbp',
+            product_data: {
+              name: 'NexarOS Wallet Funds',
+              description: `Add £${amount} to your NexarOS wallet`,
+            },
+            unit_amount: amount * 100,
+          },
+          quantity: 1,
+        }],
+        mode: 'payment',
+        success_url: `${baseUrl}/wallet?success=true&session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: `${baseUrl}/wallet?canceled=true`,
+        metadata: {
+          userId: user.id,
+          type: 'wallet_deposit',
+          amount: amount.toString(),
+        },
+      });
+
+      res.json({ url: session.url, sessionId: session.id });
+    } catch (error) {
+      console.error("Checkout error:", error);
+      res.status(500).json({ message: "Failed to create checkout session" });
+    }
+  });
+
+  app.post("/api/wallet/verify-payment", authMiddleware, async (req, res) => {
+    try {
+      const { sessionId } = req.body;
+      
+      if (!sessionId) {
+        return res.status(400).json({ message: "Session ID is required" });
+      }
+
+      const existingResult = await query(
+        "SELECT * FROM wallet_transactions WHERE reference_id = $1",
+        [sessionId]
+      );
+      if (existingResult.rows.length > 0) {
+        return res.json({ message: "Payment already processed", balance: parseFloat(existingResult.rows[0].amount) });
+      }
+
+      const stripe = await getUncachableStripeClient();
+      const session = await stripe.checkout.sessions.retrieve(sessionId);
+
+      if (session.payment_status !== 'paid') {
+        return res.status(400).json({ message: "Payment not completed" });
+      }
+
+      if (session.metadata?.userId !== req.user.userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const amount = parseInt(session.metadata?.amount || '0');
+      if (amount <= 0) {
+        return res.status(400).json({ message: "Invalid amount" });
+      }
+
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+      const newBalance = (user.walletBalance || 0) + amount;
+      
+      await query(
+        "UPDATE users SET wallet_balance = $1 WHERE id = $2",
+        [newBalance, user.id]
+      );
+
+      await query(
+        `INSERT INTO wallet_transactions (id, user_id, amount, type, description, reference_id, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, NOW())`,
+        [uuidv4(), user.id, amount, "deposit", `Added £${amount} to wallet`, sessionId]
+      );
+
+      publish(user.id, "wallet:balance", { balance: newBalance });
+
+      res.json({ message: "Payment verified", balance: newBalance });
+    } catch (error) {
+      console.error("Payment verification error:", error);
+      res.status(500).json({ message: "Failed to verify payment" });
+    }
+  });
+
+  app.post("/api/wallet/purchase-game", authMiddleware, async (req, res) => {
+    try {
+      const { gameId } = req.body;
+      
+      if (!gameId) {
+        return res.status(400).json({ message: "Game ID is required" });
+      }
+
+      const gameData = await getCatalogGame(gameId);
+      if (!gameData) {
+        return res.status(404).json({ message: "Game not found in catalog" });
+      }
+
+      const gameName = gameData.title;
+
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+
+      if ((user.ownedGames || []).includes(gameId)) {
+        return res.status(400).json({ message: "You already own this game" });
+      }
+      if (gameData.developerId === user.id) {
+        return res.status(400).json({ message: "You can't buy your own game" });
+      }
+
+      let finalPrice = gameData.price;
+      let discountApplied = 0;
+      
+      if (user.subscription?.active && gameData.nexarPlusDiscount) {
+        discountApplied = gameData.nexarPlusDiscount;
+        finalPrice = gameData.price * (1 - discountApplied / 100);
+        finalPrice = Math.round(finalPrice * 100) / 100;
+      }
+
+      if ((user.walletBalance || 0) < finalPrice) {
+        return res.status(400).json({ message: "Insufficient wallet balance" });
+      }
+
+      const newBalance = (user.walletBalance || 0) - finalPrice;
+      const newOwnedGames = [...(user.ownedGames || []), gameId];
+      
+      await query(
+        "UPDATE users SET wallet_balance = $1, owned_games = $2 WHERE id = $3",
+        [newBalance, newOwnedGames, user.id]
+      );
+
+      const discountText = discountApplied > 0 ? ` (${discountApplied}% Nexar+ discount)` : "";
+      await query(
+        `INSERT INTO wallet_transactions (id, user_id, amount, type, description, reference_id, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, NOW())`,
+        [uuidv4(), user.id, -finalPrice, "purchase", `Purchased ${gameName}${discountText}`, gameId]
+      );
+
+      publish(user.id, "wallet:balance", { balance: newBalance });
+
+      res.json({ 
+        message: "Game purchased successfully", 
+        balance: newBalance,
+        ownedGames: newOwnedGames,
+        discountApplied,
+        originalPrice: gameData.price,
+        finalPrice,
+      });
+    } catch (error) {
+      console.error("Purchase error:", error);
+      res.status(500).json({ message: "Failed to purchase game" });
+    }
+  });
+
+  // ==================== PARENTAL CONTROLS ROUTES ====================
+
+  const getDefaultParentalControls = () => ({
+    enabled: false,
+    parentPin: "",
+    playtimeLimit: null,
+    canMakePurchases: true,
+    restrictedRatings: [],
+    requiresParentApproval: false,
+    dailyPlaytimeLog: {
+      date: new Date().toISOString().split("T")[0],
+      minutesPlayed: 0,
+    },
+  });
+
+  app.post("/api/parental/enable", authMiddleware, async (req, res) => {
+    try {
+      const { pin } = req.body;
+
+      if (!pin || typeof pin !== "string" || pin.length < 4 || pin.length > 8 || !/^\d+$/.test(pin)) {
+        return res.status(400).json({ message: "PIN must be 4-8 digits" });
+      }
+
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const hashedPin = await bcrypt.hash(pin, 10);
+      const parentalControls = {
+        ...getDefaultParentalControls(),
+        enabled: true,
+        parentPin: hashedPin,
+      };
+
+      const currentProfile = userResult.rows[0].developer_profile || {};
+      await query(
+        "UPDATE users SET developer_profile = $1 WHERE id = $2",
+        [{ ...currentProfile, parentalControls }, req.user.userId]
+      );
+
+      res.json({ message: "Parental controls enabled" });
+    } catch (error) {
+      console.error("Enable parental controls error:", error);
+      res.status(500).json({ message: "Failed to enable parental controls" });
+    }
+  });
+
+  app.post("/api/parental/disable", authMiddleware, async (req, res) => {
+    try {
+      const { pin } = req.body;
+
+      if (!pin) {
+        return res.status(400).json({ message: "PIN is required" });
+      }
+
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+      if (!user.parentalControls?.enabled) {
+        return res.status(400).json({ message: "Parental controls not enabled" });
+      }
+
+      const validPin = await bcrypt.compare(pin, user.parentalControls.parentPin);
+      if (!validPin) {
+        return res.status(401).json({ message: "Invalid PIN" });
+      }
+
+      const currentProfile = userResult.rows[0].developer_profile || {};
+      await query(
+        "UPDATE users SET developer_profile = $1 WHERE id = $2",
+        [{ ...currentProfile, parentalControls: getDefaultParentalControls() }, req.user.userId]
+      );
+
+      res.json({ message: "Parental controls disabled" });
+    } catch (error) {
+      console.error("Disable parental controls error:", error);
+      res.status(500).json({ message: "Failed to disable parental controls" });
+    }
+  });
+
+  app.post("/api/parental/verifyPin", authMiddleware, async (req, res) => {
+    try {
+      const { pin } = req.body;
+
+      if (!pin) {
+        return res.status(400).json({ valid: false });
+      }
+
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(400).json({ valid: false });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+      if (!user.parentalControls?.enabled) {
+        return res.status(400).json({ valid: false });
+      }
+
+      const validPin = await bcrypt.compare(pin, user.parentalControls.parentPin);
+      res.json({ valid: validPin });
+    } catch (error) {
+      console.error("Verify PIN error:", error);
+      res.status(500).json({ valid: false });
+    }
+  });
+
+  const VALID_CONTENT_RATINGS = ["E", "T", "M", "18+"];
+  
+  const LEGACY_RATING_MAP = {
+    "Mature": "M",
+    "Teen": "T",
+    "Everyone": "E",
+    "7+": "E",
+    "12+": "T",
+    "16+": "M",
+  };
+
+  const normalizeRatings = (ratings) => {
+    const normalized = ratings.map(r => LEGACY_RATING_MAP[r] || r);
+    return [...new Set(normalized.filter(r => VALID_CONTENT_RATINGS.includes(r)))];
+  };
+
+  app.post("/api/parental/updateSettings", authMiddleware, async (req, res) => {
+    try {
+      const { pin, playtimeLimit, canMakePurchases, restrictedRatings, requiresParentApproval } = req.body;
+
+      if (!pin) {
+        return res.status(400).json({ message: "PIN is required" });
+      }
+
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+      if (!user.parentalControls?.enabled) {
+        return res.status(400).json({ message: "Parental controls not enabled" });
+      }
+
+      const validPin = await bcrypt.compare(pin, user.parentalControls.parentPin);
+      if (!validPin) {
+        return res.status(401).json({ message: "Invalid PIN" });
+      }
+
+      const updates = {};
+      if (playtimeLimit !== undefined) updates.playtimeLimit = playtimeLimit;
+      if (canMakePurchases !== undefined) updates.canMakePurchases = canMakePurchases;
+      if (restrictedRatings !== undefined) {
+        updates.restrictedRatings = normalizeRatings(restrictedRatings);
+      }
+      if (requiresParentApproval !== undefined) updates.requiresParentApproval = requiresParentApproval;
+
+      const newParentalControls = { ...user.parentalControls, ...updates };
+      const currentProfile = userResult.rows[0].developer_profile || {};
+      await query(
+        "UPDATE users SET developer_profile = $1 WHERE id = $2",
+        [{ ...currentProfile, parentalControls: newParentalControls }, req.user.userId]
+      );
+      
+      res.json({ message: "Settings updated", parentalControls: toParentalControls(newParentalControls) });
+    } catch (error) {
+      console.error("Update parental settings error:", error);
+      res.status(500).json({ message: "Failed to update settings" });
+    }
+  });
+
+  app.get("/api/parental/status", authMiddleware, async (req, res) => {
+    try {
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+      const parentalControls = user.parentalControls || getDefaultParentalControls();
+      
+      const today = new Date().toISOString().split("T")[0];
+      if (parentalControls.dailyPlaytimeLog?.date !== today) {
+        parentalControls.dailyPlaytimeLog = { date: today, minutesPlayed: 0 };
+      }
+
+      parentalControls.restrictedRatings = normalizeRatings(parentalControls.restrictedRatings || []);
+
+      res.json(toParentalControls(parentalControls));
+    } catch (error) {
+      console.error("Get parental status error:", error);
+      res.status(500).json({ message: "Failed to get status" });
+    }
+  });
+
+  app.post("/api/parental/checkAccess", authMiddleware, async (req, res) => {
+    try {
+      const { gameId, rating, gameRating } = req.body;
+      const rawRating = gameRating || rating;
+      const contentRating = rawRating ? (LEGACY_RATING_MAP[rawRating] || rawRating) : null;
+
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+      const parentalControls = user.parentalControls;
+      
+      if (!parentalControls?.enabled) {
+        return res.json({ allowed: true });
+      }
+
+      const normalizedRestrictedRatings = normalizeRatings(parentalControls.restrictedRatings || []);
+      if (contentRating && normalizedRestrictedRatings.includes(contentRating)) {
+        return res.json({ allowed: false, reason: `This game is rated ${contentRating} which is restricted` });
+      }
+
+      const today = new Date().toISOString().split("T")[0];
+      if (parentalControls.playtimeLimit !== null) {
+        let minutesPlayed = parentalControls.dailyPlaytimeLog?.minutesPlayed || 0;
+        if (parentalControls.dailyPlaytimeLog?.date !== today) {
+          minutesPlayed = 0;
+        }
+        if (minutesPlayed >= parentalControls.playtimeLimit) {
+          return res.json({ 
+            allowed: false, 
+            reason: `Daily playtime limit of ${parentalControls.playtimeLimit} minutes reached` 
+          });
+        }
+      }
+
+      res.json({ allowed: true });
+    } catch (error) {
+      console.error("Check access error:", error);
+      res.status(500).json({ message: "Failed to check access" });
+    }
+  });
+
+  app.post("/api/parental/override", authMiddleware, async (req, res) => {
+    try {
+      const { pin } = req.body;
+
+      if (!pin) {
+        return res.status(400).json({ message: "PIN is required" });
+      }
+
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+      if (!user.parentalControls?.enabled) {
+        return res.status(400).json({ message: "Parental controls not enabled" });
+      }
+
+      const validPin = await bcrypt.compare(pin, user.parentalControls.parentPin);
+      if (!validPin) {
+        return res.status(401).json({ message: "Invalid PIN" });
+      }
+
+      res.json({ allowed: true });
+    } catch (error) {
+      console.error("Override error:", error);
+      res.status(500).json({ message: "Failed to verify override" });
+    }
+  });
+
+  app.post("/api/parental/checkPurchase", authMiddleware, async (req, res) => {
+    try {
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+      const parentalControls = user.parentalControls;
+      
+      if (!parentalControls?.enabled) {
+        return res.json({ allowed: true, requiresApproval: false });
+      }
+
+      if (!parentalControls.canMakePurchases) {
+        return res.json({ allowed: false, reason: "Purchases are disabled by parental controls" });
+      }
+
+      if (parentalControls.requiresParentApproval) {
+        return res.json({ allowed: true, requiresApproval: true });
+      }
+
+      res.json({ allowed: true, requiresApproval: false });
+    } catch (error) {
+      console.error("Check purchase error:", error);
+      res.status(500).json({ message: "Failed to check purchase permission" });
+    }
+  });
+
+  // ==================== NEXAR+ SUBSCRIPTION ROUTES ====================
+
+  app.get("/api/subscription/status", authMiddleware, async (req, res) => {
+    try {
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+
+      res.json({
+        active: user.subscription?.active || false,
+        renewalDate: user.subscription?.renewalDate || "",
+        stripeSubscriptionId: user.subscription?.stripeSubscriptionId || "",
+      });
+    } catch (error) {
+      console.error("Get subscription status error:", error);
+      res.status(500).json({ message: "Failed to get subscription status" });
+    }
+  });
+
+  app.post("/api/subscription/create-checkout", authMiddleware, async (req, res) => {
+    try {
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+
+      if (user.subscription?.active) {
+        return res.status(400).json({ message: "Already subscribed to Nexar+" });
+      }
+
+      const stripe = await getUncachableStripeClient();
+      
+      const baseUrl = process.env.RAILWAY_PUBLIC_DOMAIN 
+        ? `https://${process.env.RAILWAY_PUBLIC_DOMAIN}`
+        : process.env.REPLIT_DOMAINS?.split(',')[0] 
+          ? `https://${process.env.REPLIT_DOMAINS.split(',')[0]}`
+          : 'http://localhost:5000';
+
+      let customerId = user.subscription?.stripeCustomerId;
+      if (!customerId) {
+        const customer = await stripe.customers.create({
+          email: user.email,
+          metadata: { userId: user.id },
+        });
+        customerId = customer.id;
+      }
+
+      const session = await stripe.checkout.sessions.create({
+        customer: customerId,
+        payment_method_types: ['card'],
+        line_items: [{
+          price_data: {
+            currency: NEXAR_PLUS_CURRENCY,
+            product_data: {
+              name: 'Nexar+ Subscription',
+              description: 'Monthly subscription with exclusive benefits',
+            },
+            unit_amount: Math.round(NEXAR_PLUS_PRICE * 100),
+            recurring: { interval: 'month' },
+          },
+          quantity: 1,
+        }],
+        mode: 'subscription',
+        success_url: `${baseUrl}/nexar-plus?success=true&session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: `${baseUrl}/nexar-plus?canceled=true`,
+        metadata: {
+          userId: user.id,
+          type: 'nexar_plus_subscription',
+        },
+      });
+
+      res.json({ url: session.url, sessionId: session.id });
+    } catch (error) {
+      console.error("Subscription checkout error:", error);
+      res.status(500).json({ message: "Failed to create subscription checkout" });
+    }
+  });
+
+  app.post("/api/subscription/verify", authMiddleware, async (req, res) => {
+    try {
+      const { sessionId } = req.body;
+      
+      if (!sessionId) {
+        return res.status(400).json({ message: "Session ID is required" });
+      }
+
+      const stripe = await getUncachableStripeClient();
+      const session = await stripe.checkout.sessions.retrieve(sessionId);
+
+      if (session.metadata?.userId !== req.user.userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (session.status !== 'complete') {
+        return res.status(400).json({ message: "Payment not completed" });
+      }
+
+      const subscriptionId = session.subscription;
+      const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+
+      const renewalDate = new Date(subscription.current_period_end * 1000).toISOString();
+
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      const currentProfile = userResult.rows[0].developer_profile || {};
+      
+      await query(
+        "UPDATE users SET developer_profile = $1 WHERE id = $2",
+        [{
+          ...currentProfile,
+          subscription: {
+            active: true,
+            renewalDate,
+            stripeCustomerId: session.customer,
+            stripeSubscriptionId: subscriptionId,
+          }
+        }, req.user.userId]
+      );
+
+      res.json({ 
+        success: true, 
+        subscription: {
+          active: true,
+          renewalDate,
+        }
+      });
+    } catch (error) {
+      console.error("Subscription verify error:", error);
+      res.status(500).json({ message: "Failed to verify subscription" });
+    }
+  });
+
+  app.post("/api/subscription/cancel", authMiddleware, async (req, res) => {
+    try {
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+
+      if (!user.subscription?.active || !user.subscription.stripeSubscriptionId) {
+        return res.status(400).json({ message: "No active subscription to cancel" });
+      }
+
+      const stripe = await getUncachableStripeClient();
+      await stripe.subscriptions.cancel(user.subscription.stripeSubscriptionId);
+
+      const currentProfile = userResult.rows[0].developer_profile || {};
+      await query(
+        "UPDATE users SET developer_profile = $1 WHERE id = $2",
+        [{
+          ...currentProfile,
+          subscription: {
+            ...user.subscription,
+            active: false,
+          }
+        }, req.user.userId]
+      );
+
+      res.json({ success: true, message: "Subscription cancelled successfully" });
+    } catch (error) {
+      console.error("Cancel subscription error:", error);
+      res.status(500).json({ message: "Failed to cancel subscription" });
+    }
+  });
+
+  // ==================== GAME CATALOG ROUTES ====================
+
+  const GAME_CATALOG_FIELDS = {
+    title: "title",
+    description: "description",
+    genre: "genre",
+    contentRating: "content_rating",
+    rating: "rating",
+    size: "size",
+    coverUrl: "cover_url",
+    price: "price",
+    trialEnabled: "trial_enabled",
+    trialDurationMinutes: "trial_duration_minutes",
+    nexarPlusDiscount: "nexar_plus_discount",
+    inNexarPlusCollection: "in_nexar_plus_collection",
+    featured: "featured",
+  };
+
+  app.get("/api/games", async (req, res) => {
+    try {
+      const result = await query("SELECT * FROM games ORDER BY featured DESC, title ASC");
+      res.json(result.rows.map(dbGameToApiGame));
+    } catch (error) {
+      console.error("Get games error:", error);
+      res.status(500).json({ message: "Failed to get games" });
+    }
+  });
+
+  app.get("/api/admin/games", authMiddleware, async (req, res) => {
+    try {
+      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const result = await query("SELECT * FROM games ORDER BY id");
+      res.json(result.rows.map(dbGameToApiGame));
+    } catch (error) {
+      console.error("Admin get games error:", error);
+      res.status(500).json({ message: "Failed to get games" });
+    }
+  });
+
+  app.post("/api/admin/games", authMiddleware, async (req, res) => {
+    try {
+      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const { id, title, price } = req.body;
+
+      if (!id || !title || price === undefined) {
+        return res.status(400).json({ message: "ID, title, and price are required" });
+      }
+
+      if (typeof price !== "number" || price < 0) {
+        return res.status(400).json({ message: "Price must be a non-negative number" });
+      }
+
+      const existingResult = await query("SELECT id FROM games WHERE id = $1", [id]);
+      if (existingResult.rows.length > 0) {
+        return res.status(400).json({ message: "A game with this ID already exists" });
+      }
+
+      const columns = ["id"];
+      const values = [id];
+      Object.entries(GAME_CATALOG_FIELDS).forEach(([field, column]) => {
+        if (req.body[field] !== undefined) {
+          columns.push(column);
+          values.push(req.body[field]);
+        }
+      });
+
+      const placeholders = values.map((_, i) => `$${i + 1}`);
+      const result = await query(
+        `INSERT INTO games (${columns.join(", ")}) VALUES (${placeholders.join(", ")}) RETURNING *`,
+        values
+      );
+
+      res.status(201).json(dbGameToApiGame(result.rows[0]));
+    } catch (error) {
+      console.error("Admin create game error:", error);
+      res.status(500).json({ message: "Failed to create game" });
+    }
+  });
+
+  app.patch("/api/admin/games/:gameId", authMiddleware, async (req, res) => {
+    try {
+      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const { gameId } = req.params;
+
+      if (req.body.price !== undefined && (typeof req.body.price !== "number" || req.body.price < 0)) {
+        return res.status(400).json({ message: "Price must be a non-negative number" });
+      }
+
+      const updates = [];
+      const values = [];
+      let paramIndex = 1;
+
+      Object.entries(GAME_CATALOG_FIELDS).forEach(([field, column]) => {
+        if (req.body[field] !== undefined) {
+          updates.push(`${column} = $${paramIndex++}`);
+          values.push(req.body[field]);
+        }
+      });
+
+      if (updates.length === 0) {
+        return res.status(400).json({ message: "No fields to update" });
+      }
+
+      updates.push("updated_at = NOW()");
+      values.push(gameId);
+
+      const result = await query(
+        `UPDATE games SET ${updates.join(", ")} WHERE id = $${paramIndex} RETURNING *`,
+        values
+      );
+
+      if (result.rows.length === 0) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      res.json(dbGameToApiGame(result.rows[0]));
+    } catch (error) {
+      console.error("Admin update game error:", error);
+      res.status(500).json({ message: "Failed to update game" });
+    }
+  });
+
+  app.delete("/api/admin/games/:gameId", authMiddleware, async (req, res) => {
+    try {
+      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const result = await query("DELETE FROM games WHERE id = $1 RETURNING id", [req.params.gameId]);
+      if (result.rows.length === 0) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      res.json({ success: true, message: "Game removed from catalog" });
+    } catch (error) {
+      console.error("Admin delete game error:", error);
+      res.status(500).json({ message: "Failed to delete game" });
+    }
+  });
+
+  // ==================== GAME TRIAL ROUTES ====================
+
+  app.get("/api/games/metadata", async (req, res) => {
+    try {
+      const result = await query("SELECT * FROM games ORDER BY id");
+      const metadata = {};
+      result.rows.forEach(row => {
+        const game = dbGameToApiGame(row);
+        metadata[game.id] = {
+          price: game.price,
+          name: game.title,
+          trialEnabled: game.trialEnabled,
+          trialDurationMinutes: game.trialDurationMinutes,
+          nexarPlusDiscount: game.nexarPlusDiscount,
+          inNexarPlusCollection: game.inNexarPlusCollection,
+        };
+      });
+      res.json(metadata);
+    } catch (error) {
+      console.error("Get game metadata error:", error);
+      res.status(500).json({ message: "Failed to get game metadata" });
+    }
+  });
+
+  app.post("/api/games/trial/check", authMiddleware, async (req, res) => {
+    try {
+      const { gameId } = req.body;
+      
+      if (!gameId) {
+        return res.status(400).json({ message: "Game ID is required" });
+      }
+
+      const game = await getCatalogGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      if (!game.trialEnabled) {
+        return res.json({ allowed: false, reason: "Trial not available for this game" });
+      }
+
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+
+      if (!user.subscription?.active) {
+        return res.json({ allowed: false, reason: "Nexar+ subscription required for game trials" });
+      }
+
+      const trialData = user.trialUsage?.[gameId];
+      if (trialData?.expired) {
+        return res.json({ allowed: false, reason: "Trial expired - purchase to continue playing" });
+      }
+
+      const minutesPlayed = trialData?.minutesPlayed || 0;
+      const trialDuration = game.trialDurationMinutes || 120;
+      const minutesRemaining = trialDuration - minutesPlayed;
+
+      res.json({ 
+        allowed: true, 
+        minutesRemaining,
+        minutesPlayed,
+        trialDuration,
+      });
+    } catch (error) {
+      console.error("Trial check error:", error);
+      res.status(500).json({ message: "Failed to check trial status" });
+    }
+  });
+
+  app.post("/api/games/nexarplus/check", authMiddleware, async (req, res) => {
+    try {
+      const { gameId } = req.body;
+      
+      if (!gameId) {
+        return res.status(400).json({ message: "Game ID is required" });
       }
 
+      const game = await getCatalogGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      if (!game.inNexarPlusCollection) {
+        return res.json({ allowed: true, isNexarPlusGame: false });
+      }
+
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+
+      if (!user.subscription?.active) {
+        return res.json({ 
+          allowed: false, 
+          isNexarPlusGame: true,
+          reason: "Requires Nexar+ subscription" 
+        });
+      }
+
+      res.json({ allowed: true, isNexarPlusGame: true });
+    } catch (error) {
+      console.error("Nexar+ check error:", error);
+      res.status(500).json({ message: "Failed to check access" });
+    }
+  });
+
+  app.get("/api/games/:gameId/price", authMiddleware, async (req, res) => {
+    try {
+      const { gameId } = req.params;
+      
+      const game = await getCatalogGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+
+      const basePrice = game.price;
+      let discountedPrice = basePrice;
+      let discountPercent = 0;
+
+      if (user.subscription?.active && game.nexarPlusDiscount) {
+        discountPercent = game.nexarPlusDiscount;
+        discountedPrice = basePrice * (1 - discountPercent / 100);
+      }
+
+      res.json({
+        basePrice,
+        discountedPrice: Math.round(discountedPrice * 100) / 100,
+        discountPercent,
+        hasNexarPlusDiscount: user.subscription?.active && !!game.nexarPlusDiscount,
+      });
+    } catch (error) {
+      console.error("Get price error:", error);
+      res.status(500).json({ message: "Failed to get price" });
+    }
+  });
+
+  // ========================================
+  // DEVELOPER PROGRAMME ROUTES
+  // ========================================
+
+  app.post("/api/developer/apply", authMiddleware, async (req, res) => {
+    try {
+      const { studioName, contactEmail, website, description } = req.body;
+
+      if (!studioName || !contactEmail || !description) {
+        return res.status(400).json({ message: "Studio name, contact email, and description are required" });
+      }
+
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+
+      if (user.developerProfile?.status === "pending") {
+        return res.status(400).json({ message: "You already have a pending application" });
+      }
+
+      if (user.developerProfile?.status === "approved") {
+        return res.status(400).json({ message: "You are already an approved developer" });
+      }
+
+      const developerProfile = {
+        studioName,
+        contactEmail,
+        website: website || "",
+        description,
+        status: "pending",
+      };
+
+      const currentProfile = userResult.rows[0].developer_profile || {};
+      await query(
+        "UPDATE users SET developer_profile = $1 WHERE id = $2",
+        [{ ...currentProfile, ...developerProfile }, req.user.userId]
+      );
+
+      res.json({ success: true, message: "Application submitted successfully" });
+    } catch (error) {
+      console.error("Developer apply error:", error);
+      res.status(500).json({ message: "Failed to submit application" });
+    }
+  });
+
+  app.get("/api/developer/status", authMiddleware, async (req, res) => {
+    try {
       const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
       if (userResult.rows.length === 0) {
         return res.status(404).json({ message: "User not found" });
       }
 
-      const user = dbUserToApiUser(userResult.rows[0]);
-      const stripe = await getUncachableStripeClient();
-      
-      const baseUrl = process.env.RAILWAY_PUBLIC_DOMAIN 
-        ? `https://${process.env.RAILWAY_PUBLIC_DOMAIN}`
-        : process.env.REPLIT_DOMAINS?.split(',')[0] 
-          ? `https://${process.env.REPLIT_DOMAINS.split(',')[0]}`
-          : 'http://localhost:5000';
+      const user = dbUserToApiUser(userResult.rows[0]);
+
+      res.json({
+        role: user.role || "user",
+        developerProfile: toDeveloperProfile(userResult.rows[0].developer_profile),
+      });
+    } catch (error) {
+      console.error("Developer status error:", error);
+      res.status(500).json({ message: "Failed to get developer status" });
+    }
+  });
+
+  app.get("/api/admin/developer/applications", authMiddleware, async (req, res) => {
+    try {
+      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const applicationsResult = await query(
+        "SELECT * FROM users WHERE developer_profile->>'status' = 'pending'"
+      );
 
-      const session = await stripe.checkout.sessions.create({
-        payment_method_types: ['card'],
-        line_items: [{
-          price_data: {
-            currency: 'gbp',
-            product_data: {
-              name: 'NexarOS Wallet Funds',
-              description: `Add £${amount} to your NexarOS wallet`,
-            },
-            unit_amount: amount * 100,
-          },
-          quantity: 1,
-        }],
-        mode: 'payment',
-        success_url: `${baseUrl}/wallet?success=true&session_id={CHECKOUT_SESSION_ID}`,
-        cancel_url: `${baseUrl}/wallet?canceled=true`,
-        metadata: {
+      const applications = applicationsResult.rows.map(row => {
+        const user = toAdminUser(row);
+        return {
           userId: user.id,
-          type: 'wallet_deposit',
-          amount: amount.toString(),
-        },
+          username: user.username,
+          email: user.email,
+          developerProfile: user.developerProfile,
+          createdAt: user.createdAt,
+        };
       });
 
-      res.json({ url: session.url, sessionId: session.id });
+      res.json(applications);
     } catch (error) {
-      console.error("Checkout error:", error);
-      res.status(500).json({ message: "Failed to create checkout session" });
+      console.error("Get applications error:", error);
+      res.status(500).json({ message: "Failed to get applications" });
     }
   });
 
-  app.post("/api/wallet/verify-payment", authMiddleware, async (req, res) => {
+  app.post("/api/admin/developer/approve", authMiddleware, async (req, res) => {
     try {
-      const { sessionId } = req.body;
-      
-      if (!sessionId) {
-        return res.status(400).json({ message: "Session ID is required" });
+      const { userId } = req.body;
+
+      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
       }
 
-      const existingResult = await query(
-        "SELECT * FROM wallet_transactions WHERE reference_id = $1",
-        [sessionId]
-      );
-      if (existingResult.rows.length > 0) {
-        return res.json({ message: "Payment already processed", balance: parseFloat(existingResult.rows[0].amount) });
+      if (!userId) {
+        return res.status(400).json({ message: "User ID is required" });
       }
 
-      const stripe = await getUncachableStripeClient();
-      const session = await stripe.checkout.sessions.retrieve(sessionId);
+      const targetResult = await query("SELECT * FROM users WHERE id = $1", [userId]);
+      if (targetResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
 
-      if (session.payment_status !== 'paid') {
-        return res.status(400).json({ message: "Payment not completed" });
+      const targetUser = dbUserToApiUser(targetResult.rows[0]);
+
+      if (!targetUser.developerProfile) {
+        return res.status(400).json({ message: "User has no developer application" });
       }
 
-      if (session.metadata?.userId !== req.user.userId) {
-        return res.status(403).json({ message: "Unauthorized" });
+      const currentProfile = targetResult.rows[0].developer_profile || {};
+      await query(
+        "UPDATE users SET role = 'developer', developer_profile = $1 WHERE id = $2",
+        [{ ...currentProfile, status: "approved" }, userId]
+      );
+
+      res.json({ success: true, message: "Developer approved" });
+    } catch (error) {
+      console.error("Approve developer error:", error);
+      res.status(500).json({ message: "Failed to approve developer" });
+    }
+  });
+
+  app.post("/api/admin/developer/reject", authMiddleware, async (req, res) => {
+    try {
+      const { userId } = req.body;
+
+      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
       }
 
-      const amount = parseInt(session.metadata?.amount || '0');
-      if (amount <= 0) {
-        return res.status(400).json({ message: "Invalid amount" });
+      if (!userId) {
+        return res.status(400).json({ message: "User ID is required" });
+      }
+
+      const targetResult = await query("SELECT * FROM users WHERE id = $1", [userId]);
+      if (targetResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const targetUser = dbUserToApiUser(targetResult.rows[0]);
+
+      if (!targetUser.developerProfile) {
+        return res.status(400).json({ message: "User has no developer application" });
       }
 
+      const currentProfile = targetResult.rows[0].developer_profile || {};
+      await query(
+        "UPDATE users SET developer_profile = $1 WHERE id = $2",
+        [{ ...currentProfile, status: "rejected" }, userId]
+      );
+
+      res.json({ success: true, message: "Developer rejected" });
+    } catch (error) {
+      console.error("Reject developer error:", error);
+      res.status(500).json({ message: "Failed to reject developer" });
+    }
+  });
+
+  // ========================================
+  // DEVELOPER GAME ROUTES
+  // ========================================
+
+  // Every uploaded build version, newest first, as developer_games rows don't track them
+  const DEVELOPER_GAME_VERSIONS_SQL = `
+    ARRAY(SELECT b.version FROM game_builds b WHERE b.game_id = 'dev-' || d.game_id ORDER BY b.created_at DESC) AS versions
+  `;
+
+  app.post("/api/developer/game/create", authMiddleware, async (req, res) => {
+    try {
+      const { title, description, price, genre, tags, coverImage, contentRating } = req.body;
+
       const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
       if (userResult.rows.length === 0) {
         return res.status(404).json({ message: "User not found" });
       }
 
       const user = dbUserToApiUser(userResult.rows[0]);
-      const newBalance = (user.walletBalance || 0) + amount;
-      
-      await query(
-        "UPDATE users SET wallet_balance = $1 WHERE id = $2",
-        [newBalance, user.id]
-      );
 
+      if (user.role !== "developer" || user.developerProfile?.status !== "approved") {
+        return res.status(403).json({ message: "Only approved developers can create games" });
+      }
+
+      if (!title || !description || typeof price !== "number" || !genre) {
+        return res.status(400).json({ message: "Title, description, price, and genre are required" });
+      }
+
+      if (contentRating && !VALID_CONTENT_RATINGS.includes(contentRating)) {
+        return res.status(400).json({ message: `Content rating must be one of: ${VALID_CONTENT_RATINGS.join(", ")}` });
+      }
+
+      const gameId = uuidv4();
       await query(
-        `INSERT INTO wallet_transactions (id, user_id, amount, type, description, reference_id, created_at)
-         VALUES ($1, $2, $3, $4, $5, $6, NOW())`,
-        [uuidv4(), user.id, amount, "deposit", `Added £${amount} to wallet`, sessionId]
+        `INSERT INTO developer_games (id, game_id, developer_id, title, description, genre, tags, price, cover_image, content_rating, status, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'draft', NOW(), NOW())`,
+        [uuidv4(), gameId, user.id, title, description, genre, tags || [], price, coverImage || "", contentRating || "E"]
       );
 
-      res.json({ message: "Payment verified", balance: newBalance });
+      const gameResult = await query("SELECT * FROM developer_games WHERE game_id = $1", [gameId]);
+      const game = dbDevGameToApiDevGame(gameResult.rows[0]);
+
+      res.json({ success: true, game });
     } catch (error) {
-      console.error("Payment verification error:", error);
-      res.status(500).json({ message: "Failed to verify payment" });
+      console.error("Create game error:", error);
+      res.status(500).json({ message: "Failed to create game" });
     }
   });
 
-  app.post("/api/wallet/purchase-game", authMiddleware, async (req, res) => {
+  app.post("/api/developer/game/update", authMiddleware, async (req, res) => {
     try {
-      const { gameId } = req.body;
-      
+      const { gameId, title, description, price, genre, tags, coverImage, contentRating } = req.body;
+
       if (!gameId) {
         return res.status(400).json({ message: "Game ID is required" });
       }
 
-      const gameData = GAME_CATALOG[gameId];
-      if (!gameData) {
-        return res.status(404).json({ message: "Game not found in catalog" });
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = dbUserToApiUser(userResult.rows[0]);
+
+      const gameResult = await query("SELECT * FROM developer_games WHERE game_id = $1", [gameId]);
+      if (gameResult.rows.length === 0) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      const game = dbDevGameToApiDevGame(gameResult.rows[0]);
+
+      if (game.developerId !== user.id) {
+        return res.status(403).json({ message: "You can only edit your own games" });
       }
 
-      const gameName = gameData.name;
+      const updates = ["updated_at = NOW()"];
+      const values = [];
+      let paramIndex = 1;
+
+      if (title) {
+        updates.push(`title = $${paramIndex++}`);
+        values.push(title);
+      }
+      if (description) {
+        updates.push(`description = $${paramIndex++}`);
+        values.push(description);
+      }
+      if (typeof price === "number") {
+        updates.push(`price = $${paramIndex++}`);
+        values.push(price);
+      }
+      if (genre) {
+        updates.push(`genre = $${paramIndex++}`);
+        values.push(genre);
+      }
+      if (tags) {
+        updates.push(`tags = $${paramIndex++}`);
+        values.push(tags);
+      }
+      if (coverImage !== undefined) {
+        updates.push(`cover_image = $${paramIndex++}`);
+        values.push(coverImage);
+      }
+      if (contentRating) {
+        if (!VALID_CONTENT_RATINGS.includes(contentRating)) {
+          return res.status(400).json({ message: `Content rating must be one of: ${VALID_CONTENT_RATINGS.join(", ")}` });
+        }
+        updates.push(`content_rating = $${paramIndex++}`);
+        values.push(contentRating);
+      }
+
+      values.push(gameId);
+      const updateResult = await query(
+        `UPDATE developer_games SET ${updates.join(", ")} WHERE game_id = $${paramIndex} RETURNING *`,
+        values
+      );
+
+      const updatedGame = dbDevGameToApiDevGame(updateResult.rows[0]);
+
+      res.json({ success: true, game: updatedGame });
+    } catch (error) {
+      console.error("Update game error:", error);
+      res.status(500).json({ message: "Failed to update game" });
+    }
+  });
+
+  app.post("/api/developer/game/submitForReview", authMiddleware, async (req, res) => {
+    try {
+      const { gameId } = req.body;
+
+      if (!gameId) {
+        return res.status(400).json({ message: "Game ID is required" });
+      }
 
       const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
       if (userResult.rows.length === 0) {
@@ -1307,107 +4649,63 @@ async function registerRoutes(httpServer, app) {
 
       const user = dbUserToApiUser(userResult.rows[0]);
 
-      if ((user.ownedGames || []).includes(gameId)) {
-        return res.status(400).json({ message: "You already own this game" });
-      }
-
-      let finalPrice = gameData.price;
-      let discountApplied = 0;
-      
-      if (user.subscription?.active && gameData.nexarPlusDiscount) {
-        discountApplied = gameData.nexarPlusDiscount;
-        finalPrice = gameData.price * (1 - discountApplied / 100);
-        finalPrice = Math.round(finalPrice * 100) / 100;
+      const gameResult = await query("SELECT * FROM developer_games WHERE game_id = $1", [gameId]);
+      if (gameResult.rows.length === 0) {
+        return res.status(404).json({ message: "Game not found" });
       }
 
-      if ((user.walletBalance || 0) < finalPrice) {
-        return res.status(400).json({ message: "Insufficient wallet balance" });
+      const game = dbDevGameToApiDevGame(gameResult.rows[0]);
+
+      if (game.developerId !== user.id) {
+        return res.status(403).json({ message: "You can only submit your own games" });
       }
 
-      const newBalance = (user.walletBalance || 0) - finalPrice;
-      const newOwnedGames = [...(user.ownedGames || []), gameId];
-      
-      await query(
-        "UPDATE users SET wallet_balance = $1, owned_games = $2 WHERE id = $3",
-        [newBalance, newOwnedGames, user.id]
-      );
+      if (game.status !== "draft" && game.status !== "rejected") {
+        return res.status(400).json({ message: "Only draft or rejected games can be submitted for review" });
+      }
 
-      const discountText = discountApplied > 0 ? ` (${discountApplied}% Nexar+ discount)` : "";
       await query(
-        `INSERT INTO wallet_transactions (id, user_id, amount, type, description, reference_id, created_at)
-         VALUES ($1, $2, $3, $4, $5, $6, NOW())`,
-        [uuidv4(), user.id, -finalPrice, "purchase", `Purchased ${gameName}${discountText}`, gameId]
+        "UPDATE developer_games SET status = 'pending', updated_at = NOW() WHERE game_id = $1",
+        [gameId]
       );
 
-      res.json({ 
-        message: "Game purchased successfully", 
-        balance: newBalance,
-        ownedGames: newOwnedGames,
-        discountApplied,
-        originalPrice: gameData.price,
-        finalPrice,
-      });
+      res.json({ success: true, message: "Game submitted for review" });
     } catch (error) {
-      console.error("Purchase error:", error);
-      res.status(500).json({ message: "Failed to purchase game" });
+      console.error("Submit for review error:", error);
+      res.status(500).json({ message: "Failed to submit for review" });
     }
   });
 
-  // ==================== PARENTAL CONTROLS ROUTES ====================
-
-  const getDefaultParentalControls = () => ({
-    enabled: false,
-    parentPin: "",
-    playtimeLimit: null,
-    canMakePurchases: true,
-    restrictedRatings: [],
-    requiresParentApproval: false,
-    dailyPlaytimeLog: {
-      date: new Date().toISOString().split("T")[0],
-      minutesPlayed: 0,
-    },
-  });
-
-  app.post("/api/parental/enable", authMiddleware, async (req, res) => {
+  app.get("/api/developer/games", authMiddleware, async (req, res) => {
     try {
-      const { pin } = req.body;
-
-      if (!pin || typeof pin !== "string" || pin.length < 4 || pin.length > 8 || !/^\d+$/.test(pin)) {
-        return res.status(400).json({ message: "PIN must be 4-8 digits" });
-      }
-
       const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
       if (userResult.rows.length === 0) {
         return res.status(404).json({ message: "User not found" });
       }
 
-      const hashedPin = await bcrypt.hash(pin, 10);
-      const parentalControls = {
-        ...getDefaultParentalControls(),
-        enabled: true,
-        parentPin: hashedPin,
-      };
+      const user = dbUserToApiUser(userResult.rows[0]);
 
-      const currentProfile = userResult.rows[0].developer_profile || {};
-      await query(
-        "UPDATE users SET developer_profile = $1 WHERE id = $2",
-        [{ ...currentProfile, parentalControls }, req.user.userId]
+      if (user.role !== "developer" || user.developerProfile?.status !== "approved") {
+        return res.status(403).json({ message: "Only approved developers can view their games" });
+      }
+
+      const gamesResult = await query(
+        `SELECT d.*, ${DEVELOPER_GAME_VERSIONS_SQL} FROM developer_games d WHERE d.developer_id = $1`,
+        [user.id]
       );
 
-      res.json({ message: "Parental controls enabled" });
+      const games = gamesResult.rows.map(dbDevGameToApiDevGame);
+
+      res.json(games);
     } catch (error) {
-      console.error("Enable parental controls error:", error);
-      res.status(500).json({ message: "Failed to enable parental controls" });
+      console.error("Get developer games error:", error);
+      res.status(500).json({ message: "Failed to get games" });
     }
   });
 
-  app.post("/api/parental/disable", authMiddleware, async (req, res) => {
+  app.get("/api/developer/game/:gameId", authMiddleware, async (req, res) => {
     try {
-      const { pin } = req.body;
-
-      if (!pin) {
-        return res.status(400).json({ message: "PIN is required" });
-      }
+      const { gameId } = req.params;
 
       const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
       if (userResult.rows.length === 0) {
@@ -1415,847 +4713,1592 @@ async function registerRoutes(httpServer, app) {
       }
 
       const user = dbUserToApiUser(userResult.rows[0]);
-      if (!user.parentalControls?.enabled) {
-        return res.status(400).json({ message: "Parental controls not enabled" });
-      }
 
-      const validPin = await bcrypt.compare(pin, user.parentalControls.parentPin);
-      if (!validPin) {
-        return res.status(401).json({ message: "Invalid PIN" });
+      const gameResult = await query(
+        `SELECT d.*, ${DEVELOPER_GAME_VERSIONS_SQL} FROM developer_games d WHERE d.game_id = $1`,
+        [gameId]
+      );
+      if (gameResult.rows.length === 0) {
+        return res.status(404).json({ message: "Game not found" });
       }
 
-      const currentProfile = userResult.rows[0].developer_profile || {};
-      await query(
-        "UPDATE users SET developer_profile = $1 WHERE id = $2",
-        [{ ...currentProfile, parentalControls: getDefaultParentalControls() }, req.user.userId]
-      );
+      const game = dbDevGameToApiDevGame(gameResult.rows[0]);
 
-      res.json({ message: "Parental controls disabled" });
+      if (game.developerId !== user.id) {
+        return res.status(403).json({ message: "You can only view your own games" });
+      }
+
+      res.json(game);
     } catch (error) {
-      console.error("Disable parental controls error:", error);
-      res.status(500).json({ message: "Failed to disable parental controls" });
+      console.error("Get game error:", error);
+      res.status(500).json({ message: "Failed to get game" });
     }
   });
 
-  app.post("/api/parental/verifyPin", authMiddleware, async (req, res) => {
+  // ==================== GAME ACHIEVEMENT ROUTES ====================
+
+  const MAX_GAME_ACHIEVEMENTS = 100;
+  const MAX_GAME_ACHIEVEMENT_POINTS = 1000;
+
+  // Looks up a developer game for editing and sends the 404/403 itself when
+  // the caller doesn't own it
+  async function getOwnDeveloperGame(req, res) {
+    const gameResult = await query("SELECT * FROM developer_games WHERE game_id = $1", [req.params.gameId]);
+    if (gameResult.rows.length === 0) {
+      res.status(404).json({ message: "Game not found" });
+      return null;
+    }
+    if (gameResult.rows[0].developer_id !== req.user.userId) {
+      res.status(403).json({ message: "You can only edit your own games" });
+      return null;
+    }
+    return gameResult.rows[0];
+  }
+
+  // The same check as middleware, for multipart routes: it runs ahead of multer
+  // so nothing is written to disk for a game the caller doesn't own. The game
+  // row is left on req.developerGame.
+  async function requireOwnDeveloperGame(req, res, next) {
     try {
-      const { pin } = req.body;
+      const game = await getOwnDeveloperGame(req, res);
+      if (!game) return;
+      req.developerGame = game;
+      next();
+    } catch (error) {
+      console.error("Developer game check error:", error);
+      res.status(500).json({ message: "Failed to check game ownership" });
+    }
+  }
 
-      if (!pin) {
-        return res.status(400).json({ valid: false });
+  // Form fields arrive as strings because the icon is sent as multipart
+  function parseGameAchievementFields(body, { partial }) {
+    const fields = {};
+    if (body.name !== undefined || !partial) {
+      const name = typeof body.name === "string" ? body.name.trim() : "";
+      if (!name || name.length > 100) return { error: "Name must be between 1 and 100 characters" };
+      fields.name = name;
+    }
+    if (body.description !== undefined) {
+      const description = String(body.description).trim();
+      if (description.length > 500) return { error: "Description must be 500 characters or fewer" };
+      fields.description = description;
+    }
+    if (body.hidden !== undefined) {
+      fields.hidden = body.hidden === true || body.hidden === "true";
+    }
+    if (body.points !== undefined) {
+      const points = Number(body.points);
+      if (!Number.isInteger(points) || points < 0 || points > MAX_GAME_ACHIEVEMENT_POINTS) {
+        return { error: `Points must be a whole number between 0 and ${MAX_GAME_ACHIEVEMENT_POINTS}` };
       }
+      fields.points = points;
+    }
+    return { fields };
+  }
 
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(400).json({ valid: false });
-      }
+  app.get("/api/developer/game/:gameId/achievements", authMiddleware, async (req, res) => {
+    try {
+      const game = await getOwnDeveloperGame(req, res);
+      if (!game) return;
 
-      const user = dbUserToApiUser(userResult.rows[0]);
-      if (!user.parentalControls?.enabled) {
-        return res.status(400).json({ valid: false });
-      }
+      const achievementsResult = await query(
+        "SELECT * FROM game_achievements WHERE game_id = $1 ORDER BY sort_order ASC, created_at ASC",
+        [game.game_id]
+      );
 
-      const validPin = await bcrypt.compare(pin, user.parentalControls.parentPin);
-      res.json({ valid: validPin });
+      res.json(achievementsResult.rows.map(dbGameAchievementToApiGameAchievement));
     } catch (error) {
-      console.error("Verify PIN error:", error);
-      res.status(500).json({ valid: false });
+      console.error("Get game achievements error:", error);
+      res.status(500).json({ message: "Failed to get achievements" });
     }
   });
 
-  const VALID_CONTENT_RATINGS = ["E", "T", "M", "18+"];
-  
-  const LEGACY_RATING_MAP = {
-    "Mature": "M",
-    "Teen": "T",
-    "Everyone": "E",
-    "7+": "E",
-    "12+": "T",
-    "16+": "M",
+  // Icons live alongside avatars; anything else in icon_url is an external URL
+  const removeAchievementIcon = (iconUrl) => {
+    if (iconUrl?.startsWith("/uploads/avatars/")) {
+      fs.unlink(path.join(process.cwd(), "uploads/avatars", path.basename(iconUrl)), () => {});
+    }
   };
 
-  const normalizeRatings = (ratings) => {
-    const normalized = ratings.map(r => LEGACY_RATING_MAP[r] || r);
-    return [...new Set(normalized.filter(r => VALID_CONTENT_RATINGS.includes(r)))];
-  };
+  app.post("/api/developer/game/:gameId/achievements", authMiddleware, requireOwnDeveloperGame, uploadAvatar.single("icon"), async (req, res) => {
+    try {
+      const game = req.developerGame;
 
-  app.post("/api/parental/updateSettings", authMiddleware, async (req, res) => {
+      const { fields, error } = parseGameAchievementFields(req.body, { partial: false });
+      if (error) {
+        discardUpload(req);
+        return res.status(400).json({ message: error });
+      }
+
+      const countResult = await query(
+        "SELECT COUNT(*) AS count FROM game_achievements WHERE game_id = $1",
+        [game.game_id]
+      );
+      const count = parseInt(countResult.rows[0].count);
+      if (count >= MAX_GAME_ACHIEVEMENTS) {
+        discardUpload(req);
+        return res.status(400).json({ message: `Games can have at most ${MAX_GAME_ACHIEVEMENTS} achievements` });
+      }
+
+      const insertResult = await query(
+        `INSERT INTO game_achievements (id, game_id, name, description, icon_url, hidden, points, sort_order)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [
+          uuidv4(), game.game_id, fields.name, fields.description || "",
+          req.file ? `/uploads/avatars/${req.file.filename}` : null,
+          fields.hidden || false, fields.points ?? 10, count,
+        ]
+      );
+
+      res.status(201).json(dbGameAchievementToApiGameAchievement(insertResult.rows[0]));
+    } catch (error) {
+      discardUpload(req);
+      console.error("Create game achievement error:", error);
+      res.status(500).json({ message: "Failed to create achievement" });
+    }
+  });
+
+  app.patch("/api/developer/game/:gameId/achievements/:achievementId", authMiddleware, requireOwnDeveloperGame, uploadAvatar.single("icon"), async (req, res) => {
     try {
-      const { pin, playtimeLimit, canMakePurchases, restrictedRatings, requiresParentApproval } = req.body;
+      const game = req.developerGame;
 
-      if (!pin) {
-        return res.status(400).json({ message: "PIN is required" });
+      const { achievementId } = req.params;
+      if (!isUuid(achievementId)) {
+        discardUpload(req);
+        return res.status(404).json({ message: "Achievement not found" });
       }
 
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
+      const { fields, error } = parseGameAchievementFields(req.body, { partial: true });
+      if (error) {
+        discardUpload(req);
+        return res.status(400).json({ message: error });
       }
 
-      const user = dbUserToApiUser(userResult.rows[0]);
-      if (!user.parentalControls?.enabled) {
-        return res.status(400).json({ message: "Parental controls not enabled" });
+      const updates = ["updated_at = NOW()"];
+      const values = [];
+      let paramIndex = 1;
+
+      for (const [field, value] of Object.entries(fields)) {
+        updates.push(`${field} = $${paramIndex++}`);
+        values.push(value);
+      }
+      if (req.file) {
+        updates.push(`icon_url = $${paramIndex++}`);
+        values.push(`/uploads/avatars/${req.file.filename}`);
       }
 
-      const validPin = await bcrypt.compare(pin, user.parentalControls.parentPin);
-      if (!validPin) {
-        return res.status(401).json({ message: "Invalid PIN" });
+      values.push(achievementId, game.game_id);
+      const updateResult = await query(
+        `UPDATE game_achievements a SET ${updates.join(", ")}
+         FROM (
+           SELECT id, icon_url FROM game_achievements
+           WHERE id = $${paramIndex++} AND game_id = $${paramIndex}
+           FOR UPDATE
+         ) prev
+         WHERE a.id = prev.id
+         RETURNING a.*, prev.icon_url AS previous_icon_url`,
+        values
+      );
+
+      if (updateResult.rows.length === 0) {
+        discardUpload(req);
+        return res.status(404).json({ message: "Achievement not found" });
       }
 
-      const updates = {};
-      if (playtimeLimit !== undefined) updates.playtimeLimit = playtimeLimit;
-      if (canMakePurchases !== undefined) updates.canMakePurchases = canMakePurchases;
-      if (restrictedRatings !== undefined) {
-        updates.restrictedRatings = normalizeRatings(restrictedRatings);
+      if (req.file) {
+        removeAchievementIcon(updateResult.rows[0].previous_icon_url);
       }
-      if (requiresParentApproval !== undefined) updates.requiresParentApproval = requiresParentApproval;
 
-      const newParentalControls = { ...user.parentalControls, ...updates };
-      const currentProfile = userResult.rows[0].developer_profile || {};
-      await query(
-        "UPDATE users SET developer_profile = $1 WHERE id = $2",
-        [{ ...currentProfile, parentalControls: newParentalControls }, req.user.userId]
-      );
-      
-      res.json({ message: "Settings updated", parentalControls: newParentalControls });
+      res.json(dbGameAchievementToApiGameAchievement(updateResult.rows[0]));
     } catch (error) {
-      console.error("Update parental settings error:", error);
-      res.status(500).json({ message: "Failed to update settings" });
+      discardUpload(req);
+      console.error("Update game achievement error:", error);
+      res.status(500).json({ message: "Failed to update achievement" });
     }
   });
 
-  app.get("/api/parental/status", authMiddleware, async (req, res) => {
+  app.delete("/api/developer/game/:gameId/achievements/:achievementId", authMiddleware, async (req, res) => {
     try {
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
-      }
+      const game = await getOwnDeveloperGame(req, res);
+      if (!game) return;
 
-      const user = dbUserToApiUser(userResult.rows[0]);
-      const parentalControls = user.parentalControls || getDefaultParentalControls();
-      
-      const today = new Date().toISOString().split("T")[0];
-      if (parentalControls.dailyPlaytimeLog?.date !== today) {
-        parentalControls.dailyPlaytimeLog = { date: today, minutesPlayed: 0 };
+      const { achievementId } = req.params;
+      const deleteResult = isUuid(achievementId)
+        ? await query(
+            "DELETE FROM game_achievements WHERE id = $1 AND game_id = $2 RETURNING icon_url",
+            [achievementId, game.game_id]
+          )
+        : { rows: [] };
+
+      if (deleteResult.rows.length === 0) {
+        return res.status(404).json({ message: "Achievement not found" });
       }
 
-      parentalControls.restrictedRatings = normalizeRatings(parentalControls.restrictedRatings || []);
+      removeAchievementIcon(deleteResult.rows[0].icon_url);
 
-      const { parentPin, ...safeControls } = parentalControls;
-      res.json(safeControls);
+      res.json({ success: true });
     } catch (error) {
-      console.error("Get parental status error:", error);
-      res.status(500).json({ message: "Failed to get status" });
+      console.error("Delete game achievement error:", error);
+      res.status(500).json({ message: "Failed to delete achievement" });
     }
   });
 
-  app.post("/api/parental/checkAccess", authMiddleware, async (req, res) => {
+  // ==================== LEADERBOARD ROUTES ====================
+
+  const MAX_GAME_LEADERBOARDS = 20;
+  const LEADERBOARD_PAGE_SIZE = 50;
+  const LEADERBOARD_AROUND_RADIUS = 5;
+  const LEADERBOARD_VIEWS = ["global", "friends", "around"];
+
+  function parseLeaderboardFields(body, { partial }) {
+    const fields = {};
+    if (body.name !== undefined || !partial) {
+      const name = typeof body.name === "string" ? body.name.trim() : "";
+      if (!name || name.length > 100) return { error: "Name must be between 1 and 100 characters" };
+      fields.name = name;
+    }
+    if (body.sortOrder !== undefined) {
+      if (!LEADERBOARD_SORT_ORDERS.includes(body.sortOrder)) {
+        return { error: `Sort order must be one of: ${LEADERBOARD_SORT_ORDERS.join(", ")}` };
+      }
+      fields.sort_order = body.sortOrder;
+    }
+    if (body.scoreFormat !== undefined) {
+      if (!LEADERBOARD_SCORE_FORMATS.includes(body.scoreFormat)) {
+        return { error: `Score format must be one of: ${LEADERBOARD_SCORE_FORMATS.join(", ")}` };
+      }
+      fields.score_format = body.scoreFormat;
+    }
+    if (body.resetPeriod !== undefined) {
+      if (!LEADERBOARD_RESET_PERIODS.includes(body.resetPeriod)) {
+        return { error: `Reset period must be one of: ${LEADERBOARD_RESET_PERIODS.join(", ")}` };
+      }
+      fields.reset_period = body.resetPeriod;
+    }
+    return { fields };
+  }
+
+  // Ranks the current period of a leaderboard. Ties share a rank; the friends
+  // view ranks the viewer against their friends only. Returns the requested
+  // entries plus the viewer's own row, if they have one.
+  async function queryLeaderboard(leaderboard, viewerId, view) {
+    const period = getLeaderboardPeriod(leaderboard.reset_period);
+    const direction = leaderboard.sort_order === "asc" ? "ASC" : "DESC";
+    const friendsFilter = view === "friends"
+      ? `AND (e.user_id = $3 OR e.user_id IN (
+           SELECT CASE WHEN f.sender_id = $3 THEN f.receiver_id ELSE f.sender_id END
+           FROM friends f
+           WHERE f.status = 'accepted' AND (f.sender_id = $3 OR f.receiver_id = $3)
+         ))`
+      : "";
+    const windowFilter = view === "around"
+      ? `position BETWEEN (SELECT position FROM ranked WHERE user_id = $3) - $4
+                      AND (SELECT position FROM ranked WHERE user_id = $3) + $4`
+      : "position <= $4 OR user_id = $3";
+    const size = view === "around" ? LEADERBOARD_AROUND_RADIUS : LEADERBOARD_PAGE_SIZE;
+
+    const rankedResult = await query(
+      `WITH ranked AS (
+         SELECT e.user_id, e.score, e.submitted_at, u.username, u.avatar_url,
+                RANK() OVER (ORDER BY e.score ${direction}) AS rank,
+                ROW_NUMBER() OVER (ORDER BY e.score ${direction}, e.submitted_at ASC) AS position
+         FROM leaderboard_entries e
+         JOIN users u ON u.id = e.user_id
+         WHERE e.leaderboard_id = $1 AND e.period_start = $2 ${friendsFilter}
+       )
+       SELECT * FROM ranked
+       WHERE ${windowFilter}
+       ORDER BY position ASC`,
+      [leaderboard.id, period.start, viewerId, size]
+    );
+
+    const rows = rankedResult.rows.map(row => ({
+      rank: parseInt(row.rank),
+      position: parseInt(row.position),
+      userId: row.user_id,
+      username: row.username,
+      avatarUrl: row.avatar_url || "",
+      score: Number(row.score),
+      submittedAt: row.submitted_at,
+      isMe: row.user_id === viewerId,
+    }));
+    const me = rows.find(row => row.isMe) || null;
+    const entries = view === "around" ? rows : rows.filter(row => row.position <= size);
+
+    return {
+      periodStart: period.start,
+      resetsAt: period.resetsAt,
+      entries: entries.map(({ position, ...entry }) => entry),
+      me: me ? { rank: me.rank, score: me.score, submittedAt: me.submittedAt } : null,
+    };
+  }
+
+  app.get("/api/developer/game/:gameId/leaderboards", authMiddleware, async (req, res) => {
     try {
-      const { gameId, rating, gameRating } = req.body;
-      const rawRating = gameRating || rating;
-      const contentRating = rawRating ? (LEGACY_RATING_MAP[rawRating] || rawRating) : null;
+      const game = await getOwnDeveloperGame(req, res);
+      if (!game) return;
+
+      const leaderboardsResult = await query(
+        "SELECT * FROM leaderboards WHERE game_id = $1 ORDER BY created_at ASC",
+        [game.game_id]
+      );
+
+      res.json(leaderboardsResult.rows.map(dbLeaderboardToApiLeaderboard));
+    } catch (error) {
+      console.error("Get developer leaderboards error:", error);
+      res.status(500).json({ message: "Failed to get leaderboards" });
+    }
+  });
 
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
-      }
+  app.post("/api/developer/game/:gameId/leaderboards", authMiddleware, async (req, res) => {
+    try {
+      const game = await getOwnDeveloperGame(req, res);
+      if (!game) return;
 
-      const user = dbUserToApiUser(userResult.rows[0]);
-      const parentalControls = user.parentalControls;
-      
-      if (!parentalControls?.enabled) {
-        return res.json({ allowed: true });
+      const { fields, error } = parseLeaderboardFields(req.body, { partial: false });
+      if (error) {
+        return res.status(400).json({ message: error });
       }
 
-      const normalizedRestrictedRatings = normalizeRatings(parentalControls.restrictedRatings || []);
-      if (contentRating && normalizedRestrictedRatings.includes(contentRating)) {
-        return res.json({ allowed: false, reason: `This game is rated ${contentRating} which is restricted` });
+      const countResult = await query("SELECT COUNT(*) AS count FROM leaderboards WHERE game_id = $1", [game.game_id]);
+      if (parseInt(countResult.rows[0].count) >= MAX_GAME_LEADERBOARDS) {
+        return res.status(400).json({ message: `Games can have at most ${MAX_GAME_LEADERBOARDS} leaderboards` });
       }
 
-      const today = new Date().toISOString().split("T")[0];
-      if (parentalControls.playtimeLimit !== null) {
-        let minutesPlayed = parentalControls.dailyPlaytimeLog?.minutesPlayed || 0;
-        if (parentalControls.dailyPlaytimeLog?.date !== today) {
-          minutesPlayed = 0;
-        }
-        if (minutesPlayed >= parentalControls.playtimeLimit) {
-          return res.json({ 
-            allowed: false, 
-            reason: `Daily playtime limit of ${parentalControls.playtimeLimit} minutes reached` 
-          });
-        }
-      }
+      const insertResult = await query(
+        `INSERT INTO leaderboards (id, game_id, name, sort_order, score_format, reset_period)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [
+          uuidv4(), game.game_id, fields.name,
+          fields.sort_order || "desc", fields.score_format || "number", fields.reset_period || "all_time",
+        ]
+      );
 
-      res.json({ allowed: true });
+      res.status(201).json(dbLeaderboardToApiLeaderboard(insertResult.rows[0]));
     } catch (error) {
-      console.error("Check access error:", error);
-      res.status(500).json({ message: "Failed to check access" });
+      console.error("Create leaderboard error:", error);
+      res.status(500).json({ message: "Failed to create leaderboard" });
     }
   });
 
-  app.post("/api/parental/override", authMiddleware, async (req, res) => {
+  app.patch("/api/developer/game/:gameId/leaderboards/:leaderboardId", authMiddleware, async (req, res) => {
     try {
-      const { pin } = req.body;
+      const game = await getOwnDeveloperGame(req, res);
+      if (!game) return;
 
-      if (!pin) {
-        return res.status(400).json({ message: "PIN is required" });
+      const { leaderboardId } = req.params;
+      const existingResult = isUuid(leaderboardId)
+        ? await query("SELECT * FROM leaderboards WHERE id = $1 AND game_id = $2", [leaderboardId, game.game_id])
+        : { rows: [] };
+      if (existingResult.rows.length === 0) {
+        return res.status(404).json({ message: "Leaderboard not found" });
       }
 
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
+      const { fields, error } = parseLeaderboardFields(req.body, { partial: true });
+      if (error) {
+        return res.status(400).json({ message: error });
       }
 
-      const user = dbUserToApiUser(userResult.rows[0]);
-      if (!user.parentalControls?.enabled) {
-        return res.status(400).json({ message: "Parental controls not enabled" });
+      // Stored entries are each player's best under the old ordering
+      if (fields.sort_order && fields.sort_order !== existingResult.rows[0].sort_order) {
+        const entriesResult = await query("SELECT 1 FROM leaderboard_entries WHERE leaderboard_id = $1 LIMIT 1", [leaderboardId]);
+        if (entriesResult.rows.length > 0) {
+          return res.status(409).json({ message: "Sort order can't change once scores have been submitted" });
+        }
       }
 
-      const validPin = await bcrypt.compare(pin, user.parentalControls.parentPin);
-      if (!validPin) {
-        return res.status(401).json({ message: "Invalid PIN" });
+      const updates = ["updated_at = NOW()"];
+      const values = [];
+      let paramIndex = 1;
+      for (const [field, value] of Object.entries(fields)) {
+        updates.push(`${field} = $${paramIndex++}`);
+        values.push(value);
       }
 
-      res.json({ allowed: true });
+      values.push(leaderboardId);
+      const updateResult = await query(
+        `UPDATE leaderboards SET ${updates.join(", ")} WHERE id = $${paramIndex} RETURNING *`,
+        values
+      );
+
+      res.json(dbLeaderboardToApiLeaderboard(updateResult.rows[0]));
     } catch (error) {
-      console.error("Override error:", error);
-      res.status(500).json({ message: "Failed to verify override" });
+      console.error("Update leaderboard error:", error);
+      res.status(500).json({ message: "Failed to update leaderboard" });
     }
   });
 
-  app.post("/api/parental/logPlaytime", authMiddleware, async (req, res) => {
+  app.delete("/api/developer/game/:gameId/leaderboards/:leaderboardId", authMiddleware, async (req, res) => {
     try {
-      const { minutes } = req.body;
+      const game = await getOwnDeveloperGame(req, res);
+      if (!game) return;
 
-      if (typeof minutes !== "number" || minutes < 0) {
-        return res.status(400).json({ message: "Invalid minutes" });
-      }
+      const { leaderboardId } = req.params;
+      const deleteResult = isUuid(leaderboardId)
+        ? await query("DELETE FROM leaderboards WHERE id = $1 AND game_id = $2 RETURNING id", [leaderboardId, game.game_id])
+        : { rows: [] };
 
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
+      if (deleteResult.rows.length === 0) {
+        return res.status(404).json({ message: "Leaderboard not found" });
       }
 
-      const user = dbUserToApiUser(userResult.rows[0]);
-      const parentalControls = user.parentalControls || getDefaultParentalControls();
-      const today = new Date().toISOString().split("T")[0];
-
-      if (parentalControls.dailyPlaytimeLog?.date !== today) {
-        parentalControls.dailyPlaytimeLog = { date: today, minutesPlayed: 0 };
-      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete leaderboard error:", error);
+      res.status(500).json({ message: "Failed to delete leaderboard" });
+    }
+  });
 
-      parentalControls.dailyPlaytimeLog.minutesPlayed += minutes;
-      
-      const currentProfile = userResult.rows[0].developer_profile || {};
-      await query(
-        "UPDATE users SET developer_profile = $1 WHERE id = $2",
-        [{ ...currentProfile, parentalControls }, req.user.userId]
+  app.get("/api/games/:gameId/leaderboards", authMiddleware, async (req, res) => {
+    try {
+      const leaderboardsResult = await query(
+        "SELECT * FROM leaderboards WHERE 'dev-' || game_id = $1 ORDER BY created_at ASC",
+        [req.params.gameId]
       );
 
-      res.json({ 
-        minutesPlayed: parentalControls.dailyPlaytimeLog.minutesPlayed,
-        limit: parentalControls.playtimeLimit,
-      });
+      res.json(leaderboardsResult.rows.map(dbLeaderboardToApiLeaderboard));
     } catch (error) {
-      console.error("Log playtime error:", error);
-      res.status(500).json({ message: "Failed to log playtime" });
+      console.error("Get game leaderboards error:", error);
+      res.status(500).json({ message: "Failed to get leaderboards" });
     }
   });
 
-  app.post("/api/parental/checkPurchase", authMiddleware, async (req, res) => {
+  app.get("/api/leaderboards/:leaderboardId", authMiddleware, async (req, res) => {
     try {
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
-      }
-
-      const user = dbUserToApiUser(userResult.rows[0]);
-      const parentalControls = user.parentalControls;
-      
-      if (!parentalControls?.enabled) {
-        return res.json({ allowed: true, requiresApproval: false });
-      }
+      const { leaderboardId } = req.params;
+      const view = req.query.view || "global";
 
-      if (!parentalControls.canMakePurchases) {
-        return res.json({ allowed: false, reason: "Purchases are disabled by parental controls" });
+      if (!LEADERBOARD_VIEWS.includes(view)) {
+        return res.status(400).json({ message: `View must be one of: ${LEADERBOARD_VIEWS.join(", ")}` });
       }
 
-      if (parentalControls.requiresParentApproval) {
-        return res.json({ allowed: true, requiresApproval: true });
+      const leaderboardResult = isUuid(leaderboardId)
+        ? await query("SELECT * FROM leaderboards WHERE id = $1", [leaderboardId])
+        : { rows: [] };
+      if (leaderboardResult.rows.length === 0) {
+        return res.status(404).json({ message: "Leaderboard not found" });
       }
+      const leaderboard = leaderboardResult.rows[0];
 
-      res.json({ allowed: true, requiresApproval: false });
+      res.json({
+        leaderboard: dbLeaderboardToApiLeaderboard(leaderboard),
+        view,
+        ...(await queryLeaderboard(leaderboard, req.user.userId, view)),
+      });
     } catch (error) {
-      console.error("Check purchase error:", error);
-      res.status(500).json({ message: "Failed to check purchase permission" });
+      console.error("Get leaderboard error:", error);
+      res.status(500).json({ message: "Failed to get leaderboard" });
     }
   });
 
-  // ==================== NEXAR+ SUBSCRIPTION ROUTES ====================
+  // ==================== GAME MEDIA ROUTES ====================
 
-  app.get("/api/subscription/status", authMiddleware, async (req, res) => {
-    try {
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
-      }
+  const MAX_MEDIA_DIMENSION = 7680;
 
-      const user = dbUserToApiUser(userResult.rows[0]);
+  // A cover is replaced by the next cover upload; the other kinds are lists
+  const GAME_MEDIA_RULES = {
+    cover: { label: "Cover art", minWidth: 1280, minHeight: 720, aspectRatio: 16 / 9, max: 1 },
+    screenshot: { label: "Screenshots", minWidth: 1280, minHeight: 720, max: 20 },
+    trailer_thumbnail: { label: "Trailer thumbnails", minWidth: 1280, minHeight: 720, aspectRatio: 16 / 9, max: 5 },
+  };
 
-      res.json({
-        active: user.subscription?.active || false,
-        renewalDate: user.subscription?.renewalDate || "",
-        stripeSubscriptionId: user.subscription?.stripeSubscriptionId || "",
-      });
+  const validateGameMediaImage = (rules, image) => {
+    if (!image || !IMAGE_CONTENT_TYPES.includes(image.contentType)) {
+      return "Only JPEG, PNG, GIF, and WebP images are allowed";
+    }
+    if (image.width < rules.minWidth || image.height < rules.minHeight) {
+      return `${rules.label} must be at least ${rules.minWidth}x${rules.minHeight} (got ${image.width}x${image.height})`;
+    }
+    if (image.width > MAX_MEDIA_DIMENSION || image.height > MAX_MEDIA_DIMENSION) {
+      return `Images can be at most ${MAX_MEDIA_DIMENSION} pixels on either side`;
+    }
+    // Allow a couple of percent either way for sizes like 1366x768
+    if (rules.aspectRatio && Math.abs(image.width / image.height - rules.aspectRatio) / rules.aspectRatio > 0.02) {
+      return `${rules.label} must have a 16:9 aspect ratio (got ${image.width}x${image.height})`;
+    }
+    return null;
+  };
+
+  const removeMediaFile = (row) => {
+    if (row?.file_path) fs.unlink(row.file_path, () => {});
+  };
+
+  // Mirrors uploaded media onto the listing columns the store reads. A cover
+  // URL pasted before uploads existed is left alone until one is uploaded.
+  const syncDeveloperGameMedia = async (gameId) => {
+    await query(
+      `UPDATE developer_games SET
+         screenshots = ARRAY(
+           SELECT url FROM developer_game_media
+           WHERE game_id = $1 AND kind = 'screenshot'
+           ORDER BY sort_order, created_at
+         ),
+         cover_image = COALESCE(
+           (SELECT url FROM developer_game_media WHERE game_id = $1 AND kind = 'cover' LIMIT 1),
+           CASE WHEN cover_image LIKE '/uploads/media/%' THEN '' ELSE cover_image END
+         ),
+         updated_at = NOW()
+       WHERE game_id = $1`,
+      [gameId]
+    );
+  };
+
+  app.get("/api/developer/game/:gameId/media", authMiddleware, async (req, res) => {
+    try {
+      const game = await getOwnDeveloperGame(req, res);
+      if (!game) return;
+
+      const mediaResult = await query(
+        "SELECT * FROM developer_game_media WHERE game_id = $1 ORDER BY kind, sort_order, created_at",
+        [game.game_id]
+      );
+      res.json(mediaResult.rows.map(dbGameMediaToApiGameMedia));
     } catch (error) {
-      console.error("Get subscription status error:", error);
-      res.status(500).json({ message: "Failed to get subscription status" });
+      console.error("Get game media error:", error);
+      res.status(500).json({ message: "Failed to get media" });
     }
   });
 
-  app.post("/api/subscription/create-checkout", authMiddleware, async (req, res) => {
+  app.post("/api/developer/game/:gameId/media", authMiddleware, requireOwnDeveloperGame, uploadGameMedia.single("media"), async (req, res) => {
     try {
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
-      }
+      const game = req.developerGame;
 
-      const user = dbUserToApiUser(userResult.rows[0]);
+      const { kind } = req.body;
+      const rules = GAME_MEDIA_RULES[kind];
+      if (!rules) {
+        discardUpload(req);
+        return res.status(400).json({ message: `Kind must be one of: ${Object.keys(GAME_MEDIA_RULES).join(", ")}` });
+      }
 
-      if (user.subscription?.active) {
-        return res.status(400).json({ message: "Already subscribed to Nexar+" });
+      if (!req.file) {
+        return res.status(400).json({ message: "No image uploaded" });
       }
 
-      const stripe = await getUncachableStripeClient();
-      
-      const baseUrl = process.env.RAILWAY_PUBLIC_DOMAIN 
-        ? `https://${process.env.RAILWAY_PUBLIC_DOMAIN}`
-        : process.env.REPLIT_DOMAINS?.split(',')[0] 
-          ? `https://${process.env.REPLIT_DOMAINS.split(',')[0]}`
-          : 'http://localhost:5000';
+      const videoUrl = kind === "trailer_thumbnail" ? String(req.body.videoUrl || "").trim() : "";
+      if (videoUrl && !/^https:\/\/\S+$/.test(videoUrl)) {
+        discardUpload(req);
+        return res.status(400).json({ message: "Trailer link must be an https URL" });
+      }
 
-      let customerId = user.subscription?.stripeCustomerId;
-      if (!customerId) {
-        const customer = await stripe.customers.create({
-          email: user.email,
-          metadata: { userId: user.id },
-        });
-        customerId = customer.id;
+      const image = await readImageInfo(req.file.path);
+      const imageError = validateGameMediaImage(rules, image);
+      if (imageError) {
+        discardUpload(req);
+        return res.status(400).json({ message: imageError });
       }
 
-      const session = await stripe.checkout.sessions.create({
-        customer: customerId,
-        payment_method_types: ['card'],
-        line_items: [{
-          price_data: {
-            currency: NEXAR_PLUS_CURRENCY,
-            product_data: {
-              name: 'Nexar+ Subscription',
-              description: 'Monthly subscription with exclusive benefits',
-            },
-            unit_amount: Math.round(NEXAR_PLUS_PRICE * 100),
-            recurring: { interval: 'month' },
-          },
-          quantity: 1,
-        }],
-        mode: 'subscription',
-        success_url: `${baseUrl}/nexar-plus?success=true&session_id={CHECKOUT_SESSION_ID}`,
-        cancel_url: `${baseUrl}/nexar-plus?canceled=true`,
-        metadata: {
-          userId: user.id,
-          type: 'nexar_plus_subscription',
-        },
-      });
+      const existingResult = await query(
+        "SELECT * FROM developer_game_media WHERE game_id = $1 AND kind = $2",
+        [game.game_id, kind]
+      );
+      if (kind !== "cover" && existingResult.rows.length >= rules.max) {
+        discardUpload(req);
+        return res.status(400).json({ message: `${rules.label} are limited to ${rules.max} per game` });
+      }
+
+      const insertResult = await query(
+        `INSERT INTO developer_game_media
+           (game_id, kind, url, file_path, content_type, width, height, size_bytes, video_url, sort_order)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING *`,
+        [
+          game.game_id, kind, `/uploads/media/${req.file.filename}`, req.file.path, image.contentType,
+          image.width, image.height, req.file.size, videoUrl || null,
+          kind === "cover" ? 0 : existingResult.rows.length,
+        ]
+      );
 
-      res.json({ url: session.url, sessionId: session.id });
+      if (kind === "cover") {
+        await query(
+          "DELETE FROM developer_game_media WHERE game_id = $1 AND kind = 'cover' AND id <> $2",
+          [game.game_id, insertResult.rows[0].id]
+        );
+        existingResult.rows.forEach(removeMediaFile);
+      }
+      await syncDeveloperGameMedia(game.game_id);
+
+      res.status(201).json(dbGameMediaToApiGameMedia(insertResult.rows[0]));
     } catch (error) {
-      console.error("Subscription checkout error:", error);
-      res.status(500).json({ message: "Failed to create subscription checkout" });
+      console.error("Upload game media error:", error);
+      discardUpload(req);
+      res.status(500).json({ message: "Failed to upload media" });
     }
   });
 
-  app.post("/api/subscription/verify", authMiddleware, async (req, res) => {
+  // Takes the full list of ids for one kind in their new order
+  app.patch("/api/developer/game/:gameId/media/order", authMiddleware, async (req, res) => {
     try {
-      const { sessionId } = req.body;
-      
-      if (!sessionId) {
-        return res.status(400).json({ message: "Session ID is required" });
-      }
-
-      const stripe = await getUncachableStripeClient();
-      const session = await stripe.checkout.sessions.retrieve(sessionId);
+      const game = await getOwnDeveloperGame(req, res);
+      if (!game) return;
 
-      if (session.metadata?.userId !== req.user.userId) {
-        return res.status(403).json({ message: "Unauthorized" });
+      const { kind, ids } = req.body;
+      if (!GAME_MEDIA_RULES[kind] || !Array.isArray(ids)) {
+        return res.status(400).json({ message: "Kind and an ordered list of media ids are required" });
       }
 
-      if (session.status !== 'complete') {
-        return res.status(400).json({ message: "Payment not completed" });
+      const existingResult = await query(
+        "SELECT id FROM developer_game_media WHERE game_id = $1 AND kind = $2",
+        [game.game_id, kind]
+      );
+      const existingIds = new Set(existingResult.rows.map(row => row.id));
+      if (ids.length !== existingIds.size || new Set(ids).size !== ids.length || !ids.every(id => existingIds.has(id))) {
+        return res.status(400).json({ message: "The order must list every item of this kind exactly once" });
       }
 
-      const subscriptionId = session.subscription;
-      const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+      const updateResult = await query(
+        `UPDATE developer_game_media m SET sort_order = o.position - 1
+         FROM unnest($2::uuid[]) WITH ORDINALITY AS o(id, position)
+         WHERE m.id = o.id AND m.game_id = $1
+         RETURNING m.*`,
+        [game.game_id, ids]
+      );
+      await syncDeveloperGameMedia(game.game_id);
 
-      const renewalDate = new Date(subscription.current_period_end * 1000).toISOString();
+      res.json(
+        updateResult.rows
+          .sort((a, b) => a.sort_order - b.sort_order)
+          .map(dbGameMediaToApiGameMedia)
+      );
+    } catch (error) {
+      console.error("Reorder game media error:", error);
+      res.status(500).json({ message: "Failed to reorder media" });
+    }
+  });
 
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      const currentProfile = userResult.rows[0].developer_profile || {};
-      
+  app.delete("/api/developer/game/:gameId/media/:mediaId", authMiddleware, async (req, res) => {
+    try {
+      const game = await getOwnDeveloperGame(req, res);
+      if (!game) return;
+
+      const { mediaId } = req.params;
+      const deleteResult = isUuid(mediaId)
+        ? await query(
+            "DELETE FROM developer_game_media WHERE id = $1 AND game_id = $2 RETURNING *",
+            [mediaId, game.game_id]
+          )
+        : { rows: [] };
+      if (deleteResult.rows.length === 0) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+      const deleted = deleteResult.rows[0];
+
+      // Close the gap the deleted item left
       await query(
-        "UPDATE users SET developer_profile = $1 WHERE id = $2",
-        [{
-          ...currentProfile,
-          subscription: {
-            active: true,
-            renewalDate,
-            stripeCustomerId: session.customer,
-            stripeSubscriptionId: subscriptionId,
-          }
-        }, req.user.userId]
+        `UPDATE developer_game_media SET sort_order = sort_order - 1
+         WHERE game_id = $1 AND kind = $2 AND sort_order > $3`,
+        [game.game_id, deleted.kind, deleted.sort_order]
       );
+      await syncDeveloperGameMedia(game.game_id);
+      removeMediaFile(deleted);
 
-      res.json({ 
-        success: true, 
-        subscription: {
-          active: true,
-          renewalDate,
-        }
-      });
+      res.json({ success: true });
     } catch (error) {
-      console.error("Subscription verify error:", error);
-      res.status(500).json({ message: "Failed to verify subscription" });
+      console.error("Delete game media error:", error);
+      res.status(500).json({ message: "Failed to delete media" });
+    }
+  });
+
+  // ==================== GAME API KEY ROUTES ====================
+
+  const MAX_ACTIVE_API_KEYS = 10;
+
+  function parseApiKeyFields(body) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > 100) return { error: "Name must be between 1 and 100 characters" };
+
+    const scopes = Array.isArray(body.scopes) ? [...new Set(body.scopes)] : [];
+    if (scopes.length === 0 || !scopes.every(scope => API_KEY_SCOPES.includes(scope))) {
+      return { error: `Scopes must be one or more of: ${API_KEY_SCOPES.join(", ")}` };
+    }
+    return { fields: { name, scopes } };
+  }
+
+  const API_KEY_INSERT_ATTEMPTS = 5;
+
+  // Prefixes are short enough to display, so a fresh key can land on one that's
+  // already taken; that just means drawing another
+  const insertApiKey = async (gameId, { name, scopes }, createdBy, rotatedFrom = null) => {
+    for (let attempt = 1; ; attempt++) {
+      const { key, prefix, hash } = generateApiKey();
+      try {
+        const insertResult = await query(
+          `INSERT INTO game_api_keys (game_id, name, key_prefix, key_hash, scopes, created_by, rotated_from)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)
+           RETURNING *`,
+          [gameId, name, prefix, hash, scopes, createdBy, rotatedFrom]
+        );
+        // The full key is only ever returned here; afterwards just the prefix is shown
+        return { ...dbApiKeyToApiApiKey(insertResult.rows[0]), key };
+      } catch (error) {
+        if (error.code !== UNIQUE_VIOLATION || attempt >= API_KEY_INSERT_ATTEMPTS) throw error;
+      }
+    }
+  };
+
+  app.get("/api/developer/game/:gameId/keys", authMiddleware, async (req, res) => {
+    try {
+      const game = await getOwnDeveloperGame(req, res);
+      if (!game) return;
+
+      const keysResult = await query(
+        "SELECT * FROM game_api_keys WHERE game_id = $1 ORDER BY revoked_at IS NOT NULL, created_at DESC",
+        [game.game_id]
+      );
+      res.json({ scopes: API_KEY_SCOPES, keys: keysResult.rows.map(dbApiKeyToApiApiKey) });
+    } catch (error) {
+      console.error("Get API keys error:", error);
+      res.status(500).json({ message: "Failed to get API keys" });
     }
   });
 
-  app.post("/api/subscription/cancel", authMiddleware, async (req, res) => {
+  app.post("/api/developer/game/:gameId/keys", authMiddleware, async (req, res) => {
     try {
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
-      }
-
-      const user = dbUserToApiUser(userResult.rows[0]);
+      const game = await getOwnDeveloperGame(req, res);
+      if (!game) return;
 
-      if (!user.subscription?.active || !user.subscription.stripeSubscriptionId) {
-        return res.status(400).json({ message: "No active subscription to cancel" });
+      const { fields, error } = parseApiKeyFields(req.body);
+      if (error) {
+        return res.status(400).json({ message: error });
       }
 
-      const stripe = await getUncachableStripeClient();
-      await stripe.subscriptions.cancel(user.subscription.stripeSubscriptionId);
-
-      const currentProfile = userResult.rows[0].developer_profile || {};
-      await query(
-        "UPDATE users SET developer_profile = $1 WHERE id = $2",
-        [{
-          ...currentProfile,
-          subscription: {
-            ...user.subscription,
-            active: false,
-          }
-        }, req.user.userId]
+      const countResult = await query(
+        "SELECT COUNT(*) AS count FROM game_api_keys WHERE game_id = $1 AND revoked_at IS NULL",
+        [game.game_id]
       );
+      if (parseInt(countResult.rows[0].count) >= MAX_ACTIVE_API_KEYS) {
+        return res.status(400).json({ message: `Games can have at most ${MAX_ACTIVE_API_KEYS} active API keys` });
+      }
 
-      res.json({ success: true, message: "Subscription cancelled successfully" });
+      res.status(201).json(await insertApiKey(game.game_id, fields, req.user.userId));
     } catch (error) {
-      console.error("Cancel subscription error:", error);
-      res.status(500).json({ message: "Failed to cancel subscription" });
+      console.error("Create API key error:", error);
+      res.status(500).json({ message: "Failed to create API key" });
     }
   });
 
-  // ==================== GAME TRIAL ROUTES ====================
-
-  app.get("/api/games/metadata", (req, res) => {
-    res.json(GAME_CATALOG);
+  // Issues a replacement with the same name and scopes and revokes the old key
+  app.post("/api/developer/game/:gameId/keys/:keyId/rotate", authMiddleware, async (req, res) => {
+    try {
+      const game = await getOwnDeveloperGame(req, res);
+      if (!game) return;
+
+      const { keyId } = req.params;
+      const revokeResult = isUuid(keyId)
+        ? await query(
+            `UPDATE game_api_keys SET revoked_at = NOW()
+             WHERE id = $1 AND game_id = $2 AND revoked_at IS NULL
+             RETURNING *`,
+            [keyId, game.game_id]
+          )
+        : { rows: [] };
+      if (revokeResult.rows.length === 0) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+      const previous = revokeResult.rows[0];
+
+      res.status(201).json(
+        await insertApiKey(game.game_id, { name: previous.name, scopes: previous.scopes }, req.user.userId, previous.id)
+      );
+    } catch (error) {
+      console.error("Rotate API key error:", error);
+      res.status(500).json({ message: "Failed to rotate API key" });
+    }
   });
 
-  app.post("/api/games/trial/check", authMiddleware, async (req, res) => {
+  app.delete("/api/developer/game/:gameId/keys/:keyId", authMiddleware, async (req, res) => {
     try {
-      const { gameId } = req.body;
-      
-      if (!gameId) {
-        return res.status(400).json({ message: "Game ID is required" });
-      }
-
-      const game = GAME_CATALOG[gameId];
-      if (!game) {
-        return res.status(404).json({ message: "Game not found" });
+      const game = await getOwnDeveloperGame(req, res);
+      if (!game) return;
+
+      const { keyId } = req.params;
+      const revokeResult = isUuid(keyId)
+        ? await query(
+            `UPDATE game_api_keys SET revoked_at = NOW()
+             WHERE id = $1 AND game_id = $2 AND revoked_at IS NULL
+             RETURNING id`,
+            [keyId, game.game_id]
+          )
+        : { rows: [] };
+      if (revokeResult.rows.length === 0) {
+        return res.status(404).json({ message: "API key not found" });
       }
 
-      if (!game.trialEnabled) {
-        return res.json({ allowed: false, reason: "Trial not available for this game" });
-      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Revoke API key error:", error);
+      res.status(500).json({ message: "Failed to revoke API key" });
+    }
+  });
 
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
+  app.get("/api/admin/games/pending", authMiddleware, async (req, res) => {
+    try {
+      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
       }
 
-      const user = dbUserToApiUser(userResult.rows[0]);
-
-      if (!user.subscription?.active) {
-        return res.json({ allowed: false, reason: "Nexar+ subscription required for game trials" });
-      }
+      const pendingGamesResult = await query(
+        "SELECT * FROM developer_games WHERE status = 'pending'"
+      );
 
-      const trialData = user.trialUsage?.[gameId];
-      if (trialData?.expired) {
-        return res.json({ allowed: false, reason: "Trial expired - purchase to continue playing" });
+      const developerIds = [...new Set(pendingGamesResult.rows.map(g => g.developer_id))];
+      let developersMap = {};
+      
+      if (developerIds.length > 0) {
+        const developersResult = await query(
+          "SELECT * FROM users WHERE id = ANY($1)",
+          [developerIds]
+        );
+        developersResult.rows.forEach(row => {
+          const dev = dbUserToApiUser(row);
+          developersMap[dev.id] = dev;
+        });
       }
 
-      const minutesPlayed = trialData?.minutesPlayed || 0;
-      const trialDuration = game.trialDurationMinutes || 120;
-      const minutesRemaining = trialDuration - minutesPlayed;
-
-      res.json({ 
-        allowed: true, 
-        minutesRemaining,
-        minutesPlayed,
-        trialDuration,
+      const gamesWithDeveloper = pendingGamesResult.rows.map(row => {
+        const game = dbDevGameToApiDevGame(row);
+        const developer = developersMap[game.developerId];
+        return {
+          ...game,
+          developerName: developer?.developerProfile?.studioName || developer?.username || "Unknown",
+        };
       });
+
+      res.json(gamesWithDeveloper);
     } catch (error) {
-      console.error("Trial check error:", error);
-      res.status(500).json({ message: "Failed to check trial status" });
+      console.error("Get pending games error:", error);
+      res.status(500).json({ message: "Failed to get pending games" });
     }
   });
 
-  app.post("/api/games/trial/update", authMiddleware, async (req, res) => {
+  app.post("/api/admin/game/approve", authMiddleware, async (req, res) => {
     try {
-      const { gameId, minutesPlayed } = req.body;
-      
-      if (!gameId || typeof minutesPlayed !== "number") {
-        return res.status(400).json({ message: "Game ID and minutes played are required" });
-      }
+      const { gameId } = req.body;
 
-      const game = GAME_CATALOG[gameId];
-      if (!game || !game.trialEnabled) {
-        return res.status(400).json({ message: "Trial not available for this game" });
+      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
       }
 
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
+      if (!gameId) {
+        return res.status(400).json({ message: "Game ID is required" });
       }
 
-      const user = dbUserToApiUser(userResult.rows[0]);
-
-      const currentUsage = user.trialUsage?.[gameId] || { minutesPlayed: 0, expired: false };
-      const newMinutesPlayed = currentUsage.minutesPlayed + minutesPlayed;
-      const trialDuration = game.trialDurationMinutes || 120;
-      const expired = newMinutesPlayed >= trialDuration;
+      const gameResult = await query("SELECT * FROM developer_games WHERE game_id = $1", [gameId]);
+      if (gameResult.rows.length === 0) {
+        return res.status(404).json({ message: "Game not found" });
+      }
 
-      const updatedTrialUsage = {
-        ...(user.trialUsage || {}),
-        [gameId]: {
-          minutesPlayed: newMinutesPlayed,
-          expired,
-        },
-      };
+      const game = dbDevGameToApiDevGame(gameResult.rows[0]);
 
-      const currentProfile = userResult.rows[0].developer_profile || {};
       await query(
-        "UPDATE users SET developer_profile = $1 WHERE id = $2",
-        [{ ...currentProfile, trialUsage: updatedTrialUsage }, req.user.userId]
+        "UPDATE developer_games SET status = 'approved', updated_at = NOW() WHERE game_id = $1",
+        [gameId]
       );
 
-      res.json({ 
-        success: true, 
-        minutesRemaining: Math.max(0, trialDuration - newMinutesPlayed),
-        expired,
-      });
+      await emitEvent(game.developerId, "game.approved");
+
+      res.json({ success: true, message: "Game approved" });
     } catch (error) {
-      console.error("Trial update error:", error);
-      res.status(500).json({ message: "Failed to update trial usage" });
+      console.error("Approve game error:", error);
+      res.status(500).json({ message: "Failed to approve game" });
     }
   });
 
-  app.post("/api/games/nexarplus/check", authMiddleware, async (req, res) => {
+  app.post("/api/admin/game/reject", authMiddleware, async (req, res) => {
     try {
-      const { gameId } = req.body;
-      
+      const { gameId, reason } = req.body;
+
+      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
       if (!gameId) {
         return res.status(400).json({ message: "Game ID is required" });
       }
 
-      const game = GAME_CATALOG[gameId];
-      if (!game) {
+      const gameResult = await query("SELECT * FROM developer_games WHERE game_id = $1", [gameId]);
+      if (gameResult.rows.length === 0) {
         return res.status(404).json({ message: "Game not found" });
       }
 
-      if (!game.inNexarPlusCollection) {
-        return res.json({ allowed: true, isNexarPlusGame: false });
-      }
+      await query(
+        "UPDATE developer_games SET status = 'rejected', updated_at = NOW() WHERE game_id = $1",
+        [gameId]
+      );
 
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
-      }
+      res.json({ success: true, message: "Game rejected" });
+    } catch (error) {
+      console.error("Reject game error:", error);
+      res.status(500).json({ message: "Failed to reject game" });
+    }
+  });
 
-      const user = dbUserToApiUser(userResult.rows[0]);
+  // ==================== MODERATION ROUTES ====================
 
-      if (!user.subscription?.active) {
-        return res.json({ 
-          allowed: false, 
-          isNexarPlusGame: true,
-          reason: "Requires Nexar+ subscription" 
-        });
+  const REPORT_QUEUE_LIMIT = 100;
+
+  // Oldest first so the queue is worked in the order reports arrived
+  app.get("/api/admin/reports", authMiddleware, async (req, res) => {
+    try {
+      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
       }
 
-      res.json({ allowed: true, isNexarPlusGame: true });
+      const status = req.query.status || "open";
+      if (!REPORT_STATUSES.includes(status)) {
+        return res.status(400).json({ message: `Status must be one of: ${REPORT_STATUSES.join(", ")}` });
+      }
+
+      const reportsResult = await query(
+        `SELECT r.*, reporter.username AS reporter_username, target.username AS target_username,
+                (SELECT COUNT(*) FROM user_reports o
+                 WHERE o.target_user_id = r.target_user_id AND o.status = 'open') AS open_reports_against_target
+         FROM user_reports r
+         LEFT JOIN users reporter ON reporter.id = r.reporter_id
+         JOIN users target ON target.id = r.target_user_id
+         WHERE r.status = $1
+         ORDER BY r.created_at ${status === "open" ? "ASC" : "DESC"}
+         LIMIT $2`,
+        [status, REPORT_QUEUE_LIMIT]
+      );
+
+      res.json(reportsResult.rows.map(row => ({
+        ...dbReportToApiReport(row),
+        reporterUsername: row.reporter_username,
+        targetUsername: row.target_username,
+        openReportsAgainstTarget: parseInt(row.open_reports_against_target),
+      })));
     } catch (error) {
-      console.error("Nexar+ check error:", error);
-      res.status(500).json({ message: "Failed to check access" });
+      console.error("Get reports error:", error);
+      res.status(500).json({ message: "Failed to get reports" });
     }
   });
 
-  app.get("/api/games/:gameId/price", authMiddleware, async (req, res) => {
+  app.get("/api/admin/reports/:reportId", authMiddleware, async (req, res) => {
     try {
-      const { gameId } = req.params;
-      
-      const game = GAME_CATALOG[gameId];
-      if (!game) {
-        return res.status(404).json({ message: "Game not found" });
+      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
       }
 
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
+      if (!isUuid(req.params.reportId)) {
+        return res.status(404).json({ message: "Report not found" });
       }
 
-      const user = dbUserToApiUser(userResult.rows[0]);
-
-      const basePrice = game.price;
-      let discountedPrice = basePrice;
-      let discountPercent = 0;
-
-      if (user.subscription?.active && game.nexarPlusDiscount) {
-        discountPercent = game.nexarPlusDiscount;
-        discountedPrice = basePrice * (1 - discountPercent / 100);
+      const reportResult = await query("SELECT * FROM user_reports WHERE id = $1", [req.params.reportId]);
+      if (reportResult.rows.length === 0) {
+        return res.status(404).json({ message: "Report not found" });
       }
+      const report = dbReportToApiReport(reportResult.rows[0]);
+
+      const targetResult = await query("SELECT * FROM users WHERE id = $1", [report.targetUserId]);
+      const historyResult = await query(
+        "SELECT * FROM moderation_actions WHERE user_id = $1 ORDER BY created_at DESC",
+        [report.targetUserId]
+      );
 
       res.json({
-        basePrice,
-        discountedPrice: Math.round(discountedPrice * 100) / 100,
-        discountPercent,
-        hasNexarPlusDiscount: user.subscription?.active && !!game.nexarPlusDiscount,
+        ...report,
+        targetUser: toAdminUser(targetResult.rows[0]),
+        history: historyResult.rows.map(dbModerationActionToApiModerationAction),
       });
     } catch (error) {
-      console.error("Get price error:", error);
-      res.status(500).json({ message: "Failed to get price" });
+      console.error("Get report error:", error);
+      res.status(500).json({ message: "Failed to get report" });
     }
   });
 
-  // ========================================
-  // DEVELOPER PROGRAMME ROUTES
-  // ========================================
-
-  app.post("/api/developer/apply", authMiddleware, async (req, res) => {
+  // Resolves a report. Every action except "dismiss" marks it actioned and is
+  // recorded against the reported user so repeat offenders are visible.
+  app.post("/api/admin/reports/:reportId/actions", authMiddleware, async (req, res) => {
     try {
-      const { studioName, contactEmail, website, description } = req.body;
+      const adminId = req.user.userId;
+      const { action, reason, durationDays } = req.body;
 
-      if (!studioName || !contactEmail || !description) {
-        return res.status(400).json({ message: "Studio name, contact email, and description are required" });
+      const adminResult = await query("SELECT * FROM users WHERE id = $1", [adminId]);
+      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
       }
 
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
+      if (!MODERATION_ACTIONS.includes(action)) {
+        return res.status(400).json({ message: `Action must be one of: ${MODERATION_ACTIONS.join(", ")}` });
       }
-
-      const user = dbUserToApiUser(userResult.rows[0]);
-
-      if (user.developerProfile?.status === "pending") {
-        return res.status(400).json({ message: "You already have a pending application" });
+      const days = Number(durationDays);
+      if (action === "suspend" && (!Number.isInteger(days) || days < 1 || days > MAX_SUSPENSION_DAYS)) {
+        return res.status(400).json({ message: `Suspension must be between 1 and ${MAX_SUSPENSION_DAYS} days` });
       }
 
-      if (user.developerProfile?.status === "approved") {
-        return res.status(400).json({ message: "You are already an approved developer" });
+      if (!isUuid(req.params.reportId)) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      const reportResult = await query("SELECT * FROM user_reports WHERE id = $1", [req.params.reportId]);
+      if (reportResult.rows.length === 0) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      const report = dbReportToApiReport(reportResult.rows[0]);
+      if (report.status !== "open") {
+        return res.status(400).json({ message: "Report already resolved" });
       }
 
-      const developerProfile = {
-        studioName,
-        contactEmail,
-        website: website || "",
-        description,
-        status: "pending",
-      };
+      const actionReason = typeof reason === "string" ? reason.trim() : "";
+      let expiresAt = null;
 
-      const currentProfile = userResult.rows[0].developer_profile || {};
-      await query(
-        "UPDATE users SET developer_profile = $1 WHERE id = $2",
-        [{ ...currentProfile, ...developerProfile }, req.user.userId]
+      if (action === "suspend") {
+        const suspendResult = await query(
+          `UPDATE users SET suspended_until = NOW() + make_interval(days => $1), suspension_reason = $2
+           WHERE id = $3 RETURNING suspended_until`,
+          [days, actionReason || null, report.targetUserId]
+        );
+        expiresAt = suspendResult.rows[0].suspended_until;
+      } else if (action === "clear_avatar") {
+        await query("UPDATE users SET avatar_url = '' WHERE id = $1", [report.targetUserId]);
+      } else if (action === "clear_bio") {
+        await query("UPDATE users SET bio = '' WHERE id = $1", [report.targetUserId]);
+      }
+
+      const actionResult = await query(
+        `INSERT INTO moderation_actions (id, user_id, admin_id, report_id, action, reason, expires_at, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+         RETURNING *`,
+        [uuidv4(), report.targetUserId, adminId, report.id, action, actionReason || null, expiresAt]
       );
 
-      res.json({ success: true, message: "Application submitted successfully" });
+      const resolvedResult = await query(
+        `UPDATE user_reports SET status = $1, resolved_by = $2, resolved_at = NOW()
+         WHERE id = $3 RETURNING *`,
+        [action === "dismiss" ? "dismissed" : "actioned", adminId, report.id]
+      );
+
+      if (action !== "dismiss") {
+        publish(report.targetUserId, "moderation:action", {
+          action,
+          reason: actionReason,
+          expiresAt,
+        });
+      }
+
+      res.json({
+        report: dbReportToApiReport(resolvedResult.rows[0]),
+        action: dbModerationActionToApiModerationAction(actionResult.rows[0]),
+      });
     } catch (error) {
-      console.error("Developer apply error:", error);
-      res.status(500).json({ message: "Failed to submit application" });
+      console.error("Moderation action error:", error);
+      res.status(500).json({ message: "Failed to apply moderation action" });
     }
   });
 
-  app.get("/api/developer/status", authMiddleware, async (req, res) => {
+  app.post("/api/admin/users/:userId/unsuspend", authMiddleware, async (req, res) => {
     try {
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
+      const adminId = req.user.userId;
+
+      const adminResult = await query("SELECT * FROM users WHERE id = $1", [adminId]);
+      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      if (!isUuid(req.params.userId)) {
         return res.status(404).json({ message: "User not found" });
       }
+      const updateResult = await query(
+        `UPDATE users SET suspended_until = NULL, suspension_reason = NULL
+         WHERE id = $1 AND suspended_until > NOW() RETURNING id`,
+        [req.params.userId]
+      );
+      if (updateResult.rows.length === 0) {
+        return res.status(400).json({ message: "User is not suspended" });
+      }
 
-      const user = dbUserToApiUser(userResult.rows[0]);
+      const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+      await query(
+        `INSERT INTO moderation_actions (id, user_id, admin_id, action, reason, created_at)
+         VALUES ($1, $2, $3, 'unsuspend', $4, NOW())`,
+        [uuidv4(), req.params.userId, adminId, reason || null]
+      );
 
-      res.json({
-        role: user.role || "user",
-        developerProfile: user.developerProfile || null,
-      });
+      res.json({ success: true, message: "User unsuspended" });
     } catch (error) {
-      console.error("Developer status error:", error);
-      res.status(500).json({ message: "Failed to get developer status" });
+      console.error("Unsuspend user error:", error);
+      res.status(500).json({ message: "Failed to unsuspend user" });
     }
   });
 
-  app.get("/api/admin/developer/applications", authMiddleware, async (req, res) => {
+  // ==================== STORE ROUTES ====================
+
+  const STORE_PAGE_SIZE = 24;
+
+  const STORE_SORTS = {
+    title: { expression: "LOWER(title)", direction: "ASC", cast: "text" },
+    price_asc: { expression: "price", direction: "ASC", cast: "numeric" },
+    price_desc: { expression: "price", direction: "DESC", cast: "numeric" },
+    rating: { expression: "COALESCE(rating, 0)", direction: "DESC", cast: "numeric" },
+    newest: { expression: "created_at", direction: "DESC", cast: "timestamptz" },
+  };
+
+  // First-party catalog and approved developer games in one shape. Size and
+  // version come from the live build when there is one.
+  const STORE_GAMES_SQL = `
+    SELECT g.id, g.title, g.description, g.genre, g.content_rating, g.rating, g.size, g.cover_url,
+           g.price, g.trial_enabled, g.trial_duration_minutes, g.nexar_plus_discount,
+           g.in_nexar_plus_collection, FALSE AS is_developer_game, NULL AS developer_name, g.created_at,
+           b.size_bytes AS build_size_bytes, b.version AS build_version,
+           '{}'::TEXT[] AS screenshots, '[]'::JSON AS trailers
+    FROM games g
+    LEFT JOIN game_builds b ON b.game_id = g.id AND b.is_live
+    UNION ALL
+    SELECT 'dev-' || d.game_id, d.title, d.description, d.genre, COALESCE(d.content_rating, 'E'), NULL, NULL, d.cover_image,
+           d.price, FALSE, NULL, NULL,
+           FALSE, TRUE, COALESCE(u.developer_profile->>'studioName', u.username), d.created_at,
+           b.size_bytes, b.version,
+           COALESCE(d.screenshots, '{}'),
+           (SELECT COALESCE(JSON_AGG(JSON_BUILD_OBJECT('thumbnailUrl', m.url, 'videoUrl', m.video_url) ORDER BY m.sort_order), '[]')
+            FROM developer_game_media m WHERE m.game_id = d.game_id AND m.kind = 'trailer_thumbnail')
+    FROM developer_games d
+    JOIN users u ON u.id = d.developer_id
+    LEFT JOIN game_builds b ON b.game_id = 'dev-' || d.game_id AND b.is_live
+    WHERE d.status = 'approved'
+  `;
+
+  const encodeStoreCursor = (row) =>
+    Buffer.from(JSON.stringify({ v: row.sort_value, id: row.id })).toString("base64url");
+
+  const decodeStoreCursor = (cursor) => {
     try {
-      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
-        return res.status(403).json({ message: "Admin access required" });
+      const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+      return decoded && decoded.id !== undefined ? decoded : null;
+    } catch {
+      return null;
+    }
+  };
+
+  app.get("/api/store/games", optionalAuthMiddleware, async (req, res) => {
+    try {
+      const { genre, minPrice, maxPrice, contentRating, onSale, nexarPlus, q, cursor } = req.query;
+      const sortKey = req.query.sort || "title";
+      const sort = STORE_SORTS[sortKey];
+      if (!sort) {
+        return res.status(400).json({ message: `Sort must be one of: ${Object.keys(STORE_SORTS).join(", ")}` });
       }
 
-      const applicationsResult = await query(
-        "SELECT * FROM users WHERE developer_profile->>'status' = 'pending'"
+      const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || STORE_PAGE_SIZE, 1), 100);
+      const conditions = [];
+      const values = [];
+      let paramIndex = 1;
+
+      if (genre) {
+        conditions.push(`LOWER(genre) = LOWER($${paramIndex++})`);
+        values.push(genre);
+      }
+      if (minPrice !== undefined && !isNaN(parseFloat(minPrice))) {
+        conditions.push(`price >= $${paramIndex++}`);
+        values.push(parseFloat(minPrice));
+      }
+      if (maxPrice !== undefined && !isNaN(parseFloat(maxPrice))) {
+        conditions.push(`price <= $${paramIndex++}`);
+        values.push(parseFloat(maxPrice));
+      }
+      if (contentRating) {
+        const ratings = normalizeRatings(String(contentRating).split(","));
+        if (ratings.length > 0) {
+          conditions.push(`content_rating = ANY($${paramIndex++})`);
+          values.push(ratings);
+        }
+      }
+      if (onSale === "true") {
+        conditions.push("nexar_plus_discount > 0");
+      }
+      if (nexarPlus === "true") {
+        conditions.push("in_nexar_plus_collection = TRUE");
+      }
+      if (q) {
+        conditions.push(`title ILIKE $${paramIndex++}`);
+        values.push(`%${q}%`);
+      }
+      if (cursor) {
+        const decoded = decodeStoreCursor(cursor);
+        if (!decoded) {
+          return res.status(400).json({ message: "Invalid cursor" });
+        }
+        const comparison = sort.direction === "ASC" ? ">" : "<";
+        conditions.push(`(sort_value, id) ${comparison} ($${paramIndex++}::${sort.cast}, $${paramIndex++})`);
+        values.push(decoded.v, decoded.id);
+      }
+
+      values.push(limit + 1);
+      const result = await query(
+        `SELECT * FROM (
+           SELECT store.*, ${sort.expression} AS sort_value FROM (${STORE_GAMES_SQL}) store
+         ) s
+         ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+         ORDER BY sort_value ${sort.direction}, id ${sort.direction}
+         LIMIT $${paramIndex}`,
+        values
       );
 
-      const applications = applicationsResult.rows.map(row => {
-        const user = dbUserToApiUser(row);
+      let user = null;
+      if (req.user) {
+        const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+        user = dbUserToApiUser(userResult.rows[0]);
+      }
+      const ownedGames = user?.ownedGames || [];
+      const hasNexarPlus = !!user?.subscription?.active;
+
+      const pageRows = result.rows.slice(0, limit);
+      const games = pageRows.map(row => {
+        const game = dbStoreGameToApiStoreGame(row);
+        let finalPrice = game.price;
+        let discountPercent = 0;
+
+        if (hasNexarPlus && game.nexarPlusDiscount) {
+          discountPercent = game.nexarPlusDiscount;
+          finalPrice = Math.round(game.price * (1 - discountPercent / 100) * 100) / 100;
+        }
+
         return {
-          userId: user.id,
-          username: user.username,
-          email: user.email,
-          developerProfile: user.developerProfile,
-          createdAt: user.createdAt,
+          ...game,
+          price: finalPrice,
+          originalPrice: discountPercent > 0 ? game.price : undefined,
+          discountPercent: discountPercent > 0 ? discountPercent : undefined,
+          isOwned: ownedGames.includes(game.id),
         };
       });
 
-      res.json(applications);
+      res.json({
+        games,
+        nextCursor: result.rows.length > limit ? encodeStoreCursor(pageRows[pageRows.length - 1]) : null,
+      });
     } catch (error) {
-      console.error("Get applications error:", error);
-      res.status(500).json({ message: "Failed to get applications" });
+      console.error("Get store games error:", error);
+      res.status(500).json({ message: "Failed to get store games" });
     }
   });
 
-  app.post("/api/admin/developer/approve", authMiddleware, async (req, res) => {
+  app.get("/api/store/categories", async (req, res) => {
     try {
-      const { userId } = req.body;
+      const result = await query(
+        `SELECT genre, COUNT(*)::int AS count FROM (${STORE_GAMES_SQL}) store
+         WHERE genre IS NOT NULL AND genre <> ''
+         GROUP BY genre
+         ORDER BY genre`
+      );
 
-      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
-        return res.status(403).json({ message: "Admin access required" });
-      }
+      res.json(result.rows.map(row => ({
+        id: row.genre.toLowerCase(),
+        label: row.genre,
+        count: row.count,
+      })));
+    } catch (error) {
+      console.error("Get store categories error:", error);
+      res.status(500).json({ message: "Failed to get store categories" });
+    }
+  });
 
-      if (!userId) {
-        return res.status(400).json({ message: "User ID is required" });
-      }
+  // ==================== LIBRARY ROUTES ====================
 
-      const targetResult = await query("SELECT * FROM users WHERE id = $1", [userId]);
-      if (targetResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
+  // Builds the library for a user: owned games, the developer's own published
+  // games, Nexar+ collection games while subscribed, and trials that have been
+  // started and not yet expired.
+  const loadLibrary = async (userRow, deviceId) => {
+    const user = dbUserToApiUser(userRow);
+    const hasNexarPlus = !!user.subscription?.active;
+    const sources = {};
+
+    (user.ownedGames || []).forEach(gameId => {
+      sources[gameId] = "owned";
+    });
+
+    const developerResult = await query(
+      "SELECT 'dev-' || game_id AS id FROM developer_games WHERE developer_id = $1",
+      [user.id]
+    );
+    developerResult.rows.forEach(row => {
+      if (!sources[row.id]) sources[row.id] = "developer";
+    });
+
+    if (hasNexarPlus) {
+      const collectionResult = await query("SELECT id FROM games WHERE in_nexar_plus_collection = TRUE");
+      collectionResult.rows.forEach(row => {
+        if (!sources[row.id]) sources[row.id] = "nexarplus";
+      });
+
+      Object.entries(user.trialUsage || {}).forEach(([gameId, usage]) => {
+        if (!sources[gameId] && !usage.expired) sources[gameId] = "trial";
+      });
+    }
+
+    const gameIds = Object.keys(sources);
+    if (gameIds.length === 0) {
+      return [];
+    }
+
+    const [gamesResult, playtimeResult, installsResult] = await Promise.all([
+      query(`SELECT * FROM (${STORE_GAMES_SQL}) store WHERE id = ANY($1)`, [gameIds]),
+      query("SELECT * FROM game_playtime WHERE user_id = $1 AND game_id = ANY($2)", [user.id, gameIds]),
+      query("SELECT * FROM game_installs WHERE user_id = $1 AND game_id = ANY($2)", [user.id, gameIds]),
+    ]);
+
+    const playtimeMap = {};
+    playtimeResult.rows.forEach(row => {
+      playtimeMap[row.game_id] = row;
+    });
+
+    const installsMap = {};
+    installsResult.rows.forEach(row => {
+      if (!installsMap[row.game_id]) installsMap[row.game_id] = [];
+      installsMap[row.game_id].push({
+        deviceId: row.device_id,
+        deviceName: row.device_name,
+        installedAt: row.installed_at,
+      });
+    });
+
+    return gamesResult.rows.map(row => {
+      const game = dbStoreGameToApiStoreGame(row);
+      const playtime = playtimeMap[game.id];
+      const installedDevices = installsMap[game.id] || [];
+      const source = sources[game.id];
+      const entry = {
+        id: game.id,
+        title: game.title,
+        coverUrl: game.coverUrl,
+        genre: game.genre,
+        rating: game.rating,
+        contentRating: game.contentRating,
+        size: game.size,
+        sizeBytes: game.sizeBytes,
+        version: game.version,
+        screenshots: game.screenshots,
+        trailers: game.trailers,
+        isDeveloperGame: game.isDeveloperGame,
+        isNexarPlusGame: game.isNexarPlusGame,
+        source,
+        playTime: playtime ? Math.floor(Number(playtime.seconds_played) / 60) : 0,
+        lastPlayedAt: playtime?.last_played_at || null,
+        isInstalled: !!deviceId && installedDevices.some(d => d.deviceId === deviceId),
+        installedDevices,
+      };
+
+      if (source === "trial") {
+        const minutesPlayed = user.trialUsage[game.id]?.minutesPlayed || 0;
+        entry.trialMinutesRemaining = Math.max(0, (game.trialMinutes || 120) - minutesPlayed);
       }
 
-      const targetUser = dbUserToApiUser(targetResult.rows[0]);
+      return entry;
+    });
+  };
 
-      if (!targetUser.developerProfile) {
-        return res.status(400).json({ message: "User has no developer application" });
+  app.get("/api/library", authMiddleware, async (req, res) => {
+    try {
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      const currentProfile = targetResult.rows[0].developer_profile || {};
-      await query(
-        "UPDATE users SET role = 'developer', developer_profile = $1 WHERE id = $2",
-        [{ ...currentProfile, status: "approved" }, userId]
-      );
+      const library = await loadLibrary(userResult.rows[0], req.query.deviceId);
+      library.sort((a, b) => a.title.localeCompare(b.title));
 
-      res.json({ success: true, message: "Developer approved" });
+      res.json(library);
     } catch (error) {
-      console.error("Approve developer error:", error);
-      res.status(500).json({ message: "Failed to approve developer" });
+      console.error("Get library error:", error);
+      res.status(500).json({ message: "Failed to get library" });
     }
   });
 
-  app.post("/api/admin/developer/reject", authMiddleware, async (req, res) => {
+  app.post("/api/library/:gameId/install", authMiddleware, async (req, res) => {
     try {
-      const { userId } = req.body;
+      const { gameId } = req.params;
+      const { deviceId, deviceName } = req.body;
 
-      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
-        return res.status(403).json({ message: "Admin access required" });
+      if (!deviceId) {
+        return res.status(400).json({ message: "Device ID is required" });
       }
 
-      if (!userId) {
-        return res.status(400).json({ message: "User ID is required" });
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      const targetResult = await query("SELECT * FROM users WHERE id = $1", [userId]);
-      if (targetResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
+      const library = await loadLibrary(userResult.rows[0], deviceId);
+      if (!library.some(entry => entry.id === gameId)) {
+        return res.status(403).json({ message: "This game is not in your library" });
       }
 
-      const targetUser = dbUserToApiUser(targetResult.rows[0]);
+      await query(
+        `INSERT INTO game_installs (user_id, game_id, device_id, device_name, installed_at)
+         VALUES ($1, $2, $3, $4, NOW())
+         ON CONFLICT (user_id, game_id, device_id)
+         DO UPDATE SET device_name = EXCLUDED.device_name, installed_at = NOW()`,
+        [req.user.userId, gameId, deviceId, deviceName || null]
+      );
 
-      if (!targetUser.developerProfile) {
-        return res.status(400).json({ message: "User has no developer application" });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Install game error:", error);
+      res.status(500).json({ message: "Failed to record install" });
+    }
+  });
+
+  app.delete("/api/library/:gameId/install", authMiddleware, async (req, res) => {
+    try {
+      const { gameId } = req.params;
+      const { deviceId } = req.query;
+
+      if (!deviceId) {
+        return res.status(400).json({ message: "Device ID is required" });
       }
 
-      const currentProfile = targetResult.rows[0].developer_profile || {};
       await query(
-        "UPDATE users SET developer_profile = $1 WHERE id = $2",
-        [{ ...currentProfile, status: "rejected" }, userId]
+        "DELETE FROM game_installs WHERE user_id = $1 AND game_id = $2 AND device_id = $3",
+        [req.user.userId, gameId, deviceId]
       );
 
-      res.json({ success: true, message: "Developer rejected" });
+      res.json({ success: true });
     } catch (error) {
-      console.error("Reject developer error:", error);
-      res.status(500).json({ message: "Failed to reject developer" });
+      console.error("Uninstall game error:", error);
+      res.status(500).json({ message: "Failed to uninstall game" });
     }
   });
 
-  // ========================================
-  // DEVELOPER GAME ROUTES
-  // ========================================
+  // ==================== GAME SESSION ROUTES ====================
 
-  app.post("/api/developer/game/create", authMiddleware, async (req, res) => {
-    try {
-      const { title, description, price, genre, tags, coverImage } = req.body;
+  const SESSION_HEARTBEAT_SECONDS = 60;
+  const SESSION_TIMEOUT_SECONDS = 180;
 
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
+  // Works out whether a user may launch a game right now, and on what basis.
+  const getPlayEntitlement = async (userRow, gameId) => {
+    const library = await loadLibrary(userRow);
+    const entry = library.find(e => e.id === gameId);
+    if (entry) {
+      return { allowed: true, source: entry.source };
+    }
+
+    // A developer can launch their own game before it is published
+    if (typeof gameId === "string" && gameId.startsWith("dev-")) {
+      const ownResult = await query(
+        "SELECT 1 FROM developer_games WHERE 'dev-' || game_id = $1 AND developer_id = $2",
+        [gameId, userRow.id]
+      );
+      if (ownResult.rows.length > 0) {
+        return { allowed: true, source: "developer" };
       }
+    }
 
-      const user = dbUserToApiUser(userResult.rows[0]);
+    const game = await getCatalogGame(gameId);
+    if (!game) {
+      return { allowed: false, reason: "Game not found" };
+    }
 
-      if (user.role !== "developer" || user.developerProfile?.status !== "approved") {
-        return res.status(403).json({ message: "Only approved developers can create games" });
-      }
+    const user = dbUserToApiUser(userRow);
+    if (game.trialEnabled && user.subscription?.active && !user.trialUsage?.[gameId]?.expired) {
+      return { allowed: true, source: "trial" };
+    }
 
-      if (!title || !description || typeof price !== "number" || !genre) {
-        return res.status(400).json({ message: "Title, description, price, and genre are required" });
+    return { allowed: false, reason: "You do not have access to this game" };
+  };
+
+  // Credits elapsed session time to library playtime, the parental daily log
+  // and, for trials, trial consumption.
+  const applySessionTime = async (userId, gameId, source, elapsedSeconds) => {
+    await query(
+      `INSERT INTO game_playtime (user_id, game_id, seconds_played, last_played_at)
+       VALUES ($1, $2, $3, NOW())
+       ON CONFLICT (user_id, game_id)
+       DO UPDATE SET seconds_played = game_playtime.seconds_played + EXCLUDED.seconds_played, last_played_at = NOW()`,
+      [userId, gameId, elapsedSeconds]
+    );
+
+    const userResult = await query("SELECT * FROM users WHERE id = $1", [userId]);
+    const user = dbUserToApiUser(userResult.rows[0]);
+    const currentProfile = userResult.rows[0].developer_profile || {};
+    const elapsedMinutes = elapsedSeconds / 60;
+    const status = { limitReached: false, trialExpired: false };
+    const profileUpdates = {};
+
+    if (user.parentalControls) {
+      const parentalControls = { ...user.parentalControls };
+      const today = new Date().toISOString().split("T")[0];
+      const minutesToday = parentalControls.dailyPlaytimeLog?.date === today
+        ? parentalControls.dailyPlaytimeLog.minutesPlayed
+        : 0;
+
+      parentalControls.dailyPlaytimeLog = {
+        date: today,
+        minutesPlayed: Math.round((minutesToday + elapsedMinutes) * 100) / 100,
+      };
+      profileUpdates.parentalControls = parentalControls;
+
+      if (parentalControls.enabled && parentalControls.playtimeLimit !== null) {
+        status.limitReached = parentalControls.dailyPlaytimeLog.minutesPlayed >= parentalControls.playtimeLimit;
       }
+    }
 
-      const gameId = uuidv4();
+    if (source === "trial") {
+      const game = await getCatalogGame(gameId);
+      const currentUsage = user.trialUsage?.[gameId] || { minutesPlayed: 0, expired: false };
+      const minutesPlayed = Math.round((currentUsage.minutesPlayed + elapsedMinutes) * 100) / 100;
+      const trialDuration = game?.trialDurationMinutes || 120;
+
+      status.trialExpired = minutesPlayed >= trialDuration;
+      status.trialMinutesRemaining = Math.max(0, Math.round((trialDuration - minutesPlayed) * 100) / 100);
+      profileUpdates.trialUsage = {
+        ...(user.trialUsage || {}),
+        [gameId]: { minutesPlayed, expired: status.trialExpired },
+      };
+    }
+
+    if (Object.keys(profileUpdates).length > 0) {
       await query(
-        `INSERT INTO developer_games (id, game_id, developer_id, title, description, genre, tags, price, cover_image, status, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'draft', NOW(), NOW())`,
-        [uuidv4(), gameId, user.id, title, description, genre, tags || [], price, coverImage || ""]
+        "UPDATE users SET developer_profile = $1 WHERE id = $2",
+        [{ ...currentProfile, ...profileUpdates }, userId]
       );
+    }
 
-      const gameResult = await query("SELECT * FROM developer_games WHERE game_id = $1", [gameId]);
-      const game = dbDevGameToApiDevGame(gameResult.rows[0]);
+    return status;
+  };
 
-      res.json({ success: true, game });
+  // Moves last_heartbeat_at to now and returns the seconds elapsed since the
+  // previous heartbeat, capped at the timeout so a gap is never over-credited.
+  const advanceSession = async (sessionId, userId, endReason) => {
+    const result = await query(
+      `WITH prev AS (
+         SELECT id, last_heartbeat_at FROM game_sessions
+         WHERE id = $1 AND user_id = $2 AND ended_at IS NULL
+         FOR UPDATE
+       )
+       UPDATE game_sessions s SET
+         seconds_counted = s.seconds_counted + LEAST(EXTRACT(EPOCH FROM NOW() - prev.last_heartbeat_at), $3)::int,
+         last_heartbeat_at = NOW(),
+         ended_at = CASE WHEN $4::text IS NULL THEN NULL ELSE NOW() END,
+         end_reason = $4::text
+       FROM prev
+       WHERE s.id = prev.id
+       RETURNING s.*, LEAST(EXTRACT(EPOCH FROM NOW() - prev.last_heartbeat_at), $3)::int AS elapsed_seconds`,
+      [sessionId, userId, SESSION_TIMEOUT_SECONDS, endReason || null]
+    );
+    return result.rows[0] || null;
+  };
+
+  const closeStaleSessions = async () => {
+    try {
+      await query(
+        `UPDATE game_sessions SET ended_at = last_heartbeat_at, end_reason = 'timeout'
+         WHERE ended_at IS NULL AND last_heartbeat_at < NOW() - make_interval(secs => $1)`,
+        [SESSION_TIMEOUT_SECONDS]
+      );
     } catch (error) {
-      console.error("Create game error:", error);
-      res.status(500).json({ message: "Failed to create game" });
+      console.error("Close stale sessions error:", error);
     }
-  });
+  };
 
-  app.post("/api/developer/game/update", authMiddleware, async (req, res) => {
+  setInterval(closeStaleSessions, SESSION_HEARTBEAT_SECONDS * 1000).unref();
+
+  app.post("/api/sessions/start", authMiddleware, async (req, res) => {
     try {
-      const { gameId, title, description, price, genre, tags, coverImage } = req.body;
+      const { gameId, deviceId } = req.body;
 
       if (!gameId) {
         return res.status(400).json({ message: "Game ID is required" });
@@ -2266,317 +6309,628 @@ async function registerRoutes(httpServer, app) {
         return res.status(404).json({ message: "User not found" });
       }
 
-      const user = dbUserToApiUser(userResult.rows[0]);
-
-      const gameResult = await query("SELECT * FROM developer_games WHERE game_id = $1", [gameId]);
-      if (gameResult.rows.length === 0) {
-        return res.status(404).json({ message: "Game not found" });
+      const entitlement = await getPlayEntitlement(userResult.rows[0], gameId);
+      if (!entitlement.allowed) {
+        return res.status(403).json({ message: entitlement.reason });
       }
 
-      const game = dbDevGameToApiDevGame(gameResult.rows[0]);
+      const { parentalControls } = dbUserToApiUser(userResult.rows[0]);
+      if (parentalControls?.enabled && parentalControls.playtimeLimit !== null) {
+        const today = new Date().toISOString().split("T")[0];
+        const minutesToday = parentalControls.dailyPlaytimeLog?.date === today
+          ? parentalControls.dailyPlaytimeLog.minutesPlayed
+          : 0;
+        if (minutesToday >= parentalControls.playtimeLimit) {
+          return res.status(403).json({
+            message: `Daily playtime limit of ${parentalControls.playtimeLimit} minutes reached`,
+          });
+        }
+      }
 
-      if (game.developerId !== user.id) {
-        return res.status(403).json({ message: "You can only edit your own games" });
+      // Only one game runs at a time, so a new launch closes anything still open
+      const openResult = await query(
+        "SELECT * FROM game_sessions WHERE user_id = $1 AND ended_at IS NULL",
+        [req.user.userId]
+      );
+      for (const open of openResult.rows) {
+        const closed = await advanceSession(open.id, req.user.userId, "replaced");
+        if (closed && closed.elapsed_seconds > 0) {
+          await applySessionTime(req.user.userId, closed.game_id, closed.source, closed.elapsed_seconds);
+          await awardPlaytimeXp(closed);
+        }
       }
 
-      const updates = ["updated_at = NOW()"];
-      const values = [];
-      let paramIndex = 1;
+      const sessionId = uuidv4();
+      await query(
+        `INSERT INTO game_sessions (id, user_id, game_id, device_id, source, started_at, last_heartbeat_at)
+         VALUES ($1, $2, $3, $4, $5, NOW(), NOW())`,
+        [sessionId, req.user.userId, gameId, deviceId || null, entitlement.source]
+      );
 
-      if (title) {
-        updates.push(`title = $${paramIndex++}`);
-        values.push(title);
-      }
-      if (description) {
-        updates.push(`description = $${paramIndex++}`);
-        values.push(description);
-      }
-      if (typeof price === "number") {
-        updates.push(`price = $${paramIndex++}`);
-        values.push(price);
-      }
-      if (genre) {
-        updates.push(`genre = $${paramIndex++}`);
-        values.push(genre);
+      const status = await applySessionTime(req.user.userId, gameId, entitlement.source, 0);
+
+      res.status(201).json({
+        sessionId,
+        gameId,
+        source: entitlement.source,
+        heartbeatIntervalSeconds: SESSION_HEARTBEAT_SECONDS,
+        ...status,
+      });
+    } catch (error) {
+      console.error("Start session error:", error);
+      res.status(500).json({ message: "Failed to start session" });
+    }
+  });
+
+  app.post("/api/sessions/:sessionId/heartbeat", authMiddleware, async (req, res) => {
+    try {
+      const session = await advanceSession(req.params.sessionId, req.user.userId);
+      if (!session) {
+        return res.status(410).json({ message: "Session has ended" });
       }
-      if (tags) {
-        updates.push(`tags = $${paramIndex++}`);
-        values.push(tags);
+
+      const status = await applySessionTime(req.user.userId, session.game_id, session.source, session.elapsed_seconds);
+      await awardPlaytimeXp(session);
+
+      let ended = false;
+      if (status.trialExpired || status.limitReached) {
+        await query(
+          "UPDATE game_sessions SET ended_at = NOW(), end_reason = $1 WHERE id = $2",
+          [status.trialExpired ? "trial_expired" : "limit_reached", session.id]
+        );
+        ended = true;
       }
-      if (coverImage !== undefined) {
-        updates.push(`cover_image = $${paramIndex++}`);
-        values.push(coverImage);
+
+      res.json({
+        sessionId: session.id,
+        elapsedSeconds: session.elapsed_seconds,
+        totalSeconds: session.seconds_counted,
+        ended,
+        ...status,
+      });
+    } catch (error) {
+      console.error("Session heartbeat error:", error);
+      res.status(500).json({ message: "Failed to record heartbeat" });
+    }
+  });
+
+  app.post("/api/sessions/:sessionId/end", authMiddleware, async (req, res) => {
+    try {
+      const session = await advanceSession(req.params.sessionId, req.user.userId, "ended");
+      if (!session) {
+        return res.status(410).json({ message: "Session has ended" });
       }
 
-      values.push(gameId);
-      const updateResult = await query(
-        `UPDATE developer_games SET ${updates.join(", ")} WHERE game_id = $${paramIndex} RETURNING *`,
-        values
-      );
+      await applySessionTime(req.user.userId, session.game_id, session.source, session.elapsed_seconds);
+      await awardPlaytimeXp(session);
 
-      const updatedGame = dbDevGameToApiDevGame(updateResult.rows[0]);
+      res.json({
+        sessionId: session.id,
+        totalSeconds: session.seconds_counted,
+      });
+    } catch (error) {
+      console.error("End session error:", error);
+      res.status(500).json({ message: "Failed to end session" });
+    }
+  });
 
-      res.json({ success: true, game: updatedGame });
+  // Games unlock their own achievements and post scores while they're running,
+  // so both go through a session that is still open. Both only come through the
+  // API-key game service routes, never a player's own token.
+
+  // Returns null when the achievement doesn't belong to the session's game
+  const unlockSessionAchievement = async (session, achievementId) => {
+    const achievementResult = isUuid(achievementId)
+      ? await query(
+          `SELECT ga.*, d.title AS game_title FROM game_achievements ga
+           JOIN developer_games d ON d.game_id = ga.game_id
+           WHERE ga.id = $1 AND 'dev-' || ga.game_id = $2`,
+          [achievementId, session.game_id]
+        )
+      : { rows: [] };
+    if (achievementResult.rows.length === 0) return null;
+    const achievementRow = achievementResult.rows[0];
+
+    const unlockResult = await query(
+      `INSERT INTO user_game_achievements (user_id, achievement_id, session_id, unlocked_at)
+       VALUES ($1, $2, $3, NOW())
+       ON CONFLICT (user_id, achievement_id) DO NOTHING
+       RETURNING unlocked_at`,
+      [session.user_id, achievementRow.id, session.id]
+    );
+    const newlyUnlocked = unlockResult.rows.length > 0;
+
+    const achievement = dbGameAchievementToApiGameAchievement(achievementRow);
+    if (newlyUnlocked) {
+      publish(session.user_id, "achievement:unlocked", {
+        id: achievement.id,
+        name: achievement.name,
+        description: achievement.description,
+        icon: "trophy",
+        iconUrl: achievement.iconUrl,
+        gameId: achievement.gameId,
+        gameTitle: achievementRow.game_title,
+        points: achievement.points,
+      });
+      await awardXp(session.user_id, "game_achievement", achievement.id, achievement.points);
+    }
+
+    return { achievement, newlyUnlocked };
+  };
+
+  const getSessionLeaderboard = async (session, leaderboardId) => {
+    const leaderboardResult = isUuid(leaderboardId)
+      ? await query(
+          "SELECT * FROM leaderboards WHERE id = $1 AND 'dev-' || game_id = $2",
+          [leaderboardId, session.game_id]
+        )
+      : { rows: [] };
+    return leaderboardResult.rows[0] || null;
+  };
+
+  // Scores must arrive as JSON numbers; strings, booleans and null are not
+  // coerced
+  const validateScore = (leaderboard, score) => {
+    if (typeof score !== "number" || !Number.isSafeInteger(score)) return "Score must be a whole number";
+    if (leaderboard.score_format === "time" && score < 0) return "Times can't be negative";
+    return null;
+  };
+
+  // Only a better score than the stored one replaces it
+  const submitSessionScore = async (session, leaderboard, score) => {
+    const better = leaderboard.sort_order === "asc" ? "<" : ">";
+    const period = getLeaderboardPeriod(leaderboard.reset_period);
+    const upsertResult = await query(
+      `INSERT INTO leaderboard_entries (leaderboard_id, period_start, user_id, score, session_id, submitted_at)
+       VALUES ($1, $2, $3, $4, $5, NOW())
+       ON CONFLICT (leaderboard_id, period_start, user_id)
+       DO UPDATE SET score = EXCLUDED.score, session_id = EXCLUDED.session_id, submitted_at = NOW()
+       WHERE EXCLUDED.score ${better} leaderboard_entries.score
+       RETURNING score`,
+      [leaderboard.id, period.start, session.user_id, score, session.id]
+    );
+
+    const bestResult = await query(
+      `SELECT e.score,
+              (SELECT COUNT(*) FROM leaderboard_entries o
+               WHERE o.leaderboard_id = e.leaderboard_id AND o.period_start = e.period_start
+                 AND o.score ${better} e.score) + 1 AS rank
+       FROM leaderboard_entries e
+       WHERE e.leaderboard_id = $1 AND e.period_start = $2 AND e.user_id = $3`,
+      [leaderboard.id, period.start, session.user_id]
+    );
+    const best = bestResult.rows[0];
+
+    return {
+      leaderboardId: leaderboard.id,
+      periodStart: period.start,
+      improved: upsertResult.rows.length > 0,
+      score: Number(best.score),
+      rank: parseInt(best.rank),
+    };
+  };
+
+  // ==================== GAME SERVICE ROUTES ====================
+  // Called by shipped games with an X-Nexar-Api-Key header instead of a
+  // player's token. The player is identified by their open session, which has
+  // to be for the key's game.
+
+  // Sends the 410 itself when the session isn't open or belongs to another game
+  async function getGameServiceSession(req, res) {
+    const { sessionId } = req.params;
+    const sessionResult = isUuid(sessionId)
+      ? await query(
+          "SELECT * FROM game_sessions WHERE id = $1 AND game_id = $2 AND ended_at IS NULL",
+          [sessionId, req.game.libraryId]
+        )
+      : { rows: [] };
+    if (sessionResult.rows.length === 0) {
+      res.status(410).json({ message: "Session has ended" });
+      return null;
+    }
+    return sessionResult.rows[0];
+  }
+
+  app.get("/api/game-services/sessions/:sessionId/entitlement", apiKeyMiddleware("entitlements"), async (req, res) => {
+    try {
+      const session = await getGameServiceSession(req, res);
+      if (!session) return;
+
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [session.user_id]);
+      const entitlement = await getPlayEntitlement(userResult.rows[0], req.game.libraryId);
+      res.json({ userId: session.user_id, gameId: req.game.libraryId, ...entitlement });
     } catch (error) {
-      console.error("Update game error:", error);
-      res.status(500).json({ message: "Failed to update game" });
+      console.error("Game service entitlement error:", error);
+      res.status(500).json({ message: "Failed to check entitlement" });
     }
   });
 
-  app.post("/api/developer/game/submitForReview", authMiddleware, async (req, res) => {
+  app.post("/api/game-services/sessions/:sessionId/achievements/:achievementId", apiKeyMiddleware("achievements"), async (req, res) => {
     try {
-      const { gameId } = req.body;
+      const session = await getGameServiceSession(req, res);
+      if (!session) return;
 
-      if (!gameId) {
-        return res.status(400).json({ message: "Game ID is required" });
+      const unlock = await unlockSessionAchievement(session, req.params.achievementId);
+      if (!unlock) {
+        return res.status(404).json({ message: "Achievement not found" });
       }
 
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
-      }
+      res.status(unlock.newlyUnlocked ? 201 : 200).json(unlock);
+    } catch (error) {
+      console.error("Game service unlock achievement error:", error);
+      res.status(500).json({ message: "Failed to unlock achievement" });
+    }
+  });
 
-      const user = dbUserToApiUser(userResult.rows[0]);
+  app.post("/api/game-services/sessions/:sessionId/leaderboards/:leaderboardId/scores", apiKeyMiddleware("leaderboards"), gameServiceScoreRateLimit, async (req, res) => {
+    try {
+      const session = await getGameServiceSession(req, res);
+      if (!session) return;
 
-      const gameResult = await query("SELECT * FROM developer_games WHERE game_id = $1", [gameId]);
-      if (gameResult.rows.length === 0) {
-        return res.status(404).json({ message: "Game not found" });
+      const leaderboard = await getSessionLeaderboard(session, req.params.leaderboardId);
+      if (!leaderboard) {
+        return res.status(404).json({ message: "Leaderboard not found" });
       }
 
-      const game = dbDevGameToApiDevGame(gameResult.rows[0]);
-
-      if (game.developerId !== user.id) {
-        return res.status(403).json({ message: "You can only submit your own games" });
+      const score = req.body.score;
+      const scoreError = validateScore(leaderboard, score);
+      if (scoreError) {
+        return res.status(400).json({ message: scoreError });
       }
 
-      if (game.status !== "draft" && game.status !== "rejected") {
-        return res.status(400).json({ message: "Only draft or rejected games can be submitted for review" });
-      }
+      const result = await submitSessionScore(session, leaderboard, score);
+      res.status(result.improved ? 201 : 200).json(result);
+    } catch (error) {
+      console.error("Game service submit score error:", error);
+      res.status(500).json({ message: "Failed to submit score" });
+    }
+  });
 
-      await query(
-        "UPDATE developer_games SET status = 'pending', updated_at = NOW() WHERE game_id = $1",
-        [gameId]
+  // The session player's saves for this game; writes stay on the player-facing
+  // cloud routes, which handle revisions and conflicts
+  app.get("/api/game-services/sessions/:sessionId/cloud-saves", apiKeyMiddleware("cloud_saves"), async (req, res) => {
+    try {
+      const session = await getGameServiceSession(req, res);
+      if (!session) return;
+
+      const savesResult = await query(
+        `SELECT cs.id, cs.user_id, cs.game_id, cs.save_name, cs.revision, cs.device_id, cs.device_name,
+                cs.content_type, cs.sha256, cs.created_at, cs.updated_at,
+                COALESCE(cs.size_bytes, octet_length(cs.save_data::text)) AS size_bytes,
+                COALESCE(g.title, d.title) AS game_title,
+                (SELECT COUNT(*) FROM cloud_save_revisions r WHERE r.save_id = cs.id) AS revision_count
+         FROM cloud_saves cs
+         ${CLOUD_SAVE_GAME_JOIN}
+         WHERE cs.user_id = $1 AND cs.game_id = $2
+         ORDER BY cs.updated_at DESC`,
+        [session.user_id, req.game.libraryId]
       );
 
-      res.json({ success: true, message: "Game submitted for review" });
+      res.json(savesResult.rows.map(dbCloudSaveToApiCloudSave));
     } catch (error) {
-      console.error("Submit for review error:", error);
-      res.status(500).json({ message: "Failed to submit for review" });
+      console.error("Game service cloud saves error:", error);
+      res.status(500).json({ message: "Failed to get cloud saves" });
     }
   });
 
-  app.get("/api/developer/games", authMiddleware, async (req, res) => {
+  app.get("/api/game-services/sessions/:sessionId/cloud-saves/:saveId/content", apiKeyMiddleware("cloud_saves"), async (req, res) => {
     try {
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
+      const session = await getGameServiceSession(req, res);
+      if (!session) return;
+
+      const { saveId } = req.params;
+      const saveResult = isUuid(saveId)
+        ? await query(
+            "SELECT * FROM cloud_saves WHERE id = $1 AND user_id = $2 AND game_id = $3",
+            [saveId, session.user_id, req.game.libraryId]
+          )
+        : { rows: [] };
+      if (saveResult.rows.length === 0) {
+        return res.status(404).json({ message: "Cloud save not found" });
       }
 
-      const user = dbUserToApiUser(userResult.rows[0]);
+      res.set("ETag", cloudSaveEtag(saveResult.rows[0]));
+      sendCloudSaveContent(res, saveResult.rows[0]);
+    } catch (error) {
+      console.error("Game service download cloud save error:", error);
+      res.status(500).json({ message: "Failed to download cloud save" });
+    }
+  });
 
-      if (user.role !== "developer" || user.developerProfile?.status !== "approved") {
-        return res.status(403).json({ message: "Only approved developers can view their games" });
-      }
+  // ==================== DOWNLOAD ROUTES ====================
 
-      const gamesResult = await query(
-        "SELECT * FROM developer_games WHERE developer_id = $1",
-        [user.id]
-      );
+  const getLiveBuild = async (gameId) => {
+    const result = await query(
+      "SELECT * FROM game_builds WHERE game_id = $1 AND is_live = TRUE",
+      [gameId]
+    );
+    return result.rows[0] || null;
+  };
 
-      const games = gamesResult.rows.map(dbDevGameToApiDevGame);
+  // Swaps the live build in one statement and records the release. Developer
+  // games also mirror the live version onto developer_games.version.
+  const promoteBuild = async (gameId, buildId, releasedBy) => {
+    const previous = await getLiveBuild(gameId);
+    const promoteResult = await query(
+      `UPDATE game_builds
+       SET is_live = (id = $2), promoted_at = CASE WHEN id = $2 THEN NOW() ELSE promoted_at END
+       WHERE game_id = $1 AND (is_live OR id = $2)
+       RETURNING *`,
+      [gameId, buildId]
+    );
+    const promoted = promoteResult.rows.find(row => row.id === buildId);
+
+    await query(
+      `INSERT INTO game_build_releases (game_id, build_id, previous_build_id, released_by)
+       VALUES ($1, $2, $3, $4)`,
+      [gameId, buildId, previous?.id || null, releasedBy]
+    );
+    if (gameId.startsWith("dev-")) {
+      await query(
+        "UPDATE developer_games SET version = $1, updated_at = NOW() WHERE 'dev-' || game_id = $2",
+        [promoted.version, gameId]
+      );
+    }
+    return promoted;
+  };
 
-      res.json(games);
+  // Runs ahead of multer, so nothing is written to disk and no build directory
+  // is created until the caller is an admin and the game exists
+  async function checkAdminBuildUpload(req, res, next) {
+    try {
+      const adminResult = await query("SELECT role FROM users WHERE id = $1", [req.user.userId]);
+      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+      if (!(await getCatalogGame(req.params.gameId))) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      next();
     } catch (error) {
-      console.error("Get developer games error:", error);
-      res.status(500).json({ message: "Failed to get games" });
+      console.error("Build upload check error:", error);
+      res.status(500).json({ message: "Failed to upload build" });
     }
-  });
+  }
 
-  app.get("/api/developer/game/:gameId", authMiddleware, async (req, res) => {
+  app.post("/api/admin/games/:gameId/builds", authMiddleware, checkAdminBuildUpload, uploadBuild.single("build"), async (req, res) => {
     try {
       const { gameId } = req.params;
+      const { version } = req.body;
 
-      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (userResult.rows.length === 0) {
-        return res.status(404).json({ message: "User not found" });
+      if (!req.file) {
+        return res.status(400).json({ message: "No build file uploaded" });
       }
 
-      const user = dbUserToApiUser(userResult.rows[0]);
+      if (!version) {
+        discardUpload(req);
+        return res.status(400).json({ message: "Version is required" });
+      }
 
-      const gameResult = await query("SELECT * FROM developer_games WHERE game_id = $1", [gameId]);
-      if (gameResult.rows.length === 0) {
-        return res.status(404).json({ message: "Game not found" });
+      const existingResult = await query(
+        "SELECT id FROM game_builds WHERE game_id = $1 AND version = $2",
+        [gameId, version]
+      );
+      if (existingResult.rows.length > 0) {
+        discardUpload(req);
+        return res.status(400).json({ message: "A build with this version already exists" });
       }
 
-      const game = dbDevGameToApiDevGame(gameResult.rows[0]);
+      const manifest = await createBuildManifest(req.file.path);
 
-      if (game.developerId !== user.id) {
-        return res.status(403).json({ message: "You can only view your own games" });
+      const result = await query(
+        `INSERT INTO game_builds (id, game_id, version, file_path, size_bytes, sha256, chunk_size, chunks, uploaded_by, is_live, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, FALSE, NOW())
+         RETURNING *`,
+        [uuidv4(), gameId, version, req.file.path, manifest.sizeBytes, manifest.sha256, manifest.chunkSize, JSON.stringify(manifest.chunks), req.user.userId]
+      );
+
+      let build = result.rows[0];
+      if (!(await getLiveBuild(gameId))) {
+        build = await promoteBuild(gameId, build.id, req.user.userId);
       }
 
-      res.json(game);
+      res.status(201).json(dbBuildToApiBuild(build));
     } catch (error) {
-      console.error("Get game error:", error);
-      res.status(500).json({ message: "Failed to get game" });
+      console.error("Upload build error:", error);
+      discardUpload(req);
+      res.status(500).json({ message: "Failed to upload build" });
     }
   });
 
-  app.get("/api/admin/games/pending", authMiddleware, async (req, res) => {
-    try {
-      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
-      const pendingGamesResult = await query(
-        "SELECT * FROM developer_games WHERE status = 'pending'"
-      );
+  const MAX_RELEASE_NOTES_LENGTH = 5000;
 
-      const developerIds = [...new Set(pendingGamesResult.rows.map(g => g.developer_id))];
-      let developersMap = {};
-      
-      if (developerIds.length > 0) {
-        const developersResult = await query(
-          "SELECT * FROM users WHERE id = ANY($1)",
-          [developerIds]
-        );
-        developersResult.rows.forEach(row => {
-          const dev = dbUserToApiUser(row);
-          developersMap[dev.id] = dev;
-        });
-      }
+  app.get("/api/developer/game/:gameId/builds", authMiddleware, async (req, res) => {
+    try {
+      const game = await getOwnDeveloperGame(req, res);
+      if (!game) return;
+
+      const libraryId = `dev-${game.game_id}`;
+      const [buildsResult, releasesResult] = await Promise.all([
+        query("SELECT * FROM game_builds WHERE game_id = $1 ORDER BY created_at DESC", [libraryId]),
+        query(
+          `SELECT r.*, b.version, p.version AS previous_version, u.username AS released_by_username
+           FROM game_build_releases r
+           JOIN game_builds b ON b.id = r.build_id
+           LEFT JOIN game_builds p ON p.id = r.previous_build_id
+           LEFT JOIN users u ON u.id = r.released_by
+           WHERE r.game_id = $1
+           ORDER BY r.released_at DESC`,
+          [libraryId]
+        ),
+      ]);
 
-      const gamesWithDeveloper = pendingGamesResult.rows.map(row => {
-        const game = dbDevGameToApiDevGame(row);
-        const developer = developersMap[game.developerId];
-        return {
-          ...game,
-          developerName: developer?.developerProfile?.studioName || developer?.username || "Unknown",
-        };
+      res.json({
+        builds: buildsResult.rows.map(dbBuildToApiBuild),
+        releases: releasesResult.rows.map(row => ({
+          id: row.id,
+          buildId: row.build_id,
+          version: row.version,
+          previousVersion: row.previous_version,
+          releasedBy: row.released_by_username,
+          releasedAt: row.released_at,
+        })),
       });
-
-      res.json(gamesWithDeveloper);
     } catch (error) {
-      console.error("Get pending games error:", error);
-      res.status(500).json({ message: "Failed to get pending games" });
+      console.error("Get developer builds error:", error);
+      res.status(500).json({ message: "Failed to get builds" });
     }
   });
 
-  app.post("/api/admin/game/approve", authMiddleware, async (req, res) => {
+  // Uploads are kept side by side; the first build goes live straight away and
+  // later ones wait to be promoted
+  app.post("/api/developer/game/:gameId/builds", authMiddleware, requireOwnDeveloperGame, uploadDeveloperBuild.single("build"), async (req, res) => {
     try {
-      const { gameId } = req.body;
+      const game = req.developerGame;
 
-      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
-        return res.status(403).json({ message: "Admin access required" });
+      const version = String(req.body.version || "").trim();
+      const releaseNotes = String(req.body.releaseNotes || "").trim();
+
+      if (!req.file) {
+        return res.status(400).json({ message: "No build file uploaded" });
       }
 
-      if (!gameId) {
-        return res.status(400).json({ message: "Game ID is required" });
+      const parsedVersion = parseSemver(version);
+      if (!parsedVersion) {
+        discardUpload(req);
+        return res.status(400).json({ message: "Version must be a semantic version such as 1.2.0 or 1.2.0-beta.1" });
       }
 
-      const gameResult = await query("SELECT * FROM developer_games WHERE game_id = $1", [gameId]);
-      if (gameResult.rows.length === 0) {
-        return res.status(404).json({ message: "Game not found" });
+      if (releaseNotes.length > MAX_RELEASE_NOTES_LENGTH) {
+        discardUpload(req);
+        return res.status(400).json({ message: `Release notes must be ${MAX_RELEASE_NOTES_LENGTH} characters or fewer` });
       }
 
-      const game = dbDevGameToApiDevGame(gameResult.rows[0]);
+      const libraryId = `dev-${game.game_id}`;
+      const existingResult = await query("SELECT version FROM game_builds WHERE game_id = $1", [libraryId]);
+      const latest = existingResult.rows
+        .map(row => ({ version: row.version, parsed: parseSemver(row.version) }))
+        .filter(row => row.parsed)
+        .sort((a, b) => compareSemver(b.parsed, a.parsed))[0];
 
-      await query(
-        "UPDATE developer_games SET status = 'approved', updated_at = NOW() WHERE game_id = $1",
-        [gameId]
-      );
+      if (existingResult.rows.some(row => row.version === version)) {
+        discardUpload(req);
+        return res.status(400).json({ message: "A build with this version already exists" });
+      }
+      if (latest && compareSemver(parsedVersion, latest.parsed) <= 0) {
+        discardUpload(req);
+        return res.status(400).json({ message: `Version must be higher than ${latest.version}, your latest build` });
+      }
 
-      // Award developer achievement if this is their first approved game
-      const existingAchResult = await query(
-        "SELECT id FROM achievements WHERE user_id = $1 AND achievement_id = $2",
-        [game.developerId, "developer"]
+      const manifest = await createBuildManifest(req.file.path);
+      const insertResult = await query(
+        `INSERT INTO game_builds
+           (id, game_id, version, file_path, size_bytes, sha256, chunk_size, chunks, release_notes, uploaded_by, is_live, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, FALSE, NOW())
+         RETURNING *`,
+        [
+          uuidv4(), libraryId, version, req.file.path, manifest.sizeBytes, manifest.sha256,
+          manifest.chunkSize, JSON.stringify(manifest.chunks), releaseNotes || null, req.user.userId,
+        ]
       );
-      if (existingAchResult.rows.length === 0) {
-        await query(
-          "INSERT INTO achievements (id, user_id, achievement_id, unlocked_at) VALUES ($1, $2, $3, NOW())",
-          [uuidv4(), game.developerId, "developer"]
-        );
+
+      let build = insertResult.rows[0];
+      if (!(await getLiveBuild(libraryId))) {
+        build = await promoteBuild(libraryId, build.id, req.user.userId);
       }
 
-      res.json({ success: true, message: "Game approved" });
+      res.status(201).json(dbBuildToApiBuild(build));
     } catch (error) {
-      console.error("Approve game error:", error);
-      res.status(500).json({ message: "Failed to approve game" });
+      console.error("Upload developer build error:", error);
+      discardUpload(req);
+      res.status(500).json({ message: "Failed to upload build" });
     }
   });
 
-  app.post("/api/admin/game/reject", authMiddleware, async (req, res) => {
+  app.post("/api/developer/game/:gameId/builds/:buildId/promote", authMiddleware, async (req, res) => {
     try {
-      const { gameId, reason } = req.body;
+      const game = await getOwnDeveloperGame(req, res);
+      if (!game) return;
 
-      const adminResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
-      if (adminResult.rows.length === 0 || adminResult.rows[0].role !== "admin") {
-        return res.status(403).json({ message: "Admin access required" });
+      const { buildId } = req.params;
+      const libraryId = `dev-${game.game_id}`;
+      const buildResult = isUuid(buildId)
+        ? await query("SELECT * FROM game_builds WHERE id = $1 AND game_id = $2", [buildId, libraryId])
+        : { rows: [] };
+      if (buildResult.rows.length === 0) {
+        return res.status(404).json({ message: "Build not found" });
+      }
+      if (buildResult.rows[0].is_live) {
+        return res.status(400).json({ message: "This build is already live" });
       }
 
-      if (!gameId) {
-        return res.status(400).json({ message: "Game ID is required" });
+      const build = await promoteBuild(libraryId, buildId, req.user.userId);
+      res.json(dbBuildToApiBuild(build));
+    } catch (error) {
+      console.error("Promote build error:", error);
+      res.status(500).json({ message: "Failed to promote build" });
+    }
+  });
+
+  app.get("/api/downloads/:gameId/manifest", authMiddleware, async (req, res) => {
+    try {
+      const { gameId } = req.params;
+
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      const gameResult = await query("SELECT * FROM developer_games WHERE game_id = $1", [gameId]);
-      if (gameResult.rows.length === 0) {
-        return res.status(404).json({ message: "Game not found" });
+      const entitlement = await getPlayEntitlement(userResult.rows[0], gameId);
+      if (!entitlement.allowed) {
+        return res.status(403).json({ message: entitlement.reason });
       }
 
-      await query(
-        "UPDATE developer_games SET status = 'rejected', updated_at = NOW() WHERE game_id = $1",
-        [gameId]
-      );
+      const build = await getLiveBuild(gameId);
+      if (!build) {
+        return res.status(404).json({ message: "No build is available for this game yet" });
+      }
 
-      res.json({ success: true, message: "Game rejected" });
+      res.json({
+        ...dbBuildToApiBuild(build),
+        chunks: build.chunks,
+        contentUrl: `/api/downloads/builds/${build.id}/content`,
+      });
     } catch (error) {
-      console.error("Reject game error:", error);
-      res.status(500).json({ message: "Failed to reject game" });
+      console.error("Get manifest error:", error);
+      res.status(500).json({ message: "Failed to get build manifest" });
     }
   });
 
-  app.get("/api/store/developer-games", async (req, res) => {
+  // Streams the build archive; Express handles Range requests so clients can
+  // fetch one chunk at a time and resume after an interruption.
+  app.get("/api/downloads/builds/:buildId/content", authMiddleware, async (req, res) => {
     try {
-      const approvedGamesResult = await query(
-        "SELECT * FROM developer_games WHERE status = 'approved'"
-      );
+      const buildResult = await query("SELECT * FROM game_builds WHERE id = $1", [req.params.buildId]);
+      if (buildResult.rows.length === 0) {
+        return res.status(404).json({ message: "Build not found" });
+      }
 
-      const developerIds = [...new Set(approvedGamesResult.rows.map(g => g.developer_id))];
-      let developersMap = {};
-      
-      if (developerIds.length > 0) {
-        const developersResult = await query(
-          "SELECT * FROM users WHERE id = ANY($1)",
-          [developerIds]
-        );
-        developersResult.rows.forEach(row => {
-          const dev = dbUserToApiUser(row);
-          developersMap[dev.id] = dev;
-        });
+      const build = buildResult.rows[0];
+
+      const userResult = await query("SELECT * FROM users WHERE id = $1", [req.user.userId]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      const gamesWithDeveloper = approvedGamesResult.rows.map(row => {
-        const game = dbDevGameToApiDevGame(row);
-        const developer = developersMap[game.developerId];
-        return {
-          id: `dev-${game.gameId}`,
-          gameId: game.gameId,
-          title: game.title,
-          description: game.description,
-          price: game.price,
-          genre: game.genre,
-          tags: game.tags,
-          coverImage: game.coverImage,
-          developerName: developer?.developerProfile?.studioName || developer?.username || "Unknown",
-          isDeveloperGame: true,
-        };
-      });
+      const entitlement = await getPlayEntitlement(userResult.rows[0], build.game_id);
+      if (!entitlement.allowed) {
+        return res.status(403).json({ message: entitlement.reason });
+      }
 
-      res.json(gamesWithDeveloper);
+      if (!fs.existsSync(build.file_path)) {
+        return res.status(404).json({ message: "Build file is missing" });
+      }
+
+      res.sendFile(build.file_path, {
+        acceptRanges: true,
+        headers: {
+          "Cache-Control": "private, no-transform",
+          "X-Build-Sha256": build.sha256,
+        },
+      });
     } catch (error) {
-      console.error("Get store developer games error:", error);
-      res.status(500).json({ message: "Failed to get developer games" });
+      console.error("Download build error:", error);
+      res.status(500).json({ message: "Failed to download build" });
     }
   });
 
@@ -98,3 +98,517 @@ CREATE TABLE IF NOT EXISTS game_trials (
   expires_at    TIMESTAMPTZ NOT NULL,
   UNIQUE (user_id, game_id)
 );
+
+-- Game catalog (replaces GAME_CATALOG and the client mock store arrays)
+CREATE TABLE IF NOT EXISTS games (
+  id                       TEXT PRIMARY KEY,
+  title                    TEXT NOT NULL,
+  description              TEXT DEFAULT '',
+  genre                    TEXT,
+  content_rating           TEXT DEFAULT 'E',
+  rating                   DECIMAL(2,1),
+  size                     TEXT,
+  cover_url                TEXT,
+  price                    DECIMAL(10,2) NOT NULL DEFAULT 0,
+  trial_enabled            BOOLEAN NOT NULL DEFAULT FALSE,
+  trial_duration_minutes   INTEGER,
+  nexar_plus_discount      INTEGER,
+  in_nexar_plus_collection BOOLEAN NOT NULL DEFAULT FALSE,
+  featured                 BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at               TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at               TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO games (id, title, genre, content_rating, rating, size, cover_url, price, trial_enabled, trial_duration_minutes, nexar_plus_discount, in_nexar_plus_collection, featured) VALUES
+  ('store-1', 'Galactic Frontier', 'Adventure', 'T', 4.8, '58.2 GB', NULL, 49.99, TRUE, 120, 20, FALSE, TRUE),
+  ('store-2', 'Dragon''s Legacy', 'RPG', 'M', 4.9, '72.5 GB', NULL, 59.99, TRUE, 120, 15, FALSE, TRUE),
+  ('store-3', 'Urban Legends', 'Action', 'M', 4.1, '35.8 GB', NULL, 29.99, FALSE, NULL, 25, FALSE, FALSE),
+  ('store-4', 'Quantum Break', 'Adventure', 'T', 4.4, '44.6 GB', NULL, 39.99, TRUE, 120, NULL, FALSE, FALSE),
+  ('store-5', 'Warzone Elite', 'FPS', '18+', 4.2, '89.2 GB', NULL, 69.99, FALSE, NULL, 10, FALSE, TRUE),
+  ('store-6', 'Speed Kings', 'Racing', 'E', 3.9, '25.3 GB', NULL, 24.99, FALSE, NULL, NULL, FALSE, FALSE),
+  ('store-7', 'Empire Builder', 'Strategy', 'E', 4.5, '15.8 GB', 'https://images.unsplash.com/photo-1542751371-adc38448a05e?w=400&h=600&fit=crop', 34.99, FALSE, NULL, NULL, TRUE, FALSE),
+  ('store-8', 'Championship 2025', 'Sports', 'E', 4.0, '48.1 GB', 'https://images.unsplash.com/photo-1511512578047-dfb367046420?w=400&h=600&fit=crop', 44.99, FALSE, NULL, NULL, TRUE, FALSE)
+ON CONFLICT (id) DO NOTHING;
+
+-- Content rating for developer games so the store can filter across both sources
+ALTER TABLE developer_games ADD COLUMN IF NOT EXISTS content_rating TEXT DEFAULT 'E';
+
+-- Per-user playtime and last played time for library entries
+CREATE TABLE IF NOT EXISTS game_playtime (
+  user_id        UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  game_id        TEXT NOT NULL,
+  seconds_played BIGINT NOT NULL DEFAULT 0,
+  last_played_at TIMESTAMPTZ,
+  PRIMARY KEY (user_id, game_id)
+);
+
+-- Install state per device
+CREATE TABLE IF NOT EXISTS game_installs (
+  user_id      UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  game_id      TEXT NOT NULL,
+  device_id    TEXT NOT NULL,
+  device_name  TEXT,
+  installed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, game_id, device_id)
+);
+
+-- Game sessions (server-computed playtime from start / heartbeat / end)
+CREATE TABLE IF NOT EXISTS game_sessions (
+  id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id           UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  game_id           TEXT NOT NULL,
+  device_id         TEXT,
+  source            TEXT NOT NULL,
+  started_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_heartbeat_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ended_at          TIMESTAMPTZ,
+  end_reason        TEXT,
+  seconds_counted   INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_sessions_open ON game_sessions (user_id) WHERE ended_at IS NULL;
+
+-- Game builds with chunk manifests for the download manager
+CREATE TABLE IF NOT EXISTS game_builds (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id     TEXT NOT NULL,
+  version     TEXT NOT NULL,
+  file_path   TEXT NOT NULL,
+  size_bytes  BIGINT NOT NULL,
+  sha256      TEXT NOT NULL,
+  chunk_size  INTEGER NOT NULL,
+  chunks      JSONB NOT NULL DEFAULT '[]',
+  is_live     BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (game_id, version)
+);
+
+-- Cloud save revision history; cloud_saves holds the current revision
+ALTER TABLE cloud_saves ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS cloud_save_revisions (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  save_id     UUID NOT NULL REFERENCES cloud_saves(id) ON DELETE CASCADE,
+  user_id     UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  revision    INTEGER NOT NULL,
+  save_name   TEXT NOT NULL,
+  save_data   JSONB NOT NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (save_id, revision)
+);
+
+INSERT INTO cloud_save_revisions (save_id, user_id, revision, save_name, save_data, created_at)
+SELECT id, user_id, revision, save_name, save_data, updated_at FROM cloud_saves
+ON CONFLICT (save_id, revision) DO NOTHING;
+
+-- Device of origin for cloud save conflict resolution
+ALTER TABLE cloud_saves ADD COLUMN IF NOT EXISTS device_id TEXT;
+ALTER TABLE cloud_saves ADD COLUMN IF NOT EXISTS device_name TEXT;
+ALTER TABLE cloud_save_revisions ADD COLUMN IF NOT EXISTS device_id TEXT;
+ALTER TABLE cloud_save_revisions ADD COLUMN IF NOT EXISTS device_name TEXT;
+
+-- Binary cloud save contents live in object storage; save_data is kept for
+-- saves created before uploads moved out of Postgres
+ALTER TABLE cloud_saves ALTER COLUMN save_data DROP NOT NULL;
+ALTER TABLE cloud_saves ADD COLUMN IF NOT EXISTS storage_key TEXT;
+ALTER TABLE cloud_saves ADD COLUMN IF NOT EXISTS size_bytes BIGINT;
+ALTER TABLE cloud_saves ADD COLUMN IF NOT EXISTS content_type TEXT;
+ALTER TABLE cloud_saves ADD COLUMN IF NOT EXISTS sha256 TEXT;
+ALTER TABLE cloud_save_revisions ALTER COLUMN save_data DROP NOT NULL;
+ALTER TABLE cloud_save_revisions ADD COLUMN IF NOT EXISTS storage_key TEXT;
+ALTER TABLE cloud_save_revisions ADD COLUMN IF NOT EXISTS size_bytes BIGINT;
+ALTER TABLE cloud_save_revisions ADD COLUMN IF NOT EXISTS content_type TEXT;
+ALTER TABLE cloud_save_revisions ADD COLUMN IF NOT EXISTS sha256 TEXT;
+
+-- Message receipts: delivered once the recipient's client has seen it arrive,
+-- read once they've opened the conversation
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS read_at TIMESTAMPTZ;
+CREATE INDEX IF NOT EXISTS idx_messages_unread ON messages(to_id, from_id) WHERE read_at IS NULL;
+
+-- One-time data migrations. This file runs on every start, so backfills that
+-- must only happen once record their name here when they run.
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  name        TEXT PRIMARY KEY,
+  applied_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Messages sent before receipts existed count as delivered and read
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM schema_migrations WHERE name = 'message_receipts_backfill') THEN
+    UPDATE messages SET delivered_at = timestamp, read_at = timestamp WHERE read_at IS NULL;
+    INSERT INTO schema_migrations (name) VALUES ('message_receipts_backfill');
+  END IF;
+END $$;
+
+-- Message history paging and full-text search
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+CREATE INDEX IF NOT EXISTS idx_messages_search ON messages USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_messages_from_to_timestamp ON messages(from_id, to_id, timestamp, id);
+
+-- Group conversations ("parties"); 1:1 chats stay in messages
+CREATE TABLE IF NOT EXISTS group_conversations (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name        TEXT NOT NULL,
+  avatar_url  TEXT,
+  created_by  UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS group_members (
+  group_id      UUID NOT NULL REFERENCES group_conversations(id) ON DELETE CASCADE,
+  user_id       UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role          TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  joined_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_read_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (group_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_members_user ON group_members(user_id);
+
+-- System messages (joins, leaves, renames) have no sender
+CREATE TABLE IF NOT EXISTS group_messages (
+  id         UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id   UUID NOT NULL REFERENCES group_conversations(id) ON DELETE CASCADE,
+  from_id    UUID REFERENCES users(id) ON DELETE SET NULL,
+  kind       TEXT NOT NULL DEFAULT 'text' CHECK (kind IN ('text', 'system')),
+  content    TEXT NOT NULL,
+  timestamp  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_messages_group_timestamp ON group_messages(group_id, timestamp, id);
+
+-- Who can find a user through search: everyone, friends_of_friends or nobody
+ALTER TABLE users ADD COLUMN IF NOT EXISTS discoverability TEXT NOT NULL DEFAULT 'everyone'
+  CHECK (discoverability IN ('everyone', 'friends_of_friends', 'nobody'));
+
+-- Blocked users never see the blocker in search results
+CREATE TABLE IF NOT EXISTS user_blocks (
+  blocker_id  UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  blocked_id  UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (blocker_id, blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked ON user_blocks(blocked_id);
+
+-- Username search: prefix matches and trigram fuzzy matches
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE INDEX IF NOT EXISTS idx_users_username_lower ON users (LOWER(username) text_pattern_ops);
+CREATE INDEX IF NOT EXISTS idx_users_username_trgm ON users USING GIN (username gin_trgm_ops);
+
+-- Muted users can still message you but don't trigger notifications or unread badges
+CREATE TABLE IF NOT EXISTS user_mutes (
+  muter_id    UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  muted_id    UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (muter_id, muted_id)
+);
+
+-- User reports; snapshot keeps what was reported even if it's later edited or deleted
+CREATE TABLE IF NOT EXISTS user_reports (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id     UUID REFERENCES users(id) ON DELETE SET NULL,
+  target_user_id  UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  target_type     TEXT NOT NULL CHECK (target_type IN ('message', 'group_message', 'profile', 'avatar')),
+  message_id      UUID,
+  reason          TEXT NOT NULL,
+  details         TEXT,
+  snapshot        JSONB NOT NULL DEFAULT '{}',
+  status          TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'actioned', 'dismissed')),
+  resolved_by     UUID REFERENCES users(id) ON DELETE SET NULL,
+  resolved_at     TIMESTAMPTZ,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_reports_status ON user_reports(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_user_reports_target ON user_reports(target_user_id);
+
+-- Audit trail of admin moderation actions
+CREATE TABLE IF NOT EXISTS moderation_actions (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id     UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  admin_id    UUID REFERENCES users(id) ON DELETE SET NULL,
+  report_id   UUID REFERENCES user_reports(id) ON DELETE SET NULL,
+  action      TEXT NOT NULL CHECK (action IN ('warn', 'suspend', 'unsuspend', 'clear_avatar', 'clear_bio', 'dismiss')),
+  reason      TEXT,
+  expires_at  TIMESTAMPTZ,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_user ON moderation_actions(user_id, created_at);
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS suspended_until TIMESTAMPTZ;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS suspension_reason TEXT;
+
+-- Per-field profile visibility ("public", "friends" or "private"); missing keys use the defaults in routes.js
+ALTER TABLE users ADD COLUMN IF NOT EXISTS profile_visibility JSONB NOT NULL DEFAULT '{}';
+
+-- Achievement definitions: each unlocks once the user's counter for `event` reaches `threshold`
+CREATE TABLE IF NOT EXISTS achievement_definitions (
+  id          TEXT PRIMARY KEY,
+  name        TEXT NOT NULL,
+  description TEXT NOT NULL,
+  icon        TEXT NOT NULL DEFAULT 'trophy',
+  event       TEXT NOT NULL,
+  threshold   INTEGER NOT NULL DEFAULT 1 CHECK (threshold > 0),
+  sort_order  INTEGER NOT NULL DEFAULT 0,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_achievement_definitions_event ON achievement_definitions(event);
+
+INSERT INTO achievement_definitions (id, name, description, icon, event, threshold, sort_order) VALUES
+  ('first_login', 'First Login', 'Log in for the first time', 'trophy', 'account.created', 1, 10),
+  ('profile_complete', 'Profile Complete', 'Complete your profile with avatar and bio', 'user', 'profile.completed', 1, 20),
+  ('first_friend', 'First Friend', 'Add your first friend', 'users', 'friends.count', 1, 30),
+  ('messenger', 'Messenger', 'Send your first message', 'message-circle', 'message.sent', 1, 40),
+  ('social_butterfly', 'Social Butterfly', 'Have 5 friends', 'heart', 'friends.count', 5, 50),
+  ('chat_master', 'Chat Master', 'Send 50 messages', 'messages-square', 'message.sent', 50, 60),
+  ('developer', 'Developer', 'Have a game approved for the Nexar Store', 'code', 'game.approved', 1, 70),
+  ('cloud_saver', 'Cloud Saver', 'Upload your first cloud save', 'cloud', 'cloud_save.uploaded', 1, 80),
+  ('data_keeper', 'Data Keeper', 'Upload 25 cloud saves', 'database', 'cloud_save.uploaded', 25, 90)
+ON CONFLICT (id) DO NOTHING;
+
+-- Running per-user totals for achievement events
+CREATE TABLE IF NOT EXISTS achievement_counters (
+  user_id     UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event       TEXT NOT NULL,
+  count       INTEGER NOT NULL DEFAULT 0,
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, event)
+);
+
+-- Seed counters from history so progress carries over from the inline checks,
+-- then unlock whatever the seeded counters already qualify for
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM schema_migrations WHERE name = 'achievement_counters_seed') THEN
+    INSERT INTO achievement_counters (user_id, event, count)
+    SELECT from_id, 'message.sent', COUNT(*) FROM (
+      SELECT from_id FROM messages
+      UNION ALL
+      SELECT from_id FROM group_messages WHERE kind = 'text' AND from_id IS NOT NULL
+    ) sent
+    GROUP BY from_id
+    ON CONFLICT (user_id, event) DO NOTHING;
+
+    INSERT INTO achievement_counters (user_id, event, count)
+    SELECT user_id, 'friends.count', COUNT(*) FROM (
+      SELECT sender_id AS user_id FROM friends WHERE status = 'accepted'
+      UNION ALL
+      SELECT receiver_id FROM friends WHERE status = 'accepted'
+    ) friendships
+    GROUP BY user_id
+    ON CONFLICT (user_id, event) DO NOTHING;
+
+    INSERT INTO achievement_counters (user_id, event, count)
+    SELECT user_id, 'cloud_save.uploaded', COUNT(*) FROM cloud_saves GROUP BY user_id
+    ON CONFLICT (user_id, event) DO NOTHING;
+
+    INSERT INTO achievements (user_id, achievement_id, unlocked_at)
+    SELECT c.user_id, d.id, NOW()
+    FROM achievement_counters c
+    JOIN achievement_definitions d ON d.event = c.event AND d.threshold <= c.count
+    ON CONFLICT (user_id, achievement_id) DO NOTHING;
+
+    INSERT INTO schema_migrations (name) VALUES ('achievement_counters_seed');
+  END IF;
+END $$;
+
+-- Achievements defined by developers for their own games (game_id is developer_games.game_id, without the dev- prefix)
+CREATE TABLE IF NOT EXISTS game_achievements (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id     TEXT NOT NULL REFERENCES developer_games(game_id) ON DELETE CASCADE,
+  name        TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  icon_url    TEXT,
+  hidden      BOOLEAN NOT NULL DEFAULT FALSE,
+  points      INTEGER NOT NULL DEFAULT 10 CHECK (points >= 0),
+  sort_order  INTEGER NOT NULL DEFAULT 0,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_achievements_game ON game_achievements(game_id, sort_order);
+
+-- Per-game achievements a player has unlocked, with the session they were unlocked in
+CREATE TABLE IF NOT EXISTS user_game_achievements (
+  user_id        UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  achievement_id UUID NOT NULL REFERENCES game_achievements(id) ON DELETE CASCADE,
+  session_id     UUID REFERENCES game_sessions(id) ON DELETE SET NULL,
+  unlocked_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, achievement_id)
+);
+
+-- Rarity counts unlocks per achievement across all users
+CREATE INDEX IF NOT EXISTS idx_achievements_achievement ON achievements(achievement_id);
+CREATE INDEX IF NOT EXISTS idx_user_game_achievements_achievement ON user_game_achievements(achievement_id);
+
+-- Points per platform achievement; they count towards achievement points and XP
+ALTER TABLE achievement_definitions ADD COLUMN IF NOT EXISTS points INTEGER NOT NULL DEFAULT 10;
+
+-- Starting values only; after this runs once, points are edited in the table
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM schema_migrations WHERE name = 'achievement_points_defaults') THEN
+    UPDATE achievement_definitions d SET points = v.points
+    FROM (VALUES
+      ('first_login', 5),
+      ('profile_complete', 10),
+      ('first_friend', 10),
+      ('messenger', 10),
+      ('social_butterfly', 25),
+      ('chat_master', 50),
+      ('developer', 50),
+      ('cloud_saver', 10),
+      ('data_keeper', 25)
+    ) AS v(id, points)
+    WHERE d.id = v.id AND d.points <> v.points;
+
+    INSERT INTO schema_migrations (name) VALUES ('achievement_points_defaults');
+  END IF;
+END $$;
+
+-- Every XP grant, keyed by what earned it so replays can't award it twice
+CREATE TABLE IF NOT EXISTS xp_ledger (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id     UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  source      TEXT NOT NULL CHECK (source IN ('achievement', 'game_achievement', 'playtime')),
+  source_id   TEXT NOT NULL,
+  amount      INTEGER NOT NULL CHECK (amount >= 0),
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, source, source_id)
+);
+
+-- Ledger totals cached on the user row so /me and profiles don't sum the ledger
+ALTER TABLE users ADD COLUMN IF NOT EXISTS xp INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS achievement_points INTEGER NOT NULL DEFAULT 0;
+
+-- Seed the ledger from unlocks and sessions that predate it
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM schema_migrations WHERE name = 'xp_ledger_seed') THEN
+    INSERT INTO xp_ledger (user_id, source, source_id, amount)
+    SELECT a.user_id, 'achievement', a.achievement_id, d.points
+    FROM achievements a
+    JOIN achievement_definitions d ON d.id = a.achievement_id
+    ON CONFLICT (user_id, source, source_id) DO NOTHING;
+
+    INSERT INTO xp_ledger (user_id, source, source_id, amount)
+    SELECT u.user_id, 'game_achievement', u.achievement_id::text, ga.points
+    FROM user_game_achievements u
+    JOIN game_achievements ga ON ga.id = u.achievement_id
+    ON CONFLICT (user_id, source, source_id) DO NOTHING;
+
+    INSERT INTO xp_ledger (user_id, source, source_id, amount)
+    SELECT user_id, 'playtime', id::text, seconds_counted / 60
+    FROM game_sessions
+    WHERE seconds_counted >= 60
+    ON CONFLICT (user_id, source, source_id) DO NOTHING;
+
+    UPDATE users u SET xp = t.xp, achievement_points = t.achievement_points
+    FROM (
+      SELECT user_id,
+             SUM(amount)::int AS xp,
+             COALESCE(SUM(amount) FILTER (WHERE source IN ('achievement', 'game_achievement')), 0)::int AS achievement_points
+      FROM xp_ledger
+      GROUP BY user_id
+    ) t
+    WHERE t.user_id = u.id AND (u.xp <> t.xp OR u.achievement_points <> t.achievement_points);
+
+    INSERT INTO schema_migrations (name) VALUES ('xp_ledger_seed');
+  END IF;
+END $$;
+
+-- Leaderboards defined by developers for their games
+CREATE TABLE IF NOT EXISTS leaderboards (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id       TEXT NOT NULL REFERENCES developer_games(game_id) ON DELETE CASCADE,
+  name          TEXT NOT NULL,
+  sort_order    TEXT NOT NULL DEFAULT 'desc' CHECK (sort_order IN ('asc', 'desc')),
+  score_format  TEXT NOT NULL DEFAULT 'number' CHECK (score_format IN ('number', 'time', 'decimal')),
+  reset_period  TEXT NOT NULL DEFAULT 'all_time' CHECK (reset_period IN ('daily', 'weekly', 'all_time')),
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboards_game ON leaderboards(game_id);
+
+-- Each player's best score per leaderboard period; all-time boards use a single 1970-01-01 period
+CREATE TABLE IF NOT EXISTS leaderboard_entries (
+  leaderboard_id UUID NOT NULL REFERENCES leaderboards(id) ON DELETE CASCADE,
+  period_start   DATE NOT NULL,
+  user_id        UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  score          BIGINT NOT NULL,
+  session_id     UUID REFERENCES game_sessions(id) ON DELETE SET NULL,
+  submitted_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (leaderboard_id, period_start, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_entries_score ON leaderboard_entries(leaderboard_id, period_start, score);
+
+-- Per-game API keys for shipped games; only a SHA-256 of the key is stored
+CREATE TABLE IF NOT EXISTS game_api_keys (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id      TEXT NOT NULL REFERENCES developer_games(game_id) ON DELETE CASCADE,
+  name         TEXT NOT NULL,
+  key_prefix   TEXT NOT NULL UNIQUE,
+  key_hash     TEXT NOT NULL,
+  scopes       TEXT[] NOT NULL DEFAULT '{}',
+  created_by   UUID REFERENCES users(id) ON DELETE SET NULL,
+  rotated_from UUID REFERENCES game_api_keys(id) ON DELETE SET NULL,
+  usage_count  BIGINT NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMPTZ,
+  revoked_at   TIMESTAMPTZ,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_api_keys_game ON game_api_keys(game_id);
+
+-- Developer build uploads carry release notes and remember when they went live
+ALTER TABLE game_builds ADD COLUMN IF NOT EXISTS release_notes TEXT;
+ALTER TABLE game_builds ADD COLUMN IF NOT EXISTS uploaded_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE game_builds ADD COLUMN IF NOT EXISTS promoted_at TIMESTAMPTZ;
+
+-- One row per promotion, so the release history survives later promotions
+CREATE TABLE IF NOT EXISTS game_build_releases (
+  id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id           TEXT NOT NULL,
+  build_id          UUID NOT NULL REFERENCES game_builds(id) ON DELETE CASCADE,
+  previous_build_id UUID REFERENCES game_builds(id) ON DELETE SET NULL,
+  released_by       UUID REFERENCES users(id) ON DELETE SET NULL,
+  released_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_build_releases_game ON game_build_releases(game_id, released_at DESC);
+
+-- Builds that were already live before release tracking
+INSERT INTO game_build_releases (game_id, build_id, released_at)
+SELECT b.game_id, b.id, b.created_at FROM game_builds b
+WHERE b.is_live AND NOT EXISTS (SELECT 1 FROM game_build_releases r WHERE r.build_id = b.id);
+
+UPDATE game_builds SET promoted_at = created_at WHERE is_live AND promoted_at IS NULL;
+
+-- Uploaded store media for developer games. developer_games.cover_image and
+-- screenshots are kept in step with it for the store listing.
+CREATE TABLE IF NOT EXISTS developer_game_media (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id      TEXT NOT NULL REFERENCES developer_games(game_id) ON DELETE CASCADE,
+  kind         TEXT NOT NULL CHECK (kind IN ('cover', 'screenshot', 'trailer_thumbnail')),
+  url          TEXT NOT NULL,
+  file_path    TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  width        INTEGER NOT NULL,
+  height       INTEGER NOT NULL,
+  size_bytes   BIGINT NOT NULL,
+  video_url    TEXT,
+  sort_order   INTEGER NOT NULL DEFAULT 0,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_developer_game_media_game ON developer_game_media(game_id, kind, sort_order);
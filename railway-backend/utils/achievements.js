@@ -0,0 +1,90 @@
+const { query } = require("../db");
+const { publish } = require("../realtime");
+const { awardXp } = require("./progression");
+
+// =======================
+// ACHIEVEMENT ENGINE
+// =======================
+// Routes report what happened as named events; definitions in
+// achievement_definitions say which event counter unlocks what and at which
+// threshold. Unlocks are evaluated here and nowhere else.
+
+function dbDefinitionToApiAchievement(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    icon: row.icon,
+    points: row.points,
+  };
+}
+
+async function getAchievementDefinitions() {
+  const definitionsResult = await query(
+    "SELECT * FROM achievement_definitions ORDER BY sort_order ASC, id ASC"
+  );
+  return definitionsResult.rows.map(dbDefinitionToApiAchievement);
+}
+
+// Records an event for the user and unlocks anything whose threshold the
+// counter now meets. Without a value the counter goes up by one; with a value
+// it is set to that total (for state like "number of friends" that the caller
+// has already counted), so it can go down as well as up. Unlocks are kept
+// either way. Newly unlocked achievements are pushed to the
+// user's sockets and returned so the route can include them in its response.
+async function emitEvent(userId, event, { value } = {}) {
+  const counterResult = value === undefined
+    ? await query(
+        `INSERT INTO achievement_counters (user_id, event, count, updated_at)
+         VALUES ($1, $2, 1, NOW())
+         ON CONFLICT (user_id, event)
+         DO UPDATE SET count = achievement_counters.count + 1, updated_at = NOW()
+         RETURNING count`,
+        [userId, event]
+      )
+    : await query(
+        `INSERT INTO achievement_counters (user_id, event, count, updated_at)
+         VALUES ($1, $2, $3, NOW())
+         ON CONFLICT (user_id, event)
+         DO UPDATE SET count = EXCLUDED.count, updated_at = NOW()
+         RETURNING count`,
+        [userId, event, value]
+      );
+  const count = counterResult.rows[0].count;
+
+  const unlockResult = await query(
+    `INSERT INTO achievements (user_id, achievement_id, unlocked_at)
+     SELECT $1, d.id, NOW()
+     FROM achievement_definitions d
+     WHERE d.event = $2 AND d.threshold <= $3
+     ON CONFLICT (user_id, achievement_id) DO NOTHING
+     RETURNING achievement_id`,
+    [userId, event, count]
+  );
+  if (unlockResult.rows.length === 0) return [];
+
+  const definitionsResult = await query(
+    "SELECT * FROM achievement_definitions WHERE id = ANY($1) ORDER BY sort_order ASC",
+    [unlockResult.rows.map(row => row.achievement_id)]
+  );
+  const unlocked = definitionsResult.rows.map(dbDefinitionToApiAchievement);
+  for (const achievement of unlocked) {
+    publish(userId, "achievement:unlocked", achievement);
+    await awardXp(userId, "achievement", achievement.id, achievement.points);
+  }
+  return unlocked;
+}
+
+// Share of `population` that has unlocked an achievement, to one decimal place
+function rarityPercent(unlockCount, population) {
+  if (!population) return 0;
+  return Math.round((Math.min(unlockCount, population) / population) * 1000) / 10;
+}
+
+module.exports = {
+  dbDefinitionToApiAchievement,
+  rarityPercent,
+  getAchievementDefinitions,
+  emitEvent,
+};
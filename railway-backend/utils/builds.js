@@ -0,0 +1,134 @@
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+
+const BUILD_CHUNK_SIZE = 8 * 1024 * 1024;
+
+function getBuildStorageDir(gameId) {
+  const safeGameId = String(gameId).replace(/[^a-zA-Z0-9_-]/g, "_");
+  const dir = path.join(process.cwd(), "uploads/builds", safeGameId);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  return dir;
+}
+
+// =======================
+// MANIFEST: CHUNK + HASH A BUILD FILE
+// =======================
+// Splits the file into fixed-size chunks and hashes each one so clients can
+// verify and resume a download chunk by chunk.
+function createBuildManifest(filePath, chunkSize = BUILD_CHUNK_SIZE) {
+  return new Promise((resolve, reject) => {
+    const fileHash = crypto.createHash("sha256");
+    const chunks = [];
+    let chunkHash = crypto.createHash("sha256");
+    let chunkBytes = 0;
+    let offset = 0;
+
+    const finishChunk = () => {
+      chunks.push({
+        index: chunks.length,
+        offset: offset - chunkBytes,
+        size: chunkBytes,
+        sha256: chunkHash.digest("hex"),
+      });
+      chunkHash = crypto.createHash("sha256");
+      chunkBytes = 0;
+    };
+
+    const stream = fs.createReadStream(filePath);
+
+    stream.on("data", (data) => {
+      fileHash.update(data);
+      let position = 0;
+
+      while (position < data.length) {
+        const take = Math.min(chunkSize - chunkBytes, data.length - position);
+        chunkHash.update(data.subarray(position, position + take));
+        chunkBytes += take;
+        offset += take;
+        position += take;
+
+        if (chunkBytes === chunkSize) {
+          finishChunk();
+        }
+      }
+    });
+
+    stream.on("end", () => {
+      if (chunkBytes > 0) {
+        finishChunk();
+      }
+      resolve({
+        sizeBytes: offset,
+        sha256: fileHash.digest("hex"),
+        chunkSize,
+        chunks,
+      });
+    });
+
+    stream.on("error", reject);
+  });
+}
+
+// =======================
+// SEMVER
+// =======================
+// Build versions are MAJOR.MINOR.PATCH with an optional -prerelease; +build
+// metadata is accepted and ignored when comparing, as the spec says.
+const SEMVER_PATTERN = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+function parseSemver(version) {
+  const match = SEMVER_PATTERN.exec(String(version || "").trim());
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split(".") : [],
+  };
+}
+
+// Negative, zero or positive like a sort comparator. Expects parsed versions.
+function compareSemver(a, b) {
+  for (const part of ["major", "minor", "patch"]) {
+    if (a[part] !== b[part]) return a[part] - b[part];
+  }
+
+  // A release ranks above any of its prereleases
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+    if (left === undefined) return -1;
+    if (right === undefined) return 1;
+    if (left === right) continue;
+
+    const leftNumeric = /^\d+$/.test(left);
+    const rightNumeric = /^\d+$/.test(right);
+    if (leftNumeric && rightNumeric) return Number(left) - Number(right);
+    if (leftNumeric !== rightNumeric) return leftNumeric ? -1 : 1;
+    return left < right ? -1 : 1;
+  }
+  return 0;
+}
+
+function formatBytes(bytes) {
+  if (!bytes) return "0 B";
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  const exponent = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  return `${(bytes / Math.pow(1024, exponent)).toFixed(exponent === 0 ? 0 : 1)} ${units[exponent]}`;
+}
+
+module.exports = {
+  BUILD_CHUNK_SIZE,
+  getBuildStorageDir,
+  createBuildManifest,
+  parseSemver,
+  compareSemver,
+  formatBytes,
+};
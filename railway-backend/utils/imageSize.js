@@ -0,0 +1,98 @@
+const fs = require("fs");
+
+// =======================
+// IMAGE TYPE + DIMENSIONS
+// =======================
+// Reads the format and pixel size from the file's own header instead of
+// trusting the upload's mimetype. Covers the formats uploads accept: PNG,
+// JPEG, GIF and WebP.
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// JPEG start-of-frame markers carry the dimensions; C4, C8 and CC share the
+// range but are tables, not frames
+const JPEG_SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+function readPng(buffer) {
+  if (buffer.length < 24 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) return null;
+  if (buffer.toString("ascii", 12, 16) !== "IHDR") return null;
+  return { contentType: "image/png", width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+}
+
+function readGif(buffer) {
+  const signature = buffer.toString("ascii", 0, 6);
+  if (buffer.length < 10 || (signature !== "GIF87a" && signature !== "GIF89a")) return null;
+  return { contentType: "image/gif", width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+}
+
+function readJpeg(buffer) {
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+    const marker = buffer[offset + 1];
+
+    // Fill bytes and markers without a length segment
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      offset += 2;
+      continue;
+    }
+
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      return {
+        contentType: "image/jpeg",
+        width: buffer.readUInt16BE(offset + 7),
+        height: buffer.readUInt16BE(offset + 5),
+      };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function readWebp(buffer) {
+  if (buffer.length < 30 || buffer.toString("ascii", 0, 4) !== "RIFF" || buffer.toString("ascii", 8, 12) !== "WEBP") {
+    return null;
+  }
+
+  const chunk = buffer.toString("ascii", 12, 16);
+  if (chunk === "VP8 ") {
+    return {
+      contentType: "image/webp",
+      width: buffer.readUInt16LE(26) & 0x3fff,
+      height: buffer.readUInt16LE(28) & 0x3fff,
+    };
+  }
+  if (chunk === "VP8L") {
+    const bits = buffer.readUInt32LE(21);
+    return {
+      contentType: "image/webp",
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+    };
+  }
+  if (chunk === "VP8X") {
+    return {
+      contentType: "image/webp",
+      width: buffer.readUIntLE(24, 3) + 1,
+      height: buffer.readUIntLE(27, 3) + 1,
+    };
+  }
+  return null;
+}
+
+// Resolves to { contentType, width, height }, or null when the file isn't a
+// supported image
+async function readImageInfo(filePath) {
+  const buffer = await fs.promises.readFile(filePath);
+  return readPng(buffer) || readGif(buffer) || readWebp(buffer) || readJpeg(buffer);
+}
+
+module.exports = {
+  readImageInfo,
+};
@@ -0,0 +1,85 @@
+const { query } = require("../db");
+const { publish } = require("../realtime");
+
+// =======================
+// XP AND LEVELS
+// =======================
+// XP is granted through xp_ledger, one row per thing that earned it, and the
+// totals are cached on users.xp / users.achievement_points.
+
+const LEVEL_XP_STEP = 100;
+const PLAYTIME_XP_PER_MINUTE = 1;
+const ACHIEVEMENT_XP_SOURCES = ["achievement", "game_achievement"];
+
+// Total XP needed to reach a level: 0 for 1, 100 for 2, 300 for 3, 600 for 4...
+function xpForLevel(level) {
+  return (LEVEL_XP_STEP * (level - 1) * level) / 2;
+}
+
+function levelForXp(xp) {
+  let level = Math.max(1, Math.floor((1 + Math.sqrt(1 + (8 * xp) / LEVEL_XP_STEP)) / 2));
+  // Guard the float maths at exact level boundaries
+  while (xpForLevel(level + 1) <= xp) level++;
+  while (level > 1 && xpForLevel(level) > xp) level--;
+  return level;
+}
+
+function toProgression(row) {
+  const xp = parseInt(row?.xp) || 0;
+  const level = levelForXp(xp);
+  return {
+    level,
+    xp,
+    levelXp: xp - xpForLevel(level),
+    nextLevelXp: xpForLevel(level + 1) - xpForLevel(level),
+    achievementPoints: parseInt(row?.achievement_points) || 0,
+  };
+}
+
+// Grants (or tops up) the XP for one source. Calling again with the same
+// source only ever raises the amount, so unlock and heartbeat retries are safe.
+async function awardXp(userId, source, sourceId, amount) {
+  if (!(amount > 0)) return null;
+
+  const ledgerResult = await query(
+    `INSERT INTO xp_ledger (user_id, source, source_id, amount)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (user_id, source, source_id)
+     DO UPDATE SET amount = EXCLUDED.amount, updated_at = NOW()
+     WHERE xp_ledger.amount < EXCLUDED.amount
+     RETURNING id`,
+    [userId, source, String(sourceId), amount]
+  );
+  if (ledgerResult.rows.length === 0) return null;
+
+  const totalsResult = await query(
+    `WITH previous AS (SELECT xp FROM users WHERE id = $1)
+     UPDATE users SET
+       xp = (SELECT COALESCE(SUM(amount), 0) FROM xp_ledger WHERE user_id = $1),
+       achievement_points = (SELECT COALESCE(SUM(amount), 0) FROM xp_ledger WHERE user_id = $1 AND source = ANY($2))
+     WHERE id = $1
+     RETURNING xp, achievement_points, (SELECT xp FROM previous) AS previous_xp`,
+    [userId, ACHIEVEMENT_XP_SOURCES]
+  );
+  const totals = totalsResult.rows[0];
+  if (!totals) return null;
+
+  const progression = toProgression(totals);
+  publish(userId, "progression:updated", {
+    ...progression,
+    leveledUp: progression.level > levelForXp(parseInt(totals.previous_xp) || 0),
+  });
+  return progression;
+}
+
+// Playtime XP is credited per session as whole minutes are counted
+function awardPlaytimeXp(session) {
+  const minutes = Math.floor((session.seconds_counted || 0) / 60);
+  return awardXp(session.user_id, "playtime", session.id, minutes * PLAYTIME_XP_PER_MINUTE);
+}
+
+module.exports = {
+  toProgression,
+  awardXp,
+  awardPlaytimeXp,
+};
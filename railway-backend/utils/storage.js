@@ -0,0 +1,82 @@
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+
+// Objects live on local disk under STORAGE_DIR. Callers only deal in object
+// keys, so swapping in a remote object store only means reimplementing this file.
+const STORAGE_ROOT = process.env.STORAGE_DIR || path.join(process.cwd(), "uploads/storage");
+
+function ensureDir(dir) {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  return dir;
+}
+
+function resolveObjectPath(key) {
+  const objectPath = path.resolve(STORAGE_ROOT, key);
+  if (!objectPath.startsWith(path.resolve(STORAGE_ROOT) + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return objectPath;
+}
+
+// Multer writes incoming files here so they can be renamed into place
+// without crossing filesystems.
+function getIncomingDir() {
+  return ensureDir(path.join(STORAGE_ROOT, ".incoming"));
+}
+
+function hashFile(filePath) {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (data) => hash.update(data))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
+
+// =======================
+// PUT: MOVE AN UPLOADED FILE INTO STORAGE
+// =======================
+async function putObject(key, sourcePath) {
+  const objectPath = resolveObjectPath(key);
+  ensureDir(path.dirname(objectPath));
+
+  const sha256 = await hashFile(sourcePath);
+  try {
+    await fs.promises.rename(sourcePath, objectPath);
+  } catch (error) {
+    if (error.code !== "EXDEV") throw error;
+    await fs.promises.copyFile(sourcePath, objectPath);
+    await fs.promises.unlink(sourcePath);
+  }
+
+  const stats = await fs.promises.stat(objectPath);
+  return { key, sizeBytes: stats.size, sha256 };
+}
+
+function objectExists(key) {
+  return fs.existsSync(resolveObjectPath(key));
+}
+
+function createObjectStream(key) {
+  return fs.createReadStream(resolveObjectPath(key));
+}
+
+async function deleteObject(key) {
+  try {
+    await fs.promises.unlink(resolveObjectPath(key));
+  } catch (error) {
+    if (error.code !== "ENOENT") throw error;
+  }
+}
+
+module.exports = {
+  getIncomingDir,
+  putObject,
+  objectExists,
+  createObjectStream,
+  deleteObject,
+};
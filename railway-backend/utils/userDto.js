@@ -0,0 +1,92 @@
+const { toProgression } = require("./progression");
+
+// =======================
+// USER RESPONSE SHAPES
+// =======================
+// Every route that sends a user back picks the shape for its audience. Each
+// function whitelists fields from the raw users row, so a new column (or a new
+// key in the developer_profile blob) stays private until it's added here.
+
+// Only the application fields from developer_profile; the same blob also
+// holds the hashed parental PIN, subscription ids and trial usage.
+function toDeveloperProfile(profile) {
+  if (!profile || !profile.status) return null;
+  return {
+    studioName: profile.studioName || "",
+    website: profile.website || "",
+    description: profile.description || "",
+    contactEmail: profile.contactEmail || "",
+    status: profile.status,
+  };
+}
+
+// Anyone who can see the user at all, e.g. search results
+function toPublicUser(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    username: row.username,
+    avatarUrl: row.avatar_url || "",
+    bio: row.bio || "",
+  };
+}
+
+// Accepted friends and pending friend requests
+function toFriendUser(row) {
+  if (!row) return null;
+  return {
+    ...toPublicUser(row),
+    createdAt: row.created_at,
+  };
+}
+
+// The signed-in user's own account
+function toSelfUser(row) {
+  if (!row) return null;
+  return {
+    ...toFriendUser(row),
+    email: row.email,
+    verified: row.verified,
+    role: row.role || "user",
+    isDeveloper: row.is_developer,
+    developerProfile: toDeveloperProfile(row.developer_profile),
+    walletBalance: parseFloat(row.wallet_balance) || 0,
+    ownedGames: row.owned_games || [],
+    nexarPlusStatus: row.nexar_plus_status,
+    discoverability: row.discoverability || "everyone",
+    progression: toProgression(row),
+  };
+}
+
+// Moderation and developer review screens
+function toAdminUser(row) {
+  if (!row) return null;
+  return {
+    ...toSelfUser(row),
+    suspendedUntil: row.suspended_until,
+    suspensionReason: row.suspension_reason || "",
+  };
+}
+
+// Parental settings as the account owner sees them; the hashed PIN stays in
+// the developer_profile blob
+function toParentalControls(controls) {
+  if (!controls) return null;
+  return {
+    enabled: !!controls.enabled,
+    playtimeLimit: controls.playtimeLimit ?? null,
+    canMakePurchases: controls.canMakePurchases !== false,
+    restrictedRatings: controls.restrictedRatings || [],
+    requiresParentApproval: !!controls.requiresParentApproval,
+    dailyPlaytimeLog: controls.dailyPlaytimeLog || null,
+  };
+}
+
+module.exports = {
+  toDeveloperProfile,
+  toParentalControls,
+  toPublicUser,
+  toFriendUser,
+  toSelfUser,
+  toAdminUser,
+};